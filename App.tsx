@@ -8,6 +8,7 @@ import { Navbar } from './components/Navbar';
 import { LoginPromptModal } from './components/auth/LoginPromptModal';
 import { OfflineNotification } from './src/components/common/OfflineNotification';
 import { InstallPrompt } from './src/components/common/InstallPrompt';
+import { OutboxConflictPrompt } from './src/components/common/OutboxConflictPrompt';
 import { UserRole } from './types';
 import { registerServiceWorker, setupOfflineDetection } from './src/pwa';
 
@@ -19,6 +20,7 @@ import { ClinicOwnerDashboardRoutes } from './pages/dashboard/ClinicOwnerDashboa
 import { AdminDashboardRoutes } from './pages/dashboard/AdminDashboardPage';
 import { ClientProfilePage } from './pages/dashboard/client/ClientProfilePage';
 import { MigrationPage } from './src/migration/MigrationPage';
+import { MessagesPage } from './pages/MessagesPage';
 
 // Register service worker for PWA
 registerServiceWorker();
@@ -96,6 +98,16 @@ const AppContent: React.FC = () => {
               }
             />
 
+            {/* Messaging, available to every role */}
+            <Route 
+              path="/messages/:conversationId?"
+              element={
+                <ProtectedRoute allowedRoles={[UserRole.CLIENT, UserRole.THERAPIST, UserRole.CLINIC_OWNER, UserRole.ADMIN]}>
+                  <MessagesPage />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Protected Dashboard Routes */}
             <Route 
               path="/dashboard/client/profile"
@@ -153,6 +165,7 @@ const AppContent: React.FC = () => {
       />
       <OfflineNotification />
       <InstallPrompt />
+      <OutboxConflictPrompt />
     </div>
   );
 };
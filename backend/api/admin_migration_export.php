@@ -0,0 +1,122 @@
+<?php
+// backend/api/admin_migration_export.php
+
+declare(strict_types=1);
+ini_set('display_errors', '0'); // Log errors, don't display in API output
+error_reporting(E_ALL);
+
+try { // Global try-catch block to handle any unhandled errors
+    // --- Includes ---
+    require_once __DIR__ . '/../config/core.php';
+    require_once __DIR__ . '/../config/db.php'; // Provides $pdo
+
+    // Read by the Firestore migration job in Firebase Functions, server to server,
+    // so there is no CORS handling and no user JWT: the job sends MIGRATION_EXPORT_KEY.
+    $method = strtoupper($_SERVER['REQUEST_METHOD']);
+
+    $migrationKey = defined('MIGRATION_EXPORT_KEY') ? MIGRATION_EXPORT_KEY : '';
+    if ($migrationKey === '') {
+        sendJsonResponse(['status' => 'error', 'message' => 'Migration export is disabled.'], 503);
+    }
+    $providedKey = $_SERVER['HTTP_X_MIGRATION_KEY'] ?? '';
+    if (!is_string($providedKey) || !hash_equals($migrationKey, $providedKey)) {
+        sendJsonResponse(['status' => 'error', 'message' => 'Invalid migration key.'], 403);
+    }
+
+    // Exported tables. Each page is ordered by `key`, which the caller passes back
+    // as `after` to read the next page, so pages stay stable while rows are added.
+    $tables = [
+        'users' => [
+            'select' => "SELECT u.id, u.name, u.email, u.role, u.profile_picture_url, u.created_at, u.updated_at, u.id AS migration_key FROM users u",
+            'key' => 'u.id'
+        ],
+        'therapists_data' => [
+            'select' => "SELECT td.*, u.name, u.email, u.profile_picture_url, td.user_id AS migration_key FROM therapists_data td JOIN users u ON u.id = td.user_id",
+            'key' => 'td.user_id'
+        ],
+        'certifications' => [
+            'select' => "SELECT c.*, c.id AS migration_key FROM certifications c",
+            'key' => 'c.id'
+        ],
+        'clinics_data' => [
+            'select' => "SELECT cd.*, cd.clinic_id AS migration_key FROM clinics_data cd",
+            'key' => 'cd.clinic_id'
+        ],
+        'clinic_spaces' => [
+            'select' => "SELECT cs.*, cd.clinic_name AS clinicName, cd.address AS clinicAddress, cs.id AS migration_key FROM clinic_spaces cs LEFT JOIN clinics_data cd ON cd.clinic_id = cs.clinic_id",
+            'key' => 'cs.id'
+        ],
+        'client_therapist_favorites' => [
+            'select' => "SELECT f.*, CONCAT(f.client_user_id, '_', f.therapist_user_id) AS migration_key FROM client_therapist_favorites f",
+            'key' => "CONCAT(f.client_user_id, '_', f.therapist_user_id)"
+        ],
+        'user_inquiries' => [
+            'select' => "SELECT ui.*, ui.id AS migration_key FROM user_inquiries ui",
+            'key' => 'ui.id'
+        ],
+        'activity_logs' => [
+            'select' => "SELECT al.*, al.id AS migration_key FROM activity_logs al",
+            'key' => 'al.id'
+        ],
+        'membership_history' => [
+            'select' => "SELECT mh.*, mh.id AS migration_key FROM membership_history mh",
+            'key' => 'mh.id'
+        ]
+    ];
+
+    // --- Handle GET Request: Fetch one page of a table, or its row count ---
+    if ($method === 'GET') {
+        $table = $_GET['table'] ?? null;
+        if (!is_string($table) || !isset($tables[$table])) {
+            sendJsonResponse(['status' => 'error', 'message' => 'Invalid table. Allowed tables: ' . implode(', ', array_keys($tables)) . '.'], 400);
+        }
+        $definition = $tables[$table];
+
+        try {
+            if (isset($_GET['count'])) {
+                $countStmt = $pdo->query("SELECT COUNT(*) FROM {$table}");
+                sendJsonResponse(['status' => 'success', 'table' => $table, 'count' => (int)$countStmt->fetchColumn()]);
+            }
+
+            $limit = isset($_GET['limit']) ? max(1, min(500, (int)$_GET['limit'])) : 200;
+            $after = isset($_GET['after']) && $_GET['after'] !== '' ? (string)$_GET['after'] : null;
+
+            $sql = $definition['select'];
+            if ($after !== null) {
+                $sql .= " WHERE {$definition['key']} > :after";
+            }
+            $sql .= " ORDER BY {$definition['key']} ASC LIMIT :limit";
+
+            $stmt = $pdo->prepare($sql);
+            if ($after !== null) {
+                $stmt->bindValue(':after', $after);
+            }
+            $stmt->bindValue(':limit', $limit, PDO::PARAM_INT);
+            $stmt->execute();
+            $rows = $stmt->fetchAll(PDO::FETCH_ASSOC);
+
+            $nextCursor = count($rows) === $limit ? $rows[count($rows) - 1]['migration_key'] : null;
+
+            sendJsonResponse([
+                'status' => 'success',
+                'table' => $table,
+                'rows' => $rows,
+                'nextCursor' => $nextCursor
+            ]);
+        } catch (PDOException $e) {
+            error_log("Database error exporting {$table} for migration: " . $e->getMessage());
+            sendJsonResponse(['status' => 'error', 'message' => 'A server error occurred while exporting the table.'], 500);
+        }
+    }
+
+    // --- Invalid Method ---
+    else {
+        sendJsonResponse(['status' => 'error', 'message' => 'Invalid request method for admin/migration_export.'], 405);
+    }
+} catch (Throwable $e) {
+    // Log the error and send a clean JSON response
+    error_log("Unhandled error in admin_migration_export.php: " . $e->getMessage());
+    error_log("Stack trace: " . $e->getTraceAsString());
+    sendJsonResponse(['status' => 'error', 'message' => 'An unexpected error occurred.'], 500);
+}
+?>
@@ -100,6 +100,23 @@ try { // Global try-catch block to handle any unhandled errors
         try {
             $pdo->beginTransaction();
 
+            // Edits made offline carry the version they were made against (X-Base-Version).
+            // If the profile has changed since, the client asks the user which one to keep.
+            $baseVersion = $_SERVER['HTTP_X_BASE_VERSION'] ?? '';
+            if ($baseVersion !== '') {
+                $versionStmt = $pdo->prepare("SELECT updated_at FROM therapists_data WHERE user_id = :user_id FOR UPDATE");
+                $versionStmt->execute([':user_id' => $therapistIdToUpdate]);
+                $currentVersion = $versionStmt->fetchColumn();
+                if (!empty($currentVersion) && (string) $currentVersion !== $baseVersion) {
+                    $pdo->rollBack();
+                    sendJsonResponse([
+                        'status' => 'conflict',
+                        'message' => 'The profile was changed after these edits were made.',
+                        'current' => fetchFullTherapistProfile($therapistIdToUpdate, $pdo)
+                    ], 409);
+                }
+            }
+
             // 1. Update `users` table (name, profile_picture_url)
             $userUpdateFields = [];
             $userParams = [':id' => $therapistIdToUpdate];
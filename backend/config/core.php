@@ -51,6 +51,14 @@ if (!defined('JWT_EXPIRATION_TIME_SECONDS')) {
     define('JWT_EXPIRATION_TIME_SECONDS', 60 * 60 * 24 * 7); // Token valid for 7 days (seconds)
 }
 
+// --- Firestore Migration Export ---
+// Shared secret the Firebase Functions migration job sends in the X-Migration-Key
+// header when reading tables from admin_migration_export.php. Leave it empty to
+// disable the endpoint once the migration is done.
+if (!defined('MIGRATION_EXPORT_KEY')) {
+    define('MIGRATION_EXPORT_KEY', getenv('MIGRATION_EXPORT_KEY') ?: '');
+}
+
 
 // --- CORS Configuration ---
 // Define allowed origins for Cross-Origin Resource Sharing.
@@ -138,7 +146,7 @@ if (!function_exists('handleCors')) {
 
         header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, PATCH, OPTIONS');
         // Common headers your frontend might send
-        header('Access-Control-Allow-Headers: Content-Type, Authorization, X-Requested-With, Accept');
+        header('Access-Control-Allow-Headers: Content-Type, Authorization, X-Requested-With, Accept, X-Base-Version');
         // Max age for preflight OPTIONS requests (e.g., 1 day)
         header('Access-Control-Max-Age: 86400');
 
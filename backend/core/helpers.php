@@ -153,7 +153,8 @@ if (!function_exists('fetchFullTherapistProfile')) {
                     td.membership_status_message, td.membership_renewal_date,
                     td.specializations, td.languages, td.qualifications, td.locations,
                     td.rating, td.review_count, td.profile_views, td.likes_count,
-                    td.is_overall_verified, td.availability
+                    td.is_overall_verified, td.availability,
+                    td.updated_at AS updatedAt
                 FROM users u
                 LEFT JOIN therapists_data td ON u.id = td.user_id
                 WHERE u.id = :userId AND u.role = 'THERAPIST'
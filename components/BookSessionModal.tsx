@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Therapist, Appointment } from '../types';
+import { FUNCTIONS_API_BASE_URL, APPOINTMENT_DURATION_OPTIONS } from '../constants';
+import { Modal } from './common/Modal';
+import { Button } from './common/Button';
+import { InputField, SelectField, TextareaField } from './dashboard/shared/FormElements';
+import { ClockIcon } from './icons';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BookSessionModalProps {
+  therapist: Therapist | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onBooked?: (appointment: Appointment) => void;
+}
+
+// Earliest bookable slot, formatted for a datetime-local input
+const getMinStartTime = (): string => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+export const BookSessionModal: React.FC<BookSessionModalProps> = ({ therapist, isOpen, onClose, onBooked }) => {
+  const { t } = useTranslation();
+  const { token } = useAuth();
+  const [startTime, setStartTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('60');
+  const [locationAddress, setLocationAddress] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && therapist) {
+      const primaryLocation = therapist.locations.find(loc => loc.isPrimary) || therapist.locations[0];
+      setStartTime('');
+      setDurationMinutes('60');
+      setLocationAddress(primaryLocation?.address || '');
+      setNotes('');
+      setError(null);
+    }
+  }, [isOpen, therapist]);
+
+  if (!therapist) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startTime) {
+      setError(t('bookingStartTimeRequired', { default: 'Please choose a date and time for your session.' }));
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/appointments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({
+          therapistId: therapist.id,
+          startTime: new Date(startTime).toISOString(),
+          durationMinutes: parseInt(durationMinutes, 10),
+          locationAddress,
+          notes,
+        }),
+      });
+      const data = await response.json();
+      if (data.status === 'success' && data.appointment) {
+        alert(t('bookingRequestedSuccess', { name: therapist.name, default: `Your session request was sent to ${therapist.name}.` }));
+        onBooked?.(data.appointment);
+        onClose();
+      } else {
+        throw new Error(data.message || 'Failed to book session');
+      }
+    } catch (err: any) {
+      console.error('Error booking session:', err);
+      setError(err.message);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('bookSessionWith', { name: therapist.name, default: `Book a session with ${therapist.name}` })} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <InputField
+          label={t('bookingStartTimeLabel', { default: 'Date & Time' })}
+          id="startTime"
+          type="datetime-local"
+          value={startTime}
+          min={getMinStartTime()}
+          onChange={(e) => setStartTime(e.target.value)}
+          required
+        />
+        <SelectField
+          label={t('bookingDurationLabel', { default: 'Session Length' })}
+          id="durationMinutes"
+          value={durationMinutes}
+          onChange={(e) => setDurationMinutes(e.target.value)}
+          options={APPOINTMENT_DURATION_OPTIONS.map(minutes => ({
+            value: String(minutes),
+            label: t('bookingDurationOption', { minutes, default: `${minutes} minutes` }),
+          }))}
+        />
+        {therapist.locations.length > 1 && (
+          <SelectField
+            label={t('bookingLocationLabel', { default: 'Practice Location' })}
+            id="locationAddress"
+            value={locationAddress}
+            onChange={(e) => setLocationAddress(e.target.value)}
+            options={therapist.locations.map(loc => ({ value: loc.address, label: loc.address }))}
+          />
+        )}
+        <TextareaField
+          label={t('bookingNotesLabel', { default: 'Note for the therapist (optional)' })}
+          id="notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          description={t('bookingNotesDescription', { default: 'Briefly share what you would like to work on. Avoid sensitive details.' })}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="pt-2 flex justify-end space-x-3">
+          <Button type="button" variant="light" onClick={onClose}>{t('cancelButtonLabel')}</Button>
+          <Button type="submit" variant="primary" disabled={isLoading} leftIcon={<ClockIcon className="w-4 h-4" />}>
+            {isLoading ? t('bookingSubmitting', { default: 'Sending request...' }) : t('bookingSubmitButton', { default: 'Request Session' })}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -3,14 +3,17 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useTranslation } from '../hooks/useTranslation';
 import { Button } from './common/Button';
-import { UserCircleIcon, MenuIcon, XIcon, BriefcaseIcon, BuildingOfficeIcon, ShieldCheckIcon } from './icons';
+import { UserCircleIcon, MenuIcon, XIcon, BriefcaseIcon, BuildingOfficeIcon, ShieldCheckIcon, ChatBubbleLeftRightIcon } from './icons';
 import { UserRole } from '../types';
+import { useUnreadMessageCount } from '../hooks/useUnreadMessageCount';
+import { NotificationBell } from './NotificationBell';
 
 export const Navbar: React.FC = () => {
   const { isAuthenticated, user, logout } = useAuth();
   const { t, language, setLanguage, direction } = useTranslation();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const unreadMessageCount = useUnreadMessageCount();
 
   const handleLogout = () => {
     logout();
@@ -32,7 +35,7 @@ export const Navbar: React.FC = () => {
     { path: '/', labelKey: 'findTherapists' },
   ];
 
-  const authenticatedUserLinks: {path: string, labelKey: string, icon?: React.ReactNode, roles?: UserRole[]}[] = [];
+  const authenticatedUserLinks: {path: string, labelKey: string, icon?: React.ReactNode, roles?: UserRole[], badge?: number}[] = [];
 
   if (user) {
     if (user.role === UserRole.CLIENT) {
@@ -44,6 +47,7 @@ export const Navbar: React.FC = () => {
     } else if (user.role === UserRole.ADMIN) {
         authenticatedUserLinks.push({ path: '/dashboard/admin', labelKey: 'adminPanel', icon: <ShieldCheckIcon className={`w-4 h-4 ${direction === 'rtl' ? 'ms-1.5' : 'me-1.5'}`}/> });
     }
+    authenticatedUserLinks.push({ path: '/messages', labelKey: 'messagesNavLink', icon: <ChatBubbleLeftRightIcon className={`w-4 h-4 ${direction === 'rtl' ? 'ms-1.5' : 'me-1.5'}`}/>, badge: unreadMessageCount });
   }
   
   const commonLinks: {path: string, labelKey: string}[] = [
@@ -75,6 +79,11 @@ export const Navbar: React.FC = () => {
           className={`${isMobile ? mobileLinkClass : desktopLinkClass} flex items-center`}
         >
           {link.icon}{t(link.labelKey)}
+          {!!link.badge && (
+            <span className={`bg-accent text-white text-[10px] font-bold rounded-full px-1.5 py-0.5 ${direction === 'rtl' ? 'me-1.5' : 'ms-1.5'}`}>
+              {link.badge > 99 ? '99+' : link.badge}
+            </span>
+          )}
         </Link>
       ))}
       {commonLinks.map(link => (
@@ -114,6 +123,7 @@ export const Navbar: React.FC = () => {
             >
               {language === 'en' ? t('arabic') : t('english')}
             </Button>
+            {isAuthenticated && user && <NotificationBell />}
             {isAuthenticated && user ? (
               <div className="relative group">
                 <Button 
@@ -157,6 +167,7 @@ export const Navbar: React.FC = () => {
             >
               {language === 'en' ? 'AR' : 'EN'}
             </Button>
+            {isAuthenticated && user && <NotificationBell />}
             <button
               onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
               className={`inline-flex items-center justify-center p-2 rounded-md text-textOnLight/70 hover:text-accent hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-accent ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}
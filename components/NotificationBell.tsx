@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFirestoreCollection } from '../src/hooks/useFirestoreCollection';
+import { BellIcon } from './icons';
+import { Notification } from '../types';
+import { FUNCTIONS_API_BASE_URL } from '../constants';
+
+const RECENT_NOTIFICATIONS_LIMIT = 20;
+
+export const NotificationBell: React.FC = () => {
+  const { user, token } = useAuth();
+  const { t, direction } = useTranslation();
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Live listeners, so new notifications and reads on other devices show up right away
+  const { data: notifications } = useFirestoreCollection<Notification>('notifications', {
+    whereConditions: [['userId', '==', user?.id]],
+    orderByField: 'createdAt',
+    orderDirection: 'desc',
+    limitCount: RECENT_NOTIFICATIONS_LIMIT,
+    realtime: true,
+    enabled: !!user
+  });
+  const { data: unreadNotifications } = useFirestoreCollection<Notification>('notifications', {
+    whereConditions: [['userId', '==', user?.id], ['isRead', '==', false]],
+    realtime: true,
+    enabled: !!user
+  });
+  const unreadCount = unreadNotifications.length;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const markAsRead = async (ids?: string[]) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/notifications/read`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ ids })
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.isRead) {
+      markAsRead([notification.id]);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const renderMessage = (notification: Notification) => {
+    const params = { ...notification.params };
+    if (params.startTime) {
+      params.startTime = new Date(params.startTime).toLocaleString();
+    }
+    return t(`notification_${notification.type}`, params);
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-textOnLight/70 hover:text-accent hover:bg-gray-100 focus:outline-none"
+        title={t('notificationsTitle')}
+        aria-expanded={isOpen}
+      >
+        <BellIcon className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 end-0.5 bg-accent text-white text-[10px] font-bold rounded-full px-1.5 py-0.5 leading-none">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute mt-2 w-80 max-w-[90vw] bg-primary rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-50 ${direction === 'rtl' ? 'start-0' : 'end-0'}`}>
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <p className="text-sm font-semibold text-textOnLight">{t('notificationsTitle')}</p>
+            {unreadCount > 0 && (
+              <button onClick={() => markAsRead()} className="text-xs text-accent hover:underline">
+                {t('markAllNotificationsRead')}
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">{t('noNotifications')}</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`block w-full px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${direction === 'rtl' ? 'text-right' : 'text-left'} ${notification.isRead ? '' : 'bg-accent/5'}`}
+                >
+                  <div className="flex items-start">
+                    {!notification.isRead && (
+                      <span className={`mt-1.5 h-2 w-2 rounded-full bg-accent flex-shrink-0 ${direction === 'rtl' ? 'ms-2' : 'me-2'}`} />
+                    )}
+                    <div className="flex-grow min-w-0">
+                      <p className={`text-sm ${notification.isRead ? 'text-textOnLight/70' : 'text-textOnLight font-medium'}`}>
+                        {renderMessage(notification)}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,20 @@
 import React from 'react';
 import { Therapist } from '../types';
-import { StarIcon, HeartIcon, MapPinIcon, WhatsAppIcon } from './icons';
+import { StarIcon, HeartIcon, MapPinIcon, ChatBubbleLeftRightIcon } from './icons';
 import { Button } from './common/Button';
 
 interface TherapistCardProps {
   therapist: Therapist;
   onViewProfile: (therapist: Therapist) => void;
   onToggleFavorite: (therapistId: string) => void;
+  onMessage: (therapist: Therapist) => void;
   isFavorite: boolean;
 }
 
-export const TherapistCard: React.FC<TherapistCardProps> = ({ therapist, onViewProfile, onToggleFavorite, isFavorite }) => {
-  const handleWhatsAppClick = (e: React.MouseEvent) => {
+export const TherapistCard: React.FC<TherapistCardProps> = ({ therapist, onViewProfile, onToggleFavorite, onMessage, isFavorite }) => {
+  const handleMessageClick = (e: React.MouseEvent) => {
     e.stopPropagation(); 
-    window.open(`https://wa.me/${therapist.whatsappNumber.replace(/\D/g, '')}?text=Hello%20Dr.%20${therapist.name.split(' ').pop()},%20I%20found%20you%20on%20TheraWay.`, '_blank');
+    onMessage(therapist);
   };
 
   return (
@@ -68,8 +69,8 @@ export const TherapistCard: React.FC<TherapistCardProps> = ({ therapist, onViewP
                 variant="ghost" 
                 size="sm" 
                 className="w-full sm:w-auto flex-1 border !border-accent !text-accent hover:!bg-accent/10" 
-                onClick={handleWhatsAppClick}
-                leftIcon={<WhatsAppIcon className="text-green-500"/>}
+                onClick={handleMessageClick}
+                leftIcon={<ChatBubbleLeftRightIcon className="w-5 h-5"/>}
             >
                 Chat Now
             </Button>
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Therapist } from '../types';
 import { Modal } from './common/Modal';
-import { StarIcon, HeartIcon, MapPinIcon, WhatsAppIcon } from './icons';
+import { StarIcon, HeartIcon, MapPinIcon, ChatBubbleLeftRightIcon, ClockIcon } from './icons';
 import { Button } from './common/Button';
 import { useTranslation } from '../hooks/useTranslation';
 import { usePageTitle } from '../hooks/usePageTitle';
@@ -13,9 +13,11 @@ interface TherapistDetailModalProps {
   onClose: () => void;
   onToggleFavorite: (therapistId: string) => void;
   isFavorite: boolean;
+  onBookSession: (therapist: Therapist) => void;
+  onMessage: (therapist: Therapist) => void;
 }
 
-export const TherapistDetailModal: React.FC<TherapistDetailModalProps> = ({ therapist, isOpen, onClose, onToggleFavorite, isFavorite }) => {
+export const TherapistDetailModal: React.FC<TherapistDetailModalProps> = ({ therapist, isOpen, onClose, onToggleFavorite, isFavorite, onBookSession, onMessage }) => {
   const { t, direction } = useTranslation();
   
   // Set page title when modal is open for a therapist
@@ -24,14 +26,6 @@ export const TherapistDetailModal: React.FC<TherapistDetailModalProps> = ({ ther
 
   if (!therapist) return null;
 
-  const handleWhatsAppClick = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    const cleanWhatsAppNumber = therapist.whatsappNumber.replace(/\D/g, '');
-    const therapistLastName = therapist.name.split(' ').pop() || '';
-    const whatsappMessage = encodeURIComponent(t('whatsappGreeting', { name: therapistLastName, appName: t('appName') }) || `Hello Dr. ${therapistLastName}, I found you on ${t('appName')}.`);
-    window.open(`https://wa.me/${cleanWhatsAppNumber}?text=${whatsappMessage}`, '_blank');
-  };
-  
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={therapist.name} size="2xl">
         <div className="flex flex-col lg:flex-row gap-6 sm:gap-8">
@@ -49,15 +43,25 @@ export const TherapistDetailModal: React.FC<TherapistDetailModalProps> = ({ ther
                     leftIcon={<HeartIcon className={`w-5 h-5 ${isFavorite ? 'text-red-500' : 'text-background'} ${direction === 'rtl' ? 'ms-2' : 'me-2'}`} filled={isFavorite} />}
                 >
                     {isFavorite ? t('removeFromFavorites') : t('addToFavorites')}
+                </Button>
+                 <Button
+                    variant="primary"
+                    size="md"
+                    isFullWidth
+                    onClick={(e) => { e.stopPropagation(); onBookSession(therapist); }}
+                    className="mb-2"
+                    leftIcon={<ClockIcon className={`w-5 h-5 text-white ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>}
+                >
+                    {t('bookSessionButton')}
                 </Button>
                  <Button 
-                    variant="primary" 
+                    variant="secondary" 
                     size="md" 
                     isFullWidth
-                    onClick={handleWhatsAppClick}
-                    leftIcon={<WhatsAppIcon className={`text-white ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>}
+                    onClick={(e) => { e.stopPropagation(); onMessage(therapist); }}
+                    leftIcon={<ChatBubbleLeftRightIcon className={`w-5 h-5 text-accent ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>}
                 >
-                    {t('connectOnWhatsApp')}
+                    {t('sendMessageButton')}
                 </Button>
             </div>
             <div className="lg:w-2/3">
@@ -0,0 +1,30 @@
+import React from 'react';
+import { isPrivateFilePath, getPrivateFileUrl } from '../../src/firebase/storage';
+
+interface PrivateFileLinkProps {
+  pathOrUrl: string; // A private storage path, or the public URL of an older upload
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Opens a stored document in a new tab, fetching a signed URL first for private files
+export const PrivateFileLink: React.FC<PrivateFileLinkProps> = ({ pathOrUrl, className, children }) => {
+  if (!isPrivateFilePath(pathOrUrl)) {
+    return <a href={pathOrUrl} target="_blank" rel="noopener noreferrer" className={className}>{children}</a>;
+  }
+
+  const handleClick = async () => {
+    // Opened before the request so the browser does not treat it as an unrequested popup
+    const tab = window.open('', '_blank');
+    try {
+      const url = await getPrivateFileUrl(pathOrUrl);
+      if (tab) tab.location.href = url;
+      else window.open(url, '_blank', 'noopener');
+    } catch (error: any) {
+      tab?.close();
+      alert(`Error: ${error.message}`);
+    }
+  };
+
+  return <button type="button" onClick={handleClick} className={className}>{children}</button>;
+};
@@ -0,0 +1,423 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ClinicSpaceListing, SpaceCalendarData } from '../../../types';
+import { FUNCTIONS_API_BASE_URL } from '../../../constants';
+import { Button } from '../../common/Button';
+import { ChevronLeftIcon, ChevronRightIcon, ArrowDownTrayIcon } from '../../icons';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+interface CalendarEvent {
+  key: string;
+  kind: 'reservation' | 'block' | 'closure';
+  start: Date;
+  end: Date;
+  label: string;
+  className: string;
+  blockId?: string;
+}
+
+// A drag in progress: minutes within one day column, or a run of days in the month grid
+type DragState =
+  | { mode: 'time'; dayIndex: number; anchor: number; current: number }
+  | { mode: 'days'; anchor: number; current: number };
+
+const HOUR_HEIGHT = 40; // px per hour in the day and week views
+const DRAG_STEP_MINUTES = 30;
+const MONTH_GRID_DAYS = 42;
+const MAX_MONTH_CHIPS = 3;
+
+const EVENT_CLASSES = {
+  requested: 'bg-yellow-100 border-yellow-400 text-yellow-800',
+  accepted: 'bg-green-100 border-green-500 text-green-800',
+  block: 'bg-red-100 border-red-400 text-red-800 cursor-pointer',
+  closure: 'bg-gray-200/70 border-gray-300 text-gray-500'
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+// Weeks start on Monday, like the booking hours editor
+const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+const getVisibleDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'day') return [startOfDay(anchor)];
+  const first = view === 'week' ? startOfWeek(anchor) : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  return Array.from({ length: view === 'week' ? 7 : MONTH_GRID_DAYS }, (_, i) => addDays(first, i));
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { timeStyle: 'short' });
+
+interface SpaceAvailabilityCalendarProps {
+  listing: ClinicSpaceListing;
+}
+
+/**
+ * Day, week and month calendar of one clinic space: reservations, blocked
+ * periods and the clinic's closures. Dragging over free time blocks it.
+ */
+export const SpaceAvailabilityCalendar: React.FC<SpaceAvailabilityCalendarProps> = ({ listing }) => {
+  const { t, direction } = useTranslation();
+  const { token } = useAuth();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [calendar, setCalendar] = useState<SpaceCalendarData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const days = useMemo(() => getVisibleDays(view, anchor), [view, anchor]);
+
+  const fetchCalendar = useCallback(async () => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        from: days[0].toISOString(),
+        to: addDays(days[days.length - 1], 1).toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+      });
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${listing.id}/calendar?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      setCalendar(data);
+    } catch (error: any) {
+      console.error('Error fetching space calendar:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, listing.id, days, t]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  // Drags that end outside the grid are dropped
+  useEffect(() => {
+    const cancelDrag = () => setDrag(null);
+    window.addEventListener('pointerup', cancelDrag);
+    return () => window.removeEventListener('pointerup', cancelDrag);
+  }, []);
+
+  const events = useMemo<CalendarEvent[]>(() => {
+    if (!calendar) return [];
+    return [
+      ...calendar.closures.map((closure, i) => ({
+        key: `closure-${i}`,
+        kind: 'closure' as const,
+        start: new Date(closure.startTime),
+        end: new Date(closure.endTime),
+        label: t('spaceCalendarClosed'),
+        className: EVENT_CLASSES.closure
+      })),
+      ...calendar.blockedPeriods.map(block => ({
+        key: block.id,
+        kind: 'block' as const,
+        start: new Date(block.startTime),
+        end: new Date(block.endTime),
+        label: block.reason || t('spaceCalendarBlocked'),
+        className: EVENT_CLASSES.block,
+        blockId: block.id
+      })),
+      ...calendar.reservations.map(reservation => ({
+        key: reservation.id,
+        kind: 'reservation' as const,
+        start: new Date(reservation.startTime),
+        end: new Date(reservation.endTime),
+        label: reservation.therapistName,
+        className: reservation.status === 'accepted' ? EVENT_CLASSES.accepted : EVENT_CLASSES.requested
+      }))
+    ];
+  }, [calendar, t]);
+
+  const eventsOnDay = (day: Date) => {
+    const dayEnd = addDays(day, 1);
+    return events.filter(event => event.start < dayEnd && event.end > day);
+  };
+
+  const createBlock = async (start: Date, end: Date) => {
+    const reason = prompt(t('spaceBlockReasonPrompt', {
+      start: start.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+      end: end.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+    }));
+    if (reason === null) return;
+
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${listing.id}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ startTime: start.toISOString(), endTime: end.toISOString(), reason: reason.trim() })
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      fetchCalendar();
+    } catch (error: any) {
+      console.error('Error blocking space period:', error);
+      alert(`Error: ${error.message}`);
+    }
+  };
+
+  const removeBlock = async (blockId: string) => {
+    if (!confirm(t('spaceBlockRemoveConfirm'))) return;
+
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${listing.id}/blocks/${blockId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      fetchCalendar();
+    } catch (error: any) {
+      console.error('Error removing blocked period:', error);
+      alert(`Error: ${error.message}`);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${listing.id}/calendar.ics`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${listing.name || listing.id}.ics`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error: any) {
+      console.error('Error exporting space calendar:', error);
+      alert(`Error: ${error.message}`);
+    }
+  };
+
+  const handleEventPointerDown = (e: React.PointerEvent, event: CalendarEvent) => {
+    // Clicking an existing entry never starts a drag
+    e.stopPropagation();
+    if (event.blockId) removeBlock(event.blockId);
+  };
+
+  const navigate = (direction: -1 | 0 | 1) => {
+    if (direction === 0) {
+      setAnchor(startOfDay(new Date()));
+    } else if (view === 'month') {
+      setAnchor(new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1));
+    } else {
+      setAnchor(addDays(anchor, direction * (view === 'week' ? 7 : 1)));
+    }
+  };
+
+  const title = view === 'month'
+    ? anchor.toLocaleDateString([], { month: 'long', year: 'numeric' })
+    : view === 'week'
+      ? `${days[0].toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : anchor.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  // --- Day and week views ---
+  const minutesAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+    return Math.max(0, Math.min(24 * 60 - DRAG_STEP_MINUTES, Math.floor(minutes / DRAG_STEP_MINUTES) * DRAG_STEP_MINUTES));
+  };
+
+  const finishTimeDrag = (dayIndex: number) => {
+    if (!drag || drag.mode !== 'time' || drag.dayIndex !== dayIndex) return;
+    const day = days[dayIndex];
+    const from = Math.min(drag.anchor, drag.current);
+    const to = Math.max(drag.anchor, drag.current) + DRAG_STEP_MINUTES;
+    setDrag(null);
+    createBlock(new Date(day.getTime() + from * 60 * 1000), new Date(day.getTime() + to * 60 * 1000));
+  };
+
+  const renderTimeGrid = () => (
+    <div className="max-h-[60vh] overflow-y-auto border border-gray-200 rounded-md">
+      <div className="flex sticky top-0 z-10 bg-primary border-b border-gray-200">
+        <div className="w-14 flex-shrink-0" />
+        {days.map(day => (
+          <div key={day.toISOString()} className="flex-1 text-center text-xs font-semibold text-textOnLight py-2">
+            {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+          </div>
+        ))}
+      </div>
+      <div className="flex select-none">
+        <div className="w-14 flex-shrink-0">
+          {Array.from({ length: 24 }, (_, hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-[10px] text-gray-400 text-end pe-1.5 -mt-1.5">
+              {hour > 0 && formatTime(new Date(2000, 0, 1, hour))}
+            </div>
+          ))}
+        </div>
+        {days.map((day, dayIndex) => {
+          const dayEnd = addDays(day, 1);
+          const isDragging = drag?.mode === 'time' && drag.dayIndex === dayIndex;
+          return (
+            <div
+              key={day.toISOString()}
+              className="flex-1 relative border-s border-gray-200 cursor-crosshair"
+              style={{ height: 24 * HOUR_HEIGHT }}
+              onPointerDown={(e) => { const minutes = minutesAt(e); setDrag({ mode: 'time', dayIndex, anchor: minutes, current: minutes }); }}
+              onPointerMove={(e) => { if (isDragging) setDrag({ ...drag, current: minutesAt(e) }); }}
+              onPointerUp={() => finishTimeDrag(dayIndex)}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} className="border-b border-gray-100" style={{ height: HOUR_HEIGHT }} />
+              ))}
+              {eventsOnDay(day).map(event => {
+                const start = event.start < day ? day : event.start;
+                const end = event.end > dayEnd ? dayEnd : event.end;
+                const top = ((start.getTime() - day.getTime()) / 3600000) * HOUR_HEIGHT;
+                const height = Math.max(((end.getTime() - start.getTime()) / 3600000) * HOUR_HEIGHT, 14);
+                return (
+                  <div
+                    key={event.key}
+                    className={`absolute inset-x-0.5 border-s-2 rounded px-1 text-[10px] leading-tight overflow-hidden ${event.className} ${event.kind === 'closure' ? 'z-0' : 'z-[1]'}`}
+                    style={{ top, height }}
+                    title={`${event.label} · ${formatTime(event.start)} – ${formatTime(event.end)}`}
+                    onPointerDown={(e) => handleEventPointerDown(e, event)}
+                  >
+                    {event.kind !== 'closure' && <span className="font-medium">{formatTime(event.start)} </span>}
+                    {event.label}
+                  </div>
+                );
+              })}
+              {isDragging && drag && (
+                <div
+                  className="absolute inset-x-0.5 bg-accent/30 border border-accent rounded pointer-events-none z-[2]"
+                  style={{
+                    top: (Math.min(drag.anchor, drag.current) / 60) * HOUR_HEIGHT,
+                    height: ((Math.abs(drag.current - drag.anchor) + DRAG_STEP_MINUTES) / 60) * HOUR_HEIGHT
+                  }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  // --- Month view ---
+  const dayIndexAt = (e: React.PointerEvent) => {
+    const cell = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-day-index]');
+    return cell ? parseInt(cell.getAttribute('data-day-index') as string, 10) : null;
+  };
+
+  const finishDaysDrag = () => {
+    if (!drag || drag.mode !== 'days') return;
+    const from = days[Math.min(drag.anchor, drag.current)];
+    const to = addDays(days[Math.max(drag.anchor, drag.current)], 1);
+    setDrag(null);
+    createBlock(from, to);
+  };
+
+  const renderMonthGrid = () => (
+    <div className="border border-gray-200 rounded-md select-none touch-none">
+      <div className="grid grid-cols-7 border-b border-gray-200">
+        {days.slice(0, 7).map(day => (
+          <div key={day.getDay()} className="text-center text-xs font-semibold text-textOnLight py-2">
+            {day.toLocaleDateString([], { weekday: 'short' })}
+          </div>
+        ))}
+      </div>
+      <div
+        className="grid grid-cols-7"
+        onPointerMove={(e) => {
+          if (drag?.mode !== 'days') return;
+          const index = dayIndexAt(e);
+          if (index !== null && index !== drag.current) setDrag({ ...drag, current: index });
+        }}
+        onPointerUp={finishDaysDrag}
+      >
+        {days.map((day, index) => {
+          const dayEvents = eventsOnDay(day);
+          const isClosedAllDay = dayEvents.some(event =>
+            event.kind === 'closure' && event.start <= day && event.end >= addDays(day, 1));
+          const chips = dayEvents.filter(event => event.kind !== 'closure');
+          const isSelected = drag?.mode === 'days' &&
+            index >= Math.min(drag.anchor, drag.current) && index <= Math.max(drag.anchor, drag.current);
+          const isOtherMonth = day.getMonth() !== anchor.getMonth();
+
+          return (
+            <div
+              key={day.toISOString()}
+              data-day-index={index}
+              className={`min-h-[5.5rem] border-b border-s border-gray-100 p-1 text-xs cursor-crosshair ${
+                isSelected ? 'bg-accent/20' : isClosedAllDay ? 'bg-gray-100' : ''
+              } ${isOtherMonth ? 'text-gray-400' : 'text-textOnLight'}`}
+              onPointerDown={() => setDrag({ mode: 'days', anchor: index, current: index })}
+            >
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-semibold">{day.getDate()}</span>
+                {isClosedAllDay && <span className="text-[10px] text-gray-500">{t('spaceCalendarClosed')}</span>}
+              </div>
+              {chips.slice(0, MAX_MONTH_CHIPS).map(event => (
+                <div
+                  key={event.key}
+                  className={`truncate border-s-2 rounded px-1 mb-0.5 text-[10px] ${event.className}`}
+                  title={`${event.label} · ${formatTime(event.start)} – ${formatTime(event.end)}`}
+                  onPointerDown={(e) => handleEventPointerDown(e, event)}
+                >
+                  {event.kind === 'reservation' ? `${formatTime(event.start)} ${event.label}` : event.label}
+                </div>
+              ))}
+              {chips.length > MAX_MONTH_CHIPS && (
+                <div className="text-[10px] text-gray-500">{t('spaceCalendarMore', { count: chips.length - MAX_MONTH_CHIPS })}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 text-textOnLight">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="light" size="sm" onClick={() => navigate(-1)} aria-label={t('spaceCalendarPrevious')}>
+            {direction === 'rtl' ? <ChevronRightIcon className="w-4 h-4" /> : <ChevronLeftIcon className="w-4 h-4" />}
+          </Button>
+          <Button variant="light" size="sm" onClick={() => navigate(0)}>{t('spaceCalendarToday')}</Button>
+          <Button variant="light" size="sm" onClick={() => navigate(1)} aria-label={t('spaceCalendarNext')}>
+            {direction === 'rtl' ? <ChevronLeftIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+          </Button>
+          <h4 className="text-sm font-semibold ms-2">{title}</h4>
+        </div>
+        <div className="flex items-center gap-2">
+          {(['day', 'week', 'month'] as CalendarView[]).map(option => (
+            <Button key={option} variant={view === option ? 'secondary' : 'ghost'} size="sm" onClick={() => setView(option)}>
+              {t(`spaceCalendarView_${option}`)}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={handleExport} leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}>
+            {t('spaceCalendarExport')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded border ${EVENT_CLASSES.accepted}`} />{t('spaceReservationStatus_accepted')}</span>
+        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded border ${EVENT_CLASSES.requested}`} />{t('spaceReservationStatus_requested')}</span>
+        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded border ${EVENT_CLASSES.block}`} />{t('spaceCalendarBlocked')}</span>
+        <span className="flex items-center gap-1"><span className={`w-3 h-3 rounded border ${EVENT_CLASSES.closure}`} />{t('spaceCalendarClosed')}</span>
+        <span className="ms-auto">{view === 'month' ? t('spaceCalendarDragDaysHint') : t('spaceCalendarDragTimeHint')}</span>
+      </div>
+
+      {isLoading && !calendar ? (
+        <p className="text-sm text-gray-500">{t('loading')}...</p>
+      ) : view === 'month' ? renderMonthGrid() : renderTimeGrid()}
+    </div>
+  );
+};
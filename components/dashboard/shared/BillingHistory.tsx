@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { Invoice, MembershipPayment } from '../../../types';
+import { FUNCTIONS_API_BASE_URL } from '../../../constants';
+import { Button } from '../../common/Button';
+import { PrivateFileLink } from '../../common/PrivateFileLink';
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+const formatMoney = (amount: number, currency: string) => `${currency} ${amount.toFixed(2)}`;
+
+const INVOICE_STATUS_CLASSES: Record<Invoice['status'], string> = {
+  open: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-700',
+  void: 'bg-gray-100 text-gray-600'
+};
+
+// Membership invoices and the payments recorded against them, for the signed-in account
+export const BillingHistory: React.FC = () => {
+  const { token } = useAuth();
+  const { t } = useTranslation();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [payments, setPayments] = useState<MembershipPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const fetchBilling = useCallback(async () => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [invoicesResponse, paymentsResponse] = await Promise.all([
+        fetch(`${FUNCTIONS_API_BASE_URL}/billing/invoices`, { headers }),
+        fetch(`${FUNCTIONS_API_BASE_URL}/billing/payments`, { headers })
+      ]);
+      const invoicesData = await invoicesResponse.json();
+      const paymentsData = await paymentsResponse.json();
+
+      if (invoicesData.status !== 'success' || paymentsData.status !== 'success') {
+        throw new Error(invoicesData.message || paymentsData.message || t('unknownApiError'));
+      }
+      setInvoices(invoicesData.data);
+      setPayments(paymentsData.data);
+    } catch (error: any) {
+      console.error('Error fetching billing history:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, t]);
+
+  useEffect(() => {
+    fetchBilling();
+  }, [fetchBilling]);
+
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    setDownloadingId(invoice.id);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/billing/invoices/${invoice.id}/pdf`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error: any) {
+      console.error('Error downloading invoice PDF:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">{t('loading')}...</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className="text-lg font-semibold text-textOnLight mb-3">{t('billingInvoicesTitle')}</h3>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('billingNoInvoices')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-start font-medium text-gray-500">{t('billingInvoiceNumber')}</th>
+                  <th className="px-4 py-2 text-start font-medium text-gray-500">{t('billingPeriod')}</th>
+                  <th className="px-4 py-2 text-start font-medium text-gray-500">{t('billingAmount')}</th>
+                  <th className="px-4 py-2 text-start font-medium text-gray-500">{t('billingStatus')}</th>
+                  <th className="px-4 py-2 text-start font-medium text-gray-500">{t('billingDueDate')}</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {invoices.map(invoice => (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-2 font-medium text-textOnLight whitespace-nowrap">{invoice.number}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatMoney(invoice.total, invoice.currency)}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${INVOICE_STATUS_CLASSES[invoice.status]}`}>
+                        {t(`invoiceStatus_${invoice.status}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{invoice.status === 'paid' ? formatDate(invoice.paidAt) : formatDate(invoice.dueAt)}</td>
+                    <td className="px-4 py-2 text-end">
+                      <Button variant="link" size="sm" onClick={() => handleDownloadPdf(invoice)} disabled={downloadingId === invoice.id}>
+                        {downloadingId === invoice.id ? t('loading') : t('billingDownloadPdf')}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold text-textOnLight mb-3">{t('billingPaymentsTitle')}</h3>
+        {payments.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('billingNoPayments')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {payments.map(payment => (
+              <li key={payment.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-textOnLight">
+                  <strong>{formatDate(payment.createdAt)}</strong> · {payment.invoiceNumber} · {t(`paymentMethod_${payment.method}`)}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="font-medium text-textOnLight">{formatMoney(payment.amount, payment.currency)}</span>
+                  {payment.receiptUrl && (
+                    <PrivateFileLink pathOrUrl={payment.receiptUrl} className="text-accent hover:underline">
+                      {t('billingViewReceipt')}
+                    </PrivateFileLink>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { UserRole } from '../../../types';
 import { 
     BriefcaseIcon, BuildingOfficeIcon, ShieldCheckIcon, ChartBarIcon, CogIcon, UsersIcon, 
     DocumentDuplicateIcon, TagIcon, PhotoIcon, ChevronDownIcon, ChevronUpIcon,
-    ChatBubbleLeftRightIcon, DocumentTextIcon // Added new icons
+    ChatBubbleLeftRightIcon, DocumentTextIcon, StarIcon, UserCircleIcon // Added new icons
 } from '../../icons'; 
 import { useTranslation } from '../../../hooks/useTranslation';
 
@@ -22,11 +22,12 @@ interface NavItem {
   clinicOnly?: boolean;
 }
 
-// Updated for new Therapist Dashboard Structure (Profile, Licenses, Space Rental, Settings)
+// Updated for new Therapist Dashboard Structure (Profile, Licenses, Space Rental, Billing, Settings)
 const therapistNavItems: NavItem[] = [
   { path: '', labelKey: 'dashboardMyProfileTab', icon: <BriefcaseIcon />, therapistOnly: true }, 
   { path: 'licenses', labelKey: 'dashboardLicensesTab', icon: <DocumentDuplicateIcon />, therapistOnly: true},
   { path: 'space-rental', labelKey: 'dashboardSpaceRentalTab', icon: <BuildingOfficeIcon />, therapistOnly: true}, 
+  { path: 'billing', labelKey: 'dashboardBillingTab', icon: <DocumentTextIcon />, therapistOnly: true },
   { path: 'settings', labelKey: 'dashboardSettingsTab', icon: <CogIcon />, therapistOnly: true },
 ];
 
@@ -35,6 +36,7 @@ const clinicNavItems: NavItem[] = [
   { path: '', labelKey: 'dashboardClinicProfileTab', icon: <BuildingOfficeIcon />, clinicOnly: true }, 
   { path: 'my-clinics', labelKey: 'dashboardMyClinicsTab', icon: <BriefcaseIcon />, clinicOnly: true}, 
   { path: 'analytics', labelKey: 'dashboardAnalyticsTab', icon: <ChartBarIcon />, clinicOnly: true}, 
+  { path: 'billing', labelKey: 'dashboardBillingTab', icon: <DocumentTextIcon />, clinicOnly: true}, 
   { path: 'settings', labelKey: 'dashboardSettingsTab', icon: <CogIcon />, clinicOnly: true}, 
 ];
 
@@ -42,7 +44,10 @@ const clinicNavItems: NavItem[] = [
 const adminNavItems: NavItem[] = [
   { path: '', labelKey: 'dashboardTherapistsValidationTab', icon: <UsersIcon /> }, // Therapists Validation is the default
   { path: 'clinic-approval', labelKey: 'dashboardClinicApprovalTab', icon: <BuildingOfficeIcon /> },
+  { path: 'certifications', labelKey: 'dashboardCertificationsTab', icon: <ShieldCheckIcon /> },
   { path: 'communication', labelKey: 'dashboardCommunicationTab', icon: <ChatBubbleLeftRightIcon /> },
+  { path: 'reviews', labelKey: 'dashboardReviewsModerationTab', icon: <StarIcon /> },
+  { path: 'users', labelKey: 'dashboardUsersTab', icon: <UserCircleIcon /> },
   { path: 'activity-log', labelKey: 'dashboardActivityLogTab', icon: <DocumentTextIcon /> },
 ];
 
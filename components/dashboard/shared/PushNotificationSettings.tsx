@@ -0,0 +1,42 @@
+import React from 'react';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { usePushSubscription } from '../../../hooks/usePushSubscription';
+import { Button } from '../../common/Button';
+
+// Lets the user turn push notifications on or off for the current browser
+export const PushNotificationSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { isSupported, permission, isSubscribed, isBusy, subscribe, unsubscribe, sendTest } = usePushSubscription();
+
+  if (!isSupported) {
+    return <p className="text-sm text-gray-500">{t('pushNotSupported')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">{t('pushNotificationsDescription')}</p>
+      {permission === 'denied' && (
+        <p className="text-sm text-red-600">{t('pushPermissionDenied')}</p>
+      )}
+      <p className="text-sm text-gray-600">
+        {t('pushStatusLabel')}: <span className="font-semibold text-textOnLight">{isSubscribed ? t('pushEnabledOnDevice') : t('pushDisabledOnDevice')}</span>
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {isSubscribed ? (
+          <>
+            <Button type="button" variant="secondary" size="sm" onClick={unsubscribe} disabled={isBusy}>
+              {t('disablePushButton')}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={sendTest} disabled={isBusy}>
+              {t('sendTestPushButton')}
+            </Button>
+          </>
+        ) : (
+          <Button type="button" size="sm" onClick={subscribe} disabled={isBusy || permission === 'denied'}>
+            {t('enablePushButton')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
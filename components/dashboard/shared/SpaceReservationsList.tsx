@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { SpaceReservation, SpaceReservationStatus } from '../../../types';
+import { FUNCTIONS_API_BASE_URL } from '../../../constants';
+import { Button } from '../../common/Button';
+
+const RESERVATION_STATUS_CLASSES: Record<SpaceReservationStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-700',
+  accepted: 'bg-green-100 text-green-700',
+  declined: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const formatTimeRange = (reservation: SpaceReservation) => {
+  const start = new Date(reservation.startTime);
+  const end = new Date(reservation.endTime);
+  return `${start.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} – ${end.toLocaleTimeString([], { timeStyle: 'short' })}`;
+};
+
+interface SpaceReservationsListProps {
+  viewer: 'owner' | 'therapist';
+  refreshKey?: number; // Bump to reload, e.g. after a new booking request
+}
+
+// Space reservations for the signed-in clinic owner (incoming requests) or therapist (their rentals)
+export const SpaceReservationsList: React.FC<SpaceReservationsListProps> = ({ viewer, refreshKey = 0 }) => {
+  const { token } = useAuth();
+  const { t } = useTranslation();
+  const [reservations, setReservations] = useState<SpaceReservation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchReservations = useCallback(async () => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/space_reservations`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      setReservations(data.reservations);
+    } catch (error: any) {
+      console.error('Error fetching space reservations:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, t]);
+
+  useEffect(() => {
+    fetchReservations();
+  }, [fetchReservations, refreshKey]);
+
+  const updateStatus = async (reservation: SpaceReservation, status: SpaceReservationStatus) => {
+    if (status === 'cancelled' && !confirm(t('spaceReservationCancelConfirm'))) return;
+
+    setUpdatingId(reservation.id);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/space_reservations`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ id: reservation.id, status })
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      setReservations(prev => prev.map(item => (item.id === reservation.id ? data.reservation : item)));
+    } catch (error: any) {
+      console.error('Error updating space reservation:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">{t('loading')}...</p>;
+  }
+
+  if (reservations.length === 0) {
+    return <p className="text-sm text-gray-500">{viewer === 'owner' ? t('noSpaceReservationRequests') : t('noSpaceRentals')}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 text-sm">
+      {reservations.map(reservation => {
+        const isUpcoming = new Date(reservation.endTime).getTime() > Date.now();
+        const isUpdating = updatingId === reservation.id;
+
+        return (
+          <li key={reservation.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div>
+              <p className="font-medium text-textOnLight">
+                {reservation.spaceName}
+                <span className="text-gray-500 font-normal"> · {viewer === 'owner' ? reservation.therapistName : reservation.clinicName}</span>
+              </p>
+              <p className="text-gray-600">{formatTimeRange(reservation)}</p>
+              {reservation.notes && <p className="text-xs text-gray-500 mt-0.5">{reservation.notes}</p>}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${RESERVATION_STATUS_CLASSES[reservation.status]}`}>
+                {t(`spaceReservationStatus_${reservation.status}`)}
+              </span>
+              {isUpcoming && viewer === 'owner' && reservation.status === 'requested' && (
+                <>
+                  <Button size="sm" variant="primary" onClick={() => updateStatus(reservation, 'accepted')} disabled={isUpdating}>
+                    {t('acceptButtonLabel')}
+                  </Button>
+                  <Button size="sm" variant="danger" onClick={() => updateStatus(reservation, 'declined')} disabled={isUpdating}>
+                    {t('declineButtonLabel')}
+                  </Button>
+                </>
+              )}
+              {isUpcoming && (reservation.status === 'accepted' || (viewer === 'therapist' && reservation.status === 'requested')) && (
+                <Button size="sm" variant="light" onClick={() => updateStatus(reservation, 'cancelled')} disabled={isUpdating}>
+                  {t('cancelReservationButtonLabel')}
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
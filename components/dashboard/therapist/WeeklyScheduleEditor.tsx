@@ -0,0 +1,193 @@
+import React from 'react';
+import { WeeklySchedule, TimeRange, ScheduleException, Weekday } from '../../../types';
+import { WEEKDAYS, DEFAULT_SCHEDULE_TIME_RANGE } from '../../../constants';
+import { Button } from '../../common/Button';
+import { InputField } from '../shared/FormElements';
+import { ClockIcon, XIcon, TrashIcon } from '../../icons';
+import { useTranslation } from '../../../hooks/useTranslation';
+
+interface WeeklyScheduleEditorProps {
+  idPrefix: string;
+  schedule?: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule | undefined) => void;
+}
+
+const timeInputClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm text-textOnLight bg-primary focus:outline-none focus:ring-accent focus:border-accent';
+
+const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// --- Time ranges for a single day ---
+interface TimeRangesEditorProps {
+  idPrefix: string;
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+  emptyLabel: string;
+}
+
+const TimeRangesEditor: React.FC<TimeRangesEditorProps> = ({ idPrefix, ranges, onChange, emptyLabel }) => {
+  const { t } = useTranslation();
+
+  const updateRange = (index: number, field: keyof TimeRange, value: string) => {
+    onChange(ranges.map((range, i) => (i === index ? { ...range, [field]: value } : range)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {ranges.length === 0 && <span className="text-sm text-gray-400">{emptyLabel}</span>}
+      {ranges.map((range, index) => (
+        <span key={index} className="inline-flex items-center gap-1 bg-white border border-gray-200 rounded-md px-1.5 py-1">
+          <input
+            type="time"
+            id={`${idPrefix}_start_${index}`}
+            value={range.start}
+            onChange={(e) => updateRange(index, 'start', e.target.value)}
+            className={timeInputClassName}
+            aria-label={t('scheduleStartTime')}
+            required
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="time"
+            id={`${idPrefix}_end_${index}`}
+            value={range.end}
+            onChange={(e) => updateRange(index, 'end', e.target.value)}
+            className={timeInputClassName}
+            aria-label={t('scheduleEndTime')}
+            required
+          />
+          <button
+            type="button"
+            onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-red-500 p-0.5"
+            aria-label={t('scheduleRemoveHours')}
+          >
+            <XIcon className="w-4 h-4" />
+          </button>
+        </span>
+      ))}
+      <Button type="button" variant="link" size="sm" onClick={() => onChange([...ranges, { ...DEFAULT_SCHEDULE_TIME_RANGE }])}>
+        + {t('scheduleAddHours')}
+      </Button>
+    </div>
+  );
+};
+
+// --- Weekly schedule for one practice location ---
+export const WeeklyScheduleEditor: React.FC<WeeklyScheduleEditorProps> = ({ idPrefix, schedule, onChange }) => {
+  const { t, direction } = useTranslation();
+
+  if (!schedule) {
+    return (
+      <Button
+        type="button"
+        variant="light"
+        size="sm"
+        onClick={() => onChange({ timeZone: getBrowserTimeZone(), weekly: {}, exceptions: [] })}
+        leftIcon={<ClockIcon className={`w-4 h-4 ${direction === 'rtl' ? 'ms-1.5' : 'me-1.5'}`} />}
+      >
+        {t('scheduleAddWeeklyHours')}
+      </Button>
+    );
+  }
+
+  const exceptions = schedule.exceptions || [];
+
+  const updateDay = (day: Weekday, ranges: TimeRange[]) => {
+    const weekly = { ...schedule.weekly };
+    if (ranges.length > 0) {
+      weekly[day] = ranges;
+    } else {
+      delete weekly[day];
+    }
+    onChange({ ...schedule, weekly });
+  };
+
+  const updateException = (index: number, changes: Partial<ScheduleException>) => {
+    onChange({ ...schedule, exceptions: exceptions.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const addException = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    onChange({ ...schedule, exceptions: [...exceptions, { date: today, ranges: [], note: '' }] });
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-md p-3 bg-white">
+      <legend className="text-sm font-medium text-gray-700 px-2">{t('scheduleWeeklyHoursTitle')}</legend>
+
+      <InputField
+        label={t('scheduleTimeZoneLabel')}
+        id={`${idPrefix}_timeZone`}
+        value={schedule.timeZone}
+        onChange={(e) => onChange({ ...schedule, timeZone: e.target.value })}
+        placeholder="Asia/Beirut"
+        description={t('scheduleTimeZoneDescription')}
+        containerClassName="mb-3"
+        required
+      />
+
+      <div className="space-y-2 mb-4">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3">
+            <span className="w-24 flex-shrink-0 text-sm font-medium text-gray-700">{t(`weekday_${day}`)}</span>
+            <TimeRangesEditor
+              idPrefix={`${idPrefix}_${day}`}
+              ranges={schedule.weekly[day] || []}
+              onChange={(ranges) => updateDay(day, ranges)}
+              emptyLabel={t('scheduleClosed')}
+            />
+          </div>
+        ))}
+      </div>
+
+      <h5 className="text-sm font-medium text-gray-700 mb-1">{t('scheduleExceptionsTitle')}</h5>
+      <p className="text-xs text-gray-500 mb-2">{t('scheduleExceptionsDescription')}</p>
+      {exceptions.map((exception, index) => (
+        <div key={index} className="flex flex-col gap-2 p-2 mb-2 border border-gray-100 rounded-md bg-gray-50/50">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              id={`${idPrefix}_exception_date_${index}`}
+              value={exception.date}
+              onChange={(e) => updateException(index, { date: e.target.value })}
+              className={timeInputClassName}
+              aria-label={t('scheduleExceptionDate')}
+              required
+            />
+            <input
+              type="text"
+              id={`${idPrefix}_exception_note_${index}`}
+              value={exception.note || ''}
+              onChange={(e) => updateException(index, { note: e.target.value })}
+              className={`${timeInputClassName} flex-grow`}
+              placeholder={t('scheduleExceptionNotePlaceholder')}
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...schedule, exceptions: exceptions.filter((_, i) => i !== index) })}
+              className="text-gray-400 hover:text-red-500 p-1"
+              aria-label={t('scheduleRemoveException')}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <TimeRangesEditor
+            idPrefix={`${idPrefix}_exception_${index}`}
+            ranges={exception.ranges}
+            onChange={(ranges) => updateException(index, { ranges })}
+            emptyLabel={t('scheduleClosedAllDay')}
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-wrap justify-between gap-2 mt-2">
+        <Button type="button" variant="secondary" size="sm" onClick={addException}>
+          + {t('scheduleAddException')}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(undefined)} className="!text-red-600">
+          {t('scheduleRemoveWeeklyHours')}
+        </Button>
+      </div>
+    </fieldset>
+  );
+};
@@ -1,24 +1,22 @@
 import React from 'react';
 import { ClinicSpaceListing } from '../../types';
 import { Button } from '../common/Button';
-import { PhotoIcon, MapPinIcon, WhatsAppIcon } from '../icons'; 
+import { PhotoIcon, MapPinIcon, ChatBubbleLeftRightIcon } from '../icons'; 
 import { useTranslation } from '../../hooks/useTranslation';
 
 interface ClinicSpaceCardProps {
   space: ClinicSpaceListing;
   onViewDetails: (space: ClinicSpaceListing) => void;
-  clinicOwnerWhatsApp?: string;
+  onMessageOwner?: (space: ClinicSpaceListing) => void;
 }
 
-export const ClinicSpaceCard: React.FC<ClinicSpaceCardProps> = ({ space, onViewDetails, clinicOwnerWhatsApp }) => {
+export const ClinicSpaceCard: React.FC<ClinicSpaceCardProps> = ({ space, onViewDetails, onMessageOwner }) => {
   const { t, direction } = useTranslation();
   const primaryPhoto = space.photos && space.photos.length > 0 ? space.photos[0] : `https://picsum.photos/seed/${space.id}/500/350`;
 
   const handleConnect = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (clinicOwnerWhatsApp) {
-      window.open(`https://wa.me/${clinicOwnerWhatsApp.replace(/\D/g, '')}?text=${encodeURIComponent(t('whatsappGreetingClinicSpace', { spaceName: space.name, clinicName: space.clinicName || t('yourClinic', {default: 'your clinic'}), appName: t('appName')}))}`, '_blank');
-    }
+    onMessageOwner?.(space);
   };
 
   return (
@@ -56,13 +54,13 @@ export const ClinicSpaceCard: React.FC<ClinicSpaceCardProps> = ({ space, onViewD
             >
             {t('viewDetailsButtonLabel', { default: "View Details" })}
             </Button>
-            {clinicOwnerWhatsApp && (
+            {onMessageOwner && space.clinicId && (
                 <Button
                     variant="ghost"
                     size="sm"
                     onClick={handleConnect}
-                    leftIcon={<WhatsAppIcon className="text-green-500" />}
-                    className="w-full !text-green-600 hover:!bg-green-50 !border-green-500"
+                    leftIcon={<ChatBubbleLeftRightIcon className="w-5 h-5" />}
+                    className="w-full border !border-accent !text-accent hover:!bg-accent/10"
                 >
                     {t('connectWithClinicOwnerButtonLabel', {default: "Chat with Owner"})}
                 </Button>
@@ -2,17 +2,18 @@ import React, { useState } from 'react';
 import { ClinicSpaceListing } from '../../types';
 import { Modal } from '../common/Modal';
 import { Button } from '../common/Button';
-import { PhotoIcon, ChevronLeftIcon, ChevronRightIcon, MapPinIcon, WhatsAppIcon } from '../icons'; 
+import { PhotoIcon, ChevronLeftIcon, ChevronRightIcon, MapPinIcon, ChatBubbleLeftRightIcon, ClockIcon } from '../icons'; 
 import { useTranslation } from '../../hooks/useTranslation';
 
 interface ClinicSpaceDetailModalProps {
   space: ClinicSpaceListing | null;
   isOpen: boolean;
   onClose: () => void;
-  clinicOwnerWhatsApp?: string;
+  onMessageOwner?: (space: ClinicSpaceListing) => void;
+  onBook?: (space: ClinicSpaceListing) => void;
 }
 
-export const ClinicSpaceDetailModal: React.FC<ClinicSpaceDetailModalProps> = ({ space, isOpen, onClose, clinicOwnerWhatsApp }) => {
+export const ClinicSpaceDetailModal: React.FC<ClinicSpaceDetailModalProps> = ({ space, isOpen, onClose, onMessageOwner, onBook }) => {
   const { t, direction } = useTranslation();
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
 
@@ -33,9 +34,7 @@ export const ClinicSpaceDetailModal: React.FC<ClinicSpaceDetailModalProps> = ({
 
   const handleConnect = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (clinicOwnerWhatsApp) {
-      window.open(`https://wa.me/${clinicOwnerWhatsApp.replace(/\D/g, '')}?text=${encodeURIComponent(t('whatsappGreetingClinicSpace', { spaceName: space.name, clinicName: space.clinicName || t('yourClinic', {default: 'your clinic'}), appName: t('appName')}))}`, '_blank');
-    }
+    onMessageOwner?.(space);
   };
 
 
@@ -115,12 +114,20 @@ export const ClinicSpaceDetailModal: React.FC<ClinicSpaceDetailModalProps> = ({
         )}
         
          <div className="pt-4 border-t border-gray-200 flex flex-col sm:flex-row justify-end gap-3">
-            {clinicOwnerWhatsApp && (
+            {onBook && (
+                <Button
+                    variant="primary"
+                    onClick={() => onBook(space)}
+                    leftIcon={<ClockIcon className="w-5 h-5 text-white"/>}
+                >
+                    {t('requestSpaceBookingButtonLabel')}
+                </Button>
+            )}
+            {onMessageOwner && space.clinicId && (
                  <Button 
                     variant="primary" 
                     onClick={handleConnect}
-                    leftIcon={<WhatsAppIcon className="text-white"/>}
-                    className="!bg-green-500 hover:!bg-green-600"
+                    leftIcon={<ChatBubbleLeftRightIcon className="w-5 h-5 text-white"/>}
                 >
                     {t('connectWithClinicOwnerButtonLabel', {default: "Chat with Owner"})}
                 </Button>
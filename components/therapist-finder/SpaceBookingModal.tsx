@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ClinicSpaceListing, SpaceReservation, SpaceSlot } from '../../types';
+import { FUNCTIONS_API_BASE_URL, SPACE_BOOKING_WINDOW_DAYS } from '../../constants';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { SelectField, TextareaField } from '../dashboard/shared/FormElements';
+import { ClockIcon } from '../icons';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface SpaceBookingModalProps {
+  space: ClinicSpaceListing | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onBooked?: (reservation: SpaceReservation) => void;
+}
+
+// Number of back-to-back free slots from the given index, so a booking never spans a taken slot
+const countConsecutiveFree = (slots: SpaceSlot[], index: number): number => {
+  let count = 0;
+  for (let i = index; i < slots.length && slots[i].isAvailable; i++) {
+    if (i > index && slots[i].startTime !== slots[i - 1].endTime) break;
+    count++;
+  }
+  return count;
+};
+
+export const SpaceBookingModal: React.FC<SpaceBookingModalProps> = ({ space, isOpen, onClose, onBooked }) => {
+  const { t } = useTranslation();
+  const { token } = useAuth();
+  const [slots, setSlots] = useState<SpaceSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [slotCount, setSlotCount] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !space) return;
+
+    setSelectedIndex(null);
+    setSlotCount('1');
+    setNotes('');
+    setError(null);
+    setIsLoadingSlots(true);
+
+    const from = new Date();
+    const to = new Date(from.getTime() + SPACE_BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${space.id}/slots?from=${from.toISOString()}&to=${to.toISOString()}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+        setSlots(data.slots);
+      })
+      .catch(err => {
+        console.error('Error fetching space slots:', err);
+        setError(err.message);
+        setSlots([]);
+      })
+      .finally(() => setIsLoadingSlots(false));
+  }, [isOpen, space, t]);
+
+  // Slots grouped by the viewer's local calendar day
+  const slotsByDay = useMemo(() => {
+    const groups: { day: string; items: { slot: SpaceSlot; index: number }[] }[] = [];
+    slots.forEach((slot, index) => {
+      const day = new Date(slot.startTime).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+      const group = groups[groups.length - 1];
+      if (group && group.day === day) {
+        group.items.push({ slot, index });
+      } else {
+        groups.push({ day, items: [{ slot, index }] });
+      }
+    });
+    return groups;
+  }, [slots]);
+
+  const maxSlotCount = selectedIndex === null ? 0 : countConsecutiveFree(slots, selectedIndex);
+
+  if (!space) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedIndex === null) {
+      setError(t('spaceBookingSlotRequired'));
+      return;
+    }
+    const startSlot = slots[selectedIndex];
+    const endSlot = slots[selectedIndex + parseInt(slotCount, 10) - 1];
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/space_reservations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({
+          spaceId: space.id,
+          startTime: startSlot.startTime,
+          endTime: endSlot.endTime,
+          notes,
+        }),
+      });
+      const data = await response.json();
+      if (data.status === 'success' && data.reservation) {
+        alert(t('spaceBookingRequestedSuccess', { name: space.clinicName || space.name }));
+        onBooked?.(data.reservation);
+        onClose();
+      } else {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+    } catch (err: any) {
+      console.error('Error requesting space booking:', err);
+      setError(err.message);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('spaceBookingModalTitle', { name: space.name })} size="2xl">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {isLoadingSlots ? (
+          <p className="text-sm text-gray-500">{t('loading')}...</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('spaceBookingNoSlots')}</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-3 pe-1">
+            {slotsByDay.map(group => (
+              <div key={group.day}>
+                <p className="text-sm font-semibold text-textOnLight mb-1.5">{group.day}</p>
+                <div className="flex flex-wrap gap-2">
+                  {group.items.map(({ slot, index }) => (
+                    <button
+                      key={slot.startTime}
+                      type="button"
+                      disabled={!slot.isAvailable}
+                      onClick={() => { setSelectedIndex(index); setSlotCount('1'); }}
+                      className={`px-2.5 py-1 text-xs rounded-md border transition-colors ${
+                        selectedIndex === index
+                          ? 'bg-accent text-white border-accent'
+                          : slot.isAvailable
+                            ? 'bg-white text-textOnLight border-gray-300 hover:border-accent'
+                            : 'bg-gray-100 text-gray-400 border-gray-200 line-through cursor-not-allowed'
+                      }`}
+                    >
+                      {new Date(slot.startTime).toLocaleTimeString([], { timeStyle: 'short' })}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {maxSlotCount > 1 && (
+          <SelectField
+            label={t('spaceBookingLengthLabel')}
+            id="slotCount"
+            value={slotCount}
+            onChange={(e) => setSlotCount(e.target.value)}
+            options={Array.from({ length: maxSlotCount }, (_, i) => {
+              const endTime = new Date(slots[(selectedIndex as number) + i].endTime);
+              return {
+                value: String(i + 1),
+                label: t('spaceBookingUntilOption', { time: endTime.toLocaleTimeString([], { timeStyle: 'short' }) }),
+              };
+            })}
+          />
+        )}
+        <TextareaField
+          label={t('spaceBookingNotesLabel')}
+          id="spaceBookingNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="pt-2 flex justify-end space-x-3">
+          <Button type="button" variant="light" onClick={onClose}>{t('cancelButtonLabel')}</Button>
+          <Button type="submit" variant="primary" disabled={isLoading || selectedIndex === null} leftIcon={<ClockIcon className="w-4 h-4" />}>
+            {isLoading ? t('bookingSubmitting') : t('spaceBookingSubmitButton')}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -3,14 +3,29 @@ import React, { useEffect, useRef } from 'react';
 import { Therapist } from '../../types';
 import { useTranslation } from '../../hooks/useTranslation'; // Import useTranslation
 
+export interface MapSearchArea {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
 interface TherapistMapViewProps {
   therapists: Therapist[];
   onViewProfile: (therapist: Therapist) => void;
+  onAreaChange?: (area: MapSearchArea) => void; // Called after the user pans or zooms the map
 }
 
-export const TherapistMapView: React.FC<TherapistMapViewProps> = ({ therapists, onViewProfile }) => {
+const WORLD_VIEW: { center: [number, number]; zoom: number } = { center: [20, 0], zoom: 2 };
+const USER_LOCATION_ZOOM = 11;
+const AREA_CHANGE_DEBOUNCE_MS = 400;
+
+export const TherapistMapView: React.FC<TherapistMapViewProps> = ({ therapists, onViewProfile, onAreaChange }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<any>(null); // L.Map instance
+  const isProgrammaticMove = useRef(false); // True while the map is moved by code rather than the user
+  const hasUserMovedMap = useRef(false);
+  const onAreaChangeRef = useRef(onAreaChange);
+  onAreaChangeRef.current = onAreaChange;
   // @ts-ignore
   const L = window.L; // Get Leaflet from window object
   const { t, direction } = useTranslation(); // Use translation hook
@@ -25,11 +40,40 @@ export const TherapistMapView: React.FC<TherapistMapViewProps> = ({ therapists,
     }
 
     if (mapRef.current && !mapInstance.current) {
-      mapInstance.current = L.map(mapRef.current).setView([34.0522, -118.2437], 10); // Default to Los Angeles
+      mapInstance.current = L.map(mapRef.current).setView(WORLD_VIEW.center, WORLD_VIEW.zoom);
       
       L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
         attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
       }).addTo(mapInstance.current);
+
+      // Re-query for the visible area once the user stops panning/zooming
+      let debounceId: ReturnType<typeof setTimeout> | undefined;
+      mapInstance.current.on('moveend', () => {
+        if (isProgrammaticMove.current) {
+          isProgrammaticMove.current = false;
+          return;
+        }
+        hasUserMovedMap.current = true;
+        clearTimeout(debounceId);
+        debounceId = setTimeout(() => {
+          const map = mapInstance.current;
+          if (!map || !onAreaChangeRef.current) return;
+          const center = map.getCenter();
+          const radiusKm = map.distance(center, map.getBounds().getNorthEast()) / 1000;
+          onAreaChangeRef.current({ lat: center.lat, lng: center.lng, radiusKm: Math.ceil(radiusKm) });
+        }, AREA_CHANGE_DEBOUNCE_MS);
+      });
+
+      // Start around the user when the browser can tell us where that is
+      if (navigator.geolocation) {
+        navigator.geolocation.getCurrentPosition(
+          (position) => {
+            if (!mapInstance.current || hasUserMovedMap.current) return;
+            mapInstance.current.setView([position.coords.latitude, position.coords.longitude], USER_LOCATION_ZOOM);
+          },
+          () => { /* Permission denied or unavailable: keep the results-based view */ }
+        );
+      }
     }
 
     // Add/Update markers
@@ -55,6 +99,7 @@ export const TherapistMapView: React.FC<TherapistMapViewProps> = ({ therapists,
                 <h4 style="font-weight: 600; margin-bottom: 4px; color: #1e293b; text-align: ${direction === 'rtl' ? 'right' : 'left'};">${therapist.name}</h4>
                 <p style="font-size: 0.8rem; margin-bottom: 2px; color: #4b5563; text-align: ${direction === 'rtl' ? 'right' : 'left'};">${therapist.specializations[0]}</p>
                 <p style="font-size: 0.8rem; margin-bottom: 6px; color: #4b5563; text-align: ${direction === 'rtl' ? 'right' : 'left'};">${location.address.split(',').slice(0,2).join(',')}</p>
+                ${therapist.distanceKm !== undefined ? `<p style="font-size: 0.75rem; margin-bottom: 6px; color: #6b7280; text-align: ${direction === 'rtl' ? 'right' : 'left'};">${t('distanceKmAway', { distance: therapist.distanceKm })}</p>` : ''}
               `;
               
               const button = document.createElement('button');
@@ -68,11 +113,11 @@ export const TherapistMapView: React.FC<TherapistMapViewProps> = ({ therapists,
             }
           });
         });
-        if (bounds.isValid()) {
+        // Once the user is driving the map, results follow the viewport rather than the other way round
+        if (bounds.isValid() && !hasUserMovedMap.current) {
+             isProgrammaticMove.current = true;
              mapInstance.current.fitBounds(bounds, { padding: [50, 50] });
         }
-      } else if (mapInstance.current.getZoom() > 5) { 
-         mapInstance.current.setView([34.0522, -118.2437], 10); 
       }
     }
   }, [therapists, onViewProfile, L, t, direction]);
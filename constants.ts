@@ -1,4 +1,4 @@
-import { UserRole, User, Therapist, Clinic, MembershipStatus, PracticeLocation } from './types';
+import { UserRole, User, Therapist, Clinic, MembershipStatus, PracticeLocation, Weekday, TimeRange } from './types';
 
 // In a real app, this would be set in the environment and NOT hardcoded.
 // Polyfill process for browser environment if it doesn't exist
@@ -26,11 +26,17 @@ if (typeof (window as any).process === 'undefined') {
 
 
 export const API_BASE_URL = '/backend/api'; // As per README.md
+export const FUNCTIONS_API_BASE_URL = '/api'; // Firebase Functions `api`, see rewrites in firebase.json
 
 export const AVAILABILITY_OPTIONS = ['Weekdays', 'Weekends', 'Evenings', 'Mornings', 'Immediate'];
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+export const DEFAULT_SCHEDULE_TIME_RANGE: TimeRange = { start: '09:00', end: '17:00' };
 export const THERAPIST_MEMBERSHIP_FEE = 4; // USD per month
 export const CLINIC_MEMBERSHIP_FEE = 8; // USD per month
 export const STANDARD_MEMBERSHIP_TIER_NAME = "Standard Membership";
+export const APPOINTMENT_DURATION_OPTIONS = [30, 45, 60, 90]; // minutes
+export const SPACE_SLOT_DURATION_OPTIONS = [30, 60, 120, 240]; // minutes per bookable clinic space slot
+export const SPACE_BOOKING_WINDOW_DAYS = 14; // How far ahead therapists can see open space slots
 
 
 export const APP_NAME = "TheraWay";
@@ -56,6 +62,30 @@ export const SPECIALIZATIONS_LIST = [
 
 export const LANGUAGES_LIST = ['English', 'Spanish', 'French', 'German', 'Arabic', 'Mandarin', 'Japanese', 'Hindi', 'Portuguese', 'Russian'];
 
+// Licensing authorities suggested for a certification's issuing body, by country of practice
+export const CERTIFICATION_ISSUING_BODIES: Record<string, string[]> = {
+  'Egypt': ['Ministry of Health and Population (MoHP)', 'Egyptian Medical Syndicate'],
+  'Saudi Arabia': ['Saudi Commission for Health Specialties (SCFHS)'],
+  'United Arab Emirates': ['Dubai Health Authority (DHA)', 'Department of Health Abu Dhabi (DOH)', 'Ministry of Health and Prevention (MOHAP)'],
+  'Jordan': ['Jordan Medical Council', 'Ministry of Health'],
+  'Lebanon': ['Ministry of Public Health'],
+  'United Kingdom': ['Health and Care Professions Council (HCPC)', 'British Association for Counselling and Psychotherapy (BACP)', 'UK Council for Psychotherapy (UKCP)'],
+  'United States': ['State Licensing Board'],
+};
+// Common ways therapists write those countries
+const ISSUING_BODY_COUNTRY_ALIASES: Record<string, string> = {
+  'uae': 'United Arab Emirates', 'emirates': 'United Arab Emirates',
+  'ksa': 'Saudi Arabia', 'saudi': 'Saudi Arabia',
+  'uk': 'United Kingdom', 'england': 'United Kingdom',
+  'usa': 'United States', 'us': 'United States', 'united states of america': 'United States',
+};
+export const getIssuingBodiesForCountry = (country?: string): string[] => {
+  const normalized = (country || '').trim().toLowerCase();
+  const match = Object.keys(CERTIFICATION_ISSUING_BODIES).find(name => name.toLowerCase() === normalized)
+    || ISSUING_BODY_COUNTRY_ALIASES[normalized];
+  return match ? CERTIFICATION_ISSUING_BODIES[match] : [];
+};
+
 export const CLINIC_SPACE_FEATURES_LIST = [
     "Wi-Fi", "Whiteboard", "Projector", "Soundproof", "Air Conditioning", "Heating",
     "Comfortable Seating", "Waiting Area Access", "Kitchenette Access", "Restroom Access",
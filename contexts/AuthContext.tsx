@@ -1,6 +1,6 @@
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
-import { User, UserRole } from '../types';
-import { DEFAULT_USER_ROLE } from '../constants';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { User, UserRole, LoginMethod } from '../types';
+import { DEFAULT_USER_ROLE, FUNCTIONS_API_BASE_URL } from '../constants';
 import { useFirebase } from './FirebaseContext';
 import { 
   signIn, 
@@ -11,6 +11,8 @@ import {
   signInWithGoogle, 
   signInWithFacebook 
 } from '../src/firebase/auth';
+import { auth } from '../src/firebase/config';
+import { useFirestoreDocument } from '../src/hooks/useFirestoreDocument';
 
 interface AuthContextType {
   user: User | null;
@@ -34,6 +36,21 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Adds the sign-in to the user's login history. A failure here never blocks the login.
+const recordLogin = async (method: LoginMethod) => {
+  try {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) return;
+    await fetch(`${FUNCTIONS_API_BASE_URL}/login_events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${idToken}` },
+      body: JSON.stringify({ method })
+    });
+  } catch (error) {
+    console.error("Error recording login:", error);
+  }
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { firebaseUser, appUser, loading: firebaseLoading } = useFirebase();
   const [user, setUser] = useState<User | null>(null);
@@ -58,6 +75,32 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [firebaseUser, appUser, firebaseLoading]);
 
+  // Functions bump claimsVersion on the users document whenever the role claim changes
+  const { data: claimsState } = useFirestoreDocument<{ role?: UserRole; claimsVersion?: number }>('users', firebaseUser?.uid, { listen: true });
+  const seenClaimsVersion = useRef<{ uid: string; version?: number } | null>(null);
+
+  useEffect(() => {
+    if (!firebaseUser || !claimsState) return;
+
+    const seen = seenClaimsVersion.current;
+    seenClaimsVersion.current = { uid: firebaseUser.uid, version: claimsState.claimsVersion };
+    // The first snapshot for a user is the version the current token already carries
+    if (!seen || seen.uid !== firebaseUser.uid || seen.version === claimsState.claimsVersion) return;
+
+    firebaseUser.getIdToken(true).then(idToken => {
+      setToken(idToken);
+      if (claimsState.role) {
+        setUser(prevUser => (prevUser ? { ...prevUser, role: claimsState.role as UserRole } : null));
+      }
+    }).catch(error => {
+      // Role changes revoke refresh tokens, so the session has to sign in again
+      console.error("Token refresh after claims change failed:", error);
+      signOutUser().finally(() => {
+        setAuthError("Your account permissions have changed. Please sign in again.");
+      });
+    });
+  }, [firebaseUser, claimsState]);
+
   const isAuthenticated = !!user && !!token;
 
   const updateUserAuthContext = useCallback((updatedUserData: Partial<User>) => {
@@ -74,6 +117,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const userData = await signIn(email, password);
       setUser(userData);
+      recordLogin('password');
       
       if (firebaseUser) {
         const idToken = await firebaseUser.getIdToken();
@@ -99,6 +143,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const userData = await signInWithGoogle(role);
       setUser(userData);
+      recordLogin('google');
       
       if (firebaseUser) {
         const idToken = await firebaseUser.getIdToken(true); // Force refresh token
@@ -124,6 +169,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const userData = await signInWithFacebook(role);
       setUser(userData);
+      recordLogin('facebook');
       
       if (firebaseUser) {
         const idToken = await firebaseUser.getIdToken(true); // Force refresh token
@@ -149,6 +195,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const userData = await signUp(name, email, password, role);
       setUser(userData);
+      recordLogin('password');
       
       if (firebaseUser) {
         const idToken = await firebaseUser.getIdToken();
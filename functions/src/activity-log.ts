@@ -0,0 +1,120 @@
+import * as admin from 'firebase-admin';
+import * as express from 'express';
+
+// Server-written audit trail shown in the admin activity log. Entries are only
+// ever created here (clients cannot write the collection), one per successful
+// mutating API request plus the ones recorded by triggers.
+export const ACTIVITY_LOGS_COLLECTION = 'activity_logs';
+
+export const MAX_ACTIVITY_LOGS_PAGE_SIZE = 500;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Bookkeeping fields that change on every write and say nothing about the action
+const IGNORED_DIFF_FIELDS = ['updatedAt', 'createdAt'];
+
+export interface ActivityActor {
+  uid: string;
+  name?: string;
+  role?: string;
+}
+
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  before?: any;
+  after?: any;
+  details?: Record<string, any>;
+}
+
+const isSameValue = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Top-level fields that differ between two versions of a document, as
+ * { field: { before, after } }. A missing side (creation or deletion) shows up
+ * as null.
+ */
+export const diffFields = (before: any, after: any): Record<string, { before: any; after: any }> => {
+  const changes: Record<string, { before: any; after: any }> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_DIFF_FIELDS.includes(field)) return;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (!isSameValue(previous, next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  });
+  return changes;
+};
+
+/**
+ * Writes one activity log entry. Failures are logged and swallowed so an audit
+ * hiccup never fails the action it describes.
+ */
+export const logActivity = async (actor: ActivityActor | null, entry: AuditEntry): Promise<void> => {
+  try {
+    const logRef = admin.firestore().collection(ACTIVITY_LOGS_COLLECTION).doc();
+    const hasDiff = entry.before !== undefined || entry.after !== undefined;
+
+    await logRef.set({
+      id: logRef.id,
+      timestamp: new Date().toISOString(),
+      userId: actor?.uid || null,
+      userName: actor?.name || null,
+      userRole: actor?.role || null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId || null,
+      changes: hasDiff ? diffFields(entry.before, entry.after) : null,
+      details: entry.details || null
+    });
+  } catch (error) {
+    console.error('Error writing activity log:', error);
+  }
+};
+
+// Describes the request's action for the audit trail, with the target's state
+// before and after when the route has it
+export const setAudit = (res: express.Response, entry: AuditEntry): void => {
+  res.locals.audit = entry;
+};
+
+// For personal bookkeeping routes (read receipts, push subscriptions) that are not worth auditing
+export const skipAudit = (res: express.Response): void => {
+  res.locals.audit = null;
+};
+
+// "PUT /clinic_spaces/space_1/blocks" -> targetType clinic_spaces, targetId space_1
+const describeRequest = (req: express.Request): AuditEntry => {
+  const [resource, id] = req.path.split('/').filter(Boolean);
+  return {
+    action: `${req.method} ${req.path}`,
+    targetType: resource || 'system',
+    targetId: id || req.body?.id || null,
+    details: { fields: Object.keys(req.body || {}) }
+  };
+};
+
+/**
+ * Records every successful mutating request made by a signed-in user. The entry
+ * is written before the response goes out, since work left running after a
+ * function responds may never finish.
+ */
+export const auditMutations = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  const sendJson = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (res.statusCode >= 400 || res.locals.audit === null || !req.user) {
+      return sendJson(body);
+    }
+    logActivity(req.user, res.locals.audit || describeRequest(req)).finally(() => sendJson(body));
+    return res;
+  };
+  next();
+};
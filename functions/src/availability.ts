@@ -0,0 +1,227 @@
+// Weekly schedule helpers for the /therapists availability filter and clinic space booking.
+// Schedules live on each practice location and bookable clinic space as
+// { timeZone, weekly: { mon: [{ start: 'HH:mm', end: 'HH:mm' }], ... }, exceptions: [{ date, ranges }] }.
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WORKING_DAYS = ['mon', 'tue', 'wed', 'thu', 'fri'];
+const WEEKEND_DAYS = ['sat', 'sun'];
+
+// Local-time windows (in minutes since midnight) behind the coarse filter tags
+const MORNING_WINDOW = { start: 6 * 60, end: 12 * 60 };
+const EVENING_WINDOW = { start: 17 * 60, end: 22 * 60 };
+
+// "Immediate" means the therapist has open hours within this many days
+const IMMEDIATE_WINDOW_DAYS = 2;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const overlaps = (range: any, window: { start: number; end: number }): boolean =>
+  toMinutes(range.start) < window.end && toMinutes(range.end) > window.start;
+
+// Current date, weekday and minute of day as seen in the given time zone
+const getLocalNow = (timeZone: string, now: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '0';
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10)
+  };
+};
+
+// Ranges in effect on a given local calendar day, after applying exceptions
+const getRangesForDay = (schedule: any, year: number, month: number, day: number): any[] => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const isoDate = date.toISOString().slice(0, 10);
+  const exception = (schedule.exceptions || []).find((item: any) => item.date === isoDate);
+
+  if (exception) {
+    return exception.ranges || [];
+  }
+  return schedule.weekly?.[WEEKDAYS[date.getUTCDay()]] || [];
+};
+
+const hasOpenHoursSoon = (schedule: any, now: Date): boolean => {
+  let local;
+  try {
+    local = getLocalNow(schedule.timeZone || 'UTC', now);
+  } catch (error) {
+    // Unknown time zone; skip this schedule rather than failing the whole search
+    return false;
+  }
+
+  for (let offset = 0; offset <= IMMEDIATE_WINDOW_DAYS; offset++) {
+    const ranges = getRangesForDay(schedule, local.year, local.month, local.day + offset);
+    const isOpen = ranges.some((range: any) => {
+      if (offset === 0) return toMinutes(range.end) > local.minutes;
+      if (offset === IMMEDIATE_WINDOW_DAYS) return toMinutes(range.start) < local.minutes;
+      return true;
+    });
+    if (isOpen) return true;
+  }
+  return false;
+};
+
+const scheduleMatchesTag = (schedule: any, tag: string, now: Date): boolean => {
+  const weekly = schedule.weekly || {};
+  const rangesOn = (days: string[]) => days.flatMap(day => weekly[day] || []);
+
+  switch (tag) {
+    case 'Weekdays':
+      return rangesOn(WORKING_DAYS).length > 0;
+    case 'Weekends':
+      return rangesOn(WEEKEND_DAYS).length > 0;
+    case 'Mornings':
+      return rangesOn(WEEKDAYS).some(range => overlaps(range, MORNING_WINDOW));
+    case 'Evenings':
+      return rangesOn(WEEKDAYS).some(range => overlaps(range, EVENING_WINDOW));
+    case 'Immediate':
+      return hasOpenHoursSoon(schedule, now);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether a therapist matches any of the requested availability tags.
+ * Profiles that have not set up a schedule on any location yet fall back to
+ * their legacy `availability` tags.
+ */
+export const matchesAvailability = (therapist: any, tags: string[], now: Date = new Date()): boolean => {
+  const schedules = (therapist.locations || [])
+    .map((location: any) => location.schedule)
+    .filter((schedule: any) => schedule && schedule.weekly);
+
+  if (schedules.length === 0) {
+    return (therapist.availability || []).some((tag: string) => tags.includes(tag));
+  }
+
+  return tags.some(tag => schedules.some((schedule: any) => scheduleMatchesTag(schedule, tag, now)));
+};
+
+/**
+ * The time-independent tags (everything except "Immediate") a therapist matches,
+ * used to denormalize availability into the therapist's search keys.
+ */
+export const getWeeklyAvailabilityTags = (therapist: any): string[] => {
+  const weeklyTags = ['Weekdays', 'Weekends', 'Mornings', 'Evenings'];
+  return weeklyTags.filter(tag => matchesAvailability(therapist, [tag]));
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const validateRanges = (ranges: any, label: string): string | null => {
+  if (!Array.isArray(ranges)) return `${label} must be a list of time ranges`;
+
+  const sorted = [...ranges].sort((a, b) => String(a?.start).localeCompare(String(b?.start)));
+  for (let i = 0; i < sorted.length; i++) {
+    const range = sorted[i];
+    if (!TIME_PATTERN.test(range?.start) || !TIME_PATTERN.test(range?.end)) {
+      return `${label} has a time that is not in HH:mm format`;
+    }
+    if (toMinutes(range.end) <= toMinutes(range.start)) {
+      return `${label} has a range that ends before it starts`;
+    }
+    if (i > 0 && toMinutes(range.start) < toMinutes(sorted[i - 1].end)) {
+      return `${label} has overlapping ranges`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks a single weekly schedule. Returns an error message prefixed with the
+ * label for the first problem found, or null if it is valid.
+ */
+export const validateSchedule = (schedule: any, label: string): string | null => {
+  if (!schedule.timeZone || !isValidTimeZone(schedule.timeZone)) {
+    return `${label}: invalid time zone`;
+  }
+
+  for (const [day, ranges] of Object.entries(schedule.weekly || {})) {
+    if (!WEEKDAYS.includes(day)) return `${label}: unknown weekday "${day}"`;
+    const error = validateRanges(ranges, `${label} (${day})`);
+    if (error) return error;
+  }
+
+  for (const exception of schedule.exceptions || []) {
+    if (!DATE_PATTERN.test(exception?.date)) {
+      return `${label}: exception dates must be in YYYY-MM-DD format`;
+    }
+    const error = validateRanges(exception.ranges || [], `${label} (${exception.date})`);
+    if (error) return error;
+  }
+  return null;
+};
+
+/**
+ * Checks the schedules on a list of practice locations.
+ * Returns an error message for the first problem found, or null if all are valid.
+ */
+export const validateLocationSchedules = (locations: any[]): string | null => {
+  for (const location of locations || []) {
+    if (!location?.schedule) continue;
+
+    const error = validateSchedule(location.schedule, location.address || 'Location');
+    if (error) return error;
+  }
+  return null;
+};
+
+// UTC instant of a wall-clock time on a local calendar day in the given time zone
+const localTimeToUtc = (timeZone: string, year: number, month: number, day: number, minutes: number): Date => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const local = getLocalNow(timeZone, new Date(guess));
+  const offset = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - guess;
+  return new Date(guess - offset);
+};
+
+/**
+ * Lists the schedule's open hours between two instants as UTC intervals,
+ * clipped to the requested window.
+ */
+export const getOpenIntervals = (schedule: any, from: Date, to: Date): { start: Date; end: Date }[] => {
+  const intervals: { start: Date; end: Date }[] = [];
+  const timeZone = schedule.timeZone || 'UTC';
+  const first = getLocalNow(timeZone, from);
+  const dayCount = Math.ceil((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+
+  for (let offset = 0; offset <= dayCount; offset++) {
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+
+    for (const range of getRangesForDay(schedule, year, month, day)) {
+      const start = localTimeToUtc(timeZone, year, month, day, toMinutes(range.start));
+      const end = localTimeToUtc(timeZone, year, month, day, toMinutes(range.end));
+      if (end <= from || start >= to) continue;
+      intervals.push({
+        start: start < from ? from : start,
+        end: end > to ? to : end
+      });
+    }
+  }
+  return intervals;
+};
@@ -0,0 +1,305 @@
+import * as admin from 'firebase-admin';
+import PDFDocument = require('pdfkit');
+import { createNotification } from './notifications';
+
+// Membership billing: invoices with priced line items, a ledger of payments against
+// them, and the renewal dates they move forward. Payments are still bank transfers
+// evidenced by an uploaded receipt, confirmed by an admin.
+export const INVOICES_COLLECTION = 'invoices';
+export const PAYMENTS_COLLECTION = 'payments';
+const BILLING_COUNTERS_COLLECTION = 'billing_counters';
+
+export type BillingAccountType = 'THERAPIST' | 'CLINIC';
+
+// Monthly fees, mirroring THERAPIST_MEMBERSHIP_FEE and CLINIC_MEMBERSHIP_FEE in constants.ts
+export const MEMBERSHIP_MONTHLY_FEES: Record<BillingAccountType, number> = {
+  THERAPIST: 4,
+  CLINIC: 8
+};
+export const MEMBERSHIP_TIER_NAME = 'Standard Membership';
+export const MEMBERSHIP_TERM_MONTHS = 12; // Each payment buys a year, billed as 12 monthly line units
+export const BILLING_CURRENCY = 'USD';
+export const RENEWAL_REMINDER_DAYS = 7;
+
+export interface BillingAccount {
+  type: BillingAccountType;
+  id: string; // therapists_data or clinics_data document ID
+  userId: string; // The user who is billed and notified
+  name: string;
+}
+
+interface PaymentInput {
+  receiptUrl?: string | null;
+  method: 'bank_transfer' | 'manual';
+  recordedBy: string; // Admin user ID
+  notes?: string;
+}
+
+const ACCOUNT_COLLECTIONS: Record<BillingAccountType, string> = {
+  THERAPIST: 'therapists_data',
+  CLINIC: 'clinics_data'
+};
+
+const BILLING_LINKS: Record<BillingAccountType, string> = {
+  THERAPIST: '/dashboard/therapist/billing',
+  CLINIC: '/dashboard/clinic/billing'
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+/**
+ * Loads the billing account for a therapist or clinic document. Returns null if it doesn't exist.
+ */
+export const loadBillingAccount = async (type: BillingAccountType, id: string): Promise<BillingAccount | null> => {
+  const doc = await admin.firestore().collection(ACCOUNT_COLLECTIONS[type]).doc(id).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data() || {};
+  return {
+    type,
+    id,
+    userId: type === 'THERAPIST' ? id : data.ownerId,
+    name: data.name || ''
+  };
+};
+
+const getRenewalDate = (type: BillingAccountType, data: any): string | undefined =>
+  type === 'THERAPIST' ? data?.membershipRenewalDate : data?.theraWayMembership?.renewalDate;
+
+export const buildMembershipLineItems = (type: BillingAccountType, periodStart: Date, periodEnd: Date) => {
+  const unitPrice = MEMBERSHIP_MONTHLY_FEES[type];
+  const label = type === 'THERAPIST' ? 'Therapist' : 'Clinic';
+  return [{
+    description: `${MEMBERSHIP_TIER_NAME} (${label}), ${periodStart.toISOString().slice(0, 10)} to ${periodEnd.toISOString().slice(0, 10)}`,
+    quantity: MEMBERSHIP_TERM_MONTHS,
+    unitPrice,
+    amount: roundCurrency(unitPrice * MEMBERSHIP_TERM_MONTHS)
+  }];
+};
+
+// Sequential, human-readable invoice numbers, e.g. INV-2026-000042
+const nextInvoiceNumber = async (issuedAt: Date): Promise<string> => {
+  const counterRef = admin.firestore().collection(BILLING_COUNTERS_COLLECTION).doc('invoices');
+  const number = await admin.firestore().runTransaction(async (transaction) => {
+    const counterDoc = await transaction.get(counterRef);
+    const next = (counterDoc.data()?.lastNumber || 0) + 1;
+    transaction.set(counterRef, { lastNumber: next }, { merge: true });
+    return next;
+  });
+  return `INV-${issuedAt.getUTCFullYear()}-${String(number).padStart(6, '0')}`;
+};
+
+export const findOpenInvoice = async (account: BillingAccount) => {
+  const snapshot = await admin.firestore()
+    .collection(INVOICES_COLLECTION)
+    .where('accountId', '==', account.id)
+    .where('status', '==', 'open')
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+};
+
+/**
+ * Issues an open membership invoice for the next term. The term starts at the current
+ * renewal date if the membership is still running, otherwise now.
+ */
+export const issueMembershipInvoice = async (account: BillingAccount, now: Date = new Date()) => {
+  const accountDoc = await admin.firestore().collection(ACCOUNT_COLLECTIONS[account.type]).doc(account.id).get();
+  const renewalDate = getRenewalDate(account.type, accountDoc.data());
+  const periodStart = renewalDate && new Date(renewalDate) > now ? new Date(renewalDate) : now;
+  const periodEnd = addMonths(periodStart, MEMBERSHIP_TERM_MONTHS);
+  const lineItems = buildMembershipLineItems(account.type, periodStart, periodEnd);
+  const total = roundCurrency(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  const invoiceRef = admin.firestore().collection(INVOICES_COLLECTION).doc();
+  const invoice = {
+    id: invoiceRef.id,
+    number: await nextInvoiceNumber(now),
+    accountType: account.type,
+    accountId: account.id,
+    billedUserId: account.userId,
+    billedName: account.name,
+    lineItems,
+    currency: BILLING_CURRENCY,
+    subtotal: total,
+    total,
+    status: 'open',
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    issuedAt: now.toISOString(),
+    dueAt: periodStart.toISOString(),
+    paidAt: null,
+    paymentId: null
+  };
+  await invoiceRef.set(invoice);
+  return invoice;
+};
+
+/**
+ * Records a confirmed payment against the account's open invoice (issuing one if
+ * needed), marks the invoice paid and moves the renewal date to the end of its term.
+ */
+export const recordMembershipPayment = async (account: BillingAccount, input: PaymentInput) => {
+  let openInvoice = await findOpenInvoice(account);
+
+  // An open invoice whose whole term has passed is stale; void it and bill a fresh term
+  if (openInvoice && new Date(openInvoice.data().periodEnd) <= new Date()) {
+    await openInvoice.ref.update({ status: 'void' });
+    openInvoice = null;
+  }
+
+  const invoice: any = openInvoice ? openInvoice.data() : await issueMembershipInvoice(account);
+  const now = new Date().toISOString();
+
+  const paymentRef = admin.firestore().collection(PAYMENTS_COLLECTION).doc();
+  const payment = {
+    id: paymentRef.id,
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.number,
+    accountType: account.type,
+    accountId: account.id,
+    billedUserId: account.userId,
+    amount: invoice.total,
+    currency: invoice.currency,
+    method: input.method,
+    receiptUrl: input.receiptUrl || null,
+    status: 'confirmed',
+    notes: input.notes || null,
+    recordedBy: input.recordedBy,
+    createdAt: now
+  };
+
+  const accountUpdate = account.type === 'THERAPIST'
+    ? { membershipRenewalDate: invoice.periodEnd, membershipStatus: 'active' }
+    : {
+      'theraWayMembership.status': 'active',
+      'theraWayMembership.tierName': MEMBERSHIP_TIER_NAME,
+      'theraWayMembership.renewalDate': invoice.periodEnd
+    };
+
+  const batch = admin.firestore().batch();
+  batch.set(paymentRef, payment);
+  batch.update(admin.firestore().collection(INVOICES_COLLECTION).doc(invoice.id), {
+    status: 'paid',
+    paidAt: now,
+    paymentId: paymentRef.id
+  });
+  batch.update(admin.firestore().collection(ACCOUNT_COLLECTIONS[account.type]).doc(account.id), accountUpdate);
+  await batch.commit();
+
+  return { invoice: { ...invoice, status: 'paid', paidAt: now, paymentId: paymentRef.id }, payment };
+};
+
+/**
+ * Sends reminders (and issues the renewal invoice) for memberships ending within
+ * RENEWAL_REMINDER_DAYS, and marks memberships past their renewal date as expired.
+ */
+export const processMembershipRenewals = async (now: Date = new Date()) => {
+  const reminderCutoff = new Date(now.getTime() + RENEWAL_REMINDER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const summary = { reminded: 0, expired: 0 };
+
+  const [therapistsSnapshot, clinicsSnapshot] = await Promise.all([
+    admin.firestore().collection(ACCOUNT_COLLECTIONS.THERAPIST)
+      .where('membershipRenewalDate', '<=', reminderCutoff)
+      .get(),
+    admin.firestore().collection(ACCOUNT_COLLECTIONS.CLINIC)
+      .where('theraWayMembership.status', '==', 'active')
+      .where('theraWayMembership.renewalDate', '<=', reminderCutoff)
+      .get()
+  ]);
+
+  const accounts = [
+    ...therapistsSnapshot.docs
+      .filter(doc => doc.data().membershipStatus !== 'expired')
+      .map(doc => ({ doc, type: 'THERAPIST' as BillingAccountType })),
+    ...clinicsSnapshot.docs.map(doc => ({ doc, type: 'CLINIC' as BillingAccountType }))
+  ];
+
+  for (const { doc, type } of accounts) {
+    const data = doc.data();
+    const renewalDate = getRenewalDate(type, data) as string;
+    const account: BillingAccount = {
+      type,
+      id: doc.id,
+      userId: type === 'THERAPIST' ? doc.id : data.ownerId,
+      name: data.name || ''
+    };
+
+    try {
+      if (new Date(renewalDate) <= now) {
+        await doc.ref.update(type === 'THERAPIST'
+          ? { membershipStatus: 'expired' }
+          : { 'theraWayMembership.status': 'expired' });
+        await createNotification(account.userId, {
+          type: 'membership_expired',
+          link: BILLING_LINKS[type]
+        });
+        summary.expired++;
+      } else if (data.renewalReminderSentFor !== renewalDate) {
+        if (!(await findOpenInvoice(account))) {
+          await issueMembershipInvoice(account, now);
+        }
+        await doc.ref.update({ renewalReminderSentFor: renewalDate });
+        await createNotification(account.userId, {
+          type: 'membership_expiring',
+          params: { date: renewalDate.slice(0, 10) },
+          link: BILLING_LINKS[type]
+        });
+        summary.reminded++;
+      }
+    } catch (error) {
+      console.error(`Error processing membership renewal for ${type} ${doc.id}:`, error);
+    }
+  }
+
+  return summary;
+};
+
+const formatMoney = (amount: number, currency: string) => `${currency} ${amount.toFixed(2)}`;
+
+/**
+ * Renders an invoice document as a PDF.
+ */
+export const renderInvoicePdf = (invoice: any): Promise<Buffer> => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  doc.fontSize(20).text('TheraWay', { continued: true }).fontSize(12).text(`   Invoice ${invoice.number}`);
+  doc.moveDown();
+  doc.fontSize(10)
+    .text(`Billed to: ${invoice.billedName || invoice.accountId}`)
+    .text(`Issued: ${invoice.issuedAt.slice(0, 10)}`)
+    .text(`Due: ${invoice.dueAt.slice(0, 10)}`)
+    .text(`Status: ${invoice.status.toUpperCase()}${invoice.paidAt ? ` (paid ${invoice.paidAt.slice(0, 10)})` : ''}`);
+  doc.moveDown();
+
+  const columns = { description: 50, quantity: 330, unitPrice: 390, amount: 470 };
+  const headerY = doc.y;
+  doc.font('Helvetica-Bold')
+    .text('Description', columns.description, headerY)
+    .text('Qty', columns.quantity, headerY)
+    .text('Unit', columns.unitPrice, headerY)
+    .text('Amount', columns.amount, headerY);
+  doc.font('Helvetica');
+
+  invoice.lineItems.forEach((item: any) => {
+    const rowY = doc.y + 6;
+    doc.text(item.description, columns.description, rowY, { width: 270 })
+      .text(String(item.quantity), columns.quantity, rowY)
+      .text(formatMoney(item.unitPrice, invoice.currency), columns.unitPrice, rowY)
+      .text(formatMoney(item.amount, invoice.currency), columns.amount, rowY);
+  });
+
+  doc.moveDown(2);
+  doc.font('Helvetica-Bold').text(`Total: ${formatMoney(invoice.total, invoice.currency)}`, columns.description, doc.y, { align: 'right' });
+  doc.end();
+});
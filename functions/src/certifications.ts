@@ -0,0 +1,170 @@
+import * as admin from 'firebase-admin';
+import { createNotification } from './notifications';
+import { certificationSchema, parseDocument } from './schemas';
+
+// Credential review: therapists upload licenses and certificates, admins work
+// through them from a shared queue, and a therapist counts as verified once every
+// required credential is approved and not expired.
+export const CERTIFICATIONS_COLLECTION = 'certifications';
+
+export type CertificationStatus = 'pending' | 'approved' | 'rejected';
+export const REVIEW_DECISIONS = ['approved', 'rejected'];
+
+// Fields a therapist sets on their own certification. Changing any of them sends
+// the certification back to the review queue.
+export const THERAPIST_EDITABLE_FIELDS = ['name', 'filePath', 'fileUrl', 'country', 'issuingBody', 'licenseNumber', 'expiresAt'];
+
+// Fields only the review workflow writes. Whether a credential is required for
+// verification is decided by the reviewer, never by the therapist.
+export const REVIEW_FIELDS = ['status', 'isVerified', 'isRequired', 'verificationNotes', 'reviewerId', 'reviewerName', 'assignedAt', 'reviewedBy', 'reviewedAt'];
+
+// Reminder bookkeeping written by the expiry job
+export const EXPIRY_NOTICE_FIELDS = ['expiryReminderSentFor', 'expiredNoticeSentFor'];
+
+export const MAX_REVIEW_NOTES_LENGTH = 1000;
+
+// How far ahead therapists are reminded to renew a license
+export const EXPIRY_REMINDER_DAYS = 30;
+
+export type ExpiryState = 'expiring' | 'expired';
+
+const LICENSES_LINK = '/dashboard/therapist/licenses';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Certifications from before the review workflow only carry isVerified
+export const getCertificationStatus = (certification: any): CertificationStatus =>
+  certification.status || (certification.isVerified ? 'approved' : 'pending');
+
+// A certification as the API returns it. Certifications added before the review
+// workflow stored uploadedAt as a Firestore Timestamp.
+export const toCertification = (id: string, data: any) => {
+  const certification = parseDocument<any>(certificationSchema, id, data);
+  return {
+    ...certification,
+    status: getCertificationStatus(certification),
+    expiryState: getExpiryState(certification),
+    isQuarantined: isQuarantined(certification)
+  };
+};
+
+// Whether the current document was quarantined by the upload checks (see upload-validation.ts)
+export const isQuarantined = (certification: any): boolean =>
+  !!certification.filePath &&
+  (certification.quarantinedFiles || []).some((entry: any) => entry.path === certification.filePath);
+
+// Expiry dates are calendar days (YYYY-MM-DD); a license is valid through the end of that day
+export const isCertificationExpired = (certification: any, now: Date = new Date()): boolean =>
+  !!certification.expiresAt && new Date(`${certification.expiresAt}T23:59:59.999Z`).getTime() < now.getTime();
+
+// Licenses expiring on or before this date are due a reminder
+export const getExpiryReminderCutoff = (now: Date = new Date()): string =>
+  new Date(now.getTime() + EXPIRY_REMINDER_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// A license is 'expiring' from EXPIRY_REMINDER_DAYS before its expiry date
+export const getExpiryState = (certification: any, now: Date = new Date()): ExpiryState | null => {
+  if (!certification.expiresAt) return null;
+  if (isCertificationExpired(certification, now)) return 'expired';
+  return certification.expiresAt <= getExpiryReminderCutoff(now) ? 'expiring' : null;
+};
+
+export const validateExpiryDate = (value: any): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+    return 'expiresAt must be a date in the form YYYY-MM-DD';
+  }
+  return null;
+};
+
+/**
+ * Whether a therapist's credentials make them verified: at least one required
+ * credential, and every required one approved and unexpired. Credentials a
+ * reviewer marked as optional never hold verification back.
+ */
+export const isTherapistVerified = (certifications: any[], now: Date = new Date()): boolean => {
+  const required = certifications.filter(certification => certification.isRequired !== false);
+  return required.length > 0 && required.every(certification =>
+    getCertificationStatus(certification) === 'approved' && !isCertificationExpired(certification, now)
+  );
+};
+
+/**
+ * Recomputes Therapist.isVerified from the therapist's certifications and stores
+ * it when it changed. Returns the new value.
+ */
+export const recalculateTherapistVerification = async (therapistId: string): Promise<boolean> => {
+  const snapshot = await admin.firestore()
+    .collection(CERTIFICATIONS_COLLECTION)
+    .where('therapistUserId', '==', therapistId)
+    .get();
+  const isVerified = isTherapistVerified(snapshot.docs.map(doc => doc.data()));
+
+  const therapistRef = admin.firestore().collection('therapists_data').doc(therapistId);
+  const therapistDoc = await therapistRef.get();
+  if (therapistDoc.exists && therapistDoc.data()?.isVerified !== isVerified) {
+    await therapistRef.update({ isVerified, verificationUpdatedAt: new Date().toISOString() });
+  }
+  return isVerified;
+};
+
+/**
+ * Reminds therapists of licenses expiring within EXPIRY_REMINDER_DAYS, tells them
+ * once a license has lapsed, and recalculates isVerified for therapists with a
+ * newly expired license. Each reminder is sent once per expiry date, so renewing
+ * a license with a new date starts over.
+ */
+export const processCertificationExpiries = async (now: Date = new Date()) => {
+  const reminderCutoff = getExpiryReminderCutoff(now);
+  const summary = { reminded: 0, expired: 0, demoted: 0 };
+
+  const snapshot = await admin.firestore()
+    .collection(CERTIFICATIONS_COLLECTION)
+    .where('expiresAt', '<=', reminderCutoff)
+    .get();
+
+  const lapsedTherapistIds = new Set<string>();
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const state = getExpiryState(data, now);
+    // Rejected documents are not licenses the therapist holds with us
+    if (!state || getCertificationStatus(data) === 'rejected') continue;
+
+    try {
+      if (state === 'expired' && data.expiredNoticeSentFor !== data.expiresAt) {
+        await doc.ref.update({ expiredNoticeSentFor: data.expiresAt });
+        await createNotification(data.therapistUserId, {
+          type: 'certification_expired',
+          params: { name: data.name || '', date: data.expiresAt },
+          link: LICENSES_LINK
+        });
+        lapsedTherapistIds.add(data.therapistUserId);
+        summary.expired++;
+      } else if (state === 'expiring' && data.expiryReminderSentFor !== data.expiresAt) {
+        await doc.ref.update({ expiryReminderSentFor: data.expiresAt });
+        await createNotification(data.therapistUserId, {
+          type: 'certification_expiring',
+          params: { name: data.name || '', date: data.expiresAt },
+          link: LICENSES_LINK
+        });
+        summary.reminded++;
+      }
+    } catch (error) {
+      console.error(`Error processing expiry of certification ${doc.id}:`, error);
+    }
+  }
+
+  // Recalculated here rather than left to syncTherapistVerification so the summary can count demotions
+  for (const therapistId of lapsedTherapistIds) {
+    try {
+      const wasVerified = (await admin.firestore().collection('therapists_data').doc(therapistId).get()).data()?.isVerified;
+      if (wasVerified && !(await recalculateTherapistVerification(therapistId))) {
+        summary.demoted++;
+      }
+    } catch (error) {
+      console.error(`Error recalculating verification for therapist ${therapistId}:`, error);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,143 @@
+import * as admin from 'firebase-admin';
+import { therapistSchema, parseDocument } from './schemas';
+
+// Change log behind the offline therapist directory. Each therapist has one
+// document here, kept up to date by the trackTherapistDirectoryChanges trigger,
+// recording the version of their last change to the public directory and whether
+// that change took them out of it (a tombstone). Clients sync by asking for the
+// changes after the highest version they have applied.
+export const THERAPIST_DIRECTORY_CHANGES_COLLECTION = 'therapist_directory_changes';
+
+// Versions come from a counter bumped in the transaction that logs the change, not
+// from the trigger's event time: a trigger that runs late would otherwise log a
+// version below a watermark clients have already passed, and changes logged in the
+// same millisecond would share one. The counter makes every version unique and
+// committed in order, so `version > since` never skips a change.
+export const SYNC_COUNTERS_COLLECTION = 'sync_counters';
+const DIRECTORY_SEQUENCE_ID = 'therapist_directory';
+
+// Changes returned per delta request; clients keep asking while hasMore is set
+export const MAX_DIRECTORY_CHANGES_PAGE_SIZE = 500;
+
+export interface DirectoryChange {
+  therapistId: string;
+  version: number; // Sequence number from the sync counter
+  eventTime: number; // Time of the change in milliseconds, to order late trigger events
+  deleted: boolean;
+}
+
+export interface DirectoryTombstone {
+  id: string;
+  version: number;
+}
+
+export interface DirectoryDelta {
+  items: any[];
+  tombstones: DirectoryTombstone[];
+  watermark: number; // Pass back as `since` for the next delta
+  full: boolean; // The items are the whole directory; anything else stored locally is gone
+  hasMore: boolean;
+}
+
+const isListed = (data: any): boolean => !!data && data.accountStatus === 'live';
+
+// The public entry, as returned by /therapists: contact goes through in-app messaging
+export const toDirectoryEntry = (id: string, data: any, version: number): any => {
+  const { searchKeys, whatsappNumber, ...therapist } = parseDocument(therapistSchema, id, data);
+  return { ...therapist, syncVersion: version };
+};
+
+/**
+ * Records a write to a therapist in the change log, if it changed what the
+ * directory shows. Trigger events can arrive out of order, so an event only
+ * replaces the logged change when it is newer.
+ */
+export const recordDirectoryChange = async (therapistId: string, before: any, after: any, eventTime: string): Promise<boolean> => {
+  const wasListed = isListed(before);
+  const listed = isListed(after);
+  if (!wasListed && !listed) return false;
+  if (wasListed && listed &&
+    JSON.stringify(toDirectoryEntry(therapistId, before, 0)) === JSON.stringify(toDirectoryEntry(therapistId, after, 0))) {
+    return false;
+  }
+
+  const eventMillis = new Date(eventTime).getTime();
+  const db = admin.firestore();
+  const changeRef = db.collection(THERAPIST_DIRECTORY_CHANGES_COLLECTION).doc(therapistId);
+  const sequenceRef = db.collection(SYNC_COUNTERS_COLLECTION).doc(DIRECTORY_SEQUENCE_ID);
+  return db.runTransaction(async (transaction) => {
+    const [existing, sequence] = await Promise.all([transaction.get(changeRef), transaction.get(sequenceRef)]);
+    if (existing.exists && (existing.data()?.eventTime || 0) >= eventMillis) return false;
+
+    const version = (sequence.data()?.value || 0) + 1;
+    const change: DirectoryChange = { therapistId, version, eventTime: eventMillis, deleted: !listed };
+    transaction.set(sequenceRef, { value: version });
+    transaction.set(changeRef, change);
+    return true;
+  });
+};
+
+const getLatestVersion = async (): Promise<number> => {
+  const sequence = await admin.firestore().collection(SYNC_COUNTERS_COLLECTION).doc(DIRECTORY_SEQUENCE_ID).get();
+  return sequence.data()?.value || 0;
+};
+
+/**
+ * The directory changes after `since`, or the whole directory when `since` is
+ * null. A full sync reads the watermark first, so a change made while it runs
+ * is sent again by the next delta rather than lost.
+ */
+export const getDirectoryDelta = async (since: number | null): Promise<DirectoryDelta> => {
+  const db = admin.firestore();
+  const latestVersion = await getLatestVersion();
+
+  // A watermark past the counter was not issued by it (e.g. a time-based one); start over
+  if (since === null || since > latestVersion) {
+    const snapshot = await db.collection('therapists_data').where('accountStatus', '==', 'live').get();
+    // Therapists who have not changed since the log was introduced have no entry, and version 0
+    const changeDocs = snapshot.empty
+      ? []
+      : await db.getAll(...snapshot.docs.map(doc => db.collection(THERAPIST_DIRECTORY_CHANGES_COLLECTION).doc(doc.id)));
+    const versions = new Map(changeDocs.filter(doc => doc.exists).map(doc => [doc.id, doc.data()?.version as number]));
+    return {
+      items: snapshot.docs.map(doc => toDirectoryEntry(doc.id, doc.data(), versions.get(doc.id) || 0)),
+      tombstones: [],
+      watermark: latestVersion,
+      full: true,
+      hasMore: false
+    };
+  }
+
+  const changesSnapshot = await db.collection(THERAPIST_DIRECTORY_CHANGES_COLLECTION)
+    .where('version', '>', since)
+    .orderBy('version')
+    .limit(MAX_DIRECTORY_CHANGES_PAGE_SIZE)
+    .get();
+  const changes = changesSnapshot.docs.map(doc => doc.data() as DirectoryChange);
+
+  const listedIds = changes.filter(change => !change.deleted).map(change => change.therapistId);
+  const therapistDocs = listedIds.length > 0
+    ? await db.getAll(...listedIds.map(id => db.collection('therapists_data').doc(id)))
+    : [];
+  const therapists = new Map(therapistDocs.map(doc => [doc.id, doc]));
+
+  const items: any[] = [];
+  const tombstones: DirectoryTombstone[] = [];
+  changes.forEach(change => {
+    const doc = therapists.get(change.therapistId);
+    // Unlisted since the change was logged; its own tombstone follows in a later delta
+    if (change.deleted || !doc || !isListed(doc.data())) {
+      tombstones.push({ id: change.therapistId, version: change.version });
+    } else {
+      items.push(toDirectoryEntry(doc.id, doc.data(), change.version));
+    }
+  });
+
+  return {
+    items,
+    tombstones,
+    watermark: changes.length > 0 ? changes[changes.length - 1].version : since,
+    full: false,
+    hasMore: changes.length === MAX_DIRECTORY_CHANGES_PAGE_SIZE
+  };
+};
@@ -51,34 +51,99 @@ export const deployFirestoreRules = functions.https.onRequest(async (req, res) =
           match /users/{userId} {
             // Anyone can read public user data
             allow read: if true;
-            // Only the user themselves or an admin can write to their document
-            allow write: if isOwner(userId) || isAdmin();
+            // Users create their own document at sign-up, but never as an admin
+            allow create: if isAdmin() || (isOwner(userId) && request.resource.data.role in ['CLIENT', 'THERAPIST', 'CLINIC_OWNER']);
+            // Role, suspension and claims fields are managed by admins and Functions; the role claim follows the role field
+            allow update: if isAdmin() || (isOwner(userId) && !request.resource.data.diff(resource.data).affectedKeys().hasAny(['role', 'isActive', 'claimsVersion', 'claimsUpdatedAt', 'roleChangedBy', 'roleChangedAt', 'suspendedAt', 'suspendedBy', 'suspensionReason', 'lastLogin', 'quarantinedFiles']));
+            allow delete: if isAdmin();
+          }
+
+          // Suspension and password reset records, kept out of the public users documents
+          match /user_moderation/{userId} {
+            allow read: if isAdmin();
+            allow write: if false;
           }
           
           // Therapists data collection
           match /therapists_data/{therapistId} {
-            // Anyone can read therapist data
+            // The document holds contact details such as whatsappNumber, so only the therapist and
+            // admins read it directly; everyone else reads therapists through the /therapists API
+            // and its sync, which leave those out
+            allow read: if isOwner(therapistId) || isAdmin();
+            // The managed fields of therapistSchema (with their legacy names), the search keys and
+            // the verification bookkeeping: ratings follow reviews, status and membership follow admin
+            // approval and billing, so only Functions and admins set them
+            function managedTherapistFields() {
+              return ['rating', 'reviewCount', 'review_count', 'profileViews', 'profile_views', 'likes', 'likes_count',
+                'isVerified', 'is_overall_verified', 'accountStatus', 'account_status', 'adminNotes', 'admin_notes',
+                'membershipRenewalDate', 'membership_renewal_date', 'membershipStatus', 'searchKeys',
+                'verificationUpdatedAt', 'quarantinedFiles'];
+            }
+            // Only the therapist themselves or an admin can write to their document. Sign-up writes
+            // the managed fields' defaults, so a new profile may carry those but no other managed field.
+            allow create: if isAdmin() || (isOwner(therapistId) &&
+              request.resource.data.get('rating', 0) == 0 && request.resource.data.get('reviewCount', 0) == 0 &&
+              request.resource.data.get('profileViews', 0) == 0 && request.resource.data.get('likes', 0) == 0 &&
+              request.resource.data.get('isVerified', false) == false && request.resource.data.get('accountStatus', 'draft') == 'draft' &&
+              !request.resource.data.keys().hasAny(managedTherapistFields().removeAll(['rating', 'reviewCount', 'profileViews', 'likes', 'isVerified', 'accountStatus'])));
+            allow update: if isAdmin() || (isOwner(therapistId) && !request.resource.data.diff(resource.data).affectedKeys().hasAny(managedTherapistFields()));
+            allow delete: if isOwner(therapistId) || isAdmin();
+          }
+
+          // Therapist location index (maintained by the indexTherapistLocations trigger)
+          match /therapist_locations/{locationId} {
+            // Public; entries hold only the address and position of each location
             allow read: if true;
-            // Only the therapist themselves or an admin can write to their document
-            allow write: if isOwner(therapistId) || isAdmin();
+            allow write: if false;
+          }
+
+          match /therapist_search_index/{therapistId} {
+            // Server-side only; searched through the /therapists API
+            allow read, write: if false;
+          }
+          
+          match /therapist_directory_changes/{therapistId} {
+            // Server-side only; read through the /therapists/sync API
+            allow read, write: if false;
+          }
+          
+          match /sync_counters/{counterId} {
+            // Server-side only; versions the sync change logs
+            allow read, write: if false;
           }
           
           // Certifications collection
           match /certifications/{certId} {
-            // Anyone can read certifications
-            allow read: if true;
-            // Only the therapist who owns the certification or an admin can write to it
-            allow create: if isTherapist() || isAdmin();
-            allow update, delete: if isOwner(resource.data.therapistUserId) || isAdmin();
+            // License details and documents are private to the therapist and admins
+            allow read: if isOwner(resource.data.therapistUserId) || isAdmin();
+            // Only the therapist who owns the certification or an admin can write to it.
+            // Therapists add certifications unreviewed and required, and never touch the review (including
+            // whether the credential is required), expiry notice or quarantine fields. A changed document,
+            // name, license number or expiry sends the certification back to the review queue, as the API does.
+            allow create: if isAdmin() || (isTherapist() && isOwner(request.resource.data.therapistUserId) && request.resource.data.get('isVerified', false) == false && request.resource.data.get('status', 'pending') == 'pending' && request.resource.data.get('isRequired', true) == true);
+            allow update: if isAdmin() || (isOwner(resource.data.therapistUserId) && request.resource.data.therapistUserId == resource.data.therapistUserId && !request.resource.data.diff(resource.data).affectedKeys().hasAny(['isRequired', 'verificationNotes', 'reviewerId', 'reviewerName', 'assignedAt', 'reviewedBy', 'reviewedAt', 'expiryReminderSentFor', 'expiredNoticeSentFor', 'quarantinedFiles']) &&
+              (!request.resource.data.diff(resource.data).affectedKeys().hasAny(['status', 'isVerified', 'name', 'filePath', 'fileUrl', 'country', 'issuingBody', 'licenseNumber', 'expiresAt']) ||
+               (request.resource.data.get('status', 'pending') == 'pending' && request.resource.data.get('isVerified', false) == false)));
+            allow delete: if isOwner(resource.data.therapistUserId) || isAdmin();
           }
           
           // Clinics data collection
           match /clinics_data/{clinicId} {
             // Anyone can read clinic data
             allow read: if true;
-            // Only the clinic owner or an admin can write to the document
-            allow create: if isClinicOwner() || isAdmin();
-            allow update, delete: if isOwner(resource.data.ownerId) || isAdmin();
+            // The managed fields of clinicSchema (with their legacy names): ownership, verification,
+            // membership and status follow admin approval and billing, so only Functions and admins set them
+            function managedClinicFields() {
+              return ['ownerId', 'user_id', 'isVerified', 'is_verified_by_admin', 'theraWayMembership',
+                'accountStatus', 'account_status', 'adminNotes', 'admin_notes'];
+            }
+            // Only the clinic owner or an admin can write to the document. Sign-up writes the owner and
+            // the managed fields' defaults, so a new clinic may carry those but no other managed field.
+            allow create: if isAdmin() || (isClinicOwner() && request.resource.data.get('ownerId', null) == request.auth.uid &&
+              request.resource.data.get('isVerified', false) == false && request.resource.data.get('accountStatus', 'draft') == 'draft' &&
+              !request.resource.data.keys().hasAny(managedClinicFields().removeAll(['ownerId', 'isVerified', 'accountStatus'])));
+            allow update: if isAdmin() || (isOwner(resource.data.ownerId) && !request.resource.data.diff(resource.data).affectedKeys().hasAny(managedClinicFields()));
+            allow delete: if isOwner(resource.data.ownerId) || isAdmin();
           }
           
           // Clinic spaces collection
@@ -118,8 +183,8 @@ export const deployFirestoreRules = functions.https.onRequest(async (req, res) =
             allow read: if isAdmin();
             // Users can read their own logs
             allow read: if isAuthenticated() && resource.data.userId == request.auth.uid;
-            // Only admins can create/update/delete logs
-            allow write: if isAdmin();
+            // Logs are written by Functions only, so nobody can forge or edit the trail
+            allow write: if false;
           }
           
           // Membership history collection
@@ -135,6 +200,95 @@ export const deployFirestoreRules = functions.https.onRequest(async (req, res) =
             // Only admins can write to history
             allow write: if isAdmin();
           }
+
+          // Appointments collection
+          match /appointments/{appointmentId} {
+            // The client and therapist on the booking, or an admin, can read it
+            allow read: if isAdmin() || (isAuthenticated() &&
+              (resource.data.clientId == request.auth.uid || resource.data.therapistId == request.auth.uid));
+            // Bookings and status changes go through the appointments API
+            allow write: if isAdmin();
+          }
+
+          // Reviews collection
+          match /reviews/{reviewId} {
+            // Visible reviews are public; hidden ones only to their author and admins
+            allow read: if resource.data.status == 'visible' || isAdmin() ||
+              (isAuthenticated() && resource.data.clientId == request.auth.uid);
+            // Reviews are submitted and moderated through the API
+            allow write: if isAdmin();
+          }
+
+          // Moderation notes on reviews, kept out of the public review documents
+          match /review_moderation/{reviewId} {
+            allow read: if isAdmin();
+            allow write: if false;
+          }
+
+          // Conversations collection
+          match /conversations/{conversationId} {
+            // Only the participants can read a thread
+            allow read: if isAuthenticated() && request.auth.uid in resource.data.participantIds;
+            // Threads and read receipts are updated through the messaging API
+            allow write: if false;
+
+            match /messages/{messageId} {
+              allow read: if isAuthenticated() &&
+                request.auth.uid in get(/databases/$(database)/documents/conversations/$(conversationId)).data.participantIds;
+              allow write: if false;
+            }
+          }
+
+          match /notifications/{notificationId} {
+            // Users can only read their own notifications
+            allow read: if isAuthenticated() && resource.data.userId == request.auth.uid;
+            // Notifications are created by Functions and marked read through the API
+            allow write: if false;
+          }
+
+          match /push_subscriptions/{subscriptionId} {
+            // Users can see which of their browsers are subscribed
+            allow read: if isAuthenticated() && resource.data.userId == request.auth.uid;
+            // Subscriptions are managed through the push API
+            allow write: if false;
+          }
+
+          match /space_reservations/{reservationId} {
+            // The renting therapist and the clinic owner can see the reservation
+            allow read: if isAdmin() || (isAuthenticated() && (resource.data.therapistId == request.auth.uid || resource.data.ownerId == request.auth.uid));
+            // Reservations are created and updated through the reservations API so conflicts are checked
+            allow write: if false;
+          }
+
+          match /login_history/{loginId} {
+            // Users can see their own sign-ins; admins can see everyone's
+            allow read: if isAdmin() || (isAuthenticated() && resource.data.userId == request.auth.uid);
+            // Sign-ins are recorded through the login events API
+            allow write: if false;
+          }
+
+          match /invoices/{invoiceId} {
+            allow read: if isAdmin() || (isAuthenticated() && resource.data.billedUserId == request.auth.uid);
+            // Invoices are issued and settled by Functions
+            allow write: if false;
+          }
+
+          match /payments/{paymentId} {
+            allow read: if isAdmin() || (isAuthenticated() && resource.data.billedUserId == request.auth.uid);
+            allow write: if false;
+          }
+
+          match /file_quarantine/{quarantineId} {
+            // Uploads that failed validation, recorded by the validateUpload trigger
+            allow read: if isAdmin();
+            allow write: if false;
+          }
+
+          match /migration_runs/{runId} {
+            // Data migration progress, written by the admin migration API
+            allow read: if isAdmin();
+            allow write: if false;
+          }
         }
       }
     `;
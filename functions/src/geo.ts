@@ -0,0 +1,111 @@
+import * as admin from 'firebase-admin';
+import { geohashForLocation, geohashQueryBounds, distanceBetween } from 'geofire-common';
+
+// One document per geocoded practice location, kept in sync with therapists_data
+// by the indexTherapistLocations trigger so radius searches can range-query on geohash.
+export const THERAPIST_LOCATIONS_COLLECTION = 'therapist_locations';
+
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 200;
+
+/**
+ * Parses a `near=lat,lng` query value. Returns null if it is missing or out of range.
+ */
+export const parseNear = (near: unknown): [number, number] | null => {
+  if (typeof near !== 'string') return null;
+
+  const [lat, lng] = near.split(',').map(value => parseFloat(value));
+  if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return null;
+  }
+  return [lat, lng];
+};
+
+/**
+ * Builds the location index entries for a therapist document.
+ * Locations without coordinates are skipped.
+ */
+export const buildLocationIndexEntries = (therapistId: string, therapistData: any) => {
+  return (therapistData?.locations || [])
+    .map((location: any, index: number) => ({ location, index }))
+    .filter(({ location }: any) => typeof location?.lat === 'number' && typeof location?.lng === 'number')
+    .map(({ location, index }: any) => ({
+      id: `${therapistId}_${index}`,
+      therapistId,
+      locationIndex: index,
+      address: location.address || '',
+      lat: location.lat,
+      lng: location.lng,
+      geohash: geohashForLocation([location.lat, location.lng]),
+      accountStatus: therapistData.accountStatus || 'draft'
+    }));
+};
+
+// Key order is not kept by Firestore, so compare entries field by field
+const sameEntry = (a: any, b: any): boolean =>
+  JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+
+/**
+ * Queues the writes that replace a therapist's location index entries with those
+ * built from their document (null when it was deleted). Entries that are already
+ * current are left alone. Resolves whether anything was queued.
+ */
+export const writeLocationIndex = async (batch: admin.firestore.WriteBatch, therapistId: string, therapistData: any): Promise<boolean> => {
+  const db = admin.firestore();
+  const existingSnapshot = await db.collection(THERAPIST_LOCATIONS_COLLECTION)
+    .where('therapistId', '==', therapistId)
+    .get();
+  const existing = new Map(existingSnapshot.docs.map(doc => [doc.id, doc]));
+  const entries = therapistData ? buildLocationIndexEntries(therapistId, therapistData) : [];
+  const entryIds = new Set(entries.map((entry: any) => entry.id));
+
+  let changed = false;
+  existingSnapshot.docs
+    .filter(doc => !entryIds.has(doc.id))
+    .forEach(doc => {
+      batch.delete(doc.ref);
+      changed = true;
+    });
+  entries.forEach((entry: any) => {
+    const current = existing.get(entry.id);
+    if (current && sameEntry(current.data(), entry)) return;
+    batch.set(db.collection(THERAPIST_LOCATIONS_COLLECTION).doc(entry.id), entry);
+    changed = true;
+  });
+  return changed;
+};
+
+/**
+ * Finds live therapists with at least one practice location inside the radius.
+ * Returns a map of therapist ID to the distance (km) of their closest location.
+ */
+export const findTherapistsNear = async (center: [number, number], radiusKm: number): Promise<Map<string, number>> => {
+  const bounds = geohashQueryBounds(center, radiusKm * 1000);
+
+  const snapshots = await Promise.all(bounds.map(([start, end]) =>
+    admin.firestore()
+      .collection(THERAPIST_LOCATIONS_COLLECTION)
+      .where('accountStatus', '==', 'live')
+      .orderBy('geohash')
+      .startAt(start)
+      .endAt(end)
+      .get()
+  ));
+
+  // Geohash bounds over-select around the edges, so check the actual distance
+  const distances = new Map<string, number>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(doc => {
+      const { therapistId, lat, lng } = doc.data();
+      const distanceKm = distanceBetween([lat, lng], center);
+      if (distanceKm <= radiusKm) {
+        const closest = distances.get(therapistId);
+        if (closest === undefined || distanceKm < closest) {
+          distances.set(therapistId, Math.round(distanceKm * 10) / 10);
+        }
+      }
+    });
+  });
+
+  return distances;
+};
@@ -0,0 +1,148 @@
+import * as admin from 'firebase-admin';
+import { MIGRATION_RUNS_COLLECTION, MigrationRunStatus } from './normalization';
+import { THERAPIST_LOCATIONS_COLLECTION, writeLocationIndex } from './geo';
+import { getSearchFieldUpdates } from './therapist-search';
+import { THERAPIST_SEARCH_INDEX_COLLECTION, writeSearchIndex } from './search-index';
+
+// Builds the indexes derived from therapists_data for therapists written before
+// the triggers that maintain them existed, which would otherwise stay out of
+// those indexes until their profile is saved again. Like the MySQL import, a run
+// is recorded in MIGRATION_RUNS_COLLECTION and advanced by the runIndexBackfill
+// trigger, one page of therapists per write of its run document, so a failed run
+// resumes from its cursor. Entries that are already current are not rewritten,
+// so runs can be repeated.
+export const INDEX_BACKFILL_JOB = 'backfill_therapist_indexes';
+
+// Therapists per page. A therapist can need up to 10 location entries written,
+// as many stale ones deleted, their search fields updated and their search index
+// entry written, and the page's batch also carries the run update, so this keeps
+// under Firestore's 500 writes per batch.
+export const INDEX_BACKFILL_PAGE_SIZE = 20;
+
+interface TherapistIndexer {
+  name: string;
+  // Queues the writes that bring this index in line with the therapist; resolves whether there were any
+  apply: (batch: admin.firestore.WriteBatch, doc: admin.firestore.QueryDocumentSnapshot) => Promise<boolean>;
+}
+
+const INDEXERS: TherapistIndexer[] = [
+  { name: THERAPIST_LOCATIONS_COLLECTION, apply: (batch, doc) => writeLocationIndex(batch, doc.id, doc.data()) },
+  {
+    // The searchKeys and rating fields the /therapists filters and rating order query on
+    name: 'searchKeys',
+    apply: async (batch, doc) => {
+      const updates = getSearchFieldUpdates(doc.data());
+      if (Object.keys(updates).length === 0) return false;
+      batch.update(doc.ref, updates);
+      return true;
+    }
+  },
+  { name: THERAPIST_SEARCH_INDEX_COLLECTION, apply: (batch, doc) => writeSearchIndex(batch, doc.id, doc.data()) }
+];
+
+export interface IndexBackfillRun {
+  id: string;
+  job: typeof INDEX_BACKFILL_JOB;
+  status: MigrationRunStatus;
+  lastDocId: string | null; // Last therapist processed
+  scanned: number;
+  updated: Record<string, number>; // Therapists whose entries were written, per index
+  startedBy: string;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+export const createIndexBackfillRun = async (startedBy: string): Promise<IndexBackfillRun> => {
+  const ref = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const run: IndexBackfillRun = {
+    id: ref.id,
+    job: INDEX_BACKFILL_JOB,
+    status: 'running',
+    lastDocId: null,
+    scanned: 0,
+    updated: INDEXERS.reduce((updated, indexer) => ({ ...updated, [indexer.name]: 0 }), {}),
+    startedBy,
+    startedAt: now,
+    updatedAt: now,
+    completedAt: null,
+    error: null
+  };
+  await ref.set(run);
+  return run;
+};
+
+// Another delivery of the same trigger already wrote this page
+const isStaleRunWrite = (error: any): boolean => error?.code === 9 || error?.code === 5;
+
+/**
+ * Indexes the next page of therapists and saves the cursor in the same batch.
+ * The run update carries a precondition on the snapshot it was started from, so
+ * a repeated trigger delivery cannot count a page twice.
+ */
+export const advanceIndexBackfillRun = async (snapshot: admin.firestore.DocumentSnapshot): Promise<void> => {
+  const run = snapshot.data() as IndexBackfillRun;
+  const runRef = snapshot.ref;
+  const precondition = { lastUpdateTime: snapshot.updateTime as admin.firestore.Timestamp };
+
+  try {
+    let query = admin.firestore().collection('therapists_data')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(INDEX_BACKFILL_PAGE_SIZE);
+    if (run.lastDocId) {
+      query = query.startAfter(run.lastDocId);
+    }
+    const page = await query.get();
+
+    const batch = admin.firestore().batch();
+    const updated = { ...run.updated };
+    for (const doc of page.docs) {
+      for (const indexer of INDEXERS) {
+        if (await indexer.apply(batch, doc)) {
+          updated[indexer.name] = (updated[indexer.name] || 0) + 1;
+        }
+      }
+    }
+
+    // A short page means every therapist has been indexed
+    const isComplete = page.size < INDEX_BACKFILL_PAGE_SIZE;
+    const now = new Date().toISOString();
+    batch.update(runRef, {
+      status: isComplete ? 'completed' : 'running',
+      lastDocId: page.empty ? run.lastDocId : page.docs[page.size - 1].id,
+      scanned: run.scanned + page.size,
+      updated,
+      updatedAt: now,
+      completedAt: isComplete ? now : null,
+      error: null
+    }, precondition);
+    await batch.commit();
+  } catch (error: any) {
+    if (isStaleRunWrite(error)) return;
+    console.error(`Index backfill run ${run.id} failed:`, error);
+    // The cursor still points before the failed page, which is read again on resume
+    try {
+      await runRef.update({ status: 'failed', error: error.message || String(error), updatedAt: new Date().toISOString() }, precondition);
+    } catch (updateError) {
+      if (!isStaleRunWrite(updateError)) throw updateError;
+    }
+  }
+};
+
+// Puts a failed run back to running, which restarts the trigger from its cursor
+export const resumeIndexBackfillRun = async (runId: string): Promise<IndexBackfillRun | null> => {
+  const runRef = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc(runId);
+  return admin.firestore().runTransaction(async (transaction) => {
+    const runDoc = await transaction.get(runRef);
+    if (!runDoc.exists || runDoc.data()?.job !== INDEX_BACKFILL_JOB) return null;
+
+    const run = runDoc.data() as IndexBackfillRun;
+    if (run.status !== 'failed') return run;
+
+    const resumed: IndexBackfillRun = { ...run, status: 'running', error: null, updatedAt: new Date().toISOString() };
+    transaction.set(runRef, resumed);
+    return resumed;
+  });
+};
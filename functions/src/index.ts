@@ -2,6 +2,60 @@ import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import * as express from 'express';
 import * as cors from 'cors';
+import { matchesAvailability, validateLocationSchedules, validateSchedule, isValidTimeZone } from './availability';
+import {
+  DEFAULT_RADIUS_KM, MAX_RADIUS_KM,
+  parseNear, writeLocationIndex, findTherapistsNear
+} from './geo';
+import {
+  MAX_SEARCH_KEY_VALUES, getSearchFieldUpdates,
+  specializationKey, languageKey, availabilityKey, encodeCursor, decodeCursor
+} from './therapist-search';
+import { writeSearchIndex, searchTherapists } from './search-index';
+import { NOTIFICATIONS_COLLECTION, NotificationType, createNotification } from './notifications';
+import {
+  PUSH_SUBSCRIPTIONS_COLLECTION, PUSH_NOTIFICATION_TYPES,
+  getVapidPublicKey, getSubscriptionId, sendPushToUser
+} from './push';
+import {
+  INVOICES_COLLECTION, PAYMENTS_COLLECTION, BillingAccountType,
+  loadBillingAccount, recordMembershipPayment, processMembershipRenewals, renderInvoicePdf
+} from './billing';
+import {
+  SPACE_RESERVATIONS_COLLECTION, RESERVATION_TRANSITIONS, ACTIVE_RESERVATION_STATUSES,
+  DEFAULT_SLOT_MINUTES, MIN_SLOT_MINUTES, MAX_SLOT_MINUTES, MAX_SLOT_WINDOW_DAYS, MAX_BLOCK_REASON_LENGTH,
+  buildSpaceSlots, fitsSpaceSchedule, getSlotMinutes, getBlockedPeriods, hasReservationConflict
+} from './space-reservations';
+import { getClosureSchedule, getClosureIntervals, renderSpaceCalendar } from './space-calendar';
+import {
+  LOGIN_HISTORY_COLLECTION, USER_ROLES, LOGIN_METHODS, MAX_ADMIN_USERS_PAGE_SIZE, MAX_LOGIN_HISTORY_ENTRIES,
+  USER_MODERATION_COLLECTION, USER_MODERATION_FIELDS,
+  loadAuthRecords, loadUserModeration, findUserDocs, loadActiveUserPage, toManagedUser, syncRoleClaims
+} from './user-management';
+import {
+  CERTIFICATIONS_COLLECTION, REVIEW_DECISIONS, THERAPIST_EDITABLE_FIELDS, MAX_REVIEW_NOTES_LENGTH,
+  isCertificationExpired, isQuarantined, getCertificationStatus, getExpiryState, getExpiryReminderCutoff, toCertification, validateExpiryDate,
+  recalculateTherapistVerification, processCertificationExpiries
+} from './certifications';
+import {
+  isPrivateFilePath, isOwnPrivateFile, canReadPrivateFile, getSignedDownloadUrl, deletePrivateFile, moveToPrivateStorage
+} from './private-files';
+import { isFileQuarantined, validateUploadedFile } from './upload-validation';
+import {
+  ACCOUNT_STATUSES, DocumentSchema, userSchema, therapistSchema, clinicSchema, clinicSpaceSchema, certificationSchema,
+  validateWrite, formatWriteErrors, parseDocument
+} from './schemas';
+import { getDirectoryDelta, recordDirectoryChange } from './directory-sync';
+import { MIGRATION_RUNS_COLLECTION, NORMALIZATION_JOB, createNormalizationRun, advanceNormalizationRun } from './normalization';
+import {
+  MYSQL_MIGRATION_JOB, CONFLICT_POLICIES, ConflictPolicy,
+  isMySQLMigrationConfigured, createMySQLMigrationRun, advanceMySQLMigrationRun, resumeMySQLMigrationRun
+} from './mysql-migration';
+import { INDEX_BACKFILL_JOB, createIndexBackfillRun, advanceIndexBackfillRun, resumeIndexBackfillRun } from './index-backfill';
+import {
+  ACTIVITY_LOGS_COLLECTION, MAX_ACTIVITY_LOGS_PAGE_SIZE,
+  auditMutations, setAudit, skipAudit, logActivity
+} from './activity-log';
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -13,6 +67,17 @@ const app = express();
 app.use(cors({ origin: true }));
 app.use(express.json());
 
+// Hosting rewrites /api/** to this function with the path intact, while the routes
+// below are registered without the prefix. Strip it first, so routing and the
+// activity log both see e.g. /appointments.
+app.use((req, res, next) => {
+  const path = req.url.replace(/^\/api(?=\/|\?|$)/, '');
+  req.url = path.startsWith('/') ? path : `/${path}`;
+  next();
+});
+
+app.use(auditMutations);
+
 // Authentication middleware
 const authenticate = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   try {
@@ -23,12 +88,19 @@ const authenticate = async (req: express.Request, res: express.Response, next: e
 
     const token = authHeader.split('Bearer ')[1];
     const decodedToken = await admin.auth().verifyIdToken(token);
+    // A token stays valid for up to an hour after its account is suspended or its role
+    // changes. The users document, which PUT /admin_users updates straight away, decides
+    // both instead, so neither waits for the token to expire.
+    const userData = (await admin.firestore().collection('users').doc(decodedToken.uid).get()).data();
+    if (userData?.isActive === false) {
+      return res.status(401).json({ status: 'error', message: 'Unauthorized' });
+    }
     
     // Add user info to request
     req.user = {
       uid: decodedToken.uid,
       email: decodedToken.email,
-      role: decodedToken.role || 'CLIENT',
+      role: userData?.role || decodedToken.role || 'CLIENT',
       name: decodedToken.name
     };
     
@@ -39,6 +111,15 @@ const authenticate = async (req: express.Request, res: express.Response, next: e
   }
 };
 
+// 400 response for a payload that failed its document schema
+const sendSchemaErrors = (res: express.Response, schema: DocumentSchema, errors: string[]) =>
+  res.status(400).json({ status: 'error', message: formatWriteErrors(schema, errors), errors });
+
+// Page size bounds for the therapist search, and how far it may scan to fill a page
+const MAX_THERAPISTS_PAGE_SIZE = 100;
+const MIN_THERAPISTS_SCAN_BATCH = 50;
+const MAX_THERAPISTS_SCAN_BATCHES = 5;
+
 // Routes
 app.get('/hello', (req, res) => {
   res.json({ message: 'Hello from Firebase Functions!' });
@@ -56,89 +137,141 @@ app.get('/protected', authenticate, (req, res) => {
 // Therapists API
 app.get('/therapists', async (req, res) => {
   try {
-    const { page = '1', limit = '20', searchTerm, specializations, languages, minRating, availability, locationSearch } = req.query;
-    
-    // Build query
-    let query = admin.firestore().collection('therapists_data').where('accountStatus', '==', 'live');
-    
-    // Apply filters
-    if (searchTerm) {
-      query = query.where('name', '>=', searchTerm).where('name', '<=', searchTerm + '\uf8ff');
-    }
-    
-    // Note: For complex filtering like arrays, we'll need to fetch all and filter in memory
-    // or use a more sophisticated approach like Algolia
-    
-    // Execute query
-    const snapshot = await query.get();
-    
-    // Manual filtering for array fields and other complex filters
-    let therapists = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
-    
-    // Filter by specializations
-    if (specializations) {
-      const specArray = (specializations as string).split(',');
-      therapists = therapists.filter(therapist => 
-        therapist.specializations && specArray.some(spec => 
-          therapist.specializations.includes(spec)
-        )
-      );
-    }
+    const { limit = '20', cursor, searchTerm, specializations, languages, minRating, availability, locationSearch, near, radiusKm } = req.query;
     
-    // Filter by languages
-    if (languages) {
-      const langArray = (languages as string).split(',');
-      therapists = therapists.filter(therapist => 
-        therapist.languages && langArray.some(lang => 
-          therapist.languages.includes(lang)
-        )
-      );
+    const center = parseNear(near);
+    if (near && !center) {
+      return res.status(400).json({ status: 'error', message: 'near must be in the form lat,lng' });
     }
+    const radius = Math.min(parseFloat(radiusKm as string) || DEFAULT_RADIUS_KM, MAX_RADIUS_KM);
     
-    // Filter by minimum rating
-    if (minRating) {
-      const rating = parseFloat(minRating as string);
-      therapists = therapists.filter(therapist => 
-        therapist.rating >= rating
-      );
+    const position = decodeCursor(cursor);
+    if (cursor && !position) {
+      return res.status(400).json({ status: 'error', message: 'Invalid cursor' });
     }
     
-    // Filter by availability
-    if (availability) {
-      const availArray = (availability as string).split(',');
-      therapists = therapists.filter(therapist => 
-        therapist.availability && availArray.some(avail => 
-          therapist.availability.includes(avail)
-        )
-      );
-    }
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), MAX_THERAPISTS_PAGE_SIZE);
+    const specArray = specializations ? (specializations as string).split(',') : [];
+    const langArray = languages ? (languages as string).split(',') : [];
+    const availArray = availability ? (availability as string).split(',') : [];
+    const rating = minRating ? parseFloat(minRating as string) : NaN;
+    const now = new Date();
+    
+    // Checks every filter in memory. Whatever the Firestore query already applied
+    // passes trivially; the rest (and stale search keys) are caught here.
+    const matchesFilters = (therapist: any): boolean => {
+      if (specArray.length > 0 && !specArray.some(spec => (therapist.specializations || []).includes(spec))) {
+        return false;
+      }
+      if (langArray.length > 0 && !langArray.some(lang => (therapist.languages || []).includes(lang))) {
+        return false;
+      }
+      if (!isNaN(rating) && !((therapist.rating || 0) >= rating)) {
+        return false;
+      }
+      if (availArray.length > 0 && !matchesAvailability(therapist, availArray, now)) {
+        return false;
+      }
+      if (locationSearch && !(therapist.locations || []).some((location: any) =>
+        (location.address || '').toLowerCase().includes((locationSearch as string).toLowerCase())
+      )) {
+        return false;
+      }
+      return true;
+    };
     
-    // Filter by location search
-    if (locationSearch) {
-      therapists = therapists.filter(therapist => 
-        therapist.locations && therapist.locations.some(location => 
-          location.address.toLowerCase().includes((locationSearch as string).toLowerCase())
-        )
-      );
+    let therapists: any[] = [];
+    let nextCursor: string | null = null;
+    
+    if (center || searchTerm) {
+      // Radius and text searches: look up candidates in the geohash and full-text indexes,
+      // then load those therapists. The candidate set is bounded, so it is sorted in full
+      // (most relevant first for text searches, otherwise closest first) and paged by offset.
+      const distances = center ? await findTherapistsNear(center, radius) : null;
+      const relevance = searchTerm ? await searchTherapists(searchTerm as string) : null;
+      const candidateIds = relevance
+        ? Array.from(relevance.keys()).filter(id => !distances || distances.has(id))
+        : Array.from((distances as Map<string, number>).keys());
+      
+      const refs = candidateIds.map(id => admin.firestore().collection('therapists_data').doc(id));
+      const docs = refs.length > 0 ? await admin.firestore().getAll(...refs) : [];
+      
+      const matches = docs
+        .filter(doc => doc.exists && doc.data()?.accountStatus === 'live')
+        .map(doc => ({
+          ...parseDocument(therapistSchema, doc.id, doc.data()),
+          ...(distances ? { distanceKm: distances.get(doc.id) } : {})
+        }))
+        .filter(matchesFilters)
+        .sort((a: any, b: any) => relevance
+          ? (relevance.get(b.id) as number) - (relevance.get(a.id) as number)
+          : a.distanceKm - b.distanceKm);
+      
+      const offset = Math.max(parseInt(position?.offset, 10) || 0, 0);
+      therapists = matches.slice(offset, offset + limitNum);
+      if (offset + limitNum < matches.length) {
+        nextCursor = encodeCursor({ offset: offset + limitNum });
+      }
+    } else {
+      let query: admin.firestore.Query = admin.firestore().collection('therapists_data').where('accountStatus', '==', 'live');
+      
+      // Firestore allows one array-contains-any per query, so push down the most selective
+      // filter group that fits. "Immediate" depends on the current time and is never denormalized.
+      const availKeys = availArray.includes('Immediate') ? [] : availArray.map(availabilityKey);
+      const pushedKeys = [
+        specArray.map(specializationKey),
+        langArray.map(languageKey),
+        availKeys
+      ].find(keys => keys.length > 0 && keys.length <= MAX_SEARCH_KEY_VALUES);
+      
+      if (pushedKeys) {
+        query = query.where('searchKeys', 'array-contains-any', pushedKeys);
+      }
+      if (!isNaN(rating)) {
+        query = query.where('rating', '>=', rating);
+      }
+      query = query.orderBy('rating', 'desc').orderBy(admin.firestore.FieldPath.documentId(), 'desc');
+      
+      // Scan in batches until the page is full, applying the remaining filters in memory.
+      // The scan is capped so a very selective in-memory filter can't read the whole collection;
+      // in that case a short page is returned along with a cursor to keep going.
+      const batchSize = Math.max(limitNum, MIN_THERAPISTS_SCAN_BATCH);
+      let after: [number, string] | null = Array.isArray(position?.after) ? position?.after as [number, string] : null;
+      let hasMore = true;
+      
+      for (let batchIndex = 0; batchIndex < MAX_THERAPISTS_SCAN_BATCHES && therapists.length < limitNum; batchIndex++) {
+        const batchQuery = after ? query.startAfter(...after).limit(batchSize) : query.limit(batchSize);
+        const snapshot = await batchQuery.get();
+        
+        let processed = 0;
+        for (const doc of snapshot.docs) {
+          processed++;
+          after = [doc.get('rating'), doc.id];
+          const therapist = parseDocument(therapistSchema, doc.id, doc.data());
+          if (matchesFilters(therapist)) {
+            therapists.push(therapist);
+            if (therapists.length === limitNum) break;
+          }
+        }
+        
+        if (snapshot.size < batchSize && processed === snapshot.size) {
+          hasMore = false;
+          break;
+        }
+      }
+      
+      if (hasMore && after) {
+        nextCursor = encodeCursor({ after });
+      }
     }
     
-    // Pagination
-    const pageNum = parseInt(page as string, 10);
-    const limitNum = parseInt(limit as string, 10);
-    const startIndex = (pageNum - 1) * limitNum;
-    const endIndex = pageNum * limitNum;
-    const paginatedTherapists = therapists.slice(startIndex, endIndex);
-    
     res.json({ 
       status: 'success', 
-      therapists: paginatedTherapists,
+      // Contact goes through in-app messaging, so phone numbers stay private
+      therapists: therapists.map(({ searchKeys, whatsappNumber, ...therapist }) => therapist),
       pagination: {
-        currentPage: pageNum,
-        totalPages: Math.ceil(therapists.length / limitNum),
-        totalItems: therapists.length,
+        nextCursor,
+        hasMore: nextCursor !== null,
         itemsPerPage: limitNum
       }
     });
@@ -148,6 +281,25 @@ app.get('/therapists', async (req, res) => {
   }
 });
 
+// Offline directory sync API: the therapists changed since the client's watermark,
+// plus tombstones for those that left the directory; without `since`, the whole directory
+app.get('/therapists/sync', async (req, res) => {
+  try {
+    const { since } = req.query;
+    const sinceVersion = since !== undefined ? Number(since) : null;
+    if (sinceVersion !== null && (!Number.isFinite(sinceVersion) || sinceVersion < 0)) {
+      return res.status(400).json({ status: 'error', message: 'since must be a version returned by a previous sync' });
+    }
+
+    const delta = await getDirectoryDelta(sinceVersion);
+
+    res.json({ status: 'success', ...delta });
+  } catch (error) {
+    console.error('Error syncing therapist directory:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to sync therapist directory' });
+  }
+});
+
 // Therapist detail API
 app.get('/therapists/:id', async (req, res) => {
   try {
@@ -158,10 +310,7 @@ app.get('/therapists/:id', async (req, res) => {
       return res.status(404).json({ status: 'not_found', message: 'Therapist not found' });
     }
     
-    const therapist = {
-      id: therapistDoc.id,
-      ...therapistDoc.data()
-    };
+    const { whatsappNumber, searchKeys, ...therapist } = parseDocument(therapistSchema, therapistDoc.id, therapistDoc.data());
     
     res.json({ status: 'success', therapist });
   } catch (error) {
@@ -191,6 +340,7 @@ app.get('/client_favorites', authenticate, async (req, res) => {
 
 app.post('/client_favorites', authenticate, async (req, res) => {
   try {
+    skipAudit(res);
     const userId = req.user.uid;
     const { therapistId } = req.body;
     
@@ -264,10 +414,17 @@ app.get('/therapist_profile', authenticate, async (req, res) => {
       return res.status(404).json({ status: 'not_found', message: 'Therapist profile not found' });
     }
     
-    const therapist = {
-      id: therapistDoc.id,
-      ...therapistDoc.data()
-    };
+    const therapist = parseDocument(therapistSchema, therapistDoc.id, therapistDoc.data());
+    
+    // Anyone else gets the public profile of a listed therapist, as /therapists/:id
+    // returns it; contact details and license documents are private to the therapist and admins
+    if (req.user.uid !== userId && req.user.role !== 'ADMIN') {
+      if (therapist.accountStatus !== 'live') {
+        return res.status(404).json({ status: 'not_found', message: 'Therapist profile not found' });
+      }
+      const { whatsappNumber, searchKeys, ...publicProfile } = therapist;
+      return res.json({ status: 'success', therapist: publicProfile });
+    }
     
     // Get certifications
     const certificationsSnapshot = await admin.firestore()
@@ -275,10 +432,7 @@ app.get('/therapist_profile', authenticate, async (req, res) => {
       .where('therapistUserId', '==', userId)
       .get();
     
-    const certifications = certificationsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
     
     therapist.certifications = certifications;
     
@@ -302,18 +456,45 @@ app.put('/therapist_profile', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to update this profile' });
     }
     
-    // Update therapist profile
-    await admin.firestore().collection('therapists_data').doc(id).update({
-      ...updateData,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    // Status, verification and rating fields are left to admins and Functions
+    const { value: profileData, errors } = validateWrite(therapistSchema, updateData, { partial: true, includeManaged: req.user.role === 'ADMIN' });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, therapistSchema, errors);
+    }
+    
+    if (profileData.locations) {
+      const scheduleError = validateLocationSchedules(profileData.locations);
+      if (scheduleError) {
+        return res.status(400).json({ status: 'error', message: scheduleError });
+      }
+    }
+    
+    // Edits made offline carry the version they were made against (X-Base-Version).
+    // If the profile has changed since, the client asks the user which one to keep.
+    const baseVersion = req.get('X-Base-Version');
+    const therapistRef = admin.firestore().collection('therapists_data').doc(id);
+    const conflict = await admin.firestore().runTransaction(async (transaction) => {
+      const currentDoc = await transaction.get(therapistRef);
+      if (baseVersion && currentDoc.exists) {
+        const current = parseDocument(therapistSchema, currentDoc.id, currentDoc.data());
+        if (current.updatedAt && current.updatedAt !== baseVersion) return current;
+      }
+      
+      // Update therapist profile
+      transaction.update(therapistRef, {
+        ...profileData,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      return null;
     });
     
+    if (conflict) {
+      return res.status(409).json({ status: 'conflict', message: 'The profile was changed after these edits were made', current: conflict });
+    }
+    
     // Get updated profile
     const updatedDoc = await admin.firestore().collection('therapists_data').doc(id).get();
-    const updatedTherapist = {
-      id: updatedDoc.id,
-      ...updatedDoc.data()
-    };
+    const updatedTherapist = parseDocument(therapistSchema, updatedDoc.id, updatedDoc.data());
     
     // Get certifications
     const certificationsSnapshot = await admin.firestore()
@@ -321,10 +502,7 @@ app.put('/therapist_profile', authenticate, async (req, res) => {
       .where('therapistUserId', '==', id)
       .get();
     
-    const certifications = certificationsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
     
     updatedTherapist.certifications = certifications;
     
@@ -336,12 +514,53 @@ app.put('/therapist_profile', authenticate, async (req, res) => {
 });
 
 // Therapist certifications API
+app.get('/therapist_certifications', authenticate, async (req, res) => {
+  try {
+    const therapistId = (req.query.therapistId as string) || req.user.uid;
+    
+    // Check if user is authorized (therapist themselves or admin)
+    if (req.user.uid !== therapistId && req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to view these certifications' });
+    }
+    
+    const certificationsSnapshot = await admin.firestore()
+      .collection(CERTIFICATIONS_COLLECTION)
+      .where('therapistUserId', '==', therapistId)
+      .get();
+    
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
+    
+    res.json({ status: 'success', data: certifications });
+  } catch (error) {
+    console.error('Error fetching certifications:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch certifications' });
+  }
+});
+
 app.post('/therapist_certifications', authenticate, async (req, res) => {
   try {
-    const { therapistId, name, fileUrl, country } = req.body;
+    const { therapistId, name, filePath, fileUrl, country, issuingBody, licenseNumber, expiresAt } = req.body;
+    
+    if (!therapistId || !name || (!filePath && !fileUrl)) {
+      return res.status(400).json({ status: 'error', message: 'Therapist ID, name, and file path are required' });
+    }
+    const { errors } = validateWrite(certificationSchema, {
+      therapistUserId: therapistId, name, filePath, fileUrl, country, issuingBody, licenseNumber, expiresAt
+    });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, certificationSchema, errors);
+    }
+    // Documents are uploaded to the therapist's private certifications folder
+    if (filePath && !isOwnPrivateFile(filePath, 'certifications', therapistId)) {
+      return res.status(400).json({ status: 'error', message: 'filePath must be in the therapist\'s private certifications folder' });
+    }
+    if (filePath && await isFileQuarantined(filePath)) {
+      return res.status(400).json({ status: 'error', message: 'This file failed the upload checks and was removed. Please upload it again.' });
+    }
     
-    if (!therapistId || !name || !fileUrl) {
-      return res.status(400).json({ status: 'error', message: 'Therapist ID, name, and file URL are required' });
+    const expiryError = validateExpiryDate(expiresAt);
+    if (expiryError) {
+      return res.status(400).json({ status: 'error', message: expiryError });
     }
     
     // Check if user is authorized (therapist themselves or admin)
@@ -349,37 +568,39 @@ app.post('/therapist_certifications', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to add certification to this profile' });
     }
     
-    // Create certification
+    // New certifications join the admin review queue, counted as required until a reviewer says otherwise
     const certId = `cert_${Date.now()}`;
-    await admin.firestore().collection('certifications').doc(certId).set({
+    await admin.firestore().collection(CERTIFICATIONS_COLLECTION).doc(certId).set({
       id: certId,
       therapistUserId: therapistId,
       name,
-      fileUrl,
+      filePath: filePath || null,
+      fileUrl: filePath ? '' : fileUrl,
       country: country || '',
+      issuingBody: issuingBody || '',
+      licenseNumber: licenseNumber || '',
+      expiresAt: expiresAt || null,
+      isRequired: true,
+      status: 'pending',
       isVerified: false,
-      uploadedAt: admin.firestore.FieldValue.serverTimestamp()
+      reviewerId: null,
+      uploadedAt: new Date().toISOString()
     });
     
     // Get updated therapist profile with certifications
     const therapistDoc = await admin.firestore().collection('therapists_data').doc(therapistId).get();
-    const therapist = {
-      id: therapistDoc.id,
-      ...therapistDoc.data()
-    };
+    const therapist = parseDocument(therapistSchema, therapistDoc.id, therapistDoc.data());
     
     const certificationsSnapshot = await admin.firestore()
       .collection('certifications')
       .where('therapistUserId', '==', therapistId)
       .get();
     
-    const certifications = certificationsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
     
     therapist.certifications = certifications;
     
+    setAudit(res, { action: 'Certification Added', targetType: 'certification', targetId: certId, details: { therapistId, name } });
     res.status(201).json({ status: 'success', message: 'Certification added successfully', therapist });
   } catch (error) {
     console.error('Error adding certification:', error);
@@ -389,16 +610,16 @@ app.post('/therapist_certifications', authenticate, async (req, res) => {
 
 app.put('/therapist_certifications', authenticate, async (req, res) => {
   try {
-    const { id, therapistUserId, ...updateData } = req.body;
+    const { id, therapistUserId } = req.body;
     
     if (!id || !therapistUserId) {
       return res.status(400).json({ status: 'error', message: 'Certification ID and therapist ID are required' });
     }
     
     // Check if certification exists
-    const certDoc = await admin.firestore().collection('certifications').doc(id).get();
+    const certDoc = await admin.firestore().collection(CERTIFICATIONS_COLLECTION).doc(id).get();
     
-    if (!certDoc.exists) {
+    if (!certDoc.exists || certDoc.data()?.therapistUserId !== therapistUserId) {
       return res.status(404).json({ status: 'error', message: 'Certification not found' });
     }
     
@@ -407,31 +628,60 @@ app.put('/therapist_certifications', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to update this certification' });
     }
     
+    // Review fields are only set through the admin certification review queue
+    const certData = certDoc.data();
+    const updateData: any = {};
+    THERAPIST_EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined && req.body[field] !== certData?.[field]) updateData[field] = req.body[field];
+    });
+    
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ status: 'error', message: 'No certification changes to save' });
+    }
+    const { errors } = validateWrite(certificationSchema, updateData, { partial: true });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, certificationSchema, errors);
+    }
+    if (updateData.filePath !== undefined && !isOwnPrivateFile(updateData.filePath, 'certifications', therapistUserId)) {
+      return res.status(400).json({ status: 'error', message: 'filePath must be in the therapist\'s private certifications folder' });
+    }
+    if (updateData.filePath !== undefined && await isFileQuarantined(updateData.filePath)) {
+      return res.status(400).json({ status: 'error', message: 'This file failed the upload checks and was removed. Please upload it again.' });
+    }
+    const expiryError = validateExpiryDate(updateData.expiresAt);
+    if (expiryError) {
+      return res.status(400).json({ status: 'error', message: expiryError });
+    }
+    
+    // A changed document, name or expiry needs a fresh review
+    Object.assign(updateData, { status: 'pending', isVerified: false, reviewedBy: null, reviewedAt: null });
+    
     // Update certification
-    await admin.firestore().collection('certifications').doc(id).update({
+    await admin.firestore().collection(CERTIFICATIONS_COLLECTION).doc(id).update({
       ...updateData,
       updatedAt: admin.firestore.FieldValue.serverTimestamp()
     });
     
     // Get updated therapist profile with certifications
     const therapistDoc = await admin.firestore().collection('therapists_data').doc(therapistUserId).get();
-    const therapist = {
-      id: therapistDoc.id,
-      ...therapistDoc.data()
-    };
+    const therapist = parseDocument(therapistSchema, therapistDoc.id, therapistDoc.data());
     
     const certificationsSnapshot = await admin.firestore()
       .collection('certifications')
       .where('therapistUserId', '==', therapistUserId)
       .get();
     
-    const certifications = certificationsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
     
     therapist.certifications = certifications;
     
+    setAudit(res, {
+      action: 'Certification Updated',
+      targetType: 'certification',
+      targetId: id,
+      before: certData,
+      after: certifications.find(certification => certification.id === id)
+    });
     res.json({ status: 'success', message: 'Certification updated successfully', therapist });
   } catch (error) {
     console.error('Error updating certification:', error);
@@ -450,7 +700,7 @@ app.delete('/therapist_certifications', authenticate, async (req, res) => {
     // Check if certification exists
     const certDoc = await admin.firestore().collection('certifications').doc(certId).get();
     
-    if (!certDoc.exists) {
+    if (!certDoc.exists || certDoc.data()?.therapistUserId !== therapistId) {
       return res.status(404).json({ status: 'error', message: 'Certification not found' });
     }
     
@@ -459,28 +709,26 @@ app.delete('/therapist_certifications', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to delete this certification' });
     }
     
-    // Delete certification
+    // Delete certification and its document
     await admin.firestore().collection('certifications').doc(certId).delete();
+    if (isPrivateFilePath(certDoc.data()?.filePath)) {
+      await deletePrivateFile(certDoc.data()?.filePath);
+    }
     
     // Get updated therapist profile with certifications
     const therapistDoc = await admin.firestore().collection('therapists_data').doc(therapistId).get();
-    const therapist = {
-      id: therapistDoc.id,
-      ...therapistDoc.data()
-    };
+    const therapist = parseDocument(therapistSchema, therapistDoc.id, therapistDoc.data());
     
     const certificationsSnapshot = await admin.firestore()
       .collection('certifications')
       .where('therapistUserId', '==', therapistId)
       .get();
     
-    const certifications = certificationsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
     
     therapist.certifications = certifications;
     
+    setAudit(res, { action: 'Certification Deleted', targetType: 'certification', targetId: certId, before: certDoc.data(), after: null });
     res.json({ status: 'success', message: 'Certification deleted successfully', therapist });
   } catch (error) {
     console.error('Error deleting certification:', error);
@@ -488,6 +736,31 @@ app.delete('/therapist_certifications', authenticate, async (req, res) => {
   }
 });
 
+// Private files API: short-lived download links for license documents and payment receipts
+app.get('/files/signed_url', authenticate, async (req, res) => {
+  try {
+    const path = req.query.path as string;
+    
+    if (!isPrivateFilePath(path)) {
+      return res.status(400).json({ status: 'error', message: 'A private file path is required' });
+    }
+    if (!canReadPrivateFile(req.user, path)) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to view this file' });
+    }
+    
+    const signed = await getSignedDownloadUrl(path);
+    
+    if (!signed) {
+      return res.status(404).json({ status: 'error', message: 'File not found' });
+    }
+    
+    res.json({ status: 'success', url: signed.url, expiresAt: signed.expiresAt });
+  } catch (error) {
+    console.error('Error signing file URL:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to create download link' });
+  }
+});
+
 // Clinic profile API
 app.get('/clinic_profile', async (req, res) => {
   try {
@@ -519,10 +792,7 @@ app.get('/clinic_profile', async (req, res) => {
       return res.status(404).json({ status: 'not_found', message: 'Clinic not found' });
     }
     
-    const clinic = {
-      id: clinicDoc.id,
-      ...clinicDoc.data()
-    };
+    const clinic = parseDocument(clinicSchema, clinicDoc.id, clinicDoc.data());
     
     // Get clinic spaces (listings)
     const spacesSnapshot = await admin.firestore()
@@ -530,10 +800,7 @@ app.get('/clinic_profile', async (req, res) => {
       .where('clinicId', '==', clinic.id)
       .get();
     
-    const spaces = spacesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const spaces = spacesSnapshot.docs.map(doc => parseDocument(clinicSpaceSchema, doc.id, doc.data()));
     
     clinic.listings = spaces;
     
@@ -574,18 +841,22 @@ app.put('/clinic_profile', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to update this clinic' });
     }
     
+    // Approval and membership fields are left to admins and Functions
+    const { value: clinicUpdate, errors } = validateWrite(clinicSchema, updateData, { partial: true, includeManaged: req.user.role === 'ADMIN' });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, clinicSchema, errors);
+    }
+    
     // Update clinic profile
     await admin.firestore().collection('clinics_data').doc(id).update({
-      ...updateData,
+      ...clinicUpdate,
       updatedAt: admin.firestore.FieldValue.serverTimestamp()
     });
     
     // Get updated clinic profile
     const updatedDoc = await admin.firestore().collection('clinics_data').doc(id).get();
-    const clinic = {
-      id: updatedDoc.id,
-      ...updatedDoc.data()
-    };
+    const clinic = parseDocument(clinicSchema, updatedDoc.id, updatedDoc.data());
+    setAudit(res, { action: 'Clinic Profile Updated', targetType: 'clinic', targetId: id, before: clinicData, after: updatedDoc.data() });
     
     // Get clinic spaces (listings)
     const spacesSnapshot = await admin.firestore()
@@ -593,10 +864,7 @@ app.put('/clinic_profile', authenticate, async (req, res) => {
       .where('clinicId', '==', clinic.id)
       .get();
     
-    const spaces = spacesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    const spaces = spacesSnapshot.docs.map(doc => parseDocument(clinicSpaceSchema, doc.id, doc.data()));
     
     clinic.listings = spaces;
     
@@ -631,10 +899,7 @@ app.get('/clinic_spaces', async (req, res) => {
     const snapshot = await query.get();
     
     // Manual filtering for complex filters
-    let spaces = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    let spaces = snapshot.docs.map(doc => parseDocument(clinicSpaceSchema, doc.id, doc.data()));
     
     // Filter by location
     if (location) {
@@ -689,11 +954,11 @@ app.get('/clinic_spaces', async (req, res) => {
 
 app.post('/clinic_spaces', authenticate, async (req, res) => {
   try {
-    const { clinicId, name, description, photos, rentalPrice, rentalDuration, rentalTerms, features } = req.body;
-    
-    if (!clinicId || !name) {
-      return res.status(400).json({ status: 'error', message: 'Clinic ID and name are required' });
+    const { value: spaceInput, errors } = validateWrite(clinicSpaceSchema, req.body);
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, clinicSpaceSchema, errors);
     }
+    const { clinicId, name } = spaceInput;
     
     // Check if clinic exists and user is authorized
     const clinicDoc = await admin.firestore().collection('clinics_data').doc(clinicId).get();
@@ -713,14 +978,7 @@ app.post('/clinic_spaces', authenticate, async (req, res) => {
     const spaceId = `space_${Date.now()}`;
     const spaceData = {
       id: spaceId,
-      clinicId,
-      name,
-      description: description || '',
-      photos: photos || [],
-      rentalPrice: rentalPrice || 0,
-      rentalDuration: rentalDuration || 'per hour',
-      rentalTerms: rentalTerms || '',
-      features: features || [],
+      ...spaceInput,
       clinicName: clinicData?.name || '',
       clinicAddress: clinicData?.address || '',
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
@@ -728,6 +986,7 @@ app.post('/clinic_spaces', authenticate, async (req, res) => {
     };
     
     await admin.firestore().collection('clinic_spaces').doc(spaceId).set(spaceData);
+    setAudit(res, { action: 'Clinic Space Added', targetType: 'clinic_space', targetId: spaceId, details: { clinicId, name } });
     
     res.status(201).json({ 
       status: 'success', 
@@ -769,18 +1028,22 @@ app.put('/clinic_spaces', authenticate, async (req, res) => {
       return res.status(403).json({ status: 'error', message: 'Unauthorized to update spaces for this clinic' });
     }
     
+    // Booking hours and blocks have their own endpoints
+    const { value: spaceUpdate, errors } = validateWrite(clinicSpaceSchema, updateData, { partial: true });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, clinicSpaceSchema, errors);
+    }
+    
     // Update space
     await admin.firestore().collection('clinic_spaces').doc(id).update({
-      ...updateData,
+      ...spaceUpdate,
       updatedAt: admin.firestore.FieldValue.serverTimestamp()
     });
     
     // Get updated space
     const updatedDoc = await admin.firestore().collection('clinic_spaces').doc(id).get();
-    const updatedSpace = {
-      id: updatedDoc.id,
-      ...updatedDoc.data()
-    };
+    const updatedSpace = parseDocument(clinicSpaceSchema, updatedDoc.id, updatedDoc.data());
+    setAudit(res, { action: 'Clinic Space Updated', targetType: 'clinic_space', targetId: id, before: spaceDoc.data(), after: updatedDoc.data() });
     
     res.json({ 
       status: 'success', 
@@ -826,6 +1089,7 @@ app.delete('/clinic_spaces', authenticate, async (req, res) => {
     
     // Delete space
     await admin.firestore().collection('clinic_spaces').doc(listingId).delete();
+    setAudit(res, { action: 'Clinic Space Deleted', targetType: 'clinic_space', targetId: listingId, before: spaceData, after: null });
     
     res.json({ 
       status: 'success', 
@@ -837,181 +1101,2692 @@ app.delete('/clinic_spaces', authenticate, async (req, res) => {
   }
 });
 
-// User profile API
-app.get('/user_profile', authenticate, async (req, res) => {
+// Loads a clinic space and its clinic, and whether the caller may manage it
+const loadSpaceForUser = async (req: express.Request, spaceId: string) => {
+  const spaceDoc = await admin.firestore().collection('clinic_spaces').doc(spaceId).get();
+  if (!spaceDoc.exists) return null;
+
+  const spaceData = spaceDoc.data();
+  const clinicDoc = await admin.firestore().collection('clinics_data').doc(spaceData?.clinicId).get();
+  const clinicData = clinicDoc.data();
+  const canManage = req.user?.role === 'ADMIN' || (!!clinicData && req.user?.uid === clinicData.ownerId);
+
+  return { spaceData, clinicData, canManage };
+};
+
+app.get('/clinic_spaces/:id/slots', async (req, res) => {
   try {
-    const userId = req.user.uid;
-    
-    const userDoc = await admin.firestore().collection('users').doc(userId).get();
-    
-    if (!userDoc.exists) {
-      return res.status(404).json({ status: 'error', message: 'User not found' });
+    const { from, to } = req.query;
+
+    const start = from ? new Date(from as string) : new Date();
+    const end = to ? new Date(to as string) : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ status: 'error', message: 'Invalid time window' });
     }
-    
-    const user = {
-      id: userDoc.id,
-      ...userDoc.data()
-    };
-    
-    res.json({ status: 'success', user });
+    if (end.getTime() - start.getTime() > MAX_SLOT_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ status: 'error', message: `Time window cannot exceed ${MAX_SLOT_WINDOW_DAYS} days` });
+    }
+
+    const spaceDoc = await admin.firestore().collection('clinic_spaces').doc(req.params.id).get();
+
+    if (!spaceDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Space not found' });
+    }
+
+    const reservationsSnapshot = await admin.firestore()
+      .collection(SPACE_RESERVATIONS_COLLECTION)
+      .where('spaceId', '==', req.params.id)
+      .where('status', 'in', ACTIVE_RESERVATION_STATUSES)
+      .get();
+    const reservations = reservationsSnapshot.docs.map(doc => doc.data() as { startTime: string; endTime: string });
+
+    // Past slots are never offered
+    const now = new Date();
+    const windowStart = start < now ? now : start;
+    const slots = windowStart < end ? buildSpaceSlots(spaceDoc.data(), windowStart, end, reservations) : [];
+
+    res.json({
+      status: 'success',
+      slotDurationMinutes: getSlotMinutes(spaceDoc.data()),
+      timeZone: spaceDoc.data()?.schedule?.timeZone || null,
+      slots
+    });
   } catch (error) {
-    console.error('Error fetching user profile:', error);
-    res.status(500).json({ status: 'error', message: 'Failed to fetch user profile' });
+    console.error('Error fetching space slots:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch space slots' });
   }
 });
 
-app.put('/user_profile', authenticate, async (req, res) => {
+app.put('/clinic_spaces/:id/schedule', authenticate, async (req, res) => {
   try {
-    const userId = req.user.uid;
-    const { name, email, profilePictureUrl } = req.body;
-    
-    const updateData: any = {};
-    
-    if (name !== undefined) updateData.name = name;
-    if (email !== undefined) updateData.email = email;
-    if (profilePictureUrl !== undefined) updateData.profilePictureUrl = profilePictureUrl;
-    
-    // Update user profile
-    await admin.firestore().collection('users').doc(userId).update({
-      ...updateData,
+    const { schedule, slotDurationMinutes = DEFAULT_SLOT_MINUTES } = req.body;
+
+    const space = await loadSpaceForUser(req, req.params.id);
+
+    if (!space) {
+      return res.status(404).json({ status: 'error', message: 'Space not found' });
+    }
+    if (!space.canManage) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to update spaces for this clinic' });
+    }
+
+    const slotMinutes = parseInt(slotDurationMinutes, 10);
+    if (isNaN(slotMinutes) || slotMinutes < MIN_SLOT_MINUTES || slotMinutes > MAX_SLOT_MINUTES) {
+      return res.status(400).json({
+        status: 'error',
+        message: `Slot duration must be between ${MIN_SLOT_MINUTES} and ${MAX_SLOT_MINUTES} minutes`
+      });
+    }
+
+    if (schedule) {
+      const scheduleError = validateSchedule(schedule, space.spaceData?.name || 'Space');
+      if (scheduleError) {
+        return res.status(400).json({ status: 'error', message: scheduleError });
+      }
+    }
+
+    // Clearing the schedule takes the space off the booking calendar
+    await admin.firestore().collection('clinic_spaces').doc(req.params.id).update({
+      schedule: schedule || admin.firestore.FieldValue.delete(),
+      slotDurationMinutes: slotMinutes,
       updatedAt: admin.firestore.FieldValue.serverTimestamp()
     });
-    
-    // Get updated user profile
-    const updatedDoc = await admin.firestore().collection('users').doc(userId).get();
-    const user = {
-      id: updatedDoc.id,
-      ...updatedDoc.data()
-    };
-    
-    res.json({ status: 'success', message: 'Profile updated successfully', user });
+
+    const updatedDoc = await admin.firestore().collection('clinic_spaces').doc(req.params.id).get();
+
+    res.json({
+      status: 'success',
+      message: 'Booking hours updated successfully',
+      listing: parseDocument(clinicSpaceSchema, updatedDoc.id, updatedDoc.data())
+    });
   } catch (error) {
-    console.error('Error updating user profile:', error);
-    res.status(500).json({ status: 'error', message: 'Failed to update user profile' });
+    console.error('Error updating space schedule:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update booking hours' });
   }
 });
 
-// Admin APIs
-app.get('/admin_therapists', authenticate, async (req, res) => {
-  try {
-    // Check if user is admin
-    if (req.user.role !== 'ADMIN') {
-      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
-    }
+// Loads the calendar for a space the caller manages, or sends the error response
+const loadSpaceCalendar = async (req: express.Request, res: express.Response) => {
+  const space = await loadSpaceForUser(req, req.params.id);
+
+  if (!space) {
+    res.status(404).json({ status: 'error', message: 'Space not found' });
+    return null;
+  }
+  if (!space.canManage) {
+    res.status(403).json({ status: 'error', message: 'Unauthorized to view this space calendar' });
+    return null;
+  }
+
+  // Closures follow the space's booking time zone, or the viewer's if the space has no schedule yet
+  const requestedTimeZone = req.query.timeZone as string;
+  const timeZone = space.spaceData?.schedule?.timeZone ||
+    (requestedTimeZone && isValidTimeZone(requestedTimeZone) ? requestedTimeZone : 'UTC');
+
+  return {
+    spaceData: { id: req.params.id, ...space.spaceData },
+    closureSchedule: getClosureSchedule(space.clinicData?.operatingHours, timeZone),
+    timeZone
+  };
+};
+
+app.get('/clinic_spaces/:id/calendar', authenticate, async (req, res) => {
+  try {
+    const { from, to } = req.query;
+
+    const start = new Date(from as string);
+    const end = new Date(to as string);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ status: 'error', message: 'Invalid time window' });
+    }
+    if (end.getTime() - start.getTime() > MAX_SLOT_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ status: 'error', message: `Time window cannot exceed ${MAX_SLOT_WINDOW_DAYS} days` });
+    }
+
+    const calendar = await loadSpaceCalendar(req, res);
+    if (!calendar) return;
+
+    const reservationsSnapshot = await admin.firestore()
+      .collection(SPACE_RESERVATIONS_COLLECTION)
+      .where('spaceId', '==', req.params.id)
+      .where('status', 'in', ACTIVE_RESERVATION_STATUSES)
+      .get();
+
+    const inWindow = (item: { startTime: string; endTime: string }) =>
+      new Date(item.startTime) < end && new Date(item.endTime) > start;
+
+    res.json({
+      status: 'success',
+      timeZone: calendar.timeZone,
+      reservations: reservationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as any).filter(inWindow),
+      blockedPeriods: getBlockedPeriods(calendar.spaceData).filter(inWindow),
+      closures: getClosureIntervals(calendar.closureSchedule, start, end)
+    });
+  } catch (error) {
+    console.error('Error fetching space calendar:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch space calendar' });
+  }
+});
+
+app.get('/clinic_spaces/:id/calendar.ics', authenticate, async (req, res) => {
+  try {
+    const calendar = await loadSpaceCalendar(req, res);
+    if (!calendar) return;
+
+    const reservationsSnapshot = await admin.firestore()
+      .collection(SPACE_RESERVATIONS_COLLECTION)
+      .where('spaceId', '==', req.params.id)
+      .where('status', 'in', ACTIVE_RESERVATION_STATUSES)
+      .get();
+
+    const ics = renderSpaceCalendar(
+      calendar.spaceData,
+      reservationsSnapshot.docs.map(doc => doc.data()),
+      calendar.closureSchedule
+    );
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${req.params.id}.ics"`);
+    res.send(ics);
+  } catch (error) {
+    console.error('Error exporting space calendar:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to export space calendar' });
+  }
+});
+
+app.post('/clinic_spaces/:id/blocks', authenticate, async (req, res) => {
+  try {
+    const { startTime, endTime, reason } = req.body;
+
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ status: 'error', message: 'Invalid blocked period' });
+    }
+    if (end.getTime() <= Date.now()) {
+      return res.status(400).json({ status: 'error', message: 'Blocked period must end in the future' });
+    }
+    if (reason && String(reason).length > MAX_BLOCK_REASON_LENGTH) {
+      return res.status(400).json({ status: 'error', message: `Reason cannot exceed ${MAX_BLOCK_REASON_LENGTH} characters` });
+    }
+
+    const space = await loadSpaceForUser(req, req.params.id);
+
+    if (!space) {
+      return res.status(404).json({ status: 'error', message: 'Space not found' });
+    }
+    if (!space.canManage) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to update spaces for this clinic' });
+    }
+
+    const spaceRef = admin.firestore().collection('clinic_spaces').doc(req.params.id);
+    const block = {
+      // A Firestore auto-ID, so blocks added in the same millisecond cannot share one
+      id: `block_${spaceRef.collection('blockedPeriods').doc().id}`,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      reason: reason ? String(reason) : ''
+    };
+
+    // Existing bookings have to be declined or cancelled first, so the therapist is told.
+    // Checked and written in one transaction, so a reservation made meanwhile cannot end up inside the block.
+    const hasConflict = await admin.firestore().runTransaction(async transaction => {
+      await transaction.get(spaceRef);
+      const reservationsSnapshot = await transaction.get(admin.firestore()
+        .collection(SPACE_RESERVATIONS_COLLECTION)
+        .where('spaceId', '==', req.params.id)
+        .where('status', 'in', ACTIVE_RESERVATION_STATUSES));
+      const reservations = reservationsSnapshot.docs.map(doc => doc.data() as { startTime: string; endTime: string });
+      if (hasReservationConflict(start, end, reservations)) return true;
+
+      transaction.update(spaceRef, {
+        blockedPeriods: admin.firestore.FieldValue.arrayUnion(block),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      return false;
+    });
+
+    if (hasConflict) {
+      return res.status(409).json({ status: 'error', message: 'This period overlaps existing reservations' });
+    }
+
+    res.status(201).json({ status: 'success', message: 'Period blocked successfully', block });
+  } catch (error) {
+    console.error('Error blocking space period:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to block period' });
+  }
+});
+
+app.delete('/clinic_spaces/:id/blocks/:blockId', authenticate, async (req, res) => {
+  try {
+    const space = await loadSpaceForUser(req, req.params.id);
+
+    if (!space) {
+      return res.status(404).json({ status: 'error', message: 'Space not found' });
+    }
+    if (!space.canManage) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to update spaces for this clinic' });
+    }
+
+    const blockedPeriods = getBlockedPeriods(space.spaceData);
+    if (!blockedPeriods.some(block => block.id === req.params.blockId)) {
+      return res.status(404).json({ status: 'error', message: 'Blocked period not found' });
+    }
+
+    await admin.firestore().collection('clinic_spaces').doc(req.params.id).update({
+      blockedPeriods: blockedPeriods.filter(block => block.id !== req.params.blockId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    res.json({ status: 'success', message: 'Blocked period removed successfully' });
+  } catch (error) {
+    console.error('Error removing blocked period:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to remove blocked period' });
+  }
+});
+
+// Space reservations API
+app.get('/space_reservations', authenticate, async (req, res) => {
+  try {
+    const { status, spaceId } = req.query;
+
+    let query: admin.firestore.Query = admin.firestore().collection(SPACE_RESERVATIONS_COLLECTION);
+
+    // Therapists see their own rentals, clinic owners see requests for their spaces, admins can see everything
+    if (req.user.role === 'THERAPIST') {
+      query = query.where('therapistId', '==', req.user.uid);
+    } else if (req.user.role === 'CLINIC_OWNER') {
+      query = query.where('ownerId', '==', req.user.uid);
+    } else if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to view space reservations' });
+    }
+
+    if (spaceId) {
+      query = query.where('spaceId', '==', spaceId);
+    }
+
+    const snapshot = await query.get();
+
+    let reservations = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as any[];
+
+    // Filter by status
+    if (status) {
+      const statusArray = (status as string).split(',');
+      reservations = reservations.filter(reservation => statusArray.includes(reservation.status));
+    }
+
+    // Most recent slot first
+    reservations.sort((a, b) => (b.startTime || '').localeCompare(a.startTime || ''));
+
+    res.json({ status: 'success', reservations });
+  } catch (error) {
+    console.error('Error fetching space reservations:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch space reservations' });
+  }
+});
+
+app.post('/space_reservations', authenticate, async (req, res) => {
+  try {
+    if (req.user.role !== 'THERAPIST') {
+      return res.status(403).json({ status: 'error', message: 'Only therapists can reserve clinic spaces' });
+    }
+
+    const { spaceId, startTime, endTime, notes } = req.body;
+
+    if (!spaceId || !startTime || !endTime) {
+      return res.status(400).json({ status: 'error', message: 'Space ID, start time and end time are required' });
+    }
+
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ status: 'error', message: 'Invalid reservation time' });
+    }
+    if (start.getTime() <= Date.now()) {
+      return res.status(400).json({ status: 'error', message: 'Start time must be in the future' });
+    }
+
+    const spaceDoc = await admin.firestore().collection('clinic_spaces').doc(spaceId).get();
+
+    if (!spaceDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Space not found' });
+    }
+
+    const spaceData = spaceDoc.data();
+    const slotMinutes = getSlotMinutes(spaceData);
+
+    if ((end.getTime() - start.getTime()) % (slotMinutes * 60 * 1000) !== 0) {
+      return res.status(400).json({ status: 'error', message: `Reservations must be booked in blocks of ${slotMinutes} minutes` });
+    }
+    if (!fitsSpaceSchedule(spaceData, start, end)) {
+      return res.status(400).json({ status: 'error', message: 'This space is not bookable at the requested time' });
+    }
+
+    const clinicDoc = await admin.firestore().collection('clinics_data').doc(spaceData?.clinicId).get();
+
+    if (!clinicDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Clinic not found' });
+    }
+
+    const clinicData = clinicDoc.data();
+    const therapistDoc = await admin.firestore().collection('therapists_data').doc(req.user.uid).get();
+
+    const reservationId = `resv_${Date.now()}`;
+    const reservationRef = admin.firestore().collection(SPACE_RESERVATIONS_COLLECTION).doc(reservationId);
+    const now = new Date().toISOString();
+    const reservationData = {
+      id: reservationId,
+      spaceId,
+      spaceName: spaceData?.name || '',
+      clinicId: spaceData?.clinicId,
+      clinicName: clinicData?.name || '',
+      ownerId: clinicData?.ownerId,
+      therapistId: req.user.uid,
+      therapistName: therapistDoc.data()?.name || req.user.name || '',
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      // Price at the time of booking, so later listing changes do not rewrite history
+      rentalPrice: spaceData?.rentalPrice || 0,
+      rentalDuration: spaceData?.rentalDuration || '',
+      status: 'requested',
+      notes: notes || '',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Check for overlaps and write in one transaction, so two requests for the same slot cannot both succeed
+    const hasConflict = await admin.firestore().runTransaction(async transaction => {
+      const latestSpaceDoc = await transaction.get(spaceDoc.ref);
+      const existingSnapshot = await transaction.get(admin.firestore()
+        .collection(SPACE_RESERVATIONS_COLLECTION)
+        .where('spaceId', '==', spaceId)
+        .where('status', 'in', ACTIVE_RESERVATION_STATUSES));
+
+      const reservations = existingSnapshot.docs.map(doc => doc.data() as { startTime: string; endTime: string });
+      const blockedPeriods = getBlockedPeriods(latestSpaceDoc.data());
+      if (hasReservationConflict(start, end, [...reservations, ...blockedPeriods])) return true;
+
+      transaction.set(reservationRef, reservationData);
+      return false;
+    });
+
+    if (hasConflict) {
+      return res.status(409).json({ status: 'error', message: 'This time slot is no longer available' });
+    }
+
+    await createNotification(reservationData.ownerId, {
+      type: 'space_reservation_requested',
+      params: { name: reservationData.therapistName, space: reservationData.spaceName, startTime: reservationData.startTime },
+      link: '/dashboard/clinic/my-clinics'
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Reservation requested successfully',
+      reservation: reservationData
+    });
+  } catch (error) {
+    console.error('Error creating space reservation:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to create space reservation' });
+  }
+});
+
+app.put('/space_reservations', authenticate, async (req, res) => {
+  try {
+    const { id, status, reason } = req.body;
+
+    if (!id || !status) {
+      return res.status(400).json({ status: 'error', message: 'Reservation ID and status are required' });
+    }
+
+    const reservationDoc = await admin.firestore().collection(SPACE_RESERVATIONS_COLLECTION).doc(id).get();
+
+    if (!reservationDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Reservation not found' });
+    }
+
+    const reservationData = reservationDoc.data();
+    const isTherapist = req.user.uid === reservationData?.therapistId;
+    const isOwner = req.user.uid === reservationData?.ownerId;
+    const isAdmin = req.user.role === 'ADMIN';
+
+    if (!isTherapist && !isOwner && !isAdmin) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to update this reservation' });
+    }
+
+    const allowedRoles = RESERVATION_TRANSITIONS[reservationData?.status]?.[status];
+
+    if (!allowedRoles) {
+      return res.status(400).json({
+        status: 'error',
+        message: `Cannot change reservation status from ${reservationData?.status} to ${status}`
+      });
+    }
+
+    const actingRole = isOwner ? 'OWNER' : isTherapist ? 'THERAPIST' : null;
+    if (!isAdmin && (!actingRole || !allowedRoles.includes(actingRole))) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to make this status change' });
+    }
+
+    const updateData: any = {
+      status,
+      updatedAt: new Date().toISOString()
+    };
+
+    if (status === 'declined' || status === 'cancelled') {
+      updateData.statusChangedBy = isAdmin && !actingRole ? 'ADMIN' : actingRole;
+      updateData.statusReason = reason || '';
+    }
+
+    await admin.firestore().collection(SPACE_RESERVATIONS_COLLECTION).doc(id).update(updateData);
+
+    // Let the other side of the booking know
+    const recipients = [
+      !isTherapist ? reservationData?.therapistId : null,
+      !isOwner ? reservationData?.ownerId : null
+    ].filter(Boolean) as string[];
+
+    await Promise.all(recipients.map(recipientId => createNotification(recipientId, {
+      type: `space_reservation_${status}` as NotificationType,
+      params: {
+        name: recipientId === reservationData?.therapistId ? reservationData?.clinicName : reservationData?.therapistName,
+        space: reservationData?.spaceName,
+        startTime: reservationData?.startTime
+      },
+      link: recipientId === reservationData?.therapistId ? '/dashboard/therapist/space-rental' : '/dashboard/clinic/my-clinics'
+    })));
+
+    const reservation = {
+      ...reservationData,
+      ...updateData,
+      id
+    };
+
+    res.json({ status: 'success', message: 'Reservation updated successfully', reservation });
+  } catch (error) {
+    console.error('Error updating space reservation:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update space reservation' });
+  }
+});
+
+// User profile API
+app.get('/user_profile', authenticate, async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    
+    const userDoc = await admin.firestore().collection('users').doc(userId).get();
+    
+    if (!userDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'User not found' });
+    }
+    
+    const user = parseDocument(userSchema, userDoc.id, userDoc.data());
+    
+    res.json({ status: 'success', user });
+  } catch (error) {
+    console.error('Error fetching user profile:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch user profile' });
+  }
+});
+
+app.put('/user_profile', authenticate, async (req, res) => {
+  try {
+    const userId = req.user.uid;
+    const { name, email, profilePictureUrl } = req.body;
+    
+    const updateData: any = {};
+    
+    if (name !== undefined) updateData.name = name;
+    if (email !== undefined) updateData.email = email;
+    if (profilePictureUrl !== undefined) updateData.profilePictureUrl = profilePictureUrl;
+    
+    const { errors } = validateWrite(userSchema, updateData, { partial: true });
+    if (errors.length > 0) {
+      return sendSchemaErrors(res, userSchema, errors);
+    }
+    
+    // Update user profile
+    await admin.firestore().collection('users').doc(userId).update({
+      ...updateData,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    
+    // Get updated user profile
+    const updatedDoc = await admin.firestore().collection('users').doc(userId).get();
+    const user = parseDocument(userSchema, updatedDoc.id, updatedDoc.data());
+    
+    res.json({ status: 'success', message: 'Profile updated successfully', user });
+  } catch (error) {
+    console.error('Error updating user profile:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update user profile' });
+  }
+});
+
+// Login history API
+// Called by the app right after a successful sign-in
+app.post('/login_events', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const userId = req.user.uid;
+    const { method } = req.body;
+
+    if (!LOGIN_METHODS.includes(method)) {
+      return res.status(400).json({ status: 'error', message: `method must be one of ${LOGIN_METHODS.join(', ')}` });
+    }
+
+    const now = new Date().toISOString();
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const eventRef = admin.firestore().collection(LOGIN_HISTORY_COLLECTION).doc();
+    const event = {
+      id: eventRef.id,
+      userId,
+      method,
+      ipAddress: (typeof forwardedFor === 'string' ? forwardedFor.split(',')[0].trim() : req.ip) || null,
+      userAgent: req.get('user-agent') || null,
+      createdAt: now
+    };
+
+    await eventRef.set(event);
+    await admin.firestore().collection('users').doc(userId).set({ lastLogin: now }, { merge: true });
+
+    res.status(201).json({ status: 'success', message: 'Login recorded' });
+  } catch (error) {
+    console.error('Error recording login:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to record login' });
+  }
+});
+
+// Appointments API
+// Allowed status transitions: requested -> confirmed -> completed/no_show, and
+// requested/confirmed -> cancelled. Values are the roles allowed to make the move.
+const APPOINTMENT_TRANSITIONS: Record<string, Record<string, string[]>> = {
+  requested: { confirmed: ['THERAPIST'], cancelled: ['CLIENT', 'THERAPIST'] },
+  confirmed: { completed: ['THERAPIST'], no_show: ['THERAPIST'], cancelled: ['CLIENT', 'THERAPIST'] },
+  completed: {},
+  cancelled: {},
+  no_show: {}
+};
+
+// Statuses that still hold the therapist's time slot
+const ACTIVE_APPOINTMENT_STATUSES = ['requested', 'confirmed'];
+
+app.get('/appointments', authenticate, async (req, res) => {
+  try {
+    const { status, therapistId, clientId } = req.query;
+
+    let query: admin.firestore.Query = admin.firestore().collection('appointments');
+
+    // Clients see their own bookings, therapists see bookings made with them, admins can see everything
+    if (req.user.role === 'CLIENT') {
+      query = query.where('clientId', '==', req.user.uid);
+    } else if (req.user.role === 'THERAPIST') {
+      query = query.where('therapistId', '==', req.user.uid);
+    } else if (req.user.role === 'ADMIN') {
+      if (therapistId) query = query.where('therapistId', '==', therapistId);
+      if (clientId) query = query.where('clientId', '==', clientId);
+    } else {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to view appointments' });
+    }
+
+    const snapshot = await query.get();
+
+    let appointments = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as any[];
+
+    // Filter by status
+    if (status) {
+      const statusArray = (status as string).split(',');
+      appointments = appointments.filter(appointment => statusArray.includes(appointment.status));
+    }
+
+    // Most recent slot first
+    appointments.sort((a, b) => (b.startTime || '').localeCompare(a.startTime || ''));
+
+    res.json({ status: 'success', appointments });
+  } catch (error) {
+    console.error('Error fetching appointments:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch appointments' });
+  }
+});
+
+app.post('/appointments', authenticate, async (req, res) => {
+  try {
+    if (req.user.role !== 'CLIENT') {
+      return res.status(403).json({ status: 'error', message: 'Only clients can book appointments' });
+    }
+
+    const { therapistId, startTime, durationMinutes = 60, locationAddress, notes } = req.body;
+
+    if (!therapistId || !startTime) {
+      return res.status(400).json({ status: 'error', message: 'Therapist ID and start time are required' });
+    }
+
+    const start = new Date(startTime);
+    if (isNaN(start.getTime())) {
+      return res.status(400).json({ status: 'error', message: 'Invalid start time' });
+    }
+    if (start.getTime() <= Date.now()) {
+      return res.status(400).json({ status: 'error', message: 'Start time must be in the future' });
+    }
+
+    const duration = parseInt(durationMinutes, 10);
+    if (isNaN(duration) || duration < 15 || duration > 180) {
+      return res.status(400).json({ status: 'error', message: 'Duration must be between 15 and 180 minutes' });
+    }
+
+    // Check that the therapist exists and is publicly listed
+    const therapistDoc = await admin.firestore().collection('therapists_data').doc(therapistId).get();
+
+    if (!therapistDoc.exists || therapistDoc.data()?.accountStatus !== 'live') {
+      return res.status(404).json({ status: 'error', message: 'Therapist not found' });
+    }
+
+    const therapistData = therapistDoc.data();
+    const locations: any[] = therapistData?.locations || [];
+
+    // Default to the primary practice location if none was picked
+    const location = locationAddress
+      ? locations.find(loc => loc.address === locationAddress)
+      : (locations.find(loc => loc.isPrimary) || locations[0]);
+
+    if (!location) {
+      return res.status(400).json({ status: 'error', message: 'Invalid practice location' });
+    }
+
+    const end = new Date(start.getTime() + duration * 60 * 1000);
+    const appointmentRef = admin.firestore().collection('appointments').doc();
+    const now = new Date().toISOString();
+    const appointmentData = {
+      id: appointmentRef.id,
+      clientId: req.user.uid,
+      clientName: req.user.name || '',
+      therapistId,
+      therapistName: therapistData?.name || '',
+      startTime: start.toISOString(),
+      durationMinutes: duration,
+      location,
+      status: 'requested',
+      notes: notes || '',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Check the slot does not overlap another active appointment with this therapist, and write
+    // in the same transaction, so two requests for the same slot cannot both succeed
+    const hasConflict = await admin.firestore().runTransaction(async transaction => {
+      const existingSnapshot = await transaction.get(admin.firestore()
+        .collection('appointments')
+        .where('therapistId', '==', therapistId)
+        .where('status', 'in', ACTIVE_APPOINTMENT_STATUSES));
+
+      const overlaps = existingSnapshot.docs.some(doc => {
+        const existing = doc.data();
+        const existingStart = new Date(existing.startTime).getTime();
+        const existingEnd = existingStart + (existing.durationMinutes || 60) * 60 * 1000;
+        return start.getTime() < existingEnd && end.getTime() > existingStart;
+      });
+      if (overlaps) return true;
+
+      transaction.set(appointmentRef, appointmentData);
+      return false;
+    });
+
+    if (hasConflict) {
+      return res.status(409).json({ status: 'error', message: 'This time slot is no longer available' });
+    }
+
+    await createNotification(therapistId, {
+      type: 'appointment_requested',
+      params: { name: appointmentData.clientName, startTime: appointmentData.startTime },
+      link: '/dashboard/therapist'
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Appointment requested successfully',
+      appointment: appointmentData
+    });
+  } catch (error) {
+    console.error('Error creating appointment:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to create appointment' });
+  }
+});
+
+app.put('/appointments', authenticate, async (req, res) => {
+  try {
+    const { id, status, cancellationReason } = req.body;
+
+    if (!id || !status) {
+      return res.status(400).json({ status: 'error', message: 'Appointment ID and status are required' });
+    }
+
+    const appointmentDoc = await admin.firestore().collection('appointments').doc(id).get();
+
+    if (!appointmentDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Appointment not found' });
+    }
+
+    const appointmentData = appointmentDoc.data();
+    const isClient = req.user.uid === appointmentData?.clientId;
+    const isTherapist = req.user.uid === appointmentData?.therapistId;
+    const isAdmin = req.user.role === 'ADMIN';
+
+    if (!isClient && !isTherapist && !isAdmin) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to update this appointment' });
+    }
+
+    const allowedRoles = APPOINTMENT_TRANSITIONS[appointmentData?.status]?.[status];
+
+    if (!allowedRoles) {
+      return res.status(400).json({
+        status: 'error',
+        message: `Cannot change appointment status from ${appointmentData?.status} to ${status}`
+      });
+    }
+
+    const actingRole = isTherapist ? 'THERAPIST' : isClient ? 'CLIENT' : null;
+    if (!isAdmin && (!actingRole || !allowedRoles.includes(actingRole))) {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to make this status change' });
+    }
+
+    // A session can only be closed out once it has started
+    if ((status === 'completed' || status === 'no_show') && new Date(appointmentData?.startTime).getTime() > Date.now()) {
+      return res.status(400).json({ status: 'error', message: 'Appointment has not started yet' });
+    }
+
+    const updateData: any = {
+      status,
+      updatedAt: new Date().toISOString()
+    };
+
+    if (status === 'cancelled') {
+      updateData.cancelledBy = isAdmin && !actingRole ? 'ADMIN' : actingRole;
+      updateData.cancellationReason = cancellationReason || '';
+    }
+
+    await admin.firestore().collection('appointments').doc(id).update(updateData);
+
+    // Let the other side of the booking know
+    if (status === 'confirmed' || status === 'cancelled') {
+      const recipients = [
+        !isClient ? appointmentData?.clientId : null,
+        !isTherapist ? appointmentData?.therapistId : null
+      ].filter(Boolean) as string[];
+
+      await Promise.all(recipients.map(recipientId => createNotification(recipientId, {
+        type: status === 'confirmed' ? 'appointment_confirmed' : 'appointment_cancelled',
+        params: {
+          name: recipientId === appointmentData?.clientId ? appointmentData?.therapistName : appointmentData?.clientName,
+          startTime: appointmentData?.startTime
+        },
+        link: recipientId === appointmentData?.therapistId ? '/dashboard/therapist' : null
+      })));
+    }
+
+    const appointment = {
+      ...appointmentData,
+      ...updateData,
+      id
+    };
+
+    res.json({ status: 'success', message: 'Appointment updated successfully', appointment });
+  } catch (error) {
+    console.error('Error updating appointment:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update appointment' });
+  }
+});
+
+app.delete('/appointments', authenticate, async (req, res) => {
+  try {
+    const { appointmentId } = req.body;
+
+    if (!appointmentId) {
+      return res.status(400).json({ status: 'error', message: 'Appointment ID is required' });
+    }
+
+    const appointmentDoc = await admin.firestore().collection('appointments').doc(appointmentId).get();
+
+    if (!appointmentDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Appointment not found' });
+    }
+
+    const appointmentData = appointmentDoc.data();
+
+    // Clients may withdraw a request the therapist has not acted on yet; anything else goes through PUT
+    const canWithdraw = req.user.uid === appointmentData?.clientId && appointmentData?.status === 'requested';
+    if (!canWithdraw && req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to delete this appointment' });
+    }
+
+    await admin.firestore().collection('appointments').doc(appointmentId).delete();
+
+    res.json({
+      status: 'success',
+      message: 'Appointment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting appointment:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to delete appointment' });
+  }
+});
+
+// Reviews API
+// Moderation notes, keyed by review ID. Visible reviews are public, so the notes
+// are kept out of the review documents, in a collection only admins can read.
+const REVIEW_MODERATION_COLLECTION = 'review_moderation';
+const REVIEW_MODERATION_FIELDS = ['moderationNote', 'moderatedBy', 'moderatedAt'];
+const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+app.post('/reviews', authenticate, async (req, res) => {
+  try {
+    if (req.user.role !== 'CLIENT') {
+      return res.status(403).json({ status: 'error', message: 'Only clients can leave reviews' });
+    }
+
+    const { therapistId, rating, comment } = req.body;
+    const ratingNum = Number(rating);
+
+    if (!therapistId) {
+      return res.status(400).json({ status: 'error', message: 'Therapist ID is required' });
+    }
+    if (!Number.isInteger(ratingNum) || ratingNum < 1 || ratingNum > 5) {
+      return res.status(400).json({ status: 'error', message: 'Rating must be a whole number from 1 to 5' });
+    }
+    if (comment && String(comment).length > MAX_REVIEW_COMMENT_LENGTH) {
+      return res.status(400).json({ status: 'error', message: `Comment cannot exceed ${MAX_REVIEW_COMMENT_LENGTH} characters` });
+    }
+
+    // Clients can only review a therapist after a completed session with them
+    const completedSnapshot = await admin.firestore()
+      .collection('appointments')
+      .where('clientId', '==', req.user.uid)
+      .where('therapistId', '==', therapistId)
+      .where('status', '==', 'completed')
+      .limit(1)
+      .get();
+
+    if (completedSnapshot.empty) {
+      return res.status(403).json({ status: 'error', message: 'You can review a therapist after completing a session with them' });
+    }
+
+    // One review per client per therapist
+    const reviewId = `${req.user.uid}_${therapistId}`;
+    const reviewRef = admin.firestore().collection('reviews').doc(reviewId);
+
+    const therapistDoc = await admin.firestore().collection('therapists_data').doc(therapistId).get();
+
+    const reviewData = {
+      id: reviewId,
+      therapistId,
+      therapistName: therapistDoc.data()?.name || '',
+      clientId: req.user.uid,
+      clientName: req.user.name || '',
+      rating: ratingNum,
+      comment: String(comment || '').trim(),
+      appointmentId: completedSnapshot.docs[0].id,
+      status: 'visible',
+      createdAt: new Date().toISOString()
+    };
+
+    // create() fails if the review exists, so two submissions at once cannot both be saved
+    try {
+      await reviewRef.create(reviewData);
+    } catch (error: any) {
+      if (error?.code === 6) { // ALREADY_EXISTS
+        return res.status(409).json({ status: 'error', message: 'You have already reviewed this therapist' });
+      }
+      throw error;
+    }
+
+    await createNotification(therapistId, {
+      type: 'review_received',
+      params: { rating: ratingNum },
+      link: '/dashboard/therapist'
+    });
+
+    res.status(201).json({ status: 'success', message: 'Review submitted successfully', review: reviewData });
+  } catch (error) {
+    console.error('Error creating review:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to submit review' });
+  }
+});
+
+app.get('/therapists/:id/reviews', async (req, res) => {
+  try {
+    const therapistId = req.params.id;
+    const { page = '1', limit = '10' } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 10, 1), 50);
+
+    const query = admin.firestore()
+      .collection('reviews')
+      .where('therapistId', '==', therapistId)
+      .where('status', '==', 'visible');
+
+    const countSnapshot = await query.count().get();
+    const totalItems = countSnapshot.data().count;
+
+    const snapshot = await query
+      .orderBy('createdAt', 'desc')
+      .offset((pageNum - 1) * limitNum)
+      .limit(limitNum)
+      .get();
+
+    // Reviews moderated before the notes moved out can still carry them
+    const reviews = snapshot.docs.map(doc => {
+      const { moderationNote, moderatedBy, moderatedAt, ...review } = doc.data();
+      return { ...review, id: doc.id };
+    });
+
+    res.json({
+      status: 'success',
+      reviews,
+      pagination: {
+        currentPage: pageNum,
+        totalPages: Math.ceil(totalItems / limitNum),
+        totalItems,
+        itemsPerPage: limitNum
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching therapist reviews:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch reviews' });
+  }
+});
+
+// Messaging API
+// One conversation per pair of users, with messages in a subcollection. Read receipts are
+// each participant's lastReadAt timestamp; unreadCounts backs the inbox badges.
+const MAX_MESSAGE_LENGTH = 5000;
+const MAX_MESSAGE_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+const MESSAGE_PUSH_PREVIEW_LENGTH = 120;
+
+const getConversationId = (userIdA: string, userIdB: string) => [userIdA, userIdB].sort().join('__');
+
+// Loads a conversation the current user takes part in, or sends the error response and returns null
+const loadConversationForUser = async (req: express.Request, res: express.Response) => {
+  const conversationRef = admin.firestore().collection('conversations').doc(req.params.id);
+  const conversationDoc = await conversationRef.get();
+
+  if (!conversationDoc.exists) {
+    res.status(404).json({ status: 'error', message: 'Conversation not found' });
+    return null;
+  }
+  if (!(conversationDoc.data()?.participantIds || []).includes(req.user?.uid)) {
+    res.status(403).json({ status: 'error', message: 'You are not a participant in this conversation' });
+    return null;
+  }
+  return { ref: conversationRef, data: conversationDoc.data() as any };
+};
+
+// Returns an error message for the first invalid attachment, or null if all are valid
+const validateAttachments = (attachments: any, conversationId: string): string | null => {
+  if (!Array.isArray(attachments)) return 'Attachments must be a list';
+  if (attachments.length > MAX_MESSAGE_ATTACHMENTS) return `A message can have at most ${MAX_MESSAGE_ATTACHMENTS} attachments`;
+
+  for (const attachment of attachments) {
+    if (!attachment?.url || !attachment?.name || typeof attachment?.path !== 'string') {
+      return 'Each attachment needs a url, path and name';
+    }
+    if (!attachment.path.startsWith(`message_attachments/${conversationId}/`)) {
+      return 'Attachments must be uploaded to this conversation';
+    }
+    if (typeof attachment.size !== 'number' || attachment.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      return 'Attachments must be 10 MB or smaller';
+    }
+  }
+  return null;
+};
+
+const toParticipant = (userId: string, userData: any) => ({
+  userId,
+  name: userData?.name || '',
+  role: userData?.role || 'CLIENT',
+  profilePictureUrl: userData?.profilePictureUrl || null
+});
+
+app.get('/conversations', authenticate, async (req, res) => {
+  try {
+    const snapshot = await admin.firestore()
+      .collection('conversations')
+      .where('participantIds', 'array-contains', req.user.uid)
+      .orderBy('updatedAt', 'desc')
+      .get();
+
+    const conversations = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    res.json({ status: 'success', data: conversations });
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch conversations' });
+  }
+});
+
+app.get('/conversations/unread_count', authenticate, async (req, res) => {
+  try {
+    const snapshot = await admin.firestore()
+      .collection('conversations')
+      .where('participantIds', 'array-contains', req.user.uid)
+      .get();
+
+    const count = snapshot.docs.reduce((sum, doc) => sum + (doc.data().unreadCounts?.[req.user?.uid as string] || 0), 0);
+
+    res.json({ status: 'success', count });
+  } catch (error) {
+    console.error('Error fetching unread message count:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch unread message count' });
+  }
+});
+
+app.post('/conversations', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const { recipientId, clinicId, context } = req.body;
+
+    // Clinic listings are contacted through the clinic's owner
+    let recipientUserId = recipientId;
+    if (!recipientUserId && clinicId) {
+      const clinicDoc = await admin.firestore().collection('clinics_data').doc(clinicId).get();
+      recipientUserId = clinicDoc.data()?.ownerId;
+    }
+
+    if (!recipientUserId) {
+      return res.status(400).json({ status: 'error', message: 'Recipient ID or clinic ID is required' });
+    }
+    if (recipientUserId === req.user.uid) {
+      return res.status(400).json({ status: 'error', message: 'You cannot message yourself' });
+    }
+
+    const [senderDoc, recipientDoc] = await Promise.all([
+      admin.firestore().collection('users').doc(req.user.uid).get(),
+      admin.firestore().collection('users').doc(recipientUserId).get()
+    ]);
+
+    if (!recipientDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Recipient not found' });
+    }
+
+    // Clients reach out to practitioners and clinics, not to each other
+    const recipientRole = recipientDoc.data()?.role || 'CLIENT';
+    if (req.user.role === 'CLIENT' && recipientRole === 'CLIENT') {
+      return res.status(403).json({ status: 'error', message: 'Clients cannot message other clients' });
+    }
+
+    const conversationId = getConversationId(req.user.uid, recipientUserId);
+    const conversationRef = admin.firestore().collection('conversations').doc(conversationId);
+    const conversationDoc = await conversationRef.get();
+    const now = new Date().toISOString();
+    const conversationContext = context?.type && context?.id
+      ? { type: context.type, id: context.id, label: context.label || '' }
+      : null;
+
+    if (conversationDoc.exists) {
+      // Reuse the existing thread, pointing it at whatever the user is asking about now
+      if (conversationContext) {
+        await conversationRef.update({ context: conversationContext });
+      }
+      const updatedDoc = await conversationRef.get();
+      return res.json({ status: 'success', conversation: { id: updatedDoc.id, ...updatedDoc.data() } });
+    }
+
+    const conversationData = {
+      id: conversationId,
+      participantIds: [req.user.uid, recipientUserId],
+      participants: [
+        toParticipant(req.user.uid, senderDoc.data() || { name: req.user.name, role: req.user.role }),
+        toParticipant(recipientUserId, recipientDoc.data())
+      ],
+      context: conversationContext,
+      lastMessage: null,
+      lastReadAt: { [req.user.uid]: now },
+      unreadCounts: { [req.user.uid]: 0, [recipientUserId]: 0 },
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await conversationRef.set(conversationData);
+
+    res.status(201).json({ status: 'success', message: 'Conversation started', conversation: conversationData });
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to start conversation' });
+  }
+});
+
+app.get('/conversations/:id/messages', authenticate, async (req, res) => {
+  try {
+    const conversation = await loadConversationForUser(req, res);
+    if (!conversation) return;
+
+    const { before, limit = '50' } = req.query;
+    const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), 100);
+
+    // Newest first so `before` can page back through older messages
+    let query = conversation.ref.collection('messages').orderBy('createdAt', 'desc');
+    if (before) {
+      query = query.startAfter(before as string);
+    }
+    const snapshot = await query.limit(limitNum + 1).get();
+
+    const messages = snapshot.docs
+      .slice(0, limitNum)
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .reverse();
+
+    res.json({
+      status: 'success',
+      data: messages,
+      conversation: conversation.data,
+      hasMore: snapshot.size > limitNum
+    });
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch messages' });
+  }
+});
+
+app.post('/conversations/:id/messages', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const conversation = await loadConversationForUser(req, res);
+    if (!conversation) return;
+
+    const { text, attachments = [] } = req.body;
+    const messageText = (text || '').trim();
+
+    if (!messageText && attachments.length === 0) {
+      return res.status(400).json({ status: 'error', message: 'Message text or an attachment is required' });
+    }
+    if (messageText.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ status: 'error', message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+    }
+
+    const attachmentError = validateAttachments(attachments, req.params.id);
+    if (attachmentError) {
+      return res.status(400).json({ status: 'error', message: attachmentError });
+    }
+    for (const attachment of attachments) {
+      if (await isFileQuarantined(attachment.path)) {
+        return res.status(400).json({ status: 'error', message: `"${attachment.name}" failed the upload checks and was removed` });
+      }
+    }
+
+    const messageRef = conversation.ref.collection('messages').doc();
+    const now = new Date().toISOString();
+    const messageData = {
+      id: messageRef.id,
+      conversationId: req.params.id,
+      senderId: req.user.uid,
+      text: messageText,
+      attachments: attachments.map((attachment: any) => ({
+        url: attachment.url,
+        path: attachment.path,
+        name: attachment.name,
+        contentType: attachment.contentType || 'application/octet-stream',
+        size: attachment.size
+      })),
+      createdAt: now
+    };
+
+    // Sending a message also marks the thread as read for the sender
+    const unreadUpdates: Record<string, any> = {};
+    conversation.data.participantIds.forEach((participantId: string) => {
+      unreadUpdates[`unreadCounts.${participantId}`] = participantId === req.user?.uid
+        ? 0
+        : admin.firestore.FieldValue.increment(1);
+    });
+
+    const batch = admin.firestore().batch();
+    batch.set(messageRef, messageData);
+    batch.update(conversation.ref, {
+      ...unreadUpdates,
+      [`lastReadAt.${req.user.uid}`]: now,
+      lastMessage: {
+        text: messageText || attachments[0].name,
+        senderId: req.user.uid,
+        sentAt: now
+      },
+      updatedAt: now
+    });
+    await batch.commit();
+
+    const sender = conversation.data.participants?.find((participant: any) => participant.userId === req.user?.uid);
+    await Promise.all(conversation.data.participantIds
+      .filter((participantId: string) => participantId !== req.user?.uid)
+      .map((participantId: string) => sendPushToUser(participantId, {
+        type: 'new_message',
+        params: {
+          name: sender?.name || '',
+          text: (messageText || attachments[0].name).slice(0, MESSAGE_PUSH_PREVIEW_LENGTH)
+        },
+        link: `/messages/${req.params.id}`
+      })));
+
+    res.status(201).json({ status: 'success', message: 'Message sent', data: messageData });
+  } catch (error) {
+    console.error('Error sending message:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to send message' });
+  }
+});
+
+app.put('/conversations/:id/read', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const conversation = await loadConversationForUser(req, res);
+    if (!conversation) return;
+
+    const now = new Date().toISOString();
+    await conversation.ref.update({
+      [`lastReadAt.${req.user.uid}`]: now,
+      [`unreadCounts.${req.user.uid}`]: 0
+    });
+
+    res.json({ status: 'success', message: 'Conversation marked as read', lastReadAt: now });
+  } catch (error) {
+    console.error('Error marking conversation as read:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to mark conversation as read' });
+  }
+});
+
+// Notifications API
+app.get('/notifications', authenticate, async (req, res) => {
+  try {
+    const snapshot = await admin.firestore()
+      .collection(NOTIFICATIONS_COLLECTION)
+      .where('userId', '==', req.user.uid)
+      .orderBy('createdAt', 'desc')
+      .limit(50)
+      .get();
+
+    const notifications = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    res.json({ status: 'success', data: notifications });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch notifications' });
+  }
+});
+
+// Marks the given notifications as read, or all of the user's unread ones if no IDs are sent
+app.put('/notifications/read', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const { ids } = req.body;
+    const collectionRef = admin.firestore().collection(NOTIFICATIONS_COLLECTION);
+
+    let docs: admin.firestore.DocumentSnapshot[];
+    if (Array.isArray(ids) && ids.length > 0) {
+      docs = await admin.firestore().getAll(...ids.map((id: string) => collectionRef.doc(id)));
+    } else {
+      const snapshot = await collectionRef
+        .where('userId', '==', req.user.uid)
+        .where('isRead', '==', false)
+        .get();
+      docs = snapshot.docs;
+    }
+
+    // Batches are capped at 500 writes
+    const unread = docs.filter(doc => doc.exists && doc.data()?.userId === req.user?.uid && !doc.data()?.isRead);
+    for (let i = 0; i < unread.length; i += 500) {
+      const batch = admin.firestore().batch();
+      unread.slice(i, i + 500).forEach(doc => batch.update(doc.ref, { isRead: true, readAt: new Date().toISOString() }));
+      await batch.commit();
+    }
+
+    res.json({ status: 'success', message: 'Notifications marked as read', updated: unread.length });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to mark notifications as read' });
+  }
+});
+
+// Web Push API
+app.get('/push/public_key', (req, res) => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return res.status(503).json({ status: 'error', message: 'Push notifications are not configured' });
+  }
+  res.json({ status: 'success', publicKey });
+});
+
+app.post('/push_subscriptions', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const { subscription, language } = req.body;
+
+    if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+      return res.status(400).json({ status: 'error', message: 'A push subscription with endpoint and keys is required' });
+    }
+
+    const subscriptionRef = admin.firestore()
+      .collection(PUSH_SUBSCRIPTIONS_COLLECTION)
+      .doc(getSubscriptionId(subscription.endpoint));
+    const existing = await subscriptionRef.get();
+    const now = new Date().toISOString();
+
+    await subscriptionRef.set({
+      id: subscriptionRef.id,
+      userId: req.user.uid,
+      endpoint: subscription.endpoint,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+      language: language === 'ar' ? 'ar' : 'en',
+      userAgent: req.headers['user-agent'] || null,
+      createdAt: existing.exists ? existing.data()?.createdAt : now,
+      updatedAt: now
+    });
+
+    res.status(201).json({ status: 'success', message: 'Push subscription saved', id: subscriptionRef.id });
+  } catch (error) {
+    console.error('Error saving push subscription:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to save push subscription' });
+  }
+});
+
+app.delete('/push_subscriptions', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    const { endpoint } = req.body;
+
+    if (!endpoint) {
+      return res.status(400).json({ status: 'error', message: 'Subscription endpoint is required' });
+    }
+
+    const subscriptionRef = admin.firestore()
+      .collection(PUSH_SUBSCRIPTIONS_COLLECTION)
+      .doc(getSubscriptionId(endpoint));
+    const subscriptionDoc = await subscriptionRef.get();
+
+    if (subscriptionDoc.exists && subscriptionDoc.data()?.userId === req.user.uid) {
+      await subscriptionRef.delete();
+    }
+
+    res.json({ status: 'success', message: 'Push subscription removed' });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to remove push subscription' });
+  }
+});
+
+// Sends a test push to all of the user's subscribed browsers
+app.post('/push_subscriptions/test', authenticate, async (req, res) => {
+  try {
+    skipAudit(res);
+    await sendPushToUser(req.user.uid, { type: 'test', link: '/' });
+    res.json({ status: 'success', message: 'Test push sent' });
+  } catch (error) {
+    console.error('Error sending test push:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to send test push' });
+  }
+});
+
+// Billing API
+// Invoices and payments belong to the billed user; admins can look up any account with ?accountId
+const getBillingQuery = (req: express.Request, collectionName: string) => {
+  const collectionRef = admin.firestore().collection(collectionName);
+  if (req.user?.role === 'ADMIN' && req.query.accountId) {
+    return collectionRef.where('accountId', '==', req.query.accountId as string);
+  }
+  return collectionRef.where('billedUserId', '==', req.user?.uid);
+};
+
+app.get('/billing/invoices', authenticate, async (req, res) => {
+  try {
+    const snapshot = await getBillingQuery(req, INVOICES_COLLECTION)
+      .orderBy('issuedAt', 'desc')
+      .get();
+
+    res.json({ status: 'success', data: snapshot.docs.map(doc => doc.data()) });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch invoices' });
+  }
+});
+
+app.get('/billing/invoices/:id/pdf', authenticate, async (req, res) => {
+  try {
+    const invoiceDoc = await admin.firestore().collection(INVOICES_COLLECTION).doc(req.params.id).get();
+    const invoice = invoiceDoc.data();
+
+    if (!invoiceDoc.exists || !invoice) {
+      return res.status(404).json({ status: 'error', message: 'Invoice not found' });
+    }
+    if (invoice.billedUserId !== req.user.uid && req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized to view this invoice' });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${invoice.number}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to generate invoice PDF' });
+  }
+});
+
+app.get('/billing/payments', authenticate, async (req, res) => {
+  try {
+    const snapshot = await getBillingQuery(req, PAYMENTS_COLLECTION)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    res.json({ status: 'success', data: snapshot.docs.map(doc => doc.data()) });
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch payments' });
+  }
+});
+
+// Admins record a confirmed membership payment for a therapist or clinic
+app.post('/billing/payments', authenticate, async (req, res) => {
+  try {
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { accountType, accountId, receiptUrl, notes } = req.body;
+
+    if (!['THERAPIST', 'CLINIC'].includes(accountType) || !accountId) {
+      return res.status(400).json({ status: 'error', message: 'accountType (THERAPIST or CLINIC) and accountId are required' });
+    }
+
+    const account = await loadBillingAccount(accountType as BillingAccountType, accountId);
+    if (!account) {
+      return res.status(404).json({ status: 'error', message: 'Account not found' });
+    }
+
+    const { invoice, payment } = await recordMembershipPayment(account, {
+      receiptUrl,
+      method: receiptUrl ? 'bank_transfer' : 'manual',
+      recordedBy: req.user.uid,
+      notes
+    });
+
+    res.status(201).json({ status: 'success', message: 'Payment recorded', invoice, payment });
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to record payment' });
+  }
+});
+
+// Admin APIs
+const CLINIC_ACCOUNT_STATUSES = ['draft', 'pending_approval', 'live', 'rejected'];
+const MEMBERSHIP_STATUSES = ['active', 'pending_payment', 'pending_approval', 'expired', 'cancelled', 'none'];
+
+app.get('/admin_therapists', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { status, searchTerm } = req.query;
+    
+    let query = admin.firestore().collection('therapists_data');
+    
+    if (status) {
+      query = query.where('accountStatus', '==', status);
+    }
+    
+    const [snapshot, expiringSnapshot] = await Promise.all([
+      query.get(),
+      admin.firestore().collection(CERTIFICATIONS_COLLECTION).where('expiresAt', '<=', getExpiryReminderCutoff()).get()
+    ]);
+    
+    // Licenses that are expired or about to, for the validation tab's warnings
+    const licenseWarnings = new Map<string, any[]>();
+    expiringSnapshot.docs.forEach(doc => {
+      const certification = doc.data();
+      const expiryState = getExpiryState(certification);
+      if (!expiryState || getCertificationStatus(certification) === 'rejected') return;
+      const warnings = licenseWarnings.get(certification.therapistUserId) || [];
+      warnings.push({
+        certificationId: doc.id,
+        name: certification.name,
+        expiresAt: certification.expiresAt,
+        expiryState,
+        isRequired: certification.isRequired !== false
+      });
+      licenseWarnings.set(certification.therapistUserId, warnings);
+    });
+    
+    let therapists: any[] = snapshot.docs.map(doc => ({
+      ...parseDocument(therapistSchema, doc.id, doc.data()),
+      licenseWarnings: licenseWarnings.get(doc.id) || []
+    }));
+    
+    // Filter by search term if provided
+    if (searchTerm) {
+      therapists = therapists.filter(therapist => 
+        therapist.name.toLowerCase().includes((searchTerm as string).toLowerCase()) ||
+        therapist.email?.toLowerCase().includes((searchTerm as string).toLowerCase())
+      );
+    }
+    
+    res.json({ status: 'success', data: therapists });
+  } catch (error) {
+    console.error('Error fetching therapists for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch therapist data' });
+  }
+});
+
+app.put('/admin_therapists', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { id, status, adminNotes, isVerified } = req.body;
+    
+    if (!id) {
+      return res.status(400).json({ status: 'error', message: 'Therapist ID is required' });
+    }
+    if (status !== undefined && !(ACCOUNT_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ status: 'error', message: `status must be one of ${ACCOUNT_STATUSES.join(', ')}` });
+    }
+    
+    const therapistRef = admin.firestore().collection('therapists_data').doc(id);
+    const previousDoc = await therapistRef.get();
+    
+    if (!previousDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Therapist not found' });
+    }
+    
+    // Saving notes resends the current status, which must not approve or bill the therapist again
+    const statusChanged = status !== undefined && status !== parseDocument(therapistSchema, previousDoc.id, previousDoc.data()).accountStatus;
+    const updateData: any = {};
+    
+    if (status !== undefined) updateData.accountStatus = status;
+    if (adminNotes !== undefined) updateData.adminNotes = adminNotes;
+    if (isVerified !== undefined) updateData.isVerified = isVerified;
+    
+    // Update therapist profile
+    await admin.firestore().collection('therapists_data').doc(id).update({
+      ...updateData,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    
+    // If status changed to 'live' or 'rejected', add membership history entry
+    if (statusChanged && (status === 'live' || status === 'rejected')) {
+      const therapistDoc = await admin.firestore().collection('therapists_data').doc(id).get();
+      const therapistData = therapistDoc.data();
+      
+      const historyId = `mhist_ther_${Date.now()}`;
+      const actionDescription = `Membership ${status === 'live' ? 'Approved' : 'Rejected'} by Admin.`;
+      
+      await admin.firestore().collection('membership_history').doc(historyId).set({
+        id: historyId,
+        targetId: id,
+        targetType: 'THERAPIST',
+        date: admin.firestore.FieldValue.serverTimestamp(),
+        action: actionDescription,
+        details: {
+          previousStatus: previousDoc.data()?.accountStatus,
+          newStatus: status,
+          adminUserId: req.user.uid,
+          adminName: req.user.name,
+          notes: adminNotes
+        }
+      });
+      
+      // If approved, record the membership payment, which bills the term and sets the renewal date.
+      // An application that was already billed carries the payment's ID.
+      const application = therapistData?.membershipApplication;
+      if (status === 'live' && (!therapistData?.membershipRenewalDate || (application && !application.paymentId))) {
+        const account = await loadBillingAccount('THERAPIST', id);
+        if (account) {
+          const { payment } = await recordMembershipPayment(account, {
+            receiptUrl: application?.paymentReceiptUrl,
+            method: application?.paymentReceiptUrl ? 'bank_transfer' : 'manual',
+            recordedBy: req.user.uid,
+            notes: adminNotes
+          });
+          if (application) {
+            await admin.firestore().collection('therapists_data').doc(id).update({
+              'membershipApplication.paymentId': payment.id
+            });
+          }
+        }
+      }
+      
+      await createNotification(id, {
+        type: status === 'live' ? 'account_approved' : 'account_rejected',
+        params: { notes: adminNotes || '' },
+        link: '/dashboard/therapist'
+      });
+    }
+    
+    // Get updated therapist profile
+    const updatedDoc = await admin.firestore().collection('therapists_data').doc(id).get();
+    const therapist = parseDocument(therapistSchema, updatedDoc.id, updatedDoc.data());
+    setAudit(res, {
+      action: statusChanged ? `Therapist Status Changed to ${status}` : 'Therapist Updated',
+      targetType: 'therapist',
+      targetId: id,
+      before: previousDoc.data(),
+      after: updatedDoc.data()
+    });
+    
+    // Get certifications
+    const certificationsSnapshot = await admin.firestore()
+      .collection('certifications')
+      .where('therapistUserId', '==', id)
+      .get();
+    
+    const certifications = certificationsSnapshot.docs.map(doc => toCertification(doc.id, doc.data()));
+    
+    therapist.certifications = certifications;
+    
+    res.json({ status: 'success', message: 'Therapist profile updated successfully', therapist });
+  } catch (error) {
+    console.error('Error updating therapist for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update therapist data' });
+  }
+});
+
+// Attaches the owner's name and email, which the clinic approval list shows
+const withOwnerInfo = async (clinics: any[]) => {
+  const ownerIds = [...new Set(clinics.map(clinic => clinic.ownerId).filter(Boolean))] as string[];
+  const ownerDocs = ownerIds.length > 0
+    ? await admin.firestore().getAll(...ownerIds.map(ownerId => admin.firestore().collection('users').doc(ownerId)))
+    : [];
+  const owners = new Map(ownerDocs.map(doc => [doc.id, doc.data()]));
+
+  return clinics.map(clinic => ({
+    ...clinic,
+    ownerName: owners.get(clinic.ownerId)?.name,
+    ownerEmail: owners.get(clinic.ownerId)?.email
+  }));
+};
+
+app.get('/admin_clinics', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { status, searchTerm } = req.query;
+    
+    let query: admin.firestore.Query = admin.firestore().collection('clinics_data');
+    
+    if (status) {
+      query = query.where('accountStatus', '==', status);
+    }
+    
+    const snapshot = await query.get();
+    
+    let clinics = await withOwnerInfo(snapshot.docs.map(doc => parseDocument(clinicSchema, doc.id, doc.data())));
+    
+    // Filter by search term if provided
+    if (searchTerm) {
+      const term = (searchTerm as string).toLowerCase();
+      clinics = clinics.filter(clinic =>
+        clinic.name?.toLowerCase().includes(term) ||
+        clinic.ownerName?.toLowerCase().includes(term) ||
+        clinic.ownerEmail?.toLowerCase().includes(term)
+      );
+    }
+    
+    res.json({ status: 'success', data: clinics });
+  } catch (error) {
+    console.error('Error fetching clinics for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch clinic data' });
+  }
+});
+
+app.put('/admin_clinics', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { id, status, adminNotes, isVerified, membershipStatus } = req.body;
+    
+    if (!id) {
+      return res.status(400).json({ status: 'error', message: 'Clinic ID is required' });
+    }
+    if (status !== undefined && !CLINIC_ACCOUNT_STATUSES.includes(status)) {
+      return res.status(400).json({ status: 'error', message: `status must be one of ${CLINIC_ACCOUNT_STATUSES.join(', ')}` });
+    }
+    if (membershipStatus !== undefined && !MEMBERSHIP_STATUSES.includes(membershipStatus)) {
+      return res.status(400).json({ status: 'error', message: `membershipStatus must be one of ${MEMBERSHIP_STATUSES.join(', ')}` });
+    }
+    
+    const clinicRef = admin.firestore().collection('clinics_data').doc(id);
+    const previousDoc = await clinicRef.get();
+    
+    if (!previousDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Clinic not found' });
+    }
+    
+    const previousData = previousDoc.data();
+    const updateData: any = {};
+    
+    if (status !== undefined) updateData.accountStatus = status;
+    if (adminNotes !== undefined) updateData.adminNotes = adminNotes;
+    if (isVerified !== undefined) updateData.isVerified = isVerified;
+    if (membershipStatus !== undefined) updateData['theraWayMembership.status'] = membershipStatus;
+    
+    // Update clinic profile
+    await clinicRef.update({
+      ...updateData,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    
+    // If status changed to 'live' or 'rejected', add membership history entry
+    if ((status === 'live' || status === 'rejected') && status !== previousData?.accountStatus) {
+      const historyId = `mhist_clinic_${Date.now()}`;
+      const actionDescription = `Clinic Membership ${status === 'live' ? 'Approved' : 'Rejected'} by Admin.`;
+      
+      await admin.firestore().collection('membership_history').doc(historyId).set({
+        id: historyId,
+        targetId: id,
+        targetType: 'CLINIC',
+        date: admin.firestore.FieldValue.serverTimestamp(),
+        action: actionDescription,
+        details: {
+          previousStatus: previousData?.accountStatus,
+          newStatus: status,
+          adminUserId: req.user.uid,
+          adminName: req.user.name,
+          notes: adminNotes
+        }
+      });
+      
+      // If approved, record the membership payment, which bills the term and activates
+      // theraWayMembership. A membership that was already billed carries the payment's ID.
+      const membership = previousData?.theraWayMembership;
+      if (status === 'live' && (!membership?.renewalDate || (membership.paymentReceiptUrl && !membership.paymentId))) {
+        const account = await loadBillingAccount('CLINIC', id);
+        if (account) {
+          const { payment } = await recordMembershipPayment(account, {
+            receiptUrl: membership?.paymentReceiptUrl,
+            method: membership?.paymentReceiptUrl ? 'bank_transfer' : 'manual',
+            recordedBy: req.user.uid,
+            notes: adminNotes
+          });
+          await clinicRef.update({ 'theraWayMembership.paymentId': payment.id });
+        }
+      }
+      
+      if (previousData?.ownerId) {
+        await createNotification(previousData.ownerId, {
+          type: status === 'live' ? 'clinic_approved' : 'clinic_rejected',
+          params: { name: previousData.name || '', notes: adminNotes || '' },
+          link: '/dashboard/clinic'
+        });
+      }
+    }
+    
+    // Get updated clinic profile
+    const updatedDoc = await clinicRef.get();
+    const [clinic] = await withOwnerInfo([parseDocument(clinicSchema, updatedDoc.id, updatedDoc.data())]);
+    setAudit(res, {
+      action: status !== undefined ? `Clinic Status Changed to ${status}` : 'Clinic Updated',
+      targetType: 'clinic',
+      targetId: id,
+      before: previousData,
+      after: updatedDoc.data()
+    });
+    
+    res.json({ status: 'success', message: 'Clinic profile updated successfully', clinic });
+  } catch (error) {
+    console.error('Error updating clinic for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update clinic data' });
+  }
+});
+
+// Certification review queue: every therapist's credentials, with reviewer
+// assignment and approve/reject decisions
+app.get('/admin_certifications', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { status = 'pending', reviewerId } = req.query;
+    
+    if (status !== 'all' && !['pending', ...REVIEW_DECISIONS].includes(status as string)) {
+      return res.status(400).json({ status: 'error', message: 'status must be one of pending, approved, rejected, all' });
+    }
+    
+    let query: admin.firestore.Query = admin.firestore().collection(CERTIFICATIONS_COLLECTION);
+    
+    if (reviewerId) {
+      query = query.where('reviewerId', '==', reviewerId);
+    }
+    
+    const snapshot = await query.get();
+    
+    // Status is filtered here since certifications from before the review workflow have none stored
+    const certifications = snapshot.docs
+      .map(doc => toCertification(doc.id, doc.data()))
+      .filter(certification => status === 'all' || certification.status === status);
+    
+    // Attach the therapist's name and email for the queue
+    const therapistIds = [...new Set(certifications.map(certification => certification.therapistUserId).filter(Boolean))] as string[];
+    const therapistDocs = therapistIds.length > 0
+      ? await admin.firestore().getAll(...therapistIds.map(therapistId => admin.firestore().collection('therapists_data').doc(therapistId)))
+      : [];
+    const therapists = new Map(therapistDocs.map(doc => [doc.id, doc.data()]));
+    
+    // Oldest first, so the queue is worked in upload order
+    const data = certifications
+      .map(certification => ({
+        ...certification,
+        therapistName: therapists.get(certification.therapistUserId)?.name,
+        therapistEmail: therapists.get(certification.therapistUserId)?.email
+      }))
+      .sort((a, b) => String(a.uploadedAt || '').localeCompare(String(b.uploadedAt || '')));
+    
+    res.json({ status: 'success', data });
+  } catch (error) {
+    console.error('Error fetching certifications for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch certifications' });
+  }
+});
+
+// Moves documents uploaded before private storage out of the public certifications folder
+app.post('/admin_certifications/move_to_private_storage', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const snapshot = await admin.firestore()
+      .collection(CERTIFICATIONS_COLLECTION)
+      .where('fileUrl', '>', '')
+      .get();
+    
+    const summary = { moved: 0, skipped: 0, failed: 0 };
+    for (const doc of snapshot.docs) {
+      try {
+        const filePath = await moveToPrivateStorage(doc.data().fileUrl, 'certifications');
+        if (!filePath) {
+          summary.skipped++;
+          continue;
+        }
+        await doc.ref.update({ filePath, fileUrl: '' });
+        summary.moved++;
+      } catch (error) {
+        console.error(`Error moving certification ${doc.id} to private storage:`, error);
+        summary.failed++;
+      }
+    }
+    
+    setAudit(res, { action: 'Certification Documents Moved to Private Storage', targetType: 'certification', details: summary });
+    res.json({ status: 'success', message: 'Certification documents moved', ...summary });
+  } catch (error) {
+    console.error('Error moving certifications to private storage:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to move certification documents' });
+  }
+});
+
+// Assigns a certification to an admin reviewer, or clears the assignment with a null reviewerId
+app.put('/admin_certifications/:id/assignment', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+    
+    const { reviewerId } = req.body;
+    
+    if (reviewerId === undefined) {
+      return res.status(400).json({ status: 'error', message: 'reviewerId is required (null to unassign)' });
+    }
+    
+    const certRef = admin.firestore().collection(CERTIFICATIONS_COLLECTION).doc(req.params.id);
+    const certDoc = await certRef.get();
+    
+    if (!certDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Certification not found' });
+    }
     
-    const { status, searchTerm } = req.query;
+    let reviewerName: string | null = null;
+    if (reviewerId) {
+      const reviewerDoc = await admin.firestore().collection('users').doc(reviewerId).get();
+      if (!reviewerDoc.exists || reviewerDoc.data()?.role !== 'ADMIN') {
+        return res.status(400).json({ status: 'error', message: 'Reviewer must be an admin user' });
+      }
+      reviewerName = reviewerDoc.data()?.name || reviewerDoc.data()?.email || null;
+    }
     
-    let query = admin.firestore().collection('therapists_data');
+    await certRef.update({
+      reviewerId: reviewerId || null,
+      reviewerName,
+      assignedAt: reviewerId ? new Date().toISOString() : null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
     
-    if (status) {
-      query = query.where('accountStatus', '==', status);
+    const updatedDoc = await certRef.get();
+    setAudit(res, {
+      action: reviewerId ? 'Certification Reviewer Assigned' : 'Certification Reviewer Unassigned',
+      targetType: 'certification',
+      targetId: req.params.id,
+      before: certDoc.data(),
+      after: updatedDoc.data()
+    });
+    
+    res.json({ status: 'success', message: 'Reviewer updated successfully', certification: toCertification(updatedDoc.id, updatedDoc.data()) });
+  } catch (error) {
+    console.error('Error assigning certification reviewer:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to assign reviewer' });
+  }
+});
+
+// Approves or rejects a certification. The reviewer may correct the expiry date
+// and issuing body from the document; the therapist's isVerified flag follows
+// from the syncTherapistVerification trigger.
+app.put('/admin_certifications/:id/review', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
     }
     
-    const snapshot = await query.get();
+    const { decision, notes, expiresAt, issuingBody, isRequired } = req.body;
+    
+    if (!REVIEW_DECISIONS.includes(decision)) {
+      return res.status(400).json({ status: 'error', message: `decision must be one of ${REVIEW_DECISIONS.join(', ')}` });
+    }
+    if (isRequired !== undefined && typeof isRequired !== 'boolean') {
+      return res.status(400).json({ status: 'error', message: 'isRequired must be a boolean' });
+    }
+    if (decision === 'rejected' && !notes?.trim()) {
+      return res.status(400).json({ status: 'error', message: 'Notes are required when rejecting a certification' });
+    }
+    if (notes && String(notes).length > MAX_REVIEW_NOTES_LENGTH) {
+      return res.status(400).json({ status: 'error', message: `Notes must be at most ${MAX_REVIEW_NOTES_LENGTH} characters` });
+    }
+    const expiryError = validateExpiryDate(expiresAt);
+    if (expiryError) {
+      return res.status(400).json({ status: 'error', message: expiryError });
+    }
+    
+    const certRef = admin.firestore().collection(CERTIFICATIONS_COLLECTION).doc(req.params.id);
+    const certDoc = await certRef.get();
+    
+    if (!certDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Certification not found' });
+    }
+    
+    const previousData = certDoc.data();
+    const updateData: any = {
+      status: decision,
+      isVerified: decision === 'approved',
+      verificationNotes: notes || '',
+      reviewedBy: req.user.uid,
+      reviewedAt: new Date().toISOString()
+    };
+    if (expiresAt !== undefined) updateData.expiresAt = expiresAt || null;
+    if (issuingBody !== undefined) updateData.issuingBody = issuingBody;
+    if (isRequired !== undefined) updateData.isRequired = isRequired;
+    
+    if (decision === 'approved' && isCertificationExpired({ ...previousData, ...updateData })) {
+      return res.status(400).json({ status: 'error', message: 'This license has expired. Correct the expiry date or reject it.' });
+    }
+    if (decision === 'approved' && isQuarantined(previousData)) {
+      return res.status(400).json({ status: 'error', message: 'This document failed the upload checks. Ask the therapist to upload it again.' });
+    }
+    
+    await certRef.update({
+      ...updateData,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+    
+    // Approvals are announced by the notifyCertificationVerified trigger
+    if (decision === 'rejected') {
+      await createNotification(previousData?.therapistUserId, {
+        type: 'certification_rejected',
+        params: { name: previousData?.name || '', notes: notes || '' },
+        link: '/dashboard/therapist/licenses'
+      });
+    }
+    
+    const updatedDoc = await certRef.get();
+    setAudit(res, {
+      action: `Certification ${decision === 'approved' ? 'Approved' : 'Rejected'}`,
+      targetType: 'certification',
+      targetId: req.params.id,
+      before: previousData,
+      after: updatedDoc.data()
+    });
     
-    let therapists = snapshot.docs.map(doc => ({
+    res.json({ status: 'success', message: 'Certification reviewed successfully', certification: toCertification(updatedDoc.id, updatedDoc.data()) });
+  } catch (error) {
+    console.error('Error reviewing certification:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to review certification' });
+  }
+});
+
+app.get('/admin_activity_logs', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { userId, targetType, limit = '200' } = req.query;
+
+    let query: admin.firestore.Query = admin.firestore().collection(ACTIVITY_LOGS_COLLECTION);
+
+    if (userId) {
+      query = query.where('userId', '==', userId);
+    }
+    if (targetType) {
+      query = query.where('targetType', '==', targetType);
+    }
+
+    const snapshot = await query
+      .orderBy('timestamp', 'desc')
+      .limit(Math.min(Math.max(parseInt(limit as string, 10) || 200, 1), MAX_ACTIVITY_LOGS_PAGE_SIZE))
+      .get();
+
+    const logs = snapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     }));
-    
-    // Filter by search term if provided
+
+    res.json({ status: 'success', data: logs });
+  } catch (error) {
+    console.error('Error fetching activity logs for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch activity logs' });
+  }
+});
+
+// Records admin actions that change nothing on the server, such as data exports.
+// The actor and time come from the request, not the body.
+app.post('/admin_activity_logs', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { action, targetType, targetId, details } = req.body;
+
+    if (!action || typeof action !== 'string') {
+      return res.status(400).json({ status: 'error', message: 'Action is required' });
+    }
+
+    setAudit(res, {
+      action,
+      targetType: typeof targetType === 'string' ? targetType : 'system',
+      targetId: typeof targetId === 'string' ? targetId : null,
+      details: details && typeof details === 'object' ? details : undefined
+    });
+
+    res.status(201).json({ status: 'success', message: 'Activity logged' });
+  } catch (error) {
+    console.error('Error logging admin activity:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to log activity' });
+  }
+});
+
+// Legacy field normalization API: rewrites snake_case therapist and clinic documents
+// one page per request, so the migration page drives a run and can resume it
+app.get('/admin_migrations/normalize', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const snapshot = await admin.firestore()
+      .collection(MIGRATION_RUNS_COLLECTION)
+      .orderBy('startedAt', 'desc')
+      .limit(20)
+      .get();
+    const runs = snapshot.docs.map(doc => doc.data()).filter(run => run.job === NORMALIZATION_JOB);
+
+    res.json({ status: 'success', data: runs });
+  } catch (error) {
+    console.error('Error fetching normalization runs:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch normalization runs' });
+  }
+});
+
+app.post('/admin_migrations/normalize', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const dryRun = req.body.dryRun !== false;
+    const run = await createNormalizationRun(dryRun, req.user.uid);
+    setAudit(res, { action: dryRun ? 'Normalization Dry Run Started' : 'Normalization Started', targetType: 'migration', targetId: run.id });
+
+    res.status(201).json({ status: 'success', run });
+  } catch (error) {
+    console.error('Error starting normalization run:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to start normalization run' });
+  }
+});
+
+app.post('/admin_migrations/normalize/:id/advance', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const result = await advanceNormalizationRun(req.params.id);
+    if (!result) {
+      return res.status(404).json({ status: 'error', message: 'Normalization run not found' });
+    }
+
+    // Pages are not audited one by one; a run that rewrote documents is logged once it completes
+    if (result.completedNow && !result.run.dryRun) {
+      setAudit(res, { action: 'Normalization Completed', targetType: 'migration', targetId: result.run.id, details: { progress: result.run.progress } });
+    } else {
+      skipAudit(res);
+    }
+
+    res.json({ status: 'success', run: result.run, diffs: result.diffs });
+  } catch (error: any) {
+    console.error('Error advancing normalization run:', error);
+    res.status(500).json({ status: 'error', message: `Normalization failed: ${error.message || 'unknown error'}. Resume the run to retry.` });
+  }
+});
+
+// MySQL import API: starts and resumes the import job, which runs in the
+// runMySQLMigration trigger; the migration page follows the run document
+app.get('/admin_migrations/mysql', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const snapshot = await admin.firestore()
+      .collection(MIGRATION_RUNS_COLLECTION)
+      .orderBy('startedAt', 'desc')
+      .limit(20)
+      .get();
+    const runs = snapshot.docs.map(doc => doc.data()).filter(run => run.job === MYSQL_MIGRATION_JOB);
+
+    res.json({ status: 'success', data: runs });
+  } catch (error) {
+    console.error('Error fetching MySQL migration runs:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch migration runs' });
+  }
+});
+
+app.post('/admin_migrations/mysql', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const policy: ConflictPolicy = req.body.policy || 'skip';
+    if (!CONFLICT_POLICIES.includes(policy)) {
+      return res.status(400).json({ status: 'error', message: `Conflict policy must be one of: ${CONFLICT_POLICIES.join(', ')}` });
+    }
+
+    if (!isMySQLMigrationConfigured()) {
+      return res.status(500).json({ status: 'error', message: 'The legacy API is not configured. Set LEGACY_API_BASE_URL and MIGRATION_EXPORT_KEY.' });
+    }
+
+    const active = await admin.firestore()
+      .collection(MIGRATION_RUNS_COLLECTION)
+      .where('job', '==', MYSQL_MIGRATION_JOB)
+      .where('status', '==', 'running')
+      .limit(1)
+      .get();
+    if (!active.empty) {
+      return res.status(409).json({ status: 'error', message: 'A migration is already running', run: active.docs[0].data() });
+    }
+
+    const run = await createMySQLMigrationRun(policy, req.user.uid);
+    setAudit(res, { action: 'MySQL Migration Started', targetType: 'migration', targetId: run.id, details: { policy } });
+
+    res.status(201).json({ status: 'success', run });
+  } catch (error) {
+    console.error('Error starting MySQL migration:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to start migration' });
+  }
+});
+
+app.post('/admin_migrations/mysql/:id/resume', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const run = await resumeMySQLMigrationRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ status: 'error', message: 'Migration run not found' });
+    }
+    if (run.status === 'completed') {
+      return res.status(400).json({ status: 'error', message: 'This migration run has already completed' });
+    }
+    setAudit(res, { action: 'MySQL Migration Resumed', targetType: 'migration', targetId: run.id });
+
+    res.json({ status: 'success', run });
+  } catch (error) {
+    console.error('Error resuming MySQL migration:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to resume migration' });
+  }
+});
+
+// Therapist index backfill API: starts and resumes the job that builds the derived
+// therapist indexes for existing therapists, which runs in the runIndexBackfill trigger
+app.get('/admin_migrations/indexes', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const snapshot = await admin.firestore()
+      .collection(MIGRATION_RUNS_COLLECTION)
+      .orderBy('startedAt', 'desc')
+      .limit(20)
+      .get();
+    const runs = snapshot.docs.map(doc => doc.data()).filter(run => run.job === INDEX_BACKFILL_JOB);
+
+    res.json({ status: 'success', data: runs });
+  } catch (error) {
+    console.error('Error fetching index backfill runs:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch index backfill runs' });
+  }
+});
+
+app.post('/admin_migrations/indexes', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const active = await admin.firestore()
+      .collection(MIGRATION_RUNS_COLLECTION)
+      .where('job', '==', INDEX_BACKFILL_JOB)
+      .where('status', '==', 'running')
+      .limit(1)
+      .get();
+    if (!active.empty) {
+      return res.status(409).json({ status: 'error', message: 'An index backfill is already running', run: active.docs[0].data() });
+    }
+
+    const run = await createIndexBackfillRun(req.user.uid);
+    setAudit(res, { action: 'Index Backfill Started', targetType: 'migration', targetId: run.id });
+
+    res.status(201).json({ status: 'success', run });
+  } catch (error) {
+    console.error('Error starting index backfill:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to start index backfill' });
+  }
+});
+
+app.post('/admin_migrations/indexes/:id/resume', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const run = await resumeIndexBackfillRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ status: 'error', message: 'Index backfill run not found' });
+    }
+    if (run.status === 'completed') {
+      return res.status(400).json({ status: 'error', message: 'This index backfill run has already completed' });
+    }
+    setAudit(res, { action: 'Index Backfill Resumed', targetType: 'migration', targetId: run.id });
+
+    res.json({ status: 'success', run });
+  } catch (error) {
+    console.error('Error resuming index backfill:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to resume index backfill' });
+  }
+});
+
+app.get('/admin_reviews', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { status, therapistId } = req.query;
+
+    let query: admin.firestore.Query = admin.firestore().collection('reviews');
+
+    if (status) {
+      query = query.where('status', '==', status);
+    }
+    if (therapistId) {
+      query = query.where('therapistId', '==', therapistId);
+    }
+
+    const snapshot = await query.get();
+    const moderationDocs = snapshot.empty ? [] : await admin.firestore().getAll(
+      ...snapshot.docs.map(doc => admin.firestore().collection(REVIEW_MODERATION_COLLECTION).doc(doc.id))
+    );
+
+    const reviews = snapshot.docs.map((doc, index) => ({
+      id: doc.id,
+      ...doc.data(),
+      ...(moderationDocs[index].data() || {})
+    })) as any[];
+
+    reviews.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+
+    res.json({ status: 'success', data: reviews });
+  } catch (error) {
+    console.error('Error fetching reviews for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch reviews' });
+  }
+});
+
+app.put('/admin_reviews', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { id, status, moderationNote } = req.body;
+
+    if (!id || (status !== 'visible' && status !== 'hidden')) {
+      return res.status(400).json({ status: 'error', message: 'Review ID and a status of visible or hidden are required' });
+    }
+
+    const reviewRef = admin.firestore().collection('reviews').doc(id);
+    const reviewDoc = await reviewRef.get();
+
+    if (!reviewDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'Review not found' });
+    }
+
+    const now = new Date().toISOString();
+    const moderation = {
+      moderationNote: moderationNote || '',
+      moderatedBy: req.user.uid,
+      moderatedAt: now
+    };
+
+    const batch = admin.firestore().batch();
+    // The therapist's rating is recalculated by the syncTherapistRating trigger. Notes
+    // left on the review by earlier moderation are removed from it at the same time.
+    batch.update(reviewRef, {
+      status,
+      updatedAt: now,
+      ...REVIEW_MODERATION_FIELDS.reduce((fields, field) => ({ ...fields, [field]: admin.firestore.FieldValue.delete() }), {})
+    });
+    batch.set(admin.firestore().collection(REVIEW_MODERATION_COLLECTION).doc(id), { reviewId: id, ...moderation });
+    await batch.commit();
+
+    const review = {
+      ...reviewDoc.data(),
+      status,
+      updatedAt: now,
+      ...moderation,
+      id
+    };
+    setAudit(res, {
+      action: status === 'hidden' ? 'Review Hidden' : 'Review Restored',
+      targetType: 'review',
+      targetId: id,
+      before: reviewDoc.data(),
+      after: review
+    });
+
+    res.json({ status: 'success', message: 'Review updated successfully', review });
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update review' });
+  }
+});
+
+app.get('/admin_users', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const { searchTerm, role, status, page = '1', limit = '25' } = req.query;
+    const itemsPerPage = Math.min(Math.max(parseInt(limit as string, 10) || 25, 1), MAX_ADMIN_USERS_PAGE_SIZE);
+    const requestedPage = Math.max(parseInt(page as string, 10) || 1, 1);
+    // Status is filtered on the isActive field PUT /admin_users keeps in step with Auth
+    const statusFilter = status === 'active' || status === 'suspended' ? status : null;
+
+    let totalItems: number;
+    let currentPage: number;
+    let pageDocs: admin.firestore.DocumentSnapshot[];
+
     if (searchTerm) {
-      therapists = therapists.filter(therapist => 
-        therapist.name.toLowerCase().includes((searchTerm as string).toLowerCase()) ||
-        therapist.email?.toLowerCase().includes((searchTerm as string).toLowerCase())
-      );
+      // A search finds few users, so its filters and pages are applied in memory
+      const matches = (await findUserDocs(searchTerm as string)).filter(doc => {
+        const data = doc.data() || {};
+        return (!role || data.role === role) && (!statusFilter || (data.isActive !== false) === (statusFilter === 'active'));
+      });
+      totalItems = matches.length;
+      currentPage = Math.min(requestedPage, Math.max(Math.ceil(totalItems / itemsPerPage), 1));
+      pageDocs = matches.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+    } else {
+      let query: admin.firestore.Query = admin.firestore().collection('users');
+      if (role) {
+        query = query.where('role', '==', role);
+      }
+      const suspendedQuery = query.where('isActive', '==', false);
+
+      if (statusFilter === 'active') {
+        const [all, suspended] = await Promise.all([query.count().get(), suspendedQuery.count().get()]);
+        totalItems = all.data().count - suspended.data().count;
+      } else {
+        totalItems = (await (statusFilter === 'suspended' ? suspendedQuery : query).count().get()).data().count;
+      }
+      currentPage = Math.min(requestedPage, Math.max(Math.ceil(totalItems / itemsPerPage), 1));
+      const offset = (currentPage - 1) * itemsPerPage;
+
+      if (statusFilter === 'active') {
+        pageDocs = await loadActiveUserPage(query.orderBy('createdAt', 'desc'), offset, itemsPerPage);
+      } else {
+        const pageQuery = (statusFilter === 'suspended' ? suspendedQuery : query).orderBy('createdAt', 'desc');
+        pageDocs = (await pageQuery.offset(offset).limit(itemsPerPage).get()).docs;
+      }
     }
-    
-    res.json({ status: 'success', data: therapists });
+
+    // Auth and the moderation records are only read for the users on this page
+    const pageIds = pageDocs.map(doc => doc.id);
+    const [authRecords, moderation] = await Promise.all([loadAuthRecords(pageIds), loadUserModeration(pageIds)]);
+    const users = pageDocs.map((doc, index) => toManagedUser(doc.id, doc.data(), authRecords.get(doc.id), moderation[index]));
+    const totalPages = Math.max(Math.ceil(totalItems / itemsPerPage), 1);
+
+    res.json({
+      status: 'success',
+      data: users,
+      pagination: {
+        currentPage,
+        totalPages,
+        totalItems,
+        itemsPerPage
+      }
+    });
   } catch (error) {
-    console.error('Error fetching therapists for admin:', error);
-    res.status(500).json({ status: 'error', message: 'Failed to fetch therapist data' });
+    console.error('Error fetching users for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch users' });
   }
 });
 
-app.put('/admin_therapists', authenticate, async (req, res) => {
+// Changes a user's role and/or suspends or reactivates the account
+app.put('/admin_users', authenticate, async (req, res) => {
   try {
     // Check if user is admin
     if (req.user.role !== 'ADMIN') {
       return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
     }
-    
-    const { id, status, adminNotes, isVerified } = req.body;
-    
-    if (!id) {
-      return res.status(400).json({ status: 'error', message: 'Therapist ID is required' });
+
+    const { id, role, isActive, reason } = req.body;
+
+    if (!id || (role === undefined && isActive === undefined)) {
+      return res.status(400).json({ status: 'error', message: 'User ID and a role or isActive value are required' });
     }
-    
-    const updateData: any = {};
-    
-    if (status !== undefined) updateData.accountStatus = status;
-    if (adminNotes !== undefined) updateData.adminNotes = adminNotes;
-    if (isVerified !== undefined) updateData.isVerified = isVerified;
-    
-    // Update therapist profile
-    await admin.firestore().collection('therapists_data').doc(id).update({
-      ...updateData,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
-    
-    // If status changed to 'live' or 'rejected', add membership history entry
-    if (status === 'live' || status === 'rejected') {
-      const therapistDoc = await admin.firestore().collection('therapists_data').doc(id).get();
-      const therapistData = therapistDoc.data();
-      
-      const historyId = `mhist_ther_${Date.now()}`;
-      const actionDescription = `Membership ${status === 'live' ? 'Approved' : 'Rejected'} by Admin.`;
-      
-      await admin.firestore().collection('membership_history').doc(historyId).set({
-        id: historyId,
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({ status: 'error', message: `role must be one of ${USER_ROLES.join(', ')}` });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ status: 'error', message: 'isActive must be a boolean' });
+    }
+    // Keeps admins from locking themselves out
+    if (id === req.user.uid) {
+      return res.status(400).json({ status: 'error', message: 'You cannot change your own role or suspend your own account' });
+    }
+
+    const userRef = admin.firestore().collection('users').doc(id);
+    const moderationRef = admin.firestore().collection(USER_MODERATION_COLLECTION).doc(id);
+    const [userDoc, moderationDoc] = await Promise.all([userRef.get(), moderationRef.get()]);
+
+    if (!userDoc.exists) {
+      return res.status(404).json({ status: 'error', message: 'User not found' });
+    }
+
+    const now = new Date().toISOString();
+    const updateData: any = { updatedAt: now };
+    const moderationData: any = {};
+
+    // The role claim itself is re-applied by the syncUserRoleClaims trigger
+    if (role !== undefined && role !== userDoc.data()?.role) {
+      updateData.role = role;
+      updateData.roleChangedBy = req.user.uid;
+      updateData.roleChangedAt = now;
+    }
+
+    if (isActive !== undefined) {
+      await admin.auth().updateUser(id, { disabled: !isActive });
+      updateData.isActive = isActive;
+      if (isActive) {
+        moderationData.suspendedAt = null;
+        moderationData.suspendedBy = null;
+        moderationData.suspensionReason = null;
+      } else {
+        // Signs the account out of every device as well
+        await admin.auth().revokeRefreshTokens(id);
+        moderationData.suspendedAt = now;
+        moderationData.suspendedBy = req.user.uid;
+        moderationData.suspensionReason = reason || '';
+      }
+      // Suspension details left on the public document by earlier suspensions go with it
+      USER_MODERATION_FIELDS.forEach(field => {
+        if (userDoc.data()?.[field] !== undefined) updateData[field] = admin.firestore.FieldValue.delete();
+      });
+    }
+
+    const batch = admin.firestore().batch();
+    batch.update(userRef, updateData);
+    if (Object.keys(moderationData).length > 0) {
+      batch.set(moderationRef, { userId: id, ...moderationData }, { merge: true });
+    }
+    await batch.commit();
+
+    const [updatedDoc, updatedModerationDoc, authRecord] = await Promise.all([userRef.get(), moderationRef.get(), admin.auth().getUser(id)]);
+    const user = toManagedUser(id, updatedDoc.data(), authRecord, updatedModerationDoc.data());
+    // Role changes are logged by the syncUserRoleClaims trigger once the claim is applied
+    if (isActive !== undefined) {
+      setAudit(res, {
+        action: isActive ? 'User Reactivated' : 'User Suspended',
+        targetType: 'user',
         targetId: id,
-        targetType: 'THERAPIST',
-        date: admin.firestore.FieldValue.serverTimestamp(),
-        action: actionDescription,
-        details: {
-          previousStatus: therapistData?.accountStatus,
-          newStatus: status,
-          adminUserId: req.user.uid,
-          adminName: req.user.name,
-          notes: adminNotes
-        }
+        before: { ...userDoc.data(), ...moderationDoc.data() },
+        after: { ...updatedDoc.data(), ...updatedModerationDoc.data() }
       });
-      
-      // If approved, set renewal date if not already set
-      if (status === 'live' && !therapistData?.membershipRenewalDate) {
-        const renewalDate = new Date();
-        renewalDate.setFullYear(renewalDate.getFullYear() + 1);
-        
-        await admin.firestore().collection('therapists_data').doc(id).update({
-          membershipRenewalDate: renewalDate.toISOString()
-        });
-      }
+    } else {
+      skipAudit(res);
     }
-    
-    // Get updated therapist profile
-    const updatedDoc = await admin.firestore().collection('therapists_data').doc(id).get();
-    const therapist = {
-      id: updatedDoc.id,
-      ...updatedDoc.data()
-    };
-    
-    // Get certifications
-    const certificationsSnapshot = await admin.firestore()
-      .collection('certifications')
-      .where('therapistUserId', '==', id)
+
+    res.json({ status: 'success', message: 'User updated successfully', user });
+  } catch (error) {
+    console.error('Error updating user for admin:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to update user' });
+  }
+});
+
+// Signs the user out everywhere ahead of a password reset; the reset email
+// itself is sent by Firebase Auth from the admin dashboard
+app.post('/admin_users/:id/password_reset', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const authRecord = await admin.auth().getUser(req.params.id).catch(() => null);
+
+    if (!authRecord) {
+      return res.status(404).json({ status: 'error', message: 'User not found' });
+    }
+    if (!authRecord.email) {
+      return res.status(400).json({ status: 'error', message: 'This account has no email address to send a reset link to' });
+    }
+
+    await admin.auth().revokeRefreshTokens(authRecord.uid);
+    await admin.firestore().collection(USER_MODERATION_COLLECTION).doc(authRecord.uid).set({
+      userId: authRecord.uid,
+      passwordResetRequestedAt: new Date().toISOString(),
+      passwordResetRequestedBy: req.user.uid
+    }, { merge: true });
+    // Earlier resets were recorded on the public users document
+    const userRef = admin.firestore().collection('users').doc(authRecord.uid);
+    const userDoc = await userRef.get();
+    if (userDoc.data()?.passwordResetRequestedAt !== undefined) {
+      await userRef.update({
+        passwordResetRequestedAt: admin.firestore.FieldValue.delete(),
+        passwordResetRequestedBy: admin.firestore.FieldValue.delete()
+      });
+    }
+
+    setAudit(res, { action: 'User Password Reset Forced', targetType: 'user', targetId: authRecord.uid });
+    res.json({ status: 'success', message: 'Sessions revoked', email: authRecord.email });
+  } catch (error) {
+    console.error('Error forcing password reset:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to force password reset' });
+  }
+});
+
+app.get('/admin_users/:id/logins', authenticate, async (req, res) => {
+  try {
+    // Check if user is admin
+    if (req.user.role !== 'ADMIN') {
+      return res.status(403).json({ status: 'error', message: 'Unauthorized. Admin role required.' });
+    }
+
+    const snapshot = await admin.firestore()
+      .collection(LOGIN_HISTORY_COLLECTION)
+      .where('userId', '==', req.params.id)
+      .orderBy('createdAt', 'desc')
+      .limit(MAX_LOGIN_HISTORY_ENTRIES)
       .get();
-    
-    const certifications = certificationsSnapshot.docs.map(doc => ({
+
+    const logins = snapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     }));
-    
-    therapist.certifications = certifications;
-    
-    res.json({ status: 'success', message: 'Therapist profile updated successfully', therapist });
+
+    res.json({ status: 'success', data: logins });
   } catch (error) {
-    console.error('Error updating therapist for admin:', error);
-    res.status(500).json({ status: 'error', message: 'Failed to update therapist data' });
+    console.error('Error fetching login history:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to fetch login history' });
   }
 });
 
@@ -1041,4 +3816,288 @@ export const setUserRole = functions.auth.user().onCreate(async (user) => {
     console.error('Error setting user role:', error);
     return null;
   }
+});
+
+// Users trigger to keep the role claim in step with the users document.
+// Refresh tokens are revoked so no session keeps using the old role, and
+// bumping claimsVersion tells signed-in clients to refresh their token.
+export const syncUserRoleClaims = functions.firestore.document('users/{userId}').onUpdate(async (change, context) => {
+  const before = change.before.data();
+  const after = change.after.data();
+
+  if (before.role === after.role) {
+    return null;
+  }
+
+  const { userId } = context.params;
+  const role = after.role || 'CLIENT';
+
+  try {
+    await syncRoleClaims(userId, role);
+    await admin.auth().revokeRefreshTokens(userId);
+
+    const now = new Date().toISOString();
+    await change.after.ref.update({
+      claimsVersion: admin.firestore.FieldValue.increment(1),
+      claimsUpdatedAt: now
+    });
+
+    // Role changes made through the admin users API record who made them
+    const changedBy = after.roleChangedAt !== before.roleChangedAt ? after.roleChangedBy : null;
+    await logActivity(changedBy ? { uid: changedBy, role: 'ADMIN' } : null, {
+      action: `User Role Changed to ${role}`,
+      targetType: 'user',
+      targetId: userId,
+      before: { role: before.role || null },
+      after: { role },
+      details: { claimsSynced: true }
+    });
+
+    console.log(`Synced custom claims for ${userId}: role=${role}`);
+    return null;
+  } catch (error) {
+    console.error('Error syncing user role claims:', error);
+    return null;
+  }
+});
+
+// Review trigger to keep therapist rating aggregates in sync
+export const syncTherapistRating = functions.firestore.document('reviews/{reviewId}').onWrite(async (change) => {
+  const therapistId = change.after.data()?.therapistId || change.before.data()?.therapistId;
+
+  if (!therapistId) {
+    return null;
+  }
+
+  try {
+    const db = admin.firestore();
+    const therapistRef = db.collection('therapists_data').doc(therapistId);
+    const visibleReviewsQuery = db.collection('reviews')
+      .where('therapistId', '==', therapistId)
+      .where('status', '==', 'visible');
+
+    // Recompute from the visible reviews rather than applying a delta, so retried events stay correct
+    await db.runTransaction(async (transaction) => {
+      const therapistDoc = await transaction.get(therapistRef);
+      if (!therapistDoc.exists) {
+        return;
+      }
+
+      const reviewsSnapshot = await transaction.get(visibleReviewsQuery);
+      const reviewCount = reviewsSnapshot.size;
+      const ratingTotal = reviewsSnapshot.docs.reduce((sum, doc) => sum + (doc.data().rating || 0), 0);
+      const rating = reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 10) / 10 : 0;
+
+      transaction.update(therapistRef, { rating, reviewCount });
+    });
+
+    console.log(`Updated rating for therapist ${therapistId}`);
+    return null;
+  } catch (error) {
+    console.error('Error syncing therapist rating:', error);
+    return null;
+  }
+});
+
+// Therapist trigger to keep the geohash location index in sync
+export const indexTherapistLocations = functions.firestore.document('therapists_data/{therapistId}').onWrite(async (change, context) => {
+  const { therapistId } = context.params;
+
+  try {
+    // Replace the therapist's index entries in one batch
+    const batch = admin.firestore().batch();
+    const changed = await writeLocationIndex(batch, therapistId, change.after.exists ? change.after.data() : null);
+    if (changed) {
+      await batch.commit();
+      console.log(`Indexed locations for therapist ${therapistId}`);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error indexing therapist locations:', error);
+    return null;
+  }
+});
+
+// Therapist trigger to keep the denormalized search keys used by /therapists in sync
+export const syncTherapistSearchKeys = functions.firestore.document('therapists_data/{therapistId}').onWrite(async (change, context) => {
+  if (!change.after.exists) {
+    return null;
+  }
+
+  const { therapistId } = context.params;
+  const updates = getSearchFieldUpdates(change.after.data() || {});
+
+  // Only write when something changed, otherwise this trigger would re-fire forever
+  if (Object.keys(updates).length === 0) {
+    return null;
+  }
+
+  try {
+    await change.after.ref.update(updates);
+    console.log(`Updated search keys for therapist ${therapistId}`);
+    return null;
+  } catch (error) {
+    console.error('Error syncing therapist search keys:', error);
+    return null;
+  }
+});
+
+// Therapist trigger to keep the full-text search index in sync
+export const indexTherapistSearch = functions.firestore.document('therapists_data/{therapistId}').onWrite(async (change, context) => {
+  const { therapistId } = context.params;
+
+  try {
+    const batch = admin.firestore().batch();
+    const changed = await writeSearchIndex(batch, therapistId, change.after.exists ? change.after.data() : null);
+    if (changed) {
+      await batch.commit();
+      console.log(`Updated search index for therapist ${therapistId}`);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error indexing therapist for search:', error);
+    return null;
+  }
+});
+
+// Therapist trigger to log directory changes and tombstones for the offline directory sync.
+// A change that is not logged never reaches delta clients, so failures, e.g. contention
+// on the sequence counter, are retried; a retry of a logged event is skipped by its event time.
+export const trackTherapistDirectoryChanges = functions.runWith({ failurePolicy: true }).firestore.document('therapists_data/{therapistId}').onWrite(async (change, context) => {
+  const { therapistId } = context.params;
+
+  try {
+    const recorded = await recordDirectoryChange(
+      therapistId,
+      change.before.exists ? change.before.data() : null,
+      change.after.exists ? change.after.data() : null,
+      context.timestamp
+    );
+    if (recorded) {
+      console.log(`Logged directory change for therapist ${therapistId}`);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error logging therapist directory change:', error);
+    throw error;
+  }
+});
+
+// Inquiry trigger to notify the user when an admin replies
+export const notifyInquiryAnswered = functions.firestore.document('user_inquiries/{inquiryId}').onUpdate(async (change) => {
+  const before = change.before.data();
+  const after = change.after.data();
+
+  if (!after.userId || !after.adminReply || after.adminReply === before.adminReply) {
+    return null;
+  }
+
+  await createNotification(after.userId, {
+    type: 'inquiry_answered',
+    params: { subject: after.subject || '' }
+  });
+  return null;
+});
+
+// Certification trigger to keep Therapist.isVerified in step with the therapist's credentials
+export const syncTherapistVerification = functions.firestore.document(`${CERTIFICATIONS_COLLECTION}/{certId}`).onWrite(async (change) => {
+  const therapistId = change.after.data()?.therapistUserId || change.before.data()?.therapistUserId;
+  if (!therapistId) return null;
+
+  await recalculateTherapistVerification(therapistId);
+  return null;
+});
+
+// Certification trigger to notify the therapist when a document is verified
+export const notifyCertificationVerified = functions.firestore.document('certifications/{certId}').onUpdate(async (change) => {
+  const before = change.before.data();
+  const after = change.after.data();
+
+  if (!after.isVerified || before.isVerified) {
+    return null;
+  }
+
+  await createNotification(after.therapistUserId, {
+    type: 'certification_verified',
+    params: { name: after.name || '' },
+    link: '/dashboard/therapist/licenses'
+  });
+  return null;
+});
+
+// Storage trigger that checks each upload's size, real type and content, quarantining files that fail
+export const validateUpload = functions.storage.object().onFinalize(async (object) => {
+  try {
+    const reason = await validateUploadedFile(object);
+    if (reason) {
+      console.log(`Quarantined upload ${object.name}: ${reason}`);
+    }
+  } catch (error) {
+    console.error(`Error validating upload ${object.name}:`, error);
+  }
+  return null;
+});
+
+// Runs the MySQL import one page at a time: each page's write to the run document triggers the next
+export const runMySQLMigration = functions.runWith({ timeoutSeconds: 300 }).firestore.document(`${MIGRATION_RUNS_COLLECTION}/{runId}`).onWrite(async (change) => {
+  const run = change.after.exists ? change.after.data() : null;
+  if (!run || run.job !== MYSQL_MIGRATION_JOB || run.status !== 'running') return null;
+
+  try {
+    await advanceMySQLMigrationRun(change.after);
+  } catch (error) {
+    console.error(`Error advancing MySQL migration ${change.after.id}:`, error);
+  }
+  return null;
+});
+
+// Runs the therapist index backfill one page at a time: each page's write to the run document triggers the next
+export const runIndexBackfill = functions.runWith({ timeoutSeconds: 300 }).firestore.document(`${MIGRATION_RUNS_COLLECTION}/{runId}`).onWrite(async (change) => {
+  const run = change.after.exists ? change.after.data() : null;
+  if (!run || run.job !== INDEX_BACKFILL_JOB || run.status !== 'running') return null;
+
+  try {
+    await advanceIndexBackfillRun(change.after);
+  } catch (error) {
+    console.error(`Error advancing index backfill ${change.after.id}:`, error);
+  }
+  return null;
+});
+
+// Notification trigger to also deliver booking and approval events as Web Push
+export const sendNotificationPush = functions.firestore.document(`${NOTIFICATIONS_COLLECTION}/{notificationId}`).onCreate(async (snapshot) => {
+  const notification = snapshot.data();
+
+  if (!PUSH_NOTIFICATION_TYPES.includes(notification.type)) {
+    return null;
+  }
+
+  await sendPushToUser(notification.userId, {
+    type: notification.type,
+    params: notification.params,
+    link: notification.link
+  });
+  return null;
+});
+
+// Daily job that sends license expiry reminders and unverifies therapists whose required license lapsed
+export const certificationExpiryJob = functions.pubsub.schedule('every day 06:00').timeZone('UTC').onRun(async () => {
+  try {
+    const summary = await processCertificationExpiries();
+    console.log(`Certification expiries processed: ${summary.reminded} reminded, ${summary.expired} expired, ${summary.demoted} therapists unverified`);
+  } catch (error) {
+    console.error('Error processing certification expiries:', error);
+  }
+  return null;
+});
+
+// Daily job that sends membership renewal reminders and expires lapsed memberships
+export const membershipRenewalJob = functions.pubsub.schedule('every day 06:00').timeZone('UTC').onRun(async () => {
+  try {
+    const summary = await processMembershipRenewals();
+    console.log(`Membership renewals processed: ${summary.reminded} reminded, ${summary.expired} expired`);
+  } catch (error) {
+    console.error('Error processing membership renewals:', error);
+  }
+  return null;
 });
\ No newline at end of file
@@ -0,0 +1,493 @@
+import * as admin from 'firebase-admin';
+import * as http from 'http';
+import * as https from 'https';
+import { MIGRATION_RUNS_COLLECTION } from './normalization';
+import {
+  DocumentSchema, userSchema, therapistSchema, certificationSchema, clinicSchema, clinicSpaceSchema, userInquirySchema,
+  validateWrite, formatWriteErrors
+} from './schemas';
+
+// Imports the legacy MySQL tables into Firestore. The rows are read page by page
+// from backend/api/admin_migration_export.php, and every page is written in one
+// batch together with the run's checkpoint, so a run stopped by an error resumes
+// from the first page that was not written. Runs are stored in
+// MIGRATION_RUNS_COLLECTION next to the normalization runs and are advanced by
+// the runMySQLMigration trigger, one page per write of the run document.
+export const MYSQL_MIGRATION_JOB = 'mysql_import';
+
+// Rows per page; the page and the checkpoint update share a batch, which
+// Firestore caps at 500 writes
+export const MYSQL_MIGRATION_PAGE_SIZE = 400;
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Failed rows kept on the run for the report; the counters cover all of them
+const MAX_RECORDED_FAILURES = 100;
+
+// What to do with a row whose document already exists in Firestore
+export type ConflictPolicy = 'overwrite' | 'skip' | 'merge';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['overwrite', 'skip', 'merge'];
+
+export type MySQLMigrationStatus = 'running' | 'failed' | 'completed';
+
+// Progress and checkpoint of one table
+export interface MigrationCheckpoint {
+  cursor: string | null; // Key of the last row written; the next page starts after it
+  done: boolean;
+  read: number;
+  written: number;
+  skipped: number; // Existing documents left alone under the 'skip' policy
+  failed: number; // Rows that could not be converted, see failures
+}
+
+export interface MigrationFailure {
+  collection: string;
+  id: string;
+  message: string;
+}
+
+export interface ReconciliationEntry {
+  table: string;
+  collection: string;
+  sourceRows: number;
+  documents: number;
+  difference: number; // documents - sourceRows; documents created in Firestore directly also count
+}
+
+export interface MySQLMigrationRun {
+  id: string;
+  job: typeof MYSQL_MIGRATION_JOB;
+  policy: ConflictPolicy;
+  status: MySQLMigrationStatus;
+  progress: Record<string, MigrationCheckpoint>;
+  failures: MigrationFailure[];
+  report: ReconciliationEntry[] | null;
+  startedBy: string;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+interface MigrationStep {
+  table: string;
+  collection: string;
+  schema?: DocumentSchema; // Rows are checked against it before they are written
+  toDocument: (row: any) => { id: string; data: Record<string, any> };
+}
+
+// JSON columns arrive as strings; a value that does not parse is kept as is
+const parseJson = (value: any, fallback: any): any => {
+  if (value === null || value === undefined || value === '') return fallback;
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+};
+
+// MySQL TIMESTAMPs come as "YYYY-MM-DD HH:MM:SS" in UTC
+const toIsoDate = (value: any): string | null => {
+  if (!value) return null;
+  const text = String(value);
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const toNumberOrNull = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+// In dependency order: clinics before their spaces, users before everything else
+const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    table: 'users',
+    collection: 'users',
+    schema: userSchema,
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        name: row.name,
+        email: row.email,
+        role: row.role,
+        profilePictureUrl: row.profile_picture_url || null,
+        createdAt: toIsoDate(row.created_at) || undefined,
+        updatedAt: toIsoDate(row.updated_at) || undefined
+      }
+    })
+  },
+  {
+    table: 'therapists_data',
+    collection: 'therapists_data',
+    schema: therapistSchema,
+    toDocument: row => ({
+      id: row.user_id,
+      data: {
+        name: row.name || '',
+        profilePictureUrl: row.profile_picture_url || '',
+        introVideoUrl: row.intro_video_url || '',
+        specializations: parseJson(row.specializations, []),
+        languages: parseJson(row.languages, []),
+        qualifications: parseJson(row.qualifications, []),
+        bio: row.bio || '',
+        rating: toNumberOrNull(row.rating) || 0,
+        reviewCount: toNumberOrNull(row.review_count) || 0,
+        locations: parseJson(row.locations, []),
+        whatsappNumber: row.whatsapp_number || '',
+        accountStatus: row.account_status || 'draft',
+        adminNotes: row.admin_notes || '',
+        isVerified: Boolean(Number(row.is_overall_verified)),
+        availability: parseJson(row.availability, []),
+        profileViews: toNumberOrNull(row.profile_views) || 0,
+        likes: toNumberOrNull(row.likes_count) || 0,
+        membershipApplication: {
+          date: toIsoDate(row.membership_application_date),
+          paymentReceiptUrl: row.membership_payment_receipt_url || null,
+          statusMessage: row.membership_status_message || null
+        },
+        membershipRenewalDate: toIsoDate(row.membership_renewal_date),
+        createdAt: toIsoDate(row.created_at) || undefined,
+        updatedAt: toIsoDate(row.updated_at) || undefined
+      }
+    })
+  },
+  {
+    table: 'certifications',
+    collection: 'certifications',
+    schema: certificationSchema,
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        therapistUserId: row.therapist_user_id,
+        name: row.name,
+        fileUrl: row.file_url || '',
+        country: row.country || null,
+        uploadedAt: toIsoDate(row.uploaded_at) || undefined,
+        isVerified: Boolean(Number(row.is_verified_by_admin)),
+        verificationNotes: row.verification_notes || null
+      }
+    })
+  },
+  {
+    table: 'clinics_data',
+    collection: 'clinics_data',
+    schema: clinicSchema,
+    toDocument: row => ({
+      id: row.clinic_id,
+      data: {
+        ownerId: row.user_id,
+        name: row.clinic_name,
+        description: row.description || '',
+        address: row.address || '',
+        lat: toNumberOrNull(row.latitude),
+        lng: toNumberOrNull(row.longitude),
+        profilePictureUrl: row.clinic_profile_picture_url || null,
+        photos: parseJson(row.clinic_photos, []),
+        amenities: parseJson(row.amenities, []),
+        operatingHours: parseJson(row.operating_hours, {}),
+        services: parseJson(row.services, []),
+        whatsappNumber: row.whatsapp_number || '',
+        isVerified: Boolean(Number(row.is_verified_by_admin)),
+        accountStatus: row.account_status || 'draft',
+        adminNotes: row.admin_notes || '',
+        theraWayMembership: {
+          status: row.theraway_membership_status || 'none',
+          tierName: row.theraway_membership_tier_name || null,
+          renewalDate: toIsoDate(row.theraway_membership_renewal_date),
+          applicationDate: toIsoDate(row.theraway_membership_application_date),
+          paymentReceiptUrl: row.theraway_membership_payment_receipt_url || null
+        },
+        createdAt: toIsoDate(row.created_at) || undefined,
+        updatedAt: toIsoDate(row.updated_at) || undefined
+      }
+    })
+  },
+  {
+    table: 'clinic_spaces',
+    collection: 'clinic_spaces',
+    schema: clinicSpaceSchema,
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        clinicId: row.clinic_id,
+        name: row.name,
+        description: row.description || '',
+        photos: parseJson(row.photos, []),
+        rentalPrice: toNumberOrNull(row.rental_price) || 0,
+        rentalDuration: row.rental_duration || 'per hour',
+        rentalTerms: row.rental_terms || '',
+        features: parseJson(row.features, []),
+        clinicName: row.clinicName || '',
+        clinicAddress: row.clinicAddress || '',
+        createdAt: toIsoDate(row.created_at) || undefined,
+        updatedAt: toIsoDate(row.updated_at) || undefined
+      }
+    })
+  },
+  {
+    table: 'client_therapist_favorites',
+    collection: 'client_therapist_favorites',
+    toDocument: row => ({
+      id: `${row.client_user_id}_${row.therapist_user_id}`,
+      data: {
+        clientId: row.client_user_id,
+        therapistId: row.therapist_user_id,
+        createdAt: toIsoDate(row.created_at)
+      }
+    })
+  },
+  {
+    table: 'user_inquiries',
+    collection: 'user_inquiries',
+    schema: userInquirySchema,
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        userId: row.user_id || null,
+        userName: row.user_name || null,
+        userEmail: row.user_email,
+        subject: row.subject,
+        message: row.message,
+        date: toIsoDate(row.date) || undefined,
+        status: row.status || 'open',
+        adminReply: row.admin_reply || null,
+        priority: row.priority || 'medium',
+        category: row.category || 'general'
+      }
+    })
+  },
+  {
+    table: 'activity_logs',
+    collection: 'activity_logs',
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        timestamp: toIsoDate(row.timestamp),
+        userId: row.user_id || null,
+        userName: row.user_name || null,
+        userRole: row.user_role || null,
+        action: row.action,
+        targetId: row.target_id || null,
+        targetType: row.target_type || null,
+        details: parseJson(row.details, null)
+      }
+    })
+  },
+  {
+    table: 'membership_history',
+    collection: 'membership_history',
+    toDocument: row => ({
+      id: row.id,
+      data: {
+        targetId: row.target_id,
+        targetType: row.target_type,
+        date: toIsoDate(row.action_date),
+        action: row.action_description,
+        details: parseJson(row.details_json, null)
+      }
+    })
+  }
+];
+
+export const isMySQLMigrationConfigured = (): boolean =>
+  !!process.env.LEGACY_API_BASE_URL && !!process.env.MIGRATION_EXPORT_KEY;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retries with exponential backoff and jitter: 1s, 2s, 4s, 8s between the attempts
+const withRetry = async <T>(label: string, operation: () => Promise<T>, shouldRetry: (error: any) => boolean = () => true): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      if (attempt >= MAX_ATTEMPTS || !shouldRetry(error)) throw error;
+      const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1) + Math.floor(Math.random() * 250);
+      console.log(`${label} failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying in ${delay}ms:`, error.message || error);
+      await sleep(delay);
+    }
+  }
+};
+
+// GET from the legacy export endpoint
+const fetchLegacyExport = (params: Record<string, string>): Promise<any> => new Promise((resolve, reject) => {
+  const url = new URL(`${(process.env.LEGACY_API_BASE_URL as string).replace(/\/$/, '')}/admin_migration_export.php`);
+  Object.keys(params).forEach(key => url.searchParams.set(key, params[key]));
+  const client = url.protocol === 'http:' ? http : https;
+
+  const request = client.get(url, {
+    headers: { 'X-Migration-Key': process.env.MIGRATION_EXPORT_KEY as string },
+    timeout: 60 * 1000
+  }, (response) => {
+    let raw = '';
+    response.on('data', chunk => { raw += chunk; });
+    response.on('end', () => {
+      if (!response.statusCode || response.statusCode >= 300) {
+        reject(new Error(`Legacy API responded with ${response.statusCode} for ${params.table}`));
+        return;
+      }
+      try {
+        const body = JSON.parse(raw);
+        if (body.status !== 'success') {
+          reject(new Error(body.message || `Legacy API export of ${params.table} failed`));
+          return;
+        }
+        resolve(body);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+  request.on('timeout', () => request.destroy(new Error(`Legacy API timed out for ${params.table}`)));
+  request.on('error', reject);
+});
+
+const emptyCheckpoint = (): MigrationCheckpoint => ({ cursor: null, done: false, read: 0, written: 0, skipped: 0, failed: 0 });
+
+export const createMySQLMigrationRun = async (policy: ConflictPolicy, startedBy: string): Promise<MySQLMigrationRun> => {
+  const ref = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const run: MySQLMigrationRun = {
+    id: ref.id,
+    job: MYSQL_MIGRATION_JOB,
+    policy,
+    status: 'running',
+    progress: MIGRATION_STEPS.reduce((progress, step) => ({ ...progress, [step.collection]: emptyCheckpoint() }), {}),
+    failures: [],
+    report: null,
+    startedBy,
+    startedAt: now,
+    updatedAt: now,
+    completedAt: null,
+    error: null
+  };
+  // Creating the document starts the job
+  await ref.set(run);
+  return run;
+};
+
+// Row counts from MySQL next to document counts in Firestore
+const buildReconciliationReport = async (): Promise<ReconciliationEntry[]> => {
+  const report: ReconciliationEntry[] = [];
+  for (const step of MIGRATION_STEPS) {
+    const source = await withRetry(`Counting ${step.table}`, () => fetchLegacyExport({ table: step.table, count: '1' }));
+    const snapshot = await admin.firestore().collection(step.collection).count().get();
+    const documents = snapshot.data().count;
+    report.push({ table: step.table, collection: step.collection, sourceRows: source.count, documents, difference: documents - source.count });
+  }
+  return report;
+};
+
+// Another delivery of the same trigger already wrote this page
+const isStaleRunWrite = (error: any): boolean => error?.code === 9 || error?.code === 5;
+
+/**
+ * Writes the next page of the run, or the reconciliation report once every
+ * table is done. The run update carries a precondition on the snapshot it was
+ * started from, so a repeated trigger delivery cannot write a page twice.
+ */
+export const advanceMySQLMigrationRun = async (snapshot: admin.firestore.DocumentSnapshot): Promise<void> => {
+  const run = snapshot.data() as MySQLMigrationRun;
+  const runRef = snapshot.ref;
+  const precondition = { lastUpdateTime: snapshot.updateTime as admin.firestore.Timestamp };
+  const step = MIGRATION_STEPS.find(candidate => !run.progress[candidate.collection]?.done);
+
+  try {
+    const now = new Date().toISOString();
+
+    if (!step) {
+      const report = await buildReconciliationReport();
+      await runRef.update({ status: 'completed', report, updatedAt: now, completedAt: now, error: null }, precondition);
+      return;
+    }
+
+    const checkpoint = { ...(run.progress[step.collection] || emptyCheckpoint()) };
+    const page = await withRetry(`Reading ${step.table}`, () => fetchLegacyExport({
+      table: step.table,
+      limit: String(MYSQL_MIGRATION_PAGE_SIZE),
+      ...(checkpoint.cursor ? { after: checkpoint.cursor } : {})
+    }));
+    const rows: any[] = page.rows || [];
+
+    const failures: MigrationFailure[] = [];
+    const documents: { ref: admin.firestore.DocumentReference; data: Record<string, any> }[] = [];
+    rows.forEach(row => {
+      try {
+        const { id, data } = step.toDocument(row);
+        if (!id) throw new Error('Row has no id');
+        let value = data;
+        if (step.schema) {
+          const result = validateWrite(step.schema, data, { includeManaged: true });
+          if (result.errors.length > 0) throw new Error(formatWriteErrors(step.schema, result.errors));
+          value = result.value;
+        }
+        documents.push({ ref: admin.firestore().collection(step.collection).doc(id), data: value });
+      } catch (error: any) {
+        failures.push({ collection: step.collection, id: String(row.migration_key || ''), message: error.message || String(error) });
+      }
+    });
+
+    let existingIds = new Set<string>();
+    if (run.policy === 'skip' && documents.length > 0) {
+      const existing = await withRetry(`Checking existing ${step.collection}`, () => admin.firestore().getAll(...documents.map(document => document.ref)));
+      existingIds = new Set(existing.filter(doc => doc.exists).map(doc => doc.id));
+    }
+
+    const batch = admin.firestore().batch();
+    documents.forEach(({ ref, data }) => {
+      if (existingIds.has(ref.id)) {
+        checkpoint.skipped++;
+        return;
+      }
+      if (run.policy === 'merge') {
+        batch.set(ref, data, { merge: true });
+      } else {
+        batch.set(ref, data);
+      }
+      checkpoint.written++;
+    });
+
+    checkpoint.read += rows.length;
+    checkpoint.failed += failures.length;
+    checkpoint.cursor = page.nextCursor || null;
+    checkpoint.done = !page.nextCursor;
+
+    batch.update(runRef, {
+      [`progress.${step.collection}`]: checkpoint,
+      failures: [...(run.failures || []), ...failures].slice(0, MAX_RECORDED_FAILURES),
+      updatedAt: now,
+      error: null
+    }, precondition);
+
+    await withRetry(`Writing ${step.collection}`, () => batch.commit(), error => !isStaleRunWrite(error));
+  } catch (error: any) {
+    if (isStaleRunWrite(error)) return;
+    console.error(`MySQL migration run ${run.id} failed${step ? ` on ${step.table}` : ''}:`, error);
+    // The checkpoint still points at the page that failed, which is read again on resume
+    try {
+      await runRef.update({ status: 'failed', error: error.message || String(error), updatedAt: new Date().toISOString() }, precondition);
+    } catch (updateError) {
+      if (!isStaleRunWrite(updateError)) throw updateError;
+    }
+  }
+};
+
+// Puts a failed run back to running, which restarts the trigger from its checkpoints
+export const resumeMySQLMigrationRun = async (runId: string): Promise<MySQLMigrationRun | null> => {
+  const runRef = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc(runId);
+  return admin.firestore().runTransaction(async (transaction) => {
+    const runDoc = await transaction.get(runRef);
+    if (!runDoc.exists || runDoc.data()?.job !== MYSQL_MIGRATION_JOB) return null;
+
+    const run = runDoc.data() as MySQLMigrationRun;
+    if (run.status !== 'failed') return run;
+
+    const resumed: MySQLMigrationRun = { ...run, status: 'running', error: null, updatedAt: new Date().toISOString() };
+    transaction.set(runRef, resumed);
+    return resumed;
+  });
+};
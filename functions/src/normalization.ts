@@ -0,0 +1,142 @@
+import * as admin from 'firebase-admin';
+import { DocumentSchema, FieldChange, therapistSchema, clinicSchema, getNormalizationChanges } from './schemas';
+
+// Rewrites therapist and clinic documents created with snake_case fields (by
+// sign-up before the shared schemas) into the canonical camelCase shape. Each run
+// is recorded in MIGRATION_RUNS_COLLECTION with a cursor, and is advanced one page
+// per request, so a failed or interrupted run picks up where it stopped.
+// Normalizing a canonical document changes nothing, so runs can be repeated.
+export const MIGRATION_RUNS_COLLECTION = 'migration_runs';
+
+export const NORMALIZATION_JOB = 'normalize_legacy_fields';
+
+// Documents read per request; each write batch also carries the run update, so
+// this must stay under Firestore's 500 writes per batch
+export const NORMALIZATION_PAGE_SIZE = 200;
+
+const NORMALIZATION_SCHEMAS: DocumentSchema[] = [therapistSchema, clinicSchema];
+
+export type MigrationRunStatus = 'running' | 'failed' | 'completed';
+
+export interface CollectionProgress {
+  scanned: number;
+  changed: number; // Documents rewritten, or that would be in a dry run
+  invalid: number; // Documents with values the schema rejects, left for a person to fix
+}
+
+export interface NormalizationRun {
+  id: string;
+  job: typeof NORMALIZATION_JOB;
+  dryRun: boolean;
+  status: MigrationRunStatus;
+  collectionIndex: number; // Position in NORMALIZATION_SCHEMAS
+  lastDocId: string | null; // Last document processed in that collection
+  progress: Record<string, CollectionProgress>;
+  startedBy: string;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+export interface DocumentDiff {
+  collection: string;
+  id: string;
+  changes: FieldChange[];
+  invalid: string[];
+}
+
+export const createNormalizationRun = async (dryRun: boolean, startedBy: string): Promise<NormalizationRun> => {
+  const ref = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const run: NormalizationRun = {
+    id: ref.id,
+    job: NORMALIZATION_JOB,
+    dryRun,
+    status: 'running',
+    collectionIndex: 0,
+    lastDocId: null,
+    progress: NORMALIZATION_SCHEMAS.reduce((progress, schema) => ({ ...progress, [schema.collection]: { scanned: 0, changed: 0, invalid: 0 } }), {}),
+    startedBy,
+    startedAt: now,
+    updatedAt: now,
+    completedAt: null,
+    error: null
+  };
+  await ref.set(run);
+  return run;
+};
+
+/**
+ * Processes the next page of the run and saves its cursor together with the
+ * page's writes, so a page is never applied twice. Resolves with the updated run
+ * and the diffs of the documents in the page that need changes or attention,
+ * and whether this page finished the run.
+ */
+export const advanceNormalizationRun = async (runId: string): Promise<{ run: NormalizationRun; diffs: DocumentDiff[]; completedNow: boolean } | null> => {
+  const runRef = admin.firestore().collection(MIGRATION_RUNS_COLLECTION).doc(runId);
+  const runDoc = await runRef.get();
+  if (!runDoc.exists) return null;
+
+  const run = runDoc.data() as NormalizationRun;
+  if (run.status === 'completed') return { run, diffs: [], completedNow: false };
+
+  try {
+    const schema = NORMALIZATION_SCHEMAS[run.collectionIndex];
+    let query = admin.firestore().collection(schema.collection)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(NORMALIZATION_PAGE_SIZE);
+    if (run.lastDocId) {
+      query = query.startAfter(run.lastDocId);
+    }
+    const snapshot = await query.get();
+
+    const batch = admin.firestore().batch();
+    const diffs: DocumentDiff[] = [];
+    const progress = { ...run.progress[schema.collection] };
+
+    snapshot.docs.forEach(doc => {
+      const { changes, invalid } = getNormalizationChanges(schema, doc.data());
+      progress.scanned++;
+      if (invalid.length > 0) progress.invalid++;
+      if (changes.length === 0 && invalid.length === 0) return;
+
+      diffs.push({ collection: schema.collection, id: doc.id, changes, invalid });
+      if (changes.length === 0) return;
+
+      progress.changed++;
+      if (!run.dryRun) {
+        const update: Record<string, any> = {};
+        changes.forEach(change => {
+          update[change.field] = 'to' in change ? change.to : admin.firestore.FieldValue.delete();
+        });
+        batch.update(doc.ref, update);
+      }
+    });
+
+    // A short page means this collection is done; move on to the next one
+    const isLastPage = snapshot.size < NORMALIZATION_PAGE_SIZE;
+    const nextIndex = isLastPage ? run.collectionIndex + 1 : run.collectionIndex;
+    const isComplete = nextIndex >= NORMALIZATION_SCHEMAS.length;
+    const now = new Date().toISOString();
+    const updatedRun: NormalizationRun = {
+      ...run,
+      status: isComplete ? 'completed' : 'running',
+      collectionIndex: isComplete ? run.collectionIndex : nextIndex,
+      lastDocId: isLastPage ? null : snapshot.docs[snapshot.size - 1].id,
+      progress: { ...run.progress, [schema.collection]: progress },
+      updatedAt: now,
+      completedAt: isComplete ? now : null,
+      error: null
+    };
+
+    batch.set(runRef, updatedRun);
+    await batch.commit();
+    return { run: updatedRun, diffs, completedNow: isComplete };
+  } catch (error: any) {
+    // The cursor still points at the failed page, which is retried on resume
+    const failedRun: NormalizationRun = { ...run, status: 'failed', error: error.message || String(error), updatedAt: new Date().toISOString() };
+    await runRef.set(failedRun);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import * as admin from 'firebase-admin';
+
+// In-app notifications, one document per recipient in the notifications collection.
+// The text is not stored; clients render it from `type` and `params` in their own language.
+export const NOTIFICATIONS_COLLECTION = 'notifications';
+
+export type NotificationType =
+  | 'account_approved'
+  | 'account_rejected'
+  | 'inquiry_answered'
+  | 'certification_verified'
+  | 'certification_rejected'
+  | 'certification_expiring'
+  | 'certification_expired'
+  | 'appointment_requested'
+  | 'appointment_confirmed'
+  | 'appointment_cancelled'
+  | 'review_received'
+  | 'membership_expiring'
+  | 'membership_expired'
+  | 'space_reservation_requested'
+  | 'space_reservation_accepted'
+  | 'space_reservation_declined'
+  | 'space_reservation_cancelled'
+  | 'clinic_approved'
+  | 'clinic_rejected';
+
+interface NotificationInput {
+  type: NotificationType;
+  params?: Record<string, string | number>;
+  link?: string | null; // In-app route to open when the notification is clicked
+}
+
+/**
+ * Creates a notification for a user. Failures are logged rather than thrown,
+ * so a notification problem never fails the action that triggered it.
+ */
+export const createNotification = async (userId: string, { type, params = {}, link = null }: NotificationInput): Promise<void> => {
+  if (!userId) return;
+
+  try {
+    const notificationRef = admin.firestore().collection(NOTIFICATIONS_COLLECTION).doc();
+    await notificationRef.set({
+      id: notificationRef.id,
+      userId,
+      type,
+      params,
+      link,
+      isRead: false,
+      createdAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error(`Error creating ${type} notification for ${userId}:`, error);
+  }
+};
@@ -0,0 +1,75 @@
+import * as admin from 'firebase-admin';
+
+// Private uploads (license documents and payment receipts) live under private/,
+// which Storage rules never let clients read. They are opened through short-lived
+// signed URLs issued to the file's owner and to admins.
+export const PRIVATE_FILE_PREFIXES = ['private/certifications/', 'private/payment_receipts/'];
+
+export const SIGNED_URL_TTL_MINUTES = 15;
+
+// "private/certifications/{userId}/{fileName}" -> userId
+const getPrivateFileOwner = (path: string): string | null => {
+  const prefix = PRIVATE_FILE_PREFIXES.find(candidate => path.startsWith(candidate));
+  if (!prefix) return null;
+  const [ownerId, fileName] = path.slice(prefix.length).split('/');
+  return ownerId && fileName ? ownerId : null;
+};
+
+export const isPrivateFilePath = (path: any): boolean =>
+  typeof path === 'string' && !path.includes('..') && getPrivateFileOwner(path) !== null;
+
+// Whether a stored path is one of the user's own private uploads under the given folder
+export const isOwnPrivateFile = (path: any, folder: 'certifications' | 'payment_receipts', userId: string): boolean =>
+  isPrivateFilePath(path) && path.startsWith(`private/${folder}/${userId}/`);
+
+export const canReadPrivateFile = (user: { uid: string; role?: string } | undefined, path: string): boolean =>
+  !!user && isPrivateFilePath(path) && (user.role === 'ADMIN' || getPrivateFileOwner(path) === user.uid);
+
+/**
+ * A read-only V4 signed URL for a private file, or null when there is no such
+ * file. Signing uses the Functions service account, which needs the Service
+ * Account Token Creator role.
+ */
+export const getSignedDownloadUrl = async (path: string): Promise<{ url: string; expiresAt: string } | null> => {
+  const file = admin.storage().bucket().file(path);
+  const [exists] = await file.exists();
+  if (!exists) return null;
+
+  const expires = Date.now() + SIGNED_URL_TTL_MINUTES * 60 * 1000;
+  const [url] = await file.getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires
+  });
+  return { url, expiresAt: new Date(expires).toISOString() };
+};
+
+export const deletePrivateFile = async (path: string): Promise<void> => {
+  await admin.storage().bucket().file(path).delete({ ignoreNotFound: true });
+};
+
+// "https://firebasestorage.googleapis.com/v0/b/{bucket}/o/certifications%2Fuid%2Ffile.pdf?alt=media&token=..." -> "certifications/uid/file.pdf"
+const getStoragePathFromDownloadUrl = (url: string): string | null => {
+  const match = /\/o\/([^?]+)/.exec(url || '');
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+/**
+ * Moves a file uploaded to a public folder (certifications/ or payment_receipts/)
+ * under private/, which also invalidates its old download URL. Resolves with the
+ * new path, or null when the URL is not a file in that folder of this bucket.
+ */
+export const moveToPrivateStorage = async (downloadUrl: string, folder: 'certifications' | 'payment_receipts'): Promise<string | null> => {
+  const path = getStoragePathFromDownloadUrl(downloadUrl);
+  const bucket = admin.storage().bucket();
+  if (!path || !path.startsWith(`${folder}/`) || !downloadUrl.includes(bucket.name)) return null;
+
+  const file = bucket.file(path);
+  const [exists] = await file.exists();
+  if (!exists) return null;
+
+  const privatePath = `private/${path}`;
+  await file.copy(bucket.file(privatePath));
+  await file.delete();
+  return privatePath;
+};
@@ -0,0 +1,220 @@
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as webpush from 'web-push';
+import { NotificationType } from './notifications';
+
+// Web Push subscriptions, one document per browser, keyed by a hash of the endpoint
+// so re-subscribing the same browser overwrites rather than duplicates.
+export const PUSH_SUBSCRIPTIONS_COLLECTION = 'push_subscriptions';
+
+// Notification types that are also delivered as Web Push; new chat messages are pushed separately
+export const PUSH_NOTIFICATION_TYPES: NotificationType[] = [
+  'account_approved',
+  'account_rejected',
+  'appointment_requested',
+  'appointment_confirmed',
+  'appointment_cancelled',
+  'membership_expiring',
+  'membership_expired',
+  'certification_expiring',
+  'certification_expired',
+  'space_reservation_requested',
+  'space_reservation_accepted',
+  'space_reservation_declined',
+  'space_reservation_cancelled',
+  'clinic_approved',
+  'clinic_rejected'
+];
+
+export type PushType = NotificationType | 'new_message' | 'test';
+
+export type PushLanguage = 'en' | 'ar';
+
+interface PushInput {
+  type: PushType;
+  params?: Record<string, string | number>;
+  link?: string | null; // In-app route, opened when the push is clicked
+}
+
+// The payload read by the push handler in the service worker
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  data: { url: string };
+}
+
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+/**
+ * Delivers one payload to one subscription. Resolves with the push service's
+ * status code; a 404 or 410 means the subscription is gone.
+ */
+export interface PushSender {
+  send: (subscription: PushSubscriptionRecord, payload: PushPayload) => Promise<number>;
+}
+
+// Push text is rendered here because the service worker has no access to the
+// app's translations. Keep in step with the `notification_*` locale keys.
+const PUSH_MESSAGES: Record<PushLanguage, Record<PushType, { title: string; body: string }>> = {
+  en: {
+    account_approved: { title: 'Profile approved', body: 'Your therapist profile has been approved and is now live.' },
+    account_rejected: { title: 'Profile not approved', body: 'Your therapist profile was not approved. {notes}' },
+    inquiry_answered: { title: 'Inquiry answered', body: 'Our team replied to your inquiry "{subject}".' },
+    certification_verified: { title: 'Certification verified', body: 'Your certification "{name}" has been verified.' },
+    certification_rejected: { title: 'Certification not accepted', body: 'Your certification "{name}" was not accepted. {notes}' },
+    certification_expiring: { title: 'License expiring soon', body: 'Your license "{name}" expires on {date}. Upload the renewed document to stay verified.' },
+    certification_expired: { title: 'License expired', body: 'Your license "{name}" expired on {date}. Upload the renewed document to restore your verification.' },
+    appointment_requested: { title: 'New session request', body: '{name} requested a session on {startTime}.' },
+    appointment_confirmed: { title: 'Session confirmed', body: 'Your session with {name} on {startTime} is confirmed.' },
+    appointment_cancelled: { title: 'Session cancelled', body: 'Your session with {name} on {startTime} was cancelled.' },
+    review_received: { title: 'New review', body: 'You received a new {rating}-star review.' },
+    membership_expiring: { title: 'Membership renewal due', body: 'Your TheraWay membership ends on {date}. Your renewal invoice is ready.' },
+    membership_expired: { title: 'Membership expired', body: 'Your TheraWay membership has expired. Renew it to stay listed.' },
+    space_reservation_requested: { title: 'New space booking request', body: '{name} requested {space} on {startTime}.' },
+    space_reservation_accepted: { title: 'Space booking accepted', body: '{name} accepted your booking of {space} on {startTime}.' },
+    space_reservation_declined: { title: 'Space booking declined', body: '{name} declined your booking of {space} on {startTime}.' },
+    space_reservation_cancelled: { title: 'Space booking cancelled', body: 'The booking of {space} on {startTime} with {name} was cancelled.' },
+    clinic_approved: { title: 'Clinic approved', body: 'Your clinic "{name}" has been approved and is now live.' },
+    clinic_rejected: { title: 'Clinic not approved', body: 'Your clinic "{name}" was not approved. {notes}' },
+    new_message: { title: 'New message from {name}', body: '{text}' },
+    test: { title: 'TheraWay', body: 'Push notifications are working on this device.' }
+  },
+  ar: {
+    account_approved: { title: 'تمت الموافقة على الملف', body: 'تمت الموافقة على ملفك كمعالج وأصبح منشوراً الآن.' },
+    account_rejected: { title: 'لم تتم الموافقة على الملف', body: 'لم تتم الموافقة على ملفك كمعالج. {notes}' },
+    inquiry_answered: { title: 'تم الرد على الاستفسار', body: 'قام فريقنا بالرد على استفسارك "{subject}".' },
+    certification_verified: { title: 'تم التحقق من الشهادة', body: 'تم التحقق من شهادتك "{name}".' },
+    certification_rejected: { title: 'لم يتم قبول الشهادة', body: 'لم يتم قبول شهادتك "{name}". {notes}' },
+    certification_expiring: { title: 'ترخيصك على وشك الانتهاء', body: 'ينتهي ترخيصك "{name}" في {date}. ارفع المستند المجدد لتبقى موثقاً.' },
+    certification_expired: { title: 'انتهى الترخيص', body: 'انتهى ترخيصك "{name}" في {date}. ارفع المستند المجدد لاستعادة التوثيق.' },
+    appointment_requested: { title: 'طلب جلسة جديد', body: 'طلب {name} جلسة بتاريخ {startTime}.' },
+    appointment_confirmed: { title: 'تم تأكيد الجلسة', body: 'تم تأكيد جلستك مع {name} بتاريخ {startTime}.' },
+    appointment_cancelled: { title: 'تم إلغاء الجلسة', body: 'تم إلغاء جلستك مع {name} بتاريخ {startTime}.' },
+    review_received: { title: 'تقييم جديد', body: 'تلقيت تقييماً جديداً بـ {rating} نجوم.' },
+    membership_expiring: { title: 'موعد تجديد العضوية', body: 'تنتهي عضويتك في TheraWay بتاريخ {date}. فاتورة التجديد جاهزة.' },
+    membership_expired: { title: 'انتهت العضوية', body: 'انتهت عضويتك في TheraWay. جدّدها لتبقى ظاهراً في القوائم.' },
+    space_reservation_requested: { title: 'طلب حجز مساحة جديد', body: 'طلب {name} حجز {space} بتاريخ {startTime}.' },
+    space_reservation_accepted: { title: 'تم قبول حجز المساحة', body: 'قبلت {name} حجزك لـ {space} بتاريخ {startTime}.' },
+    space_reservation_declined: { title: 'تم رفض حجز المساحة', body: 'رفضت {name} حجزك لـ {space} بتاريخ {startTime}.' },
+    space_reservation_cancelled: { title: 'تم إلغاء حجز المساحة', body: 'تم إلغاء حجز {space} بتاريخ {startTime} مع {name}.' },
+    clinic_approved: { title: 'تمت الموافقة على العيادة', body: 'تمت الموافقة على عيادتك "{name}" وأصبحت منشورة الآن.' },
+    clinic_rejected: { title: 'لم تتم الموافقة على العيادة', body: 'لم تتم الموافقة على عيادتك "{name}". {notes}' },
+    new_message: { title: 'رسالة جديدة من {name}', body: '{text}' },
+    test: { title: 'TheraWay', body: 'الإشعارات الفورية تعمل على هذا الجهاز.' }
+  }
+};
+
+const fillPlaceholders = (template: string, params: Record<string, string | number>): string =>
+  template.replace(/{(\w+)}/g, (match, key) => (params[key] !== undefined ? String(params[key]) : match)).trim();
+
+const formatStartTime = (value: string | number, language: PushLanguage): string => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+  return date.toLocaleString(language === 'ar' ? 'ar' : 'en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+};
+
+/**
+ * Renders the push payload for a subscriber's language. The link is turned into
+ * a hash URL, matching the app's HashRouter.
+ */
+export const buildPushPayload = ({ type, params = {}, link = null }: PushInput, language: PushLanguage = 'en'): PushPayload => {
+  const messages = PUSH_MESSAGES[language] || PUSH_MESSAGES.en;
+  const values = { ...params };
+  if (values.startTime !== undefined) {
+    values.startTime = formatStartTime(values.startTime, language);
+  }
+
+  return {
+    title: fillPlaceholders(messages[type].title, values),
+    body: fillPlaceholders(messages[type].body, values),
+    tag: type,
+    data: { url: link ? `/#${link}` : '/' }
+  };
+};
+
+export const getVapidPublicKey = (): string | null => process.env.VAPID_PUBLIC_KEY || null;
+
+export const getSubscriptionId = (endpoint: string): string =>
+  crypto.createHash('sha256').update(endpoint).digest('hex');
+
+const webPushSender = (): PushSender => {
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:support@theraway.net',
+    process.env.VAPID_PUBLIC_KEY as string,
+    process.env.VAPID_PRIVATE_KEY as string
+  );
+
+  return {
+    send: async (subscription, payload) => {
+      try {
+        const result = await webpush.sendNotification(subscription, JSON.stringify(payload), { TTL: 24 * 60 * 60 });
+        return result.statusCode;
+      } catch (error: any) {
+        if (error instanceof webpush.WebPushError) {
+          return error.statusCode;
+        }
+        throw error;
+      }
+    }
+  };
+};
+
+// Stand-in used in the emulator, or when no VAPID keys are configured. It logs each
+// delivery instead of contacting a push service, so flows can be tested locally.
+export const localPushSender: PushSender = {
+  send: async (subscription, payload) => {
+    console.log(`[push:local] ${subscription.endpoint}`, JSON.stringify(payload));
+    return 201;
+  }
+};
+
+let pushSender: PushSender | null = null;
+
+export const getPushSender = (): PushSender => {
+  if (!pushSender) {
+    const useLocal = process.env.FUNCTIONS_EMULATOR === 'true' ||
+      process.env.PUSH_DELIVERY === 'local' ||
+      !process.env.VAPID_PUBLIC_KEY ||
+      !process.env.VAPID_PRIVATE_KEY;
+    pushSender = useLocal ? localPushSender : webPushSender();
+  }
+  return pushSender;
+};
+
+/**
+ * Sends a push to every browser the user subscribed. Expired subscriptions are
+ * removed; other failures are logged rather than thrown.
+ */
+export const sendPushToUser = async (userId: string, input: PushInput): Promise<void> => {
+  if (!userId) return;
+
+  try {
+    const snapshot = await admin.firestore()
+      .collection(PUSH_SUBSCRIPTIONS_COLLECTION)
+      .where('userId', '==', userId)
+      .get();
+    if (snapshot.empty) return;
+
+    const sender = getPushSender();
+    await Promise.all(snapshot.docs.map(async doc => {
+      const data = doc.data();
+      try {
+        const statusCode = await sender.send(
+          { endpoint: data.endpoint, keys: data.keys },
+          buildPushPayload(input, data.language)
+        );
+        if (statusCode === 404 || statusCode === 410) {
+          await doc.ref.delete();
+        }
+      } catch (error) {
+        console.error(`Error sending ${input.type} push to ${userId}:`, error);
+      }
+    }));
+  } catch (error) {
+    console.error(`Error loading push subscriptions for ${userId}:`, error);
+  }
+};
@@ -0,0 +1,417 @@
+// Runtime schemas for the Firestore documents that both the web app and Functions
+// write. This file has no imports so the web app can use it as is (through
+// src/firebase/schemas.ts); keep it that way.
+//
+// Writes go through validateWrite, which rejects invalid payloads. Reads go through
+// parseDocument, which maps the snake_case names older code wrote to the camelCase
+// names in types.ts and fills in defaults, so queries and screens only ever see
+// one shape.
+
+interface FieldOptions {
+  optional?: boolean; // May be left out
+  nullable?: boolean;
+  default?: any; // Used on create and when a stored document lacks the field; functions are called
+  managed?: boolean; // Set by Functions and admins only; dropped from client payloads
+  legacy?: string; // The snake_case name older code stored the field under
+}
+
+export interface FieldSchema extends FieldOptions {
+  // Returns a message for the first problem with the value, or null if it is valid
+  check: (value: any, field: string) => string | null;
+  // Turns a stored value into its API form, e.g. a Timestamp into an ISO string
+  normalize?: (value: any) => any;
+}
+
+export interface DocumentSchema {
+  collection: string;
+  label: string; // Used in error messages, e.g. "Invalid clinic: ..."
+  fields: Record<string, FieldSchema>;
+  retiredFields?: string[]; // Legacy fields with no current counterpart, dropped on read and by the normalization job
+}
+
+export interface WriteOptions {
+  partial?: boolean; // An update: only the fields present are checked and no defaults are added
+  includeManaged?: boolean; // Keep managed fields, for writes made by Functions, admins or at sign-up
+}
+
+export interface WriteResult {
+  value: Record<string, any>;
+  errors: string[];
+}
+
+// One field rewritten by normalization; a missing `to` means the field is removed
+export interface FieldChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Field builders
+
+const stringField = (options: FieldOptions & { minLength?: number; maxLength?: number; pattern?: RegExp; patternMessage?: string } = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (typeof value !== 'string') return `${field} must be a string`;
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return options.minLength === 1 ? `${field} is required` : `${field} must be at least ${options.minLength} characters`;
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) return `${field} must be at most ${options.maxLength} characters`;
+    if (options.pattern && !options.pattern.test(value)) return `${field} ${options.patternMessage || 'is not in the expected format'}`;
+    return null;
+  }
+});
+
+const numberField = (options: FieldOptions & { min?: number; max?: number; integer?: boolean } = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (typeof value !== 'number' || !isFinite(value)) return `${field} must be a number`;
+    if (options.integer && !Number.isInteger(value)) return `${field} must be a whole number`;
+    if (options.min !== undefined && value < options.min) return `${field} must be at least ${options.min}`;
+    if (options.max !== undefined && value > options.max) return `${field} must be at most ${options.max}`;
+    return null;
+  }
+});
+
+const booleanField = (options: FieldOptions = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => (typeof value === 'boolean' ? null : `${field} must be true or false`)
+});
+
+const oneOfField = (values: readonly string[], options: FieldOptions = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => (values.includes(value) ? null : `${field} must be one of: ${values.join(', ')}`)
+});
+
+const isTimestampLike = (value: any): boolean => !!value && typeof value.toDate === 'function';
+
+// An ISO date string. Stored Timestamps (e.g. from serverTimestamp()) are read back as ISO strings.
+const dateField = (options: FieldOptions = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (isTimestampLike(value) || value instanceof Date) return null;
+    return typeof value === 'string' && !isNaN(new Date(value).getTime()) ? null : `${field} must be a date`;
+  },
+  normalize: (value) => {
+    if (isTimestampLike(value)) return value.toDate().toISOString();
+    return value instanceof Date ? value.toISOString() : value;
+  }
+});
+
+// A calendar day, "YYYY-MM-DD"
+const dateOnlyField = (options: FieldOptions = {}): FieldSchema =>
+  stringField({ ...options, pattern: DATE_ONLY_PATTERN, patternMessage: 'must be a date in YYYY-MM-DD format' });
+
+const arrayField = (item: FieldSchema, options: FieldOptions & { maxItems?: number } = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (!Array.isArray(value)) return `${field} must be a list`;
+    if (options.maxItems !== undefined && value.length > options.maxItems) return `${field} can have at most ${options.maxItems} items`;
+    for (let i = 0; i < value.length; i++) {
+      const error = item.check(value[i], `${field}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+});
+
+// A nested object with known fields; other keys are left alone
+const objectField = (shape: Record<string, FieldSchema>, options: FieldOptions = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return `${field} must be an object`;
+    for (const [key, schema] of Object.entries(shape)) {
+      const error = checkValue(schema, value[key], `${field}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  }
+});
+
+// An object whose values all match one schema, e.g. opening hours keyed by day
+const recordField = (item: FieldSchema, options: FieldOptions = {}): FieldSchema => ({
+  ...options,
+  check: (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return `${field} must be an object`;
+    for (const [key, entry] of Object.entries(value)) {
+      const error = item.check(entry, `${field}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  }
+});
+
+const checkValue = (schema: FieldSchema, value: any, field: string): string | null => {
+  if (value === undefined) return schema.optional || schema.default !== undefined ? null : `${field} is required`;
+  if (value === null) return schema.nullable ? null : `${field} cannot be empty`;
+  return schema.check(value, field);
+};
+
+const getDefault = (schema: FieldSchema): any =>
+  typeof schema.default === 'function' ? schema.default() : schema.default;
+
+const stringList = (options: FieldOptions = {}) => arrayField(stringField({ maxLength: 200 }), { default: () => [], ...options });
+
+// Collections
+
+export const ACCOUNT_STATUSES = ['draft', 'pending_approval', 'live', 'rejected'] as const;
+
+const timestamps = {
+  createdAt: dateField({ optional: true, managed: true, legacy: 'created_at' }),
+  updatedAt: dateField({ optional: true, managed: true, legacy: 'updated_at' })
+};
+
+const practiceLocation = objectField({
+  address: stringField({ maxLength: 500 }),
+  lat: numberField({ optional: true, nullable: true, min: -90, max: 90 }),
+  lng: numberField({ optional: true, nullable: true, min: -180, max: 180 }),
+  isPrimary: booleanField({ optional: true }),
+  // Checked in detail by validateLocationSchedules
+  schedule: objectField({ timeZone: stringField() }, { optional: true, nullable: true })
+});
+
+export const userSchema: DocumentSchema = {
+  collection: 'users',
+  label: 'user',
+  fields: {
+    email: stringField({ pattern: EMAIL_PATTERN, patternMessage: 'must be an email address' }),
+    name: stringField({ optional: true, maxLength: 120 }),
+    role: oneOfField(['CLIENT', 'THERAPIST', 'CLINIC_OWNER', 'ADMIN'], { managed: true }),
+    profilePictureUrl: stringField({ optional: true, nullable: true, legacy: 'profile_picture_url' }),
+    ...timestamps
+  }
+};
+
+export const therapistSchema: DocumentSchema = {
+  collection: 'therapists_data',
+  label: 'therapist profile',
+  retiredFields: ['user_id'],
+  fields: {
+    name: stringField({ optional: true, maxLength: 120 }),
+    profilePictureUrl: stringField({ default: '', nullable: true, legacy: 'profile_picture_url' }),
+    introVideoUrl: stringField({ optional: true, nullable: true, legacy: 'intro_video_url' }),
+    specializations: stringList(),
+    languages: stringList(),
+    qualifications: stringList(),
+    bio: stringField({ default: '', maxLength: 5000 }),
+    locations: arrayField(practiceLocation, { default: () => [], maxItems: 10 }),
+    whatsappNumber: stringField({ default: '', maxLength: 30, legacy: 'whatsapp_number' }),
+    availability: stringList({ optional: true }),
+    membershipApplication: objectField({
+      date: stringField({ optional: true, nullable: true }),
+      paymentReceiptUrl: stringField({ optional: true, nullable: true }),
+      statusMessage: stringField({ optional: true, nullable: true, maxLength: 500 })
+    }, { optional: true, nullable: true }),
+    // Kept up to date by reviews, certification reviews and admin approval
+    rating: numberField({ default: 0, min: 0, max: 5, managed: true }),
+    reviewCount: numberField({ default: 0, min: 0, integer: true, managed: true, legacy: 'review_count' }),
+    profileViews: numberField({ default: 0, min: 0, integer: true, managed: true, legacy: 'profile_views' }),
+    likes: numberField({ default: 0, min: 0, integer: true, managed: true, legacy: 'likes_count' }),
+    isVerified: booleanField({ default: false, managed: true, legacy: 'is_overall_verified' }),
+    accountStatus: oneOfField(ACCOUNT_STATUSES, { default: 'draft', managed: true, legacy: 'account_status' }),
+    adminNotes: stringField({ optional: true, nullable: true, managed: true, legacy: 'admin_notes' }),
+    membershipRenewalDate: stringField({ optional: true, nullable: true, managed: true, legacy: 'membership_renewal_date' }),
+    membershipStatus: stringField({ optional: true, nullable: true, managed: true }),
+    ...timestamps
+  }
+};
+
+export const clinicSchema: DocumentSchema = {
+  collection: 'clinics_data',
+  label: 'clinic',
+  retiredFields: ['clinic_id'],
+  fields: {
+    ownerId: stringField({ minLength: 1, managed: true, legacy: 'user_id' }),
+    name: stringField({ minLength: 1, maxLength: 200, legacy: 'clinic_name' }),
+    profilePictureUrl: stringField({ optional: true, nullable: true, legacy: 'clinic_profile_picture_url' }),
+    photos: stringList({ legacy: 'clinic_photos' }),
+    amenities: stringList(),
+    operatingHours: recordField(stringField({ maxLength: 100 }), { default: () => ({}), legacy: 'operating_hours' }),
+    services: arrayField(objectField({
+      id: stringField(),
+      name: stringField({ minLength: 1, maxLength: 200 }),
+      price: numberField({ min: 0 }),
+      durationMinutes: numberField({ optional: true, min: 1, integer: true })
+    }), { default: () => [] }),
+    address: stringField({ default: '', maxLength: 500 }),
+    lat: numberField({ optional: true, nullable: true, min: -90, max: 90, legacy: 'latitude' }),
+    lng: numberField({ optional: true, nullable: true, min: -180, max: 180, legacy: 'longitude' }),
+    whatsappNumber: stringField({ default: '', maxLength: 30, legacy: 'whatsapp_number' }),
+    description: stringField({ default: '', maxLength: 5000 }),
+    isVerified: booleanField({ default: false, managed: true, legacy: 'is_verified_by_admin' }),
+    theraWayMembership: objectField({ status: stringField() }, { optional: true, nullable: true, managed: true }),
+    accountStatus: oneOfField(ACCOUNT_STATUSES, { default: 'draft', managed: true, legacy: 'account_status' }),
+    adminNotes: stringField({ optional: true, nullable: true, managed: true, legacy: 'admin_notes' }),
+    ...timestamps
+  }
+};
+
+export const clinicSpaceSchema: DocumentSchema = {
+  collection: 'clinic_spaces',
+  label: 'clinic space',
+  fields: {
+    clinicId: stringField({ minLength: 1, legacy: 'clinic_id' }),
+    name: stringField({ minLength: 1, maxLength: 200 }),
+    description: stringField({ default: '', maxLength: 5000 }),
+    photos: stringList(),
+    rentalPrice: numberField({ default: 0, min: 0, legacy: 'rental_price' }),
+    rentalDuration: stringField({ default: 'per hour', maxLength: 50, legacy: 'rental_duration' }),
+    rentalTerms: stringField({ default: '', maxLength: 5000, legacy: 'rental_terms' }),
+    features: stringList(),
+    // Copied from the clinic, and set through the schedule and blocks endpoints
+    clinicName: stringField({ optional: true, managed: true }),
+    clinicAddress: stringField({ optional: true, managed: true }),
+    schedule: objectField({ timeZone: stringField() }, { optional: true, nullable: true, managed: true }),
+    slotDurationMinutes: numberField({ optional: true, min: 1, integer: true, managed: true }),
+    blockedPeriods: arrayField(objectField({ id: stringField(), startTime: stringField(), endTime: stringField() }), { optional: true, managed: true }),
+    ...timestamps
+  }
+};
+
+export const certificationSchema: DocumentSchema = {
+  collection: 'certifications',
+  label: 'certification',
+  fields: {
+    therapistUserId: stringField({ minLength: 1, legacy: 'therapist_user_id' }),
+    name: stringField({ minLength: 1, maxLength: 200 }),
+    fileUrl: stringField({ default: '', legacy: 'file_url' }),
+    filePath: stringField({ optional: true, nullable: true }),
+    country: stringField({ optional: true, nullable: true, maxLength: 100 }),
+    issuingBody: stringField({ optional: true, nullable: true, maxLength: 200 }),
+    licenseNumber: stringField({ optional: true, nullable: true, maxLength: 100 }),
+    expiresAt: dateOnlyField({ optional: true, nullable: true }),
+    isRequired: booleanField({ optional: true }),
+    // Set by the review queue and the expiry job
+    uploadedAt: dateField({ optional: true, managed: true, legacy: 'uploaded_at' }),
+    isVerified: booleanField({ default: false, managed: true, legacy: 'is_verified_by_admin' }),
+    status: oneOfField(['pending', 'approved', 'rejected'], { optional: true, managed: true }),
+    verificationNotes: stringField({ optional: true, nullable: true, managed: true, legacy: 'verification_notes' }),
+    reviewerId: stringField({ optional: true, nullable: true, managed: true }),
+    reviewerName: stringField({ optional: true, nullable: true, managed: true }),
+    assignedAt: dateField({ optional: true, nullable: true, managed: true }),
+    reviewedBy: stringField({ optional: true, nullable: true, managed: true }),
+    reviewedAt: dateField({ optional: true, nullable: true, managed: true }),
+    ...timestamps
+  }
+};
+
+export const userInquirySchema: DocumentSchema = {
+  collection: 'user_inquiries',
+  label: 'inquiry',
+  fields: {
+    userId: stringField({ optional: true, nullable: true, legacy: 'user_id' }),
+    userEmail: stringField({ pattern: EMAIL_PATTERN, patternMessage: 'must be an email address', legacy: 'user_email' }),
+    userName: stringField({ optional: true, nullable: true, maxLength: 120, legacy: 'user_name' }),
+    subject: stringField({ minLength: 1, maxLength: 200 }),
+    message: stringField({ minLength: 1, maxLength: 5000 }),
+    date: dateField({ default: () => new Date().toISOString() }),
+    category: oneOfField(['general', 'technical_support', 'billing', 'feedback'], { optional: true }),
+    priority: oneOfField(['low', 'medium', 'high'], { optional: true, managed: true }),
+    status: oneOfField(['open', 'closed', 'pending_admin_response', 'escalated'], { default: 'open', managed: true }),
+    adminReply: stringField({ optional: true, nullable: true, maxLength: 5000, managed: true, legacy: 'admin_reply' }),
+    ...timestamps
+  }
+};
+
+/**
+ * Checks a payload before it is written. Unknown fields are dropped, as are
+ * managed fields unless includeManaged is set; fields sent under their legacy
+ * snake_case name are renamed. Creates get defaults for missing fields.
+ */
+export const validateWrite = (schema: DocumentSchema, data: Record<string, any>, options: WriteOptions = {}): WriteResult => {
+  const value: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    if (fieldSchema.managed && !options.includeManaged) continue;
+
+    let fieldValue = data?.[field];
+    if (fieldValue === undefined && fieldSchema.legacy) fieldValue = data?.[fieldSchema.legacy];
+    if (fieldValue === undefined && options.partial) continue;
+    if (fieldValue === undefined && fieldSchema.default !== undefined) fieldValue = getDefault(fieldSchema);
+
+    const error = checkValue(fieldSchema, fieldValue, field);
+    if (error) {
+      errors.push(error);
+    } else if (fieldValue !== undefined) {
+      value[field] = fieldValue;
+    }
+  }
+
+  return { value, errors };
+};
+
+// "Invalid clinic: name is required; lat must be at most 90"
+export const formatWriteErrors = (schema: DocumentSchema, errors: string[]): string =>
+  `Invalid ${schema.label}: ${errors.join('; ')}`;
+
+/**
+ * Reads a stored document into its API shape. Legacy snake_case fields are read
+ * under their camelCase names, missing or invalid fields fall back to their
+ * defaults and Timestamps become ISO strings. Fields the schema does not know
+ * are passed through untouched, without their legacy duplicates.
+ */
+export const parseDocument = <T = Record<string, any>>(schema: DocumentSchema, id: string, data: Record<string, any> | undefined): T => {
+  const parsed: Record<string, any> = { ...(data || {}) };
+  (schema.retiredFields || []).forEach(field => delete parsed[field]);
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    let fieldValue = parsed[field];
+    if (fieldSchema.legacy && fieldSchema.legacy in parsed) {
+      if (fieldValue === undefined) fieldValue = parsed[fieldSchema.legacy];
+      delete parsed[fieldSchema.legacy];
+    }
+    if (fieldValue !== undefined && fieldValue !== null && fieldSchema.normalize) {
+      fieldValue = fieldSchema.normalize(fieldValue);
+    }
+    if (checkValue(fieldSchema, fieldValue, field) && fieldSchema.default !== undefined) {
+      fieldValue = getDefault(fieldSchema);
+    }
+
+    if (fieldValue === undefined) {
+      delete parsed[field];
+    } else {
+      parsed[field] = fieldValue;
+    }
+  }
+
+  return { ...parsed, id } as T;
+};
+
+/**
+ * The changes that bring a stored document to its canonical shape: legacy
+ * fields renamed (the camelCase value wins when both exist), retired fields
+ * removed and missing fields given their defaults. Values that are present but
+ * invalid are reported rather than changed. A canonical document has no changes.
+ */
+export const getNormalizationChanges = (schema: DocumentSchema, data: Record<string, any>): { changes: FieldChange[]; invalid: string[] } => {
+  const changes: FieldChange[] = [];
+  const invalid: string[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    let fieldValue = data[field];
+    if (fieldSchema.legacy && data[fieldSchema.legacy] !== undefined) {
+      if (fieldValue === undefined) {
+        fieldValue = data[fieldSchema.legacy];
+        changes.push({ field, to: fieldValue });
+      }
+      changes.push({ field: fieldSchema.legacy, from: data[fieldSchema.legacy] });
+    }
+    if (fieldValue === undefined && fieldSchema.default !== undefined) {
+      fieldValue = getDefault(fieldSchema);
+      changes.push({ field, to: fieldValue });
+    }
+
+    const normalized = fieldValue !== undefined && fieldValue !== null && fieldSchema.normalize ? fieldSchema.normalize(fieldValue) : fieldValue;
+    const error = checkValue(fieldSchema, normalized, field);
+    if (error) invalid.push(error);
+  }
+
+  (schema.retiredFields || [])
+    .filter(field => data[field] !== undefined)
+    .forEach(field => changes.push({ field, from: data[field] }));
+
+  return { changes, invalid };
+};
@@ -0,0 +1,212 @@
+import * as admin from 'firebase-admin';
+
+// Full-text search over therapist profiles. Each therapist has one document in this
+// collection holding the normalized tokens of its searchable fields plus their trigrams,
+// kept in sync with therapists_data by the indexTherapistSearch trigger.
+// Candidates are fetched by trigram overlap, then ranked in memory with typo tolerance.
+export const THERAPIST_SEARCH_INDEX_COLLECTION = 'therapist_search_index';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 3,
+  specializations: 2.5,
+  qualifications: 1.5,
+  languages: 1.5,
+  bio: 1
+};
+
+// Firestore caps array-contains-any at 30 values
+const MAX_QUERY_TRIGRAMS = 30;
+// Candidates are fetched in pages and all of them are scored. Firestore cannot rank
+// them by relevance, so past MAX_SEARCH_CANDIDATES (in document ID order) the best
+// matches may be missed; raise it if the live directory grows beyond that.
+const SEARCH_CANDIDATES_PAGE_SIZE = 500;
+const MAX_SEARCH_CANDIDATES = 2000;
+const MIN_QUERY_TOKEN_LENGTH = 2;
+
+// Arabic definite article and the conjunction/preposition forms it commonly attaches to
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+
+/**
+ * Lowercases and folds away differences that shouldn't affect matching:
+ * Latin accents, Arabic diacritics and tatweel, and the common Arabic letter variants.
+ */
+const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u064b-\u065f\u0670\u0640]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي');
+};
+
+const stripArabicPrefix = (token: string): string => {
+  const prefix = ARABIC_PREFIXES.find(item => token.startsWith(item) && token.length - item.length >= 2);
+  return prefix ? token.slice(prefix.length) : token;
+};
+
+/**
+ * Splits text into normalized Latin/Arabic word tokens.
+ */
+export const tokenize = (text: string): string[] => {
+  return normalizeText(text || '')
+    .split(/[^a-z0-9\u0621-\u064a\u0660-\u0669]+/)
+    .filter(Boolean)
+    .map(stripArabicPrefix);
+};
+
+// Trigrams padded at the start only, so a prefix's trigrams are a subset of the full word's
+const trigramsOf = (token: string): string[] => {
+  const padded = `  ${token}`;
+  const trigrams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+  return trigrams;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity of a query token to an indexed token, from 0 (no match) to 1 (exact)
+const tokenSimilarity = (queryToken: string, token: string): number => {
+  if (queryToken === token) return 1;
+  if (token.startsWith(queryToken)) return 0.9;
+
+  // Allow one typo in short words and two in longer ones
+  const maxTypos = queryToken.length <= 4 ? 1 : 2;
+  if (Math.abs(queryToken.length - token.length) > maxTypos) return 0;
+
+  const distance = levenshtein(queryToken, token);
+  return distance <= maxTypos ? 1 - distance / (queryToken.length + 1) : 0;
+};
+
+/**
+ * Builds the search index document for a therapist.
+ */
+export const buildSearchIndexEntry = (therapistId: string, therapistData: any) => {
+  const fields: Record<string, string[]> = {
+    name: tokenize(therapistData?.name || ''),
+    bio: tokenize(therapistData?.bio || ''),
+    specializations: tokenize((therapistData?.specializations || []).join(' ')),
+    qualifications: tokenize((therapistData?.qualifications || []).join(' ')),
+    languages: tokenize((therapistData?.languages || []).join(' '))
+  };
+
+  const tokens: Record<string, string[]> = {};
+  const trigrams = new Set<string>();
+  Object.entries(fields).forEach(([field, fieldTokens]) => {
+    tokens[field] = Array.from(new Set(fieldTokens));
+    tokens[field].forEach(token => trigramsOf(token).forEach(trigram => trigrams.add(trigram)));
+  });
+
+  return {
+    therapistId,
+    accountStatus: therapistData?.accountStatus || 'draft',
+    tokens,
+    trigrams: Array.from(trigrams).sort()
+  };
+};
+
+// Field by field, as Firestore does not keep the key order of stored maps
+const isCurrentEntry = (stored: any, entry: ReturnType<typeof buildSearchIndexEntry>): boolean =>
+  stored?.accountStatus === entry.accountStatus &&
+  JSON.stringify(stored?.trigrams) === JSON.stringify(entry.trigrams) &&
+  Object.keys(entry.tokens).every(field => JSON.stringify(stored?.tokens?.[field]) === JSON.stringify(entry.tokens[field]));
+
+/**
+ * Queues the write that brings a therapist's search index entry in line with
+ * their document (null when it was deleted). An entry that is already current is
+ * left alone. Resolves whether anything was queued.
+ */
+export const writeSearchIndex = async (batch: admin.firestore.WriteBatch, therapistId: string, therapistData: any): Promise<boolean> => {
+  const indexRef = admin.firestore().collection(THERAPIST_SEARCH_INDEX_COLLECTION).doc(therapistId);
+  const stored = await indexRef.get();
+
+  if (!therapistData) {
+    if (!stored.exists) return false;
+    batch.delete(indexRef);
+    return true;
+  }
+
+  const entry = buildSearchIndexEntry(therapistId, therapistData);
+  if (stored.exists && isCurrentEntry(stored.data(), entry)) return false;
+
+  batch.set(indexRef, { ...entry, updatedAt: new Date().toISOString() });
+  return true;
+};
+
+/**
+ * Scores an index entry against the query tokens. Each query token contributes its best
+ * weighted match across the fields, so matching more of the query ranks higher.
+ */
+const scoreEntry = (queryTokens: string[], entryTokens: Record<string, string[]>): number => {
+  return queryTokens.reduce((total, queryToken) => {
+    let best = 0;
+    Object.entries(FIELD_WEIGHTS).forEach(([field, weight]) => {
+      (entryTokens[field] || []).forEach(token => {
+        best = Math.max(best, weight * tokenSimilarity(queryToken, token));
+      });
+    });
+    return total + best;
+  }, 0);
+};
+
+/**
+ * Searches live therapists for a free-text query.
+ * Returns a map of therapist ID to relevance score, highest first.
+ */
+export const searchTherapists = async (searchTerm: string): Promise<Map<string, number>> => {
+  const queryTokens = Array.from(new Set(tokenize(searchTerm)))
+    .filter(token => token.length >= MIN_QUERY_TOKEN_LENGTH);
+  if (queryTokens.length === 0) {
+    return new Map();
+  }
+
+  // Spread the trigram budget evenly across the query so every word can pull in candidates.
+  // A word's first, mostly padding, trigram matches too broadly to be worth a slot.
+  const queryTrigrams = Array.from(new Set(queryTokens.flatMap(token => trigramsOf(token).slice(token.length >= 3 ? 1 : 0))));
+  const step = Math.max(queryTrigrams.length / MAX_QUERY_TRIGRAMS, 1);
+  const sampledTrigrams = Array.from(
+    new Set(Array.from({ length: Math.min(queryTrigrams.length, MAX_QUERY_TRIGRAMS) }, (_, i) => queryTrigrams[Math.floor(i * step)]))
+  );
+
+  const candidates: admin.firestore.QueryDocumentSnapshot[] = [];
+  let lastCandidate: admin.firestore.QueryDocumentSnapshot | null = null;
+  while (candidates.length < MAX_SEARCH_CANDIDATES) {
+    let query = admin.firestore()
+      .collection(THERAPIST_SEARCH_INDEX_COLLECTION)
+      .where('accountStatus', '==', 'live')
+      .where('trigrams', 'array-contains-any', sampledTrigrams)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(SEARCH_CANDIDATES_PAGE_SIZE);
+    if (lastCandidate) {
+      query = query.startAfter(lastCandidate);
+    }
+    const snapshot = await query.get();
+    candidates.push(...snapshot.docs);
+    if (snapshot.size < SEARCH_CANDIDATES_PAGE_SIZE) break;
+    lastCandidate = snapshot.docs[snapshot.size - 1];
+  }
+
+  const scored = candidates
+    .map(doc => ({ id: doc.id, score: scoreEntry(queryTokens, doc.data().tokens || {}) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return new Map(scored.map(({ id, score }) => [id, Math.round(score * 100) / 100]));
+};
@@ -0,0 +1,243 @@
+import { getOpenIntervals } from './availability';
+import { getBlockedPeriods } from './space-reservations';
+
+// Clinic space calendar: recurring closures derived from the clinic's free-text
+// operating hours, and the iCalendar export of a space's schedule.
+// Operating hours look like { "Monday-Friday": "9am - 5pm", "Saturday": "10:00-14:00", "Sunday": "Closed" }.
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ICAL_WEEKDAYS: Record<string, string> = { sun: 'SU', mon: 'MO', tue: 'TU', wed: 'WE', thu: 'TH', fri: 'FR', sat: 'SA' };
+
+// 2024-01-07 was a Sunday; recurring closures are anchored to that week in the export
+const ICAL_ANCHOR_WEEK = { year: 2024, month: 1, day: 7 };
+
+const DAY_ALIASES: Record<string, string[]> = {
+  daily: WEEKDAYS,
+  everyday: WEEKDAYS,
+  weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekends: ['sat', 'sun']
+};
+
+const TIME_PATTERN = /(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i;
+
+type Range = { start: number; end: number };
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const parseDay = (value: string): string | null => {
+  const day = value.trim().toLowerCase().slice(0, 3);
+  return WEEKDAYS.includes(day) ? day : null;
+};
+
+// "Monday-Friday", "Sat - Thu", "Mon, Wed & Fri", "Weekdays" -> weekday keys
+const parseDays = (label: string): string[] | null => {
+  const days: string[] = [];
+
+  for (const part of label.toLowerCase().split(/,|&|\/|\band\b/)) {
+    const text = part.trim();
+    if (!text) continue;
+
+    const alias = DAY_ALIASES[text.replace(/[^a-z]/g, '')];
+    if (alias) {
+      days.push(...alias);
+      continue;
+    }
+
+    const bounds = text.split(/\s*(?:-|–|\bto\b)\s*/);
+    const first = parseDay(bounds[0]);
+    const last = bounds.length > 1 ? parseDay(bounds[bounds.length - 1]) : first;
+    if (!first || !last) return null;
+
+    // Ranges may wrap around the week, e.g. Saturday-Thursday
+    for (let i = WEEKDAYS.indexOf(first); ; i = (i + 1) % 7) {
+      days.push(WEEKDAYS[i]);
+      if (WEEKDAYS[i] === last) break;
+    }
+  }
+  return days.length > 0 ? days : null;
+};
+
+const parseTime = (value: string): number | null => {
+  const match = value.trim().match(TIME_PATTERN);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// "9am - 5pm", "09:00-13:00, 14:00-18:00", "24 hours", "Closed" -> open ranges in minutes
+const parseHours = (value: string): Range[] | null => {
+  const text = value.trim().toLowerCase();
+  if (!text || text.startsWith('closed')) return [];
+  if (/24\s*(h|hours)|open\s*24/.test(text)) return [{ start: 0, end: 24 * 60 }];
+
+  const ranges: Range[] = [];
+  for (const part of text.split(/,|;|&|\band\b/)) {
+    if (!part.trim()) continue;
+    const bounds = part.split(/\s*(?:-|–|\bto\b)\s*/);
+    if (bounds.length !== 2) return null;
+
+    const start = parseTime(bounds[0]);
+    const end = parseTime(bounds[1]);
+    if (start === null || end === null) return null;
+    // Past-midnight closing times are cut at midnight
+    ranges.push({ start, end: end > start ? end : 24 * 60 });
+  }
+  return ranges;
+};
+
+/**
+ * Turns a clinic's operating hours into a weekly schedule of the times it is
+ * closed, in the same shape as a space's booking schedule. Days that are not
+ * mentioned are closed all day. Entries that cannot be read are skipped, and if
+ * none can be read no closures are derived at all.
+ */
+export const getClosureSchedule = (operatingHours: Record<string, string> | undefined, timeZone: string): any | null => {
+  const openRanges: Record<string, Range[]> = {};
+  let parsedCount = 0;
+
+  for (const [label, hours] of Object.entries(operatingHours || {})) {
+    const days = parseDays(label);
+    const ranges = typeof hours === 'string' ? parseHours(hours) : null;
+    if (!days || !ranges) continue;
+
+    parsedCount++;
+    for (const day of days) {
+      openRanges[day] = [...(openRanges[day] || []), ...ranges];
+    }
+  }
+  if (parsedCount === 0) return null;
+
+  const weekly: Record<string, { start: string; end: string }[]> = {};
+  for (const day of WEEKDAYS) {
+    const closed: { start: string; end: string }[] = [];
+    let cursor = 0;
+    for (const range of (openRanges[day] || []).sort((a, b) => a.start - b.start)) {
+      if (range.start > cursor) closed.push({ start: toTime(cursor), end: toTime(range.start) });
+      cursor = Math.max(cursor, range.end);
+    }
+    if (cursor < 24 * 60) closed.push({ start: toTime(cursor), end: toTime(24 * 60) });
+    if (closed.length > 0) weekly[day] = closed;
+  }
+
+  return { timeZone, weekly };
+};
+
+/**
+ * Concrete closure intervals between two instants. Back-to-back intervals, such
+ * as an evening closure running into the next morning, are merged.
+ */
+export const getClosureIntervals = (closureSchedule: any | null, from: Date, to: Date): { startTime: string; endTime: string }[] => {
+  if (!closureSchedule) return [];
+
+  const intervals: { start: Date; end: Date }[] = [];
+  for (const interval of getOpenIntervals(closureSchedule, from, to)) {
+    const previous = intervals[intervals.length - 1];
+    if (previous && previous.end.getTime() >= interval.start.getTime()) {
+      previous.end = interval.end > previous.end ? interval.end : previous.end;
+    } else {
+      intervals.push({ ...interval });
+    }
+  }
+  return intervals.map(({ start, end }) => ({ startTime: start.toISOString(), endTime: end.toISOString() }));
+};
+
+// --- iCalendar export ---
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatUtc = (value: string | Date): string =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+// Local date-time in the anchor week for a weekday and minute of day, e.g. 20240108T090000
+const formatAnchorTime = (day: string, minutes: number): string => {
+  const date = new Date(Date.UTC(ICAL_ANCHOR_WEEK.year, ICAL_ANCHOR_WEEK.month - 1, ICAL_ANCHOR_WEEK.day + WEEKDAYS.indexOf(day), 0, minutes));
+  return date.toISOString().replace(/[-:]/g, '').slice(0, 15);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Fields with an empty value are left out
+const buildEvent = (fields: string[][]): string[] => [
+  'BEGIN:VEVENT',
+  ...fields.filter(([, value]) => value).map(([name, value]) => `${name}:${value}`),
+  'END:VEVENT'
+];
+
+/**
+ * Renders a space's schedule as an iCalendar file: active reservations,
+ * blocked periods, and weekly recurring closures of the clinic.
+ */
+export const renderSpaceCalendar = (space: any, reservations: any[], closureSchedule: any | null): string => {
+  const stamp = formatUtc(new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TheraWay//Clinic Space Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${space.name || 'Clinic space'} – ${space.clinicName || 'TheraWay'}`)}`
+  ];
+
+  for (const reservation of reservations) {
+    lines.push(...buildEvent([
+      ['UID', `${reservation.id}@theraway.net`],
+      ['DTSTAMP', stamp],
+      ['DTSTART', formatUtc(reservation.startTime)],
+      ['DTEND', formatUtc(reservation.endTime)],
+      ['SUMMARY', escapeText(`Reserved: ${reservation.therapistName || 'Therapist'}`)],
+      ['DESCRIPTION', escapeText(reservation.notes || '')],
+      ['STATUS', reservation.status === 'accepted' ? 'CONFIRMED' : 'TENTATIVE']
+    ]));
+  }
+
+  for (const block of getBlockedPeriods(space)) {
+    lines.push(...buildEvent([
+      ['UID', `${block.id}@theraway.net`],
+      ['DTSTAMP', stamp],
+      ['DTSTART', formatUtc(block.startTime)],
+      ['DTEND', formatUtc(block.endTime)],
+      ['SUMMARY', escapeText(block.reason ? `Blocked: ${block.reason}` : 'Blocked')],
+      ['TRANSP', 'OPAQUE']
+    ]));
+  }
+
+  if (closureSchedule) {
+    const timeZone = closureSchedule.timeZone || 'UTC';
+    for (const [day, ranges] of Object.entries(closureSchedule.weekly as Record<string, { start: string; end: string }[]>)) {
+      for (const range of ranges) {
+        lines.push(...buildEvent([
+          ['UID', `closure-${space.id}-${day}-${range.start.replace(':', '')}@theraway.net`],
+          ['DTSTAMP', stamp],
+          [`DTSTART;TZID=${timeZone}`, formatAnchorTime(day, toMinutes(range.start))],
+          [`DTEND;TZID=${timeZone}`, formatAnchorTime(day, toMinutes(range.end))],
+          ['RRULE', `FREQ=WEEKLY;BYDAY=${ICAL_WEEKDAYS[day]}`],
+          ['SUMMARY', 'Clinic closed'],
+          ['TRANSP', 'OPAQUE']
+        ]));
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
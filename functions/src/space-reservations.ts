@@ -0,0 +1,95 @@
+import { getOpenIntervals } from './availability';
+
+// Therapist bookings of clinic spaces. Each reservation covers one contiguous
+// block of a space's bookable hours and stores startTime/endTime as ISO strings.
+export const SPACE_RESERVATIONS_COLLECTION = 'space_reservations';
+
+// Allowed status transitions: requested -> accepted/declined, and
+// requested/accepted -> cancelled. Values are the roles allowed to make the move.
+export const RESERVATION_TRANSITIONS: Record<string, Record<string, string[]>> = {
+  requested: { accepted: ['OWNER'], declined: ['OWNER'], cancelled: ['THERAPIST'] },
+  accepted: { cancelled: ['THERAPIST', 'OWNER'] },
+  declined: {},
+  cancelled: {}
+};
+
+// Statuses that still hold the space's time slot
+export const ACTIVE_RESERVATION_STATUSES = ['requested', 'accepted'];
+
+export const DEFAULT_SLOT_MINUTES = 60;
+export const MIN_SLOT_MINUTES = 15;
+export const MAX_SLOT_MINUTES = 8 * 60;
+
+// How far ahead slots can be listed in one request
+export const MAX_SLOT_WINDOW_DAYS = 60;
+
+export const MAX_BLOCK_REASON_LENGTH = 200;
+
+export interface SpaceSlot {
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+}
+
+export interface TimeSpan {
+  startTime: string;
+  endTime: string;
+}
+
+// Periods the clinic owner took off the booking calendar, stored on the space
+// as [{ id, startTime, endTime, reason }]
+export const getBlockedPeriods = (space: any): (TimeSpan & { id: string; reason?: string })[] =>
+  Array.isArray(space?.blockedPeriods) ? space.blockedPeriods : [];
+
+const overlapsSpan = (start: Date, end: Date, span: TimeSpan): boolean =>
+  start.getTime() < new Date(span.endTime).getTime() && end.getTime() > new Date(span.startTime).getTime();
+
+export const hasReservationConflict = (start: Date, end: Date, reservations: TimeSpan[]): boolean =>
+  reservations.some(reservation => overlapsSpan(start, end, reservation));
+
+export const getSlotMinutes = (space: any): number => space?.slotDurationMinutes || DEFAULT_SLOT_MINUTES;
+
+/**
+ * Splits a space's open hours between two instants into fixed-length slots,
+ * marking the ones already held by an active reservation or a blocked period.
+ * Slots that would run past the end of an open interval are dropped.
+ */
+export const buildSpaceSlots = (space: any, from: Date, to: Date, reservations: TimeSpan[]): SpaceSlot[] => {
+  if (!space?.schedule?.weekly) return [];
+
+  const slotMs = getSlotMinutes(space) * 60 * 1000;
+  const taken = [...reservations, ...getBlockedPeriods(space)];
+  const slots: SpaceSlot[] = [];
+
+  for (const interval of getOpenIntervals(space.schedule, from, to)) {
+    for (let time = interval.start.getTime(); time + slotMs <= interval.end.getTime(); time += slotMs) {
+      const start = new Date(time);
+      const end = new Date(time + slotMs);
+      slots.push({
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        isAvailable: !hasReservationConflict(start, end, taken)
+      });
+    }
+  }
+  return slots;
+};
+
+/**
+ * Whether a requested block is fully covered by the space's open hours, allowing
+ * back-to-back ranges such as 09:00-12:00 and 12:00-17:00. Spaces without a
+ * schedule cannot be booked.
+ */
+export const fitsSpaceSchedule = (space: any, start: Date, end: Date): boolean => {
+  if (!space?.schedule?.weekly) return false;
+
+  let coveredUntil = start.getTime();
+  const intervals = getOpenIntervals(space.schedule, start, end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (const interval of intervals) {
+    if (interval.start.getTime() > coveredUntil) return false;
+    coveredUntil = Math.max(coveredUntil, interval.end.getTime());
+  }
+  return coveredUntil >= end.getTime();
+};
@@ -56,12 +56,10 @@ export const deployStorageRules = functions.https.onRequest(async (req, res) =>
             allow write: if isOwner(userId) || isAdmin();
           }
           
-          // Certifications
+          // Certifications uploaded before private storage; new uploads go to private/certifications
           match /certifications/{userId}/{fileName} {
-            // Anyone can read certifications
-            allow read: if true;
-            // Only the user themselves or an admin can upload certifications
-            allow write: if isOwner(userId) || isAdmin();
+            // Only the user themselves or an admin can read or remove them
+            allow read, delete: if isOwner(userId) || isAdmin();
           }
           
           // Clinic photos
@@ -89,12 +87,40 @@ export const deployStorageRules = functions.https.onRequest(async (req, res) =>
                get(/databases/$(database)/documents/clinics_data/$(get(/databases/$(database)/documents/clinic_spaces/$(spaceId)).data.clinicId)).data.ownerId == request.auth.uid);
           }
           
-          // Payment receipts
+          // Payment receipts uploaded before private storage; new uploads go to private/payment_receipts
           match /payment_receipts/{userId}/{fileName} {
-            // Only the user themselves or an admin can read payment receipts
-            allow read: if isOwner(userId) || isAdmin();
-            // Only the user themselves or an admin can upload payment receipts
-            allow write: if isOwner(userId) || isAdmin();
+            // Only the user themselves or an admin can read or remove payment receipts
+            allow read, delete: if isOwner(userId) || isAdmin();
+          }
+
+          // Private license documents and payment receipts. Nobody reads these directly;
+          // Functions hands the owner and admins short-lived signed URLs instead.
+          match /private/certifications/{userId}/{fileName} {
+            allow read: if false;
+            // Only the therapist themselves can upload, as a PDF or image
+            allow create: if isOwner(userId) &&
+              request.resource.size < 5 * 1024 * 1024 &&
+              request.resource.contentType.matches('application/pdf|image/.*');
+            allow delete: if isOwner(userId) || isAdmin();
+          }
+
+          match /private/payment_receipts/{userId}/{fileName} {
+            allow read: if false;
+            // Only the user themselves can upload, as a PDF or image
+            allow create: if isOwner(userId) &&
+              request.resource.size < 2 * 1024 * 1024 &&
+              request.resource.contentType.matches('application/pdf|image/.*');
+            allow delete: if isOwner(userId) || isAdmin();
+          }
+
+          // Message attachments
+          match /message_attachments/{conversationId}/{fileName} {
+            // Only the conversation's participants can read or upload attachments
+            allow read: if isAuthenticated() &&
+              request.auth.uid in firestore.get(/databases/(default)/documents/conversations/$(conversationId)).data.participantIds;
+            allow write: if isAuthenticated() &&
+              request.resource.size < 10 * 1024 * 1024 &&
+              request.auth.uid in firestore.get(/databases/(default)/documents/conversations/$(conversationId)).data.participantIds;
           }
         }
       }
@@ -0,0 +1,62 @@
+import { getWeeklyAvailabilityTags } from './availability';
+
+// Denormalized filter keys stored on each therapists_data document as `searchKeys`,
+// so a single array-contains-any clause can push one filter group into Firestore.
+// Kept in sync by the syncTherapistSearchKeys trigger.
+
+// Firestore caps array-contains-any at 30 values
+export const MAX_SEARCH_KEY_VALUES = 30;
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+export const specializationKey = (value: string) => `spec:${normalize(value)}`;
+export const languageKey = (value: string) => `lang:${normalize(value)}`;
+export const availabilityKey = (value: string) => `avail:${normalize(value)}`;
+
+/**
+ * Builds the sorted, de-duplicated search keys for a therapist document.
+ */
+export const buildSearchKeys = (therapistData: any): string[] => {
+  const keys = [
+    ...(therapistData?.specializations || []).map(specializationKey),
+    ...(therapistData?.languages || []).map(languageKey),
+    ...getWeeklyAvailabilityTags(therapistData || {}).map(availabilityKey)
+  ];
+  return Array.from(new Set(keys)).sort();
+};
+
+/**
+ * The fields to update so a therapist document has current search keys and a
+ * rating; empty when it already does. Documents without a rating would drop out
+ * of the rating-ordered search query.
+ */
+export const getSearchFieldUpdates = (therapistData: any): Record<string, any> => {
+  const updates: Record<string, any> = {};
+  const searchKeys = buildSearchKeys(therapistData);
+  if (JSON.stringify(searchKeys) !== JSON.stringify(therapistData.searchKeys || [])) {
+    updates.searchKeys = searchKeys;
+  }
+  if (typeof therapistData.rating !== 'number') {
+    updates.rating = 0;
+  }
+  return updates;
+};
+
+/**
+ * Encodes a pagination position as an opaque cursor string.
+ */
+export const encodeCursor = (position: Record<string, any>): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Decodes a cursor produced by encodeCursor. Returns null if it is malformed.
+ */
+export const decodeCursor = (cursor: unknown): Record<string, any> | null => {
+  if (typeof cursor !== 'string' || !cursor) return null;
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' ? position : null;
+  } catch (error) {
+    return null;
+  }
+};
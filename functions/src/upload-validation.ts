@@ -0,0 +1,328 @@
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as https from 'https';
+
+// Uploads that fail validation are deleted and recorded here, one document per
+// storage path, so later requests that reference the path can be refused.
+export const FILE_QUARANTINE_COLLECTION = 'file_quarantine';
+
+// Enough of the file to recognise every signature below
+const SNIFF_BYTES = 64;
+
+// Size limits in MB. Keep in step with the *_MAX_SIZE_MB values in constants.ts.
+const MAX_SIZE_MB = {
+  video: 10,
+  certification: 5,
+  profilePicture: 2,
+  clinicPhoto: 5,
+  clinicSpacePhoto: 3,
+  paymentReceipt: 2,
+  messageAttachment: 10
+};
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const DOCUMENT_TYPES = ['application/pdf', ...IMAGE_TYPES];
+const VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+// Types that are never accepted, whatever the folder
+const BLOCKED_TYPES = ['application/x-msdownload', 'application/x-executable'];
+
+export type QuarantineReason = 'too_large' | 'type_not_allowed' | 'type_mismatch' | 'malware';
+
+interface UploadFolderRule {
+  prefix: string;
+  maxSizeMB: number;
+  // Sniffed types the folder accepts; null accepts anything not blocked
+  allowedTypes: string[] | null;
+  // The Firestore documents that reference an upload in this folder
+  getOwnerDocs: (ownerId: string, path: string) => Promise<admin.firestore.DocumentReference[]>;
+}
+
+const docById = (collection: string) => async (ownerId: string) =>
+  [admin.firestore().collection(collection).doc(ownerId)];
+
+const docsByField = (collection: string, field: string) => async (_ownerId: string, path: string) => {
+  const snapshot = await admin.firestore().collection(collection).where(field, '==', path).get();
+  return snapshot.docs.map(doc => doc.ref);
+};
+
+// Paths follow "{folder}/{ownerId}/{fileName}", as built by generateFilePath on the client
+const UPLOAD_FOLDER_RULES: UploadFolderRule[] = [
+  {
+    prefix: 'profile_pictures/',
+    maxSizeMB: MAX_SIZE_MB.profilePicture,
+    allowedTypes: IMAGE_TYPES,
+    getOwnerDocs: async (ownerId) => [
+      admin.firestore().collection('users').doc(ownerId),
+      admin.firestore().collection('therapists_data').doc(ownerId)
+    ]
+  },
+  {
+    prefix: 'intro_videos/',
+    maxSizeMB: MAX_SIZE_MB.video,
+    allowedTypes: VIDEO_TYPES,
+    getOwnerDocs: docById('therapists_data')
+  },
+  {
+    prefix: 'private/certifications/',
+    maxSizeMB: MAX_SIZE_MB.certification,
+    allowedTypes: DOCUMENT_TYPES,
+    getOwnerDocs: docsByField('certifications', 'filePath')
+  },
+  {
+    prefix: 'private/payment_receipts/',
+    maxSizeMB: MAX_SIZE_MB.paymentReceipt,
+    allowedTypes: DOCUMENT_TYPES,
+    getOwnerDocs: docsByField('payments', 'receiptUrl')
+  },
+  {
+    prefix: 'clinic_photos/',
+    maxSizeMB: MAX_SIZE_MB.clinicPhoto,
+    allowedTypes: IMAGE_TYPES,
+    getOwnerDocs: docById('clinics_data')
+  },
+  {
+    prefix: 'space_photos/',
+    maxSizeMB: MAX_SIZE_MB.clinicSpacePhoto,
+    allowedTypes: IMAGE_TYPES,
+    getOwnerDocs: docById('clinic_spaces')
+  },
+  {
+    prefix: 'message_attachments/',
+    maxSizeMB: MAX_SIZE_MB.messageAttachment,
+    allowedTypes: null,
+    getOwnerDocs: docById('conversations')
+  }
+];
+
+const getFolderRule = (path: string): UploadFolderRule | undefined =>
+  UPLOAD_FOLDER_RULES.find(rule => path.startsWith(rule.prefix));
+
+const startsWithBytes = (head: Buffer, bytes: number[], offset = 0): boolean =>
+  head.length >= offset + bytes.length && bytes.every((byte, i) => head[offset + i] === byte);
+
+const startsWithText = (head: Buffer, text: string, offset = 0): boolean =>
+  head.toString('latin1', offset, offset + text.length) === text;
+
+/**
+ * Works out a file's type from its leading bytes. Returns null for formats
+ * without a recognisable signature (plain text, CSV and the like).
+ */
+export const sniffContentType = (head: Buffer): string | null => {
+  if (startsWithBytes(head, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWithBytes(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWithText(head, 'GIF87a') || startsWithText(head, 'GIF89a')) return 'image/gif';
+  if (startsWithText(head, 'RIFF') && startsWithText(head, 'WEBP', 8)) return 'image/webp';
+  if (startsWithText(head, '%PDF-')) return 'application/pdf';
+  if (startsWithText(head, 'ftyp', 4)) {
+    return startsWithText(head, 'qt  ', 8) ? 'video/quicktime' : 'video/mp4';
+  }
+  if (startsWithBytes(head, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (startsWithBytes(head, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  if (startsWithBytes(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'application/msword';
+  if (startsWithText(head, 'MZ')) return 'application/x-msdownload';
+  if (startsWithBytes(head, [0x7f, 0x45, 0x4c, 0x46])) return 'application/x-executable';
+  return null;
+};
+
+// Whether the type the uploader declared agrees with the sniffed one. Office
+// formats built on ZIP (docx, xlsx, ...) declare their own type, so any declared
+// type is accepted for a ZIP container.
+const declaredTypeMatches = (declared: string, sniffed: string): boolean => {
+  if (declared === sniffed) return true;
+  if (sniffed === 'image/jpeg' && declared === 'image/jpg') return true;
+  if ((sniffed === 'video/mp4' || sniffed === 'video/quicktime') && declared.startsWith('video/')) return true;
+  if (sniffed === 'application/zip') return !declared.startsWith('image/') && !declared.startsWith('video/') && declared !== 'application/pdf';
+  if (sniffed === 'application/msword') return declared.startsWith('application/');
+  return false;
+};
+
+export interface ScanTarget {
+  bucket: string;
+  path: string;
+  contentType: string | null;
+}
+
+export interface ScanResult {
+  clean: boolean;
+  threat?: string;
+}
+
+/**
+ * Checks one stored file for malware. Implementations receive the location
+ * rather than the bytes, so engines that fetch from the bucket themselves can
+ * be plugged in.
+ */
+export interface FileScanner {
+  name: string;
+  scan: (target: ScanTarget) => Promise<ScanResult>;
+}
+
+// The industry-standard antivirus test file
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*';
+
+// Stand-in used in the emulator, or when no scanning service is configured. It only
+// recognises the EICAR test file, so the quarantine flow can be exercised locally.
+export const localFileScanner: FileScanner = {
+  name: 'local',
+  scan: async ({ bucket, path }) => {
+    const [contents] = await admin.storage().bucket(bucket).file(path).download();
+    const found = contents.toString('latin1').includes(EICAR_SIGNATURE);
+    return found ? { clean: false, threat: 'EICAR-Test-File' } : { clean: true };
+  }
+};
+
+// Posts the file location to a scanning service, which answers with { clean, threat }
+const remoteFileScanner = (url: string, apiKey?: string): FileScanner => ({
+  name: 'remote',
+  scan: (target) => new Promise<ScanResult>((resolve, reject) => {
+    const body = JSON.stringify(target);
+    const request = https.request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      timeout: 60 * 1000
+    }, (response) => {
+      let raw = '';
+      response.on('data', chunk => { raw += chunk; });
+      response.on('end', () => {
+        if (!response.statusCode || response.statusCode >= 300) {
+          reject(new Error(`Scanner responded with ${response.statusCode}`));
+          return;
+        }
+        try {
+          const result = JSON.parse(raw);
+          resolve({ clean: result.clean === true, threat: result.threat || undefined });
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+    request.on('timeout', () => request.destroy(new Error('Scanner timed out')));
+    request.on('error', reject);
+    request.end(body);
+  })
+});
+
+let fileScanner: FileScanner | null = null;
+
+export const getFileScanner = (): FileScanner => {
+  if (!fileScanner) {
+    const useLocal = process.env.FUNCTIONS_EMULATOR === 'true' || !process.env.UPLOAD_SCANNER_URL;
+    fileScanner = useLocal
+      ? localFileScanner
+      : remoteFileScanner(process.env.UPLOAD_SCANNER_URL as string, process.env.UPLOAD_SCANNER_API_KEY);
+  }
+  return fileScanner;
+};
+
+// Replaces the scanner, e.g. with a different engine
+export const setFileScanner = (scanner: FileScanner): void => {
+  fileScanner = scanner;
+};
+
+export const getQuarantineId = (path: string): string =>
+  crypto.createHash('sha256').update(path).digest('hex');
+
+export const isFileQuarantined = async (path: string): Promise<boolean> => {
+  const doc = await admin.firestore().collection(FILE_QUARANTINE_COLLECTION).doc(getQuarantineId(path)).get();
+  return doc.exists;
+};
+
+// "clinic_photos/{clinicId}/{fileName}" -> clinicId
+const getOwnerId = (path: string, rule: UploadFolderRule): string | null => {
+  const [ownerId, fileName] = path.slice(rule.prefix.length).split('/');
+  return ownerId && fileName ? ownerId : null;
+};
+
+/**
+ * Deletes the file, records it in the quarantine collection and adds it to the
+ * quarantinedFiles list of every existing document that owns it.
+ */
+const quarantineFile = async (
+  object: { bucket: string; name: string; contentType?: string; size?: string },
+  reason: QuarantineReason,
+  details: Record<string, any> = {}
+): Promise<void> => {
+  const path = object.name;
+  const quarantinedAt = new Date().toISOString();
+  const rule = getFolderRule(path);
+  const ownerId = rule ? getOwnerId(path, rule) : null;
+
+  await admin.storage().bucket(object.bucket).file(path).delete({ ignoreNotFound: true });
+
+  await admin.firestore().collection(FILE_QUARANTINE_COLLECTION).doc(getQuarantineId(path)).set({
+    path,
+    bucket: object.bucket,
+    ownerId,
+    reason,
+    contentType: object.contentType || null,
+    size: Number(object.size) || 0,
+    details,
+    quarantinedAt
+  });
+
+  if (!rule || !ownerId) return;
+
+  const ownerDocs = await rule.getOwnerDocs(ownerId, path);
+  for (const ref of ownerDocs) {
+    const doc = await ref.get();
+    if (!doc.exists) continue;
+    await ref.update({
+      quarantinedFiles: admin.firestore.FieldValue.arrayUnion({ path, reason, quarantinedAt })
+    });
+  }
+};
+
+/**
+ * Checks a newly stored client upload against its folder's size limit and allowed
+ * types, compares the sniffed type with the declared one and runs the malware
+ * scanner. Failing files are quarantined. Resolves with the failure reason, or
+ * null when the file passed.
+ */
+export const validateUploadedFile = async (
+  object: { bucket: string; name?: string; contentType?: string; size?: string }
+): Promise<QuarantineReason | null> => {
+  const path = object.name;
+  if (!path) return null;
+  const target = { ...object, name: path };
+
+  // Only client upload folders are checked; files written by Functions are trusted
+  const rule = getFolderRule(path);
+  if (!rule) return null;
+
+  const size = Number(object.size) || 0;
+  if (size > rule.maxSizeMB * 1024 * 1024) {
+    await quarantineFile(target, 'too_large', { maxSizeMB: rule.maxSizeMB });
+    return 'too_large';
+  }
+
+  const [head] = await admin.storage().bucket(object.bucket).file(path).download({ start: 0, end: SNIFF_BYTES - 1 });
+  const sniffedType = sniffContentType(head);
+  const declaredType = (object.contentType || '').toLowerCase();
+
+  const typeAllowed = sniffedType
+    ? !BLOCKED_TYPES.includes(sniffedType) && (!rule.allowedTypes || rule.allowedTypes.includes(sniffedType))
+    : !rule.allowedTypes;
+  if (!typeAllowed) {
+    await quarantineFile(target, 'type_not_allowed', { sniffedType });
+    return 'type_not_allowed';
+  }
+
+  if (sniffedType && !declaredTypeMatches(declaredType, sniffedType)) {
+    await quarantineFile(target, 'type_mismatch', { declaredType, sniffedType });
+    return 'type_mismatch';
+  }
+
+  const scanner = getFileScanner();
+  const result = await scanner.scan({ bucket: object.bucket, path, contentType: object.contentType || null });
+  if (!result.clean) {
+    await quarantineFile(target, 'malware', { scanner: scanner.name, threat: result.threat || null });
+    return 'malware';
+  }
+
+  return null;
+};
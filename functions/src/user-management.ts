@@ -0,0 +1,122 @@
+import * as admin from 'firebase-admin';
+
+// Admin user management: account search merged with Firebase Auth state,
+// role changes that keep custom claims in sync, and the login history.
+export const LOGIN_HISTORY_COLLECTION = 'login_history';
+
+// Suspension and password reset records, keyed by user ID. The users collection is
+// public, so who was suspended, why and by whom lives where only admins can read it.
+export const USER_MODERATION_COLLECTION = 'user_moderation';
+export const USER_MODERATION_FIELDS = ['suspendedAt', 'suspendedBy', 'suspensionReason', 'passwordResetRequestedAt', 'passwordResetRequestedBy'];
+
+export const USER_ROLES = ['CLIENT', 'THERAPIST', 'CLINIC_OWNER', 'ADMIN'];
+export const LOGIN_METHODS = ['password', 'google', 'facebook'];
+
+export const MAX_ADMIN_USERS_PAGE_SIZE = 100;
+export const MAX_LOGIN_HISTORY_ENTRIES = 50;
+
+// Auth's getUsers accepts at most 100 identifiers per call
+const AUTH_LOOKUP_BATCH = 100;
+
+export const loadAuthRecords = async (uids: string[]): Promise<Map<string, admin.auth.UserRecord>> => {
+  const records = new Map<string, admin.auth.UserRecord>();
+  for (let i = 0; i < uids.length; i += AUTH_LOOKUP_BATCH) {
+    const result = await admin.auth().getUsers(uids.slice(i, i + AUTH_LOOKUP_BATCH).map(uid => ({ uid })));
+    result.users.forEach(record => records.set(record.uid, record));
+  }
+  return records;
+};
+
+// Users read per query when paging past suspended accounts
+const USER_SCAN_BATCH = 100;
+
+/**
+ * Users an admin search matches: the exact user ID or email, or a name starting
+ * with the term. Firestore has no substring search, and these can be looked up
+ * without reading every user. Newest first, like the unfiltered list.
+ */
+export const findUserDocs = async (term: string): Promise<admin.firestore.DocumentSnapshot[]> => {
+  const users = admin.firestore().collection('users');
+  const emails = Array.from(new Set([term, term.toLowerCase()]));
+  const [byId, byEmail, byName] = await Promise.all([
+    // A slash would make the term a path rather than an ID
+    term.includes('/') ? null : users.doc(term).get(),
+    users.where('email', 'in', emails).limit(MAX_ADMIN_USERS_PAGE_SIZE).get(),
+    users.orderBy('name').startAt(term).endAt(`${term}\uf8ff`).limit(MAX_ADMIN_USERS_PAGE_SIZE).get()
+  ]);
+
+  const matches = new Map<string, admin.firestore.DocumentSnapshot>();
+  if (byId?.exists) matches.set(byId.id, byId);
+  [...byEmail.docs, ...byName.docs].forEach(doc => matches.set(doc.id, doc));
+  return Array.from(matches.values())
+    .sort((a, b) => (b.data()?.createdAt || '').localeCompare(a.data()?.createdAt || ''));
+};
+
+/**
+ * A page of an ordered users query without the suspended accounts. Accounts that
+ * were never suspended have no isActive field, which Firestore cannot match, so
+ * the query is read in order up to the end of the page, skipping suspended ones.
+ */
+export const loadActiveUserPage = async (query: admin.firestore.Query, offset: number, limit: number): Promise<admin.firestore.QueryDocumentSnapshot[]> => {
+  const page: admin.firestore.QueryDocumentSnapshot[] = [];
+  let skipped = 0;
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+
+  while (page.length < limit) {
+    const snapshot: admin.firestore.QuerySnapshot = await (last ? query.startAfter(last) : query).limit(USER_SCAN_BATCH).get();
+    for (const doc of snapshot.docs) {
+      if (doc.data().isActive === false) continue;
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      page.push(doc);
+      if (page.length === limit) break;
+    }
+    if (snapshot.size < USER_SCAN_BATCH) break;
+    last = snapshot.docs[snapshot.size - 1];
+  }
+  return page;
+};
+
+// The moderation records of the given users, in the same order
+export const loadUserModeration = async (uids: string[]): Promise<any[]> => {
+  if (uids.length === 0) return [];
+  const docs = await admin.firestore().getAll(
+    ...uids.map(uid => admin.firestore().collection(USER_MODERATION_COLLECTION).doc(uid))
+  );
+  return docs.map(doc => doc.data() || {});
+};
+
+/**
+ * A users document as the admin users tab sees it. Suspension is read from
+ * Firebase Auth, which is what actually blocks sign-in; the last login falls
+ * back to Auth's sign-in time for accounts that predate the login history.
+ * Users suspended before the details moved to USER_MODERATION_COLLECTION still
+ * carry them on their document.
+ */
+export const toManagedUser = (id: string, data: any, record?: admin.auth.UserRecord, moderation: any = {}) => {
+  const lastSignIn = record?.metadata.lastSignInTime ? new Date(record.metadata.lastSignInTime).toISOString() : undefined;
+  return {
+    id,
+    name: data.name || record?.displayName || '',
+    email: data.email || record?.email || '',
+    role: data.role || 'CLIENT',
+    profilePictureUrl: data.profilePictureUrl || record?.photoURL || undefined,
+    createdAt: data.createdAt,
+    lastLogin: data.lastLogin || lastSignIn,
+    isActive: record ? !record.disabled : data.isActive !== false,
+    hasAuthAccount: !!record,
+    suspendedAt: moderation.suspendedAt !== undefined ? moderation.suspendedAt : data.suspendedAt,
+    suspensionReason: moderation.suspensionReason !== undefined ? moderation.suspensionReason : data.suspensionReason
+  };
+};
+
+/**
+ * Sets the role claim the same way setUserRole does on sign-up, keeping any
+ * other claims on the account.
+ */
+export const syncRoleClaims = async (uid: string, role: string): Promise<void> => {
+  const record = await admin.auth().getUser(uid);
+  await admin.auth().setCustomUserClaims(uid, { ...(record.customClaims || {}), role });
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { isPrivateFilePath, getPrivateFileUrl } from '../src/firebase/storage';
+
+/**
+ * Resolves a stored file reference to something the browser can load. Private
+ * storage paths become short-lived signed URLs; older uploads that stored a
+ * public URL are returned as they are.
+ */
+export const usePrivateFileUrl = (pathOrUrl?: string | null) => {
+  const [url, setUrl] = useState<string | null>(isPrivateFilePath(pathOrUrl) ? null : pathOrUrl || null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!isPrivateFilePath(pathOrUrl)) {
+      setUrl(pathOrUrl || null);
+      return;
+    }
+
+    let cancelled = false;
+    setUrl(null);
+    getPrivateFileUrl(pathOrUrl)
+      .then(signedUrl => { if (!cancelled) setUrl(signedUrl); })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [pathOrUrl]);
+
+  return { url, error, isLoading: !url && !error && !!pathOrUrl };
+};
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from './useTranslation';
+import { FUNCTIONS_API_BASE_URL } from '../constants';
+
+// VAPID keys are base64url strings, but PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = window.atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+};
+
+const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// Manages this browser's Web Push subscription for the signed-in user
+export const usePushSubscription = () => {
+  const { token } = useAuth();
+  const { t, language } = useTranslation();
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(isPushSupported() ? Notification.permission : 'denied');
+  const [isBusy, setIsBusy] = useState(false);
+  const isSupported = isPushSupported();
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    navigator.serviceWorker.ready
+      .then(registration => registration.pushManager.getSubscription())
+      .then(subscription => setIsSubscribed(!!subscription))
+      .catch(error => console.error('Error reading push subscription:', error));
+  }, [isSupported]);
+
+  const callApi = useCallback(async (path: string, method: string, body?: unknown) => {
+    const response = await fetch(`${FUNCTIONS_API_BASE_URL}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+    if (data.status !== 'success') {
+      throw new Error(data.message || t('unknownApiError'));
+    }
+    return data;
+  }, [token, t]);
+
+  const subscribe = useCallback(async () => {
+    if (!isSupported || !token) return;
+
+    setIsBusy(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+
+      const { publicKey } = await callApi('/push/public_key', 'GET');
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey)
+        });
+
+      await callApi('/push_subscriptions', 'POST', { subscription: subscription.toJSON(), language });
+      setIsSubscribed(true);
+    } catch (error: any) {
+      console.error('Error subscribing to push notifications:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [isSupported, token, language, callApi]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!isSupported || !token) return;
+
+    setIsBusy(true);
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await callApi('/push_subscriptions', 'DELETE', { endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      setIsSubscribed(false);
+    } catch (error: any) {
+      console.error('Error unsubscribing from push notifications:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [isSupported, token, callApi]);
+
+  const sendTest = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      await callApi('/push_subscriptions/test', 'POST');
+    } catch (error: any) {
+      console.error('Error sending test push:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [callApi]);
+
+  return { isSupported, permission, isSubscribed, isBusy, subscribe, unsubscribe, sendTest };
+};
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from './useTranslation';
+import { ConversationContext } from '../types';
+import { FUNCTIONS_API_BASE_URL } from '../constants';
+
+interface ConversationTarget {
+  recipientId?: string; // User.id of the person to message
+  clinicId?: string; // Or a clinic, whose owner receives the message
+  recipientName: string; // For the login prompt
+  context?: ConversationContext;
+}
+
+// Opens (or reuses) the in-app conversation with a user and navigates to it
+export const useStartConversation = () => {
+  const { isAuthenticated, token, promptLogin } = useAuth();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [isStarting, setIsStarting] = useState(false);
+
+  const startConversation = useCallback(async ({ recipientId, clinicId, recipientName, context }: ConversationTarget) => {
+    if (!isAuthenticated || !token) {
+      promptLogin(t('sendMessageButton') + ` ${recipientName}`);
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/conversations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ recipientId, clinicId, context })
+      });
+      const data = await response.json();
+
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      navigate(`/messages/${data.conversation.id}`);
+    } catch (error: any) {
+      console.error('Error starting conversation:', error);
+      alert(`Error: ${error.message}`);
+    } finally {
+      setIsStarting(false);
+    }
+  }, [isAuthenticated, token, promptLogin, navigate, t]);
+
+  return { startConversation, isStarting };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { FUNCTIONS_API_BASE_URL } from '../constants';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Dispatched on window after a conversation is read, so the count refreshes right away
+export const UNREAD_MESSAGES_CHANGED_EVENT = 'unreadMessagesChanged';
+
+// Total unread messages across the user's conversations, refreshed periodically
+export const useUnreadMessageCount = () => {
+  const { isAuthenticated, token } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!isAuthenticated || !token) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const fetchCount = async () => {
+      try {
+        const response = await fetch(`${FUNCTIONS_API_BASE_URL}/conversations/unread_count`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+        if (data.status === 'success') {
+          setUnreadCount(data.count || 0);
+        }
+      } catch (error) {
+        console.error('Error fetching unread message count:', error);
+      }
+    };
+
+    fetchCount();
+    const intervalId = setInterval(fetchCount, POLL_INTERVAL_MS);
+    window.addEventListener('focus', fetchCount);
+    window.addEventListener(UNREAD_MESSAGES_CHANGED_EVENT, fetchCount);
+
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('focus', fetchCount);
+      window.removeEventListener(UNREAD_MESSAGES_CHANGED_EVENT, fetchCount);
+    };
+  }, [isAuthenticated, token]);
+
+  return unreadCount;
+};
@@ -0,0 +1,428 @@
+import React, { useState, useEffect, useCallback, useRef, FormEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { usePageTitle } from '../hooks/usePageTitle';
+import { UNREAD_MESSAGES_CHANGED_EVENT } from '../hooks/useUnreadMessageCount';
+import { Button } from '../components/common/Button';
+import { ChatBubbleLeftRightIcon, ChevronLeftIcon, ChevronRightIcon, DocumentTextIcon, UserCircleIcon, XIcon, ArrowUpOnSquareIcon } from '../components/icons';
+import { Conversation, Message, MessageAttachment } from '../types';
+import { FUNCTIONS_API_BASE_URL } from '../constants';
+import { uploadMessageAttachment } from '../src/firebase/storage';
+
+const THREAD_POLL_INTERVAL_MS = 10 * 1000;
+const INBOX_POLL_INTERVAL_MS = 30 * 1000;
+const MAX_ATTACHMENT_SIZE_MB = 10;
+const MAX_ATTACHMENTS = 5;
+
+const formatTimestamp = (iso: string, language: string) => {
+  const date = new Date(iso);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(language, { month: 'short', day: 'numeric' });
+};
+
+const ParticipantAvatar: React.FC<{ url?: string | null; name: string; className?: string }> = ({ url, name, className = 'w-10 h-10' }) => (
+  url
+    ? <img src={url} alt={name} className={`${className} rounded-full object-cover flex-shrink-0`} />
+    : <UserCircleIcon className={`${className} text-accent flex-shrink-0`} />
+);
+
+// --- Conversation list ---
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId?: string;
+  currentUserId: string;
+  isLoading: boolean;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeConversationId, currentUserId, isLoading }) => {
+  const { t, language } = useTranslation();
+
+  if (isLoading && conversations.length === 0) {
+    return <p className="p-4 text-sm text-gray-500">{t('loadingConversations')}</p>;
+  }
+  if (conversations.length === 0) {
+    return (
+      <div className="p-6 text-center">
+        <ChatBubbleLeftRightIcon className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+        <p className="text-sm text-gray-500">{t('noConversationsYet')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {conversations.map(conversation => {
+        const other = conversation.participants.find(p => p.userId !== currentUserId);
+        const unread = conversation.unreadCounts?.[currentUserId] || 0;
+        return (
+          <li key={conversation.id}>
+            <Link
+              to={`/messages/${conversation.id}`}
+              className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition-colors ${conversation.id === activeConversationId ? 'bg-accent/10' : ''}`}
+            >
+              <ParticipantAvatar url={other?.profilePictureUrl} name={other?.name || ''} />
+              <div className="flex-grow min-w-0">
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className={`truncate text-sm ${unread > 0 ? 'font-semibold text-textOnLight' : 'font-medium text-textOnLight/90'}`}>{other?.name || t('unknownUser')}</span>
+                  {conversation.lastMessage && (
+                    <span className="text-xs text-gray-400 flex-shrink-0">{formatTimestamp(conversation.lastMessage.sentAt, language)}</span>
+                  )}
+                </div>
+                {conversation.context?.label && (
+                  <p className="text-xs text-accent truncate">{conversation.context.label}</p>
+                )}
+                <div className="flex justify-between items-center gap-2">
+                  <p className="text-xs text-gray-500 truncate">
+                    {conversation.lastMessage
+                      ? `${conversation.lastMessage.senderId === currentUserId ? t('youPrefix') : ''}${conversation.lastMessage.text}`
+                      : t('noMessagesYet')}
+                  </p>
+                  {unread > 0 && (
+                    <span className="bg-accent text-white text-[10px] font-bold rounded-full px-1.5 py-0.5 flex-shrink-0">{unread}</span>
+                  )}
+                </div>
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+// --- Single thread ---
+interface ConversationThreadProps {
+  conversationId: string;
+  currentUserId: string;
+  onConversationRead: () => void;
+}
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({ conversationId, currentUserId, onConversationRead }) => {
+  const { token } = useAuth();
+  const { t, direction, language } = useTranslation();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+
+  const markAsRead = useCallback(async () => {
+    try {
+      await fetch(`${FUNCTIONS_API_BASE_URL}/conversations/${conversationId}/read`, {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      onConversationRead();
+      window.dispatchEvent(new Event(UNREAD_MESSAGES_CHANGED_EVENT));
+    } catch (err) {
+      console.error('Error marking conversation as read:', err);
+    }
+  }, [conversationId, token, onConversationRead]);
+
+  const fetchMessages = useCallback(async (before?: string) => {
+    try {
+      const params = new URLSearchParams();
+      if (before) params.append('before', before);
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/conversations/${conversationId}/messages?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+
+      setConversation(data.conversation);
+      if (before) {
+        setMessages(prev => [...data.data, ...prev]);
+        setHasMore(data.hasMore);
+      } else {
+        // Polling returns the latest page; keep any older messages already loaded above it
+        setMessages(prev => {
+          const oldestFetched = data.data[0]?.createdAt;
+          const older = oldestFetched ? prev.filter(message => message.createdAt < oldestFetched) : [];
+          return [...older, ...data.data];
+        });
+        if (!lastMessageIdRef.current) setHasMore(data.hasMore);
+
+        // Only mark as read when something new has arrived from the other side
+        const newest = data.data[data.data.length - 1];
+        if (newest && newest.id !== lastMessageIdRef.current) {
+          lastMessageIdRef.current = newest.id;
+          if (newest.senderId !== currentUserId) markAsRead();
+        }
+      }
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('unknownApiError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId, token, currentUserId, markAsRead, t]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setMessages([]);
+    lastMessageIdRef.current = null;
+    fetchMessages();
+    const intervalId = setInterval(() => fetchMessages(), THREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [conversationId, fetchMessages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS) {
+      alert(t('messageTooManyAttachments', { count: MAX_ATTACHMENTS }));
+      return;
+    }
+    const tooLarge = files.find(file => file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+    if (tooLarge) {
+      alert(t('messageAttachmentTooLarge', { name: tooLarge.name, size: MAX_ATTACHMENT_SIZE_MB }));
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await Promise.all(files.map(file => uploadMessageAttachment(file, conversationId)));
+      setPendingAttachments(prev => [...prev, ...uploaded]);
+    } catch (err: any) {
+      alert(`Error: ${err.message}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() && pendingAttachments.length === 0) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ text, attachments: pendingAttachments })
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      lastMessageIdRef.current = data.data.id;
+      setMessages(prev => [...prev, data.data]);
+      setText('');
+      setPendingAttachments([]);
+      onConversationRead();
+    } catch (err: any) {
+      alert(`Error: ${err.message}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const other = conversation?.participants.find(p => p.userId !== currentUserId);
+  const otherLastReadAt = other ? conversation?.lastReadAt?.[other.userId] : undefined;
+  const lastOwnMessage = [...messages].reverse().find(message => message.senderId === currentUserId);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200">
+        <Link to="/messages" className="md:hidden text-gray-500 hover:text-accent" aria-label={t('backToInbox')}>
+          {direction === 'rtl' ? <ChevronRightIcon className="w-5 h-5" /> : <ChevronLeftIcon className="w-5 h-5" />}
+        </Link>
+        <ParticipantAvatar url={other?.profilePictureUrl} name={other?.name || ''} className="w-9 h-9" />
+        <div className="min-w-0">
+          <p className="font-semibold text-textOnLight truncate">{other?.name || t('loading')}</p>
+          {conversation?.context?.label && (
+            <p className="text-xs text-accent truncate">{t('conversationAbout', { label: conversation.context.label })}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-4 py-3 space-y-3 bg-gray-50/50">
+        {hasMore && (
+          <div className="text-center">
+            <Button variant="link" size="sm" onClick={() => fetchMessages(messages[0]?.createdAt)}>{t('loadOlderMessages')}</Button>
+          </div>
+        )}
+        {isLoading && <p className="text-sm text-gray-500 text-center">{t('loading')}</p>}
+        {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+        {!isLoading && messages.length === 0 && !error && (
+          <p className="text-sm text-gray-500 text-center py-8">{t('startConversationHint')}</p>
+        )}
+        {messages.map(message => {
+          const isOwn = message.senderId === currentUserId;
+          return (
+            <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] rounded-lg px-3 py-2 shadow-sm ${isOwn ? 'bg-accent text-white' : 'bg-white text-textOnLight'}`}>
+                {message.text && <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>}
+                {(message.attachments || []).map(attachment => (
+                  <a
+                    key={attachment.path}
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`flex items-center gap-1.5 text-xs mt-1 underline ${isOwn ? 'text-white/90' : 'text-accent'}`}
+                  >
+                    <DocumentTextIcon className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{attachment.name}</span>
+                  </a>
+                ))}
+                <p className={`text-[10px] mt-1 ${isOwn ? 'text-white/70 text-end' : 'text-gray-400'}`}>
+                  {formatTimestamp(message.createdAt, language)}
+                  {isOwn && message.id === lastOwnMessage?.id && (
+                    <> · {otherLastReadAt && otherLastReadAt >= message.createdAt ? t('messageRead') : t('messageSent')}</>
+                  )}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="border-t border-gray-200 p-3 space-y-2">
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {pendingAttachments.map(attachment => (
+              <span key={attachment.path} className="inline-flex items-center gap-1 text-xs bg-gray-100 rounded-full px-2 py-1">
+                <DocumentTextIcon className="w-3.5 h-3.5" />
+                <span className="truncate max-w-[150px]">{attachment.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setPendingAttachments(prev => prev.filter(item => item.path !== attachment.path))}
+                  className="text-gray-400 hover:text-red-500"
+                  aria-label={t('removeAttachment')}
+                >
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            title={t('attachFile')}
+            aria-label={t('attachFile')}
+          >
+            <ArrowUpOnSquareIcon className="w-5 h-5" />
+          </Button>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend(e);
+              }
+            }}
+            rows={1}
+            maxLength={5000}
+            placeholder={t('typeMessagePlaceholder')}
+            className="flex-grow resize-none px-3 py-2 border border-gray-300 rounded-md text-sm text-textOnLight bg-primary focus:outline-none focus:ring-accent focus:border-accent"
+          />
+          <Button type="submit" variant="primary" size="sm" disabled={isSending || isUploading || (!text.trim() && pendingAttachments.length === 0)}>
+            {isUploading ? t('uploading') : t('sendMessage')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- Inbox page ---
+export const MessagesPage: React.FC = () => {
+  const { user, token } = useAuth();
+  const { t } = useTranslation();
+  usePageTitle('messagesPageTitle');
+  const { conversationId } = useParams<{ conversationId: string }>();
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConversations = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/conversations`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status !== 'success') {
+        throw new Error(data.message || t('unknownApiError'));
+      }
+      setConversations(data.data || []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || t('unknownApiError'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, t]);
+
+  useEffect(() => {
+    fetchConversations();
+    const intervalId = setInterval(fetchConversations, INBOX_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [fetchConversations]);
+
+  if (!user) return null;
+
+  return (
+    <div className="container mx-auto px-0 sm:px-4 py-0 sm:py-6 flex-grow flex flex-col">
+      <div className="bg-primary sm:rounded-lg shadow-lg flex flex-grow overflow-hidden h-[calc(100vh-4rem-1px)] sm:h-[calc(100vh-7rem)]">
+        <aside className={`w-full md:w-80 lg:w-96 border-e border-gray-200 flex-shrink-0 flex flex-col ${conversationId ? 'hidden md:flex' : 'flex'}`}>
+          <h1 className="text-xl font-semibold text-textOnLight px-4 py-3 border-b border-gray-200">{t('messagesPageTitle')}</h1>
+          {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+          <div className="flex-grow overflow-y-auto">
+            <ConversationList
+              conversations={conversations}
+              activeConversationId={conversationId}
+              currentUserId={user.id}
+              isLoading={isLoading}
+            />
+          </div>
+        </aside>
+        <section className={`flex-grow min-w-0 ${conversationId ? 'flex flex-col' : 'hidden md:flex md:flex-col'}`}>
+          {conversationId ? (
+            <ConversationThread
+              key={conversationId}
+              conversationId={conversationId}
+              currentUserId={user.id}
+              onConversationRead={fetchConversations}
+            />
+          ) : (
+            <div className="flex flex-col flex-grow items-center justify-center text-center p-8">
+              <ChatBubbleLeftRightIcon className="w-14 h-14 text-accent/40 mb-3" />
+              <p className="text-gray-500">{t('selectConversationHint')}</p>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,23 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Therapist, UserRole } from '../types';
-import { API_BASE_URL, APP_NAME, AVAILABILITY_OPTIONS, SPECIALIZATIONS_LIST, LANGUAGES_LIST } from '../constants'; 
+import { API_BASE_URL, FUNCTIONS_API_BASE_URL, APP_NAME, AVAILABILITY_OPTIONS, SPECIALIZATIONS_LIST, LANGUAGES_LIST } from '../constants'; 
 import { TherapistDetailModal } from '../components/TherapistDetailModal';
+import { BookSessionModal } from '../components/BookSessionModal';
 import { Button } from '../components/common/Button';
 import { SwipableTherapistCard } from '../components/therapist-finder/SwipableTherapistCard';
 import { TherapistCard } from '../components/TherapistCard';
-import { TherapistMapView } from '../components/therapist-finder/TherapistMapView';
+import { TherapistMapView, MapSearchArea } from '../components/therapist-finder/TherapistMapView';
 import { Modal } from '../components/common/Modal';
 import { InputField, SelectField, CheckboxField } from '../components/dashboard/shared/FormElements';
 import { useTranslation } from '../hooks/useTranslation';
 import { usePageTitle } from '../hooks/usePageTitle';
+import { useStartConversation } from '../hooks/useStartConversation';
+import { useTherapistDirectory } from '../src/hooks/useTherapistDirectory';
+import { sendOrQueue } from '../src/outbox';
+import { DataSyncStatus } from '../src/components/common/DataSyncStatus';
 
 import {
-    HeartIcon, ChevronLeftIcon, ChevronRightIcon, WhatsAppIcon, InformationCircleIcon,
+    HeartIcon, ChevronLeftIcon, ChevronRightIcon, ChatBubbleLeftRightIcon, InformationCircleIcon,
     AdjustmentsHorizontalIcon, TableCellsIcon, MapIcon, ListBulletIcon, XIcon, FilterSolidIcon
 } from '../components/icons';
 import { useAuth } from '../contexts/AuthContext';
@@ -37,6 +42,19 @@ const BOTTOM_NAV_HEIGHT_PX = 56;
 const ACTION_BUTTONS_SWIPE_AREA_HEIGHT_PX = 80;
 const API_TIMEOUT_MS = 10000; // Timeout for API calls
 
+// Applies the filters that work without the server to the directory saved for offline use
+const filterSavedDirectory = (therapists: Therapist[], filters: Filters): Therapist[] => {
+  const searchTerm = filters.searchTerm.trim().toLowerCase();
+  const locationSearch = filters.locationSearch.trim().toLowerCase();
+  return therapists.filter(therapist =>
+    (!searchTerm || (therapist.name || '').toLowerCase().includes(searchTerm)) &&
+    (filters.specializations.length === 0 || filters.specializations.some(spec => (therapist.specializations || []).includes(spec))) &&
+    (filters.languages.length === 0 || filters.languages.some(lang => (therapist.languages || []).includes(lang))) &&
+    (therapist.rating || 0) >= filters.minRating &&
+    (!locationSearch || (therapist.locations || []).some(location => (location.address || '').toLowerCase().includes(locationSearch)))
+  );
+};
+
 const useSwipeKeyboardControls = (onSwipeLeft: () => void, onSwipeRight: () => void, onSwipeUp: () => void, enabled: boolean) => {
   useEffect(() => {
     if (!enabled) return;
@@ -56,15 +74,22 @@ export const TherapistFinderPage: React.FC = () => {
   const { t, direction } = useTranslation();
   usePageTitle('therapistFinderTitle');
   const navigate = useNavigate();
+  const { startConversation } = useStartConversation();
 
   const [allTherapistsStorage, setAllTherapistsStorage] = useState<Therapist[]>([]); 
   const [displayedTherapists, setDisplayedTherapists] = useState<Therapist[]>([]); 
-  const [totalTherapistsCount, setTotalTherapistsCount] = useState(0); 
+  const [nextPageCursor, setNextPageCursor] = useState<string | null>(null); 
   const [apiLoading, setApiLoading] = useState(true); 
   const [apiError, setApiError] = useState<string | null>(null);
+  const [isShowingSavedDirectory, setIsShowingSavedDirectory] = useState(false);
+  const { data: savedDirectory, isSyncing: isDirectorySyncing, lastSynced: directoryLastSynced, error: directorySyncError } = useTherapistDirectory();
+  // Read through a ref so each directory sync doesn't refetch the page
+  const savedDirectoryRef = useRef<Therapist[]>(savedDirectory);
+  savedDirectoryRef.current = savedDirectory;
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [selectedTherapistForModal, setSelectedTherapistForModal] = useState<Therapist | null>(null);
+  const [therapistToBook, setTherapistToBook] = useState<Therapist | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [swipeAnimation, setSwipeAnimation] = useState<'left' | 'right' | 'up' | 'enter' | null>('enter');
@@ -83,7 +108,8 @@ export const TherapistFinderPage: React.FC = () => {
     locationSearch: '',
     showOnlyLiked: false,
   });
-  const [gridCurrentPage, setGridCurrentPage] = useState(1);
+  const [gridCursorStack, setGridCursorStack] = useState<string[]>([]); // Cursors of the grid pages after the first
+  const [mapSearchArea, setMapSearchArea] = useState<MapSearchArea | null>(null);
 
   const mainContentAreaPaddingBottom = useMemo(() => {
     if (viewMode === 'swipe') {
@@ -97,7 +123,10 @@ export const TherapistFinderPage: React.FC = () => {
   const availableLanguages = useMemo(() => LANGUAGES_LIST.sort(), []);
   const availableAvailabilities = useMemo(() => AVAILABILITY_OPTIONS, []);
 
-  const fetchTherapists = useCallback(async (filters: Filters, page: number = 1, limit: number = ITEMS_PER_PAGE_GRID) => {
+  const gridCurrentCursor = gridCursorStack.length > 0 ? gridCursorStack[gridCursorStack.length - 1] : null;
+  const gridCurrentPage = gridCursorStack.length + 1;
+
+  const fetchTherapists = useCallback(async (filters: Filters, cursor: string | null = null, limit: number = ITEMS_PER_PAGE_GRID) => {
     setApiLoading(true);
     setApiError(null);
     const controller = new AbortController();
@@ -108,19 +137,22 @@ export const TherapistFinderPage: React.FC = () => {
 
     try {
         const queryParams = new URLSearchParams({
-            page: String(page),
-            limit: String(viewMode === 'swipe' ? 100 : limit), // Fetch more for swipe mode initially
+            limit: String(viewMode === 'swipe' || viewMode === 'map' ? 100 : limit), // Fetch more for swipe and map modes
         });
+        if (cursor) queryParams.append('cursor', cursor);
         if (filters.searchTerm) queryParams.append('searchTerm', filters.searchTerm);
         if (filters.specializations.length > 0) queryParams.append('specializations', filters.specializations.join(','));
         if (filters.languages.length > 0) queryParams.append('languages', filters.languages.join(','));
         if (filters.minRating > 0) queryParams.append('minRating', String(filters.minRating));
         if (filters.availability.length > 0) queryParams.append('availability', filters.availability.join(','));
         if (filters.locationSearch) queryParams.append('locationSearch', filters.locationSearch);
+        if (viewMode === 'map' && mapSearchArea) {
+            queryParams.append('near', `${mapSearchArea.lat},${mapSearchArea.lng}`);
+            queryParams.append('radiusKm', String(mapSearchArea.radiusKm));
+        }
         // Note: showOnlyLiked will be handled client-side after fetching favorites or passed as a param if backend supports it
 
-        // TODO: Implement actual API call
-        const response = await fetch(`${API_BASE_URL}/therapists.php?${queryParams.toString()}`, {
+        const response = await fetch(`${FUNCTIONS_API_BASE_URL}/therapists?${queryParams.toString()}`, {
             signal: controller.signal,
             headers: token ? { 'Authorization': `Bearer ${token}` } : {}
         });
@@ -132,6 +164,7 @@ export const TherapistFinderPage: React.FC = () => {
         const data = await response.json();
 
         if (data.status === 'success') {
+            setIsShowingSavedDirectory(false);
             setAllTherapistsStorage(data.therapists || []); // Store all fetched (potentially for caching if filters change slightly)
             
             let finalFiltered = data.therapists || [];
@@ -140,7 +173,7 @@ export const TherapistFinderPage: React.FC = () => {
             }
             
             setDisplayedTherapists(finalFiltered);
-            setTotalTherapistsCount(data.pagination?.totalItems || finalFiltered.length);
+            setNextPageCursor(data.pagination?.nextCursor || null);
             setCurrentIndex(0);
             setSwipeAnimation(finalFiltered.length > 0 ? 'enter' : null);
         } else {
@@ -148,15 +181,30 @@ export const TherapistFinderPage: React.FC = () => {
         }
     } catch (error: any) {
         clearTimeout(timeoutId);
+        setNextPageCursor(null);
+        // Offline or unreachable: fall back to the directory saved by delta sync
+        const savedTherapists = savedDirectoryRef.current;
+        if (savedTherapists.length > 0) {
+            let finalFiltered = filterSavedDirectory(savedTherapists, filters);
+            if (isAuthenticated && filters.showOnlyLiked && favorites.size > 0) {
+                finalFiltered = finalFiltered.filter(therapist => favorites.has(therapist.id));
+            }
+            setApiError(null);
+            setIsShowingSavedDirectory(true);
+            setAllTherapistsStorage(savedTherapists);
+            setDisplayedTherapists(finalFiltered);
+            setCurrentIndex(0);
+            setSwipeAnimation(finalFiltered.length > 0 ? 'enter' : null);
+            return;
+        }
         if (error.name !== 'AbortError') { // Don't override timeout error
             setApiError(error.message || t('unknownApiError'));
         }
         setDisplayedTherapists([]);
-        setTotalTherapistsCount(0);
     } finally {
         setApiLoading(false);
     }
-  }, [token, viewMode, isAuthenticated, favorites, t]); // Added t to dependencies
+  }, [token, viewMode, mapSearchArea, isAuthenticated, favorites, t]); // Added t to dependencies
 
   const fetchFavorites = useCallback(async () => {
     if (!isAuthenticated || !token) {
@@ -191,8 +239,8 @@ export const TherapistFinderPage: React.FC = () => {
   }, [fetchFavorites]);
   
   useEffect(() => {
-    fetchTherapists(activeFilters, gridCurrentPage);
-  }, [activeFilters, gridCurrentPage, fetchTherapists, favorites]); // Add favorites here to refilter when they change
+    fetchTherapists(activeFilters, gridCurrentCursor);
+  }, [activeFilters, gridCurrentCursor, fetchTherapists, favorites]); // Add favorites here to refilter when they change
 
 
   const numActiveFilters = useMemo(() => {
@@ -214,7 +262,7 @@ export const TherapistFinderPage: React.FC = () => {
         setViewMode(newMode);
         setAnimateView(true);
         setTimeout(() => setAnimateView(false), 300);
-        if (newMode === 'grid') fetchTherapists(activeFilters, 1, ITEMS_PER_PAGE_GRID); // Reset to page 1 for grid
+        setGridCursorStack([]); // Start from the first page; the view mode change refetches
     }
   };
 
@@ -264,14 +312,17 @@ export const TherapistFinderPage: React.FC = () => {
     });
 
     try {
-        const response = await fetch(`${API_BASE_URL}/client_favorites.php`, {
+        // Offline, the toggle waits in the outbox and the optimistic update stands
+        const result = await sendOrQueue('favorite_toggle', `${API_BASE_URL}/client_favorites.php`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${token}`
             },
             body: JSON.stringify({ therapistId })
-        });
+        }, `favorite:${therapistId}`);
+        if (result.queued) return;
+        const response = result.response;
         
         if (!response.ok) {
             throw new Error(`Server responded with status: ${response.status}`);
@@ -291,7 +342,7 @@ export const TherapistFinderPage: React.FC = () => {
         } else {
              // If showOnlyLiked filter is active, refetch might be needed or client-side filter
             if (activeFilters.showOnlyLiked) {
-                fetchTherapists(activeFilters, gridCurrentPage);
+                fetchTherapists(activeFilters, gridCurrentCursor);
             }
         }
     } catch (error) {
@@ -305,16 +356,22 @@ export const TherapistFinderPage: React.FC = () => {
         console.error("Error toggling favorite:", error);
     }
 
-  }, [isAuthenticated, user, token, promptLogin, t, favorites, allTherapistsStorage, activeFilters, gridCurrentPage, fetchTherapists]);
+  }, [isAuthenticated, user, token, promptLogin, t, favorites, allTherapistsStorage, activeFilters, gridCurrentCursor, fetchTherapists]);
 
   const handleConnect = (therapist: Therapist) => {
-    if (!isAuthenticated) {
-      promptLogin(t('connectOnWhatsApp') + ` ${therapist.name}`);
+    startConversation({
+      recipientId: therapist.id,
+      recipientName: therapist.name,
+      context: { type: 'therapist', id: therapist.id }
+    });
+  };
+
+  const handleBookSession = (therapist: Therapist) => {
+    if (!isAuthenticated || user?.role !== UserRole.CLIENT) {
+      promptLogin(t('bookSessionButton') + ` ${therapist.name}`);
       return;
     }
-    const cleanWhatsAppNumber = therapist.whatsappNumber.replace(/\D/g, '');
-    const whatsappMessage = encodeURIComponent(t('whatsappGreeting', { name: therapist.name.split(' ').pop() || '', appName: t('appName') }) || `Hello Dr. ${therapist.name.split(' ').pop()}, I found you on ${t('appName')}.`);
-    window.open(`https://wa.me/${cleanWhatsAppNumber}?text=${whatsappMessage}`, '_blank');
+    setTherapistToBook(therapist);
   };
 
   const handleViewProfile = (therapist: Therapist) => {
@@ -329,14 +386,11 @@ export const TherapistFinderPage: React.FC = () => {
 
   const applyFilters = (newFilters: Filters) => {
     setActiveFilters(newFilters);
-    setGridCurrentPage(1); // Reset to first page on filter change
+    setGridCursorStack([]); // Reset to first page on filter change
     setIsFilterModalOpen(false);
     // fetchTherapists will be called by useEffect due to activeFilters change
   };
 
-  const totalGridPages = Math.ceil(totalTherapistsCount / ITEMS_PER_PAGE_GRID);
-
-
   const NoResultsFound = () => (
       <div className="flex flex-col flex-grow items-center justify-center text-center p-8 h-full">
         <InformationCircleIcon className="w-16 h-16 text-accent/50 mb-4"/>
@@ -409,24 +463,25 @@ export const TherapistFinderPage: React.FC = () => {
                     therapist={therapist}
                     onViewProfile={handleViewProfile}
                     onToggleFavorite={toggleFavorite}
+                    onMessage={handleConnect}
                     isFavorite={favorites.has(therapist.id)}
                 />
                 ))}
             </div>
-            {totalGridPages > 1 && (
+            {(gridCurrentPage > 1 || nextPageCursor) && (
             <div className="flex justify-center items-center mt-2 mb-6 space-x-2">
               <Button
-                onClick={() => setGridCurrentPage(prev => Math.max(1, prev - 1))}
+                onClick={() => setGridCursorStack(prev => prev.slice(0, -1))}
                 disabled={gridCurrentPage === 1}
                 variant="light" size="md" leftIcon={direction === 'rtl' ? <ChevronRightIcon /> :<ChevronLeftIcon/>}
                 className="active:scale-95"
               > {t('prev')} </Button>
               <span className="text-sm text-textOnLight/80">
-                Page {gridCurrentPage} of {totalGridPages}
+                {t('gridPageLabel', { page: gridCurrentPage })}
               </span>
               <Button
-                onClick={() => setGridCurrentPage(prev => Math.min(totalGridPages, prev + 1))}
-                disabled={gridCurrentPage === totalGridPages}
+                onClick={() => nextPageCursor && setGridCursorStack(prev => [...prev, nextPageCursor])}
+                disabled={!nextPageCursor}
                 variant="light" size="md" rightIcon={direction === 'rtl' ? <ChevronLeftIcon /> :<ChevronRightIcon />}
                 className="active:scale-95"
               > {t('next')} </Button>
@@ -442,7 +497,7 @@ export const TherapistFinderPage: React.FC = () => {
 
     return (
         <div className={`w-full h-full ${animateView ? 'animate-slide-up-fade-in' : ''}`}>
-            <TherapistMapView therapists={displayedTherapists} onViewProfile={handleViewProfile} />
+            <TherapistMapView therapists={displayedTherapists} onViewProfile={handleViewProfile} onAreaChange={setMapSearchArea} />
         </div>
     );
   };
@@ -495,6 +550,16 @@ export const TherapistFinderPage: React.FC = () => {
         .animate-card-enter { animation: card-enter 0.3s ease-out forwards; }
       `}</style>
 
+      {isShowingSavedDirectory && (
+        <p className="text-xs text-center text-yellow-800 bg-yellow-100 px-4 py-1">{t('savedDirectoryNotice')}</p>
+      )}
+
+      {isAuthenticated && user?.role === UserRole.CLIENT && (
+        <div className="flex justify-center px-4 py-1">
+          <DataSyncStatus lastSyncTime={directoryLastSynced} isSyncing={isDirectorySyncing} syncError={directorySyncError} />
+        </div>
+      )}
+
       <div className={`w-full flex-grow flex flex-col relative overflow-hidden ${
           viewMode === 'swipe' ? '' : 
           viewMode === 'grid' ? 'px-4 pt-1 overflow-y-auto' : 
@@ -527,9 +592,9 @@ export const TherapistFinderPage: React.FC = () => {
 
                 <Button
                     variant="primary" size="lg" onClick={() => handleConnect(currentTherapistForSwipe)}
-                    className="!p-3 sm:!p-4 rounded-full shadow-lg !bg-green-500 hover:!bg-green-600 !text-white active:scale-95"
-                    aria-label={t('connectOnWhatsApp')} title={t('connectOnWhatsApp')}
-                ><WhatsAppIcon className="w-5 h-5 sm:w-7 sm:h-7" /></Button>
+                    className="!p-3 sm:!p-4 rounded-full shadow-lg !text-white active:scale-95"
+                    aria-label={t('sendMessageButton')} title={t('sendMessageButton')}
+                ><ChatBubbleLeftRightIcon className="w-5 h-5 sm:w-7 sm:h-7" /></Button>
 
                 <Button
                     variant="light" size="lg" onClick={() => toggleFavorite(currentTherapistForSwipe.id)}
@@ -620,9 +685,17 @@ export const TherapistFinderPage: React.FC = () => {
           onClose={handleCloseDetailModal}
           onToggleFavorite={toggleFavorite}
           isFavorite={selectedTherapistForModal ? favorites.has(selectedTherapistForModal.id) : false}
+          onBookSession={handleBookSession}
+          onMessage={handleConnect}
         />
       )}
 
+      <BookSessionModal
+        therapist={therapistToBook}
+        isOpen={!!therapistToBook}
+        onClose={() => setTherapistToBook(null)}
+      />
+
       <FilterModalComponent
         isOpen={isFilterModalOpen}
         onClose={() => setIsFilterModalOpen(false)}
@@ -721,7 +794,7 @@ const FilterModalComponent: React.FC<FilterModalProps> = ({
                         name="searchTerm"
                         value={tempFilters.searchTerm}
                         onChange={handleInputChange}
-                        placeholder={t('searchByNamePlaceholder', {default: "e.g., Dr. Evelyn"})}
+                        placeholder={t('searchByNamePlaceholder', {default: "e.g., Dr. Evelyn, anxiety, CBT"})}
                         containerClassName="mb-3"
                     />
                     <InputField
@@ -4,15 +4,18 @@ import { Outlet, Route, Routes, useOutletContext } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from '../../hooks/useTranslation';
 import { usePageTitle } from '../../hooks/usePageTitle';
-import { UserRole, Therapist, Clinic, UserInquiry, ActivityLog } from '../../types';
-import { API_BASE_URL } from '../../constants'; 
+import { UserRole, Therapist, Clinic, UserInquiry, ActivityLog, Review, UserManagementInfo, LoginHistoryEntry, Certification } from '../../types';
+import { API_BASE_URL, FUNCTIONS_API_BASE_URL, getIssuingBodiesForCountry } from '../../constants'; 
 import { DashboardLayout } from '../../components/dashboard/shared/DashboardLayout';
 import { Button } from '../../components/common/Button';
-import { InputField, TextareaField } from '../../components/dashboard/shared/FormElements';
+import { InputField, TextareaField, CheckboxField } from '../../components/dashboard/shared/FormElements';
 import { Modal } from '../../components/common/Modal';
+import { resetPassword } from '../../src/firebase/auth';
+import { usePrivateFileUrl } from '../../hooks/usePrivateFileUrl';
 import { 
     UsersIcon, BuildingOfficeIcon, ChatBubbleLeftRightIcon, DocumentTextIcon, 
-    CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, EyeIcon, PencilIcon, ArrowDownTrayIcon 
+    CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, EyeIcon, PencilIcon, ArrowDownTrayIcon, StarIcon,
+    UserCircleIcon, ClockIcon, KeyIcon, ShieldCheckIcon
 } from '../../components/icons';
 
 interface OutletContextType {
@@ -20,10 +23,13 @@ interface OutletContextType {
   clinicsList: Clinic[];
   userInquiriesList: UserInquiry[];
   activityLogsList: ActivityLog[];
+  reviewsList: Review[];
   handleTherapistStatusChange: (therapistId: string, status: Therapist['accountStatus'], notes?: string) => Promise<void>;
   handleClinicStatusChange: (clinicId: string, status: Clinic['accountStatus'], notes?: string) => Promise<void>;
   handleInquiryStatusChange: (inquiryId: string, status: UserInquiry['status'], adminReply?: string) => Promise<void>;
-  addActivityLog: (logEntry: Omit<ActivityLog, 'id' | 'timestamp'>) => Promise<void>;
+  handleReviewStatusChange: (reviewId: string, status: Review['status'], moderationNote?: string) => Promise<void>;
+  addActivityLog: (logEntry: Omit<ActivityLog, 'id' | 'timestamp'>) => Promise<void>; // For actions that change nothing server-side, e.g. exports
+  refreshActivityLogs: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -231,6 +237,18 @@ const AdminTherapistsValidationTabContent: React.FC = () => {
                                         <div className="text-sm font-medium">{therapist.name}</div>
                                         <div className="text-xs text-gray-400 md:hidden">{therapist.email || 'N/A'}</div>
                                         {therapist.adminNotes && <div className="text-xs text-yellow-500 mt-1 truncate max-w-xs md:max-w-sm" title={therapist.adminNotes}>{t('notePrefix')}{therapist.adminNotes}</div>}
+                                        {!!therapist.licenseWarnings?.length && (
+                                            <div
+                                                className={`text-xs mt-1 flex items-center ${therapist.licenseWarnings.some(warning => warning.expiryState === 'expired') ? 'text-red-600' : 'text-orange-600'}`}
+                                                title={therapist.licenseWarnings.map(warning => `${warning.name}: ${warning.expiresAt}`).join('\n')}
+                                            >
+                                                <ExclamationTriangleIcon className="w-3 h-3 me-1"/>
+                                                {t('licenseWarningSummary', {
+                                                    expired: therapist.licenseWarnings.filter(warning => warning.expiryState === 'expired').length,
+                                                    expiring: therapist.licenseWarnings.filter(warning => warning.expiryState === 'expiring').length
+                                                })}
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 hidden md:table-cell">{therapist.email || 'N/A'}</td>
                                     <td className="px-4 py-3 whitespace-nowrap text-xs">
@@ -399,6 +417,344 @@ const AdminClinicApprovalTabContent: React.FC = () => {
     );
 };
 
+// --- Certification Document Modal ---
+interface CertificationDocumentModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    certification: Certification | null;
+}
+const CertificationDocumentModal: React.FC<CertificationDocumentModalProps> = ({ isOpen, onClose, certification }) => {
+    const { t } = useTranslation();
+    const fileRef = certification ? certification.filePath || certification.fileUrl : null;
+    // Signed URLs expire quickly, so one is only requested while the modal is open
+    const { url, error, isLoading } = usePrivateFileUrl(isOpen ? fileRef : null);
+    if (!certification || !fileRef) return null;
+    const isPdf = /\.pdf($|\?)/i.test(fileRef);
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={certification.name} size="3xl">
+            {error ? <p className="text-sm text-red-600">{error}</p> :
+             isLoading || !url ? <p className="text-sm text-gray-500">{t('loading')}</p> :
+             isPdf
+                ? <iframe src={url} title={certification.name} className="w-full h-[60vh] border border-gray-200 rounded-md" />
+                : <img src={url} alt={certification.name} className="max-h-[60vh] mx-auto rounded-md" />
+            }
+            {url && (
+                <div className="mt-3 text-end">
+                    <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-accent hover:underline">{t('openDocumentInNewTab')}</a>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+// --- Review Certification Modal ---
+interface ReviewCertificationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (review: { decision: 'approved' | 'rejected'; notes: string; expiresAt: string; issuingBody: string; isRequired: boolean }) => void;
+    certification: Certification | null;
+    decision: 'approved' | 'rejected';
+}
+const ReviewCertificationModal: React.FC<ReviewCertificationModalProps> = ({ isOpen, onClose, onSubmit, certification, decision }) => {
+    const { t } = useTranslation();
+    const [notes, setNotes] = useState('');
+    const [expiresAt, setExpiresAt] = useState('');
+    const [issuingBody, setIssuingBody] = useState('');
+    const [isOptional, setIsOptional] = useState(false);
+
+    useEffect(() => {
+        if (isOpen && certification) {
+            setNotes('');
+            setExpiresAt(certification.expiresAt || '');
+            setIssuingBody(certification.issuingBody || '');
+            setIsOptional(certification.isRequired === false);
+        }
+    }, [isOpen, certification]);
+
+    if (!certification) return null;
+    const suggestions = getIssuingBodiesForCountry(certification.country);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit({ decision, notes: notes.trim(), expiresAt, issuingBody: issuingBody.trim(), isRequired: !isOptional });
+        onClose();
+    };
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t(decision === 'approved' ? 'approveCertificationModalTitle' : 'rejectCertificationModalTitle', { name: certification.name })} size="lg">
+            <form onSubmit={handleSubmit}>
+                <InputField
+                    label={t('licenseIssuingBodyLabel')}
+                    id="reviewIssuingBody"
+                    list="reviewIssuingBodySuggestions"
+                    value={issuingBody}
+                    onChange={(e) => setIssuingBody(e.target.value)}
+                />
+                <datalist id="reviewIssuingBodySuggestions">
+                    {suggestions.map(body => <option key={body} value={body} />)}
+                </datalist>
+                <InputField
+                    label={t('licenseExpiryDateLabel')}
+                    id="reviewExpiryDate"
+                    type="date"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                />
+                <CheckboxField
+                    label={t('licenseOptionalLabel')}
+                    id="reviewIsOptional"
+                    checked={isOptional}
+                    onChange={(e) => setIsOptional(e.target.checked)}
+                    description={t('licenseOptionalDescription')}
+                />
+                <TextareaField
+                    label={t('reviewNotesLabel')}
+                    id="reviewNotes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    required={decision === 'rejected'}
+                    description={decision === 'rejected' ? t('rejectCertificationNotesHint') : undefined}
+                />
+                <div className="mt-4 flex justify-end space-x-2">
+                    <Button type="button" variant="light" onClick={onClose}>{t('cancelButtonLabel')}</Button>
+                    <Button type="submit" variant={decision === 'approved' ? 'primary' : 'danger'}>
+                        {t(decision === 'approved' ? 'approveCertificationButton' : 'rejectCertificationButton')}
+                    </Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+// --- Certifications Review Tab ---
+type CertificationStatusFilter = 'pending' | 'approved' | 'rejected' | 'all';
+const CERTIFICATION_STATUS_FILTERS: CertificationStatusFilter[] = ['pending', 'approved', 'rejected', 'all'];
+
+const AdminCertificationsTabContent: React.FC = () => {
+    usePageTitle('dashboardCertificationsTab');
+    const { t, direction } = useTranslation();
+    const { user: currentUser, token } = useAuth();
+    const [certifications, setCertifications] = useState<Certification[]>([]);
+    const [reviewers, setReviewers] = useState<UserManagementInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [filterStatus, setFilterStatus] = useState<CertificationStatusFilter>('pending');
+    const [onlyMine, setOnlyMine] = useState(false);
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [previewTarget, setPreviewTarget] = useState<Certification | null>(null);
+    const [reviewTarget, setReviewTarget] = useState<{ certification: Certification; decision: 'approved' | 'rejected' } | null>(null);
+
+    const fetchCertifications = useCallback(async () => {
+        if (!token) return;
+        setIsLoading(true);
+        const params = new URLSearchParams({ status: filterStatus });
+        if (onlyMine && currentUser) params.set('reviewerId', currentUser.id);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_certifications?${params.toString()}`, { headers: { 'Authorization': `Bearer ${token}` } });
+            const data = await response.json();
+            if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+            setCertifications(data.data);
+        } catch (error: any) {
+            console.error('Error fetching certifications:', error);
+            setCertifications([]);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [token, filterStatus, onlyMine, currentUser, t]);
+
+    useEffect(() => { fetchCertifications(); }, [fetchCertifications]);
+
+    // Admins are the only reviewers
+    useEffect(() => {
+        if (!token) return;
+        fetch(`${FUNCTIONS_API_BASE_URL}/admin_users?role=${UserRole.ADMIN}&limit=100`, { headers: { 'Authorization': `Bearer ${token}` } })
+            .then(response => response.json())
+            .then(data => {
+                if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+                setReviewers(data.data);
+            })
+            .catch(error => console.error('Error fetching reviewers:', error));
+    }, [token, t]);
+
+    const handleMoveToPrivateStorage = async () => {
+        if (!token || !confirm(t('moveCertificationsToPrivateConfirm'))) return;
+        setIsLoading(true);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_certifications/move_to_private_storage`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            const data = await response.json();
+            if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+            alert(t('moveCertificationsToPrivateResult', { moved: data.moved, skipped: data.skipped, failed: data.failed }));
+            await fetchCertifications();
+        } catch (error: any) {
+            alert(`Error: ${error.message}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const replaceCertification = (updated: Certification) => {
+        setCertifications(prev => prev.map(cert => cert.id === updated.id ? { ...cert, ...updated } : cert));
+    };
+
+    const handleAssign = async (certification: Certification, reviewerId: string) => {
+        if (!token) return;
+        setUpdatingId(certification.id);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_certifications/${certification.id}/assignment`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+                body: JSON.stringify({ reviewerId: reviewerId || null }),
+            });
+            const data = await response.json();
+            if (data.status !== 'success' || !data.certification) throw new Error(data.message || t('unknownApiError'));
+            replaceCertification(data.certification);
+        } catch (error: any) {
+            alert(`Error: ${error.message}`);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleReview = async (certification: Certification, review: { decision: 'approved' | 'rejected'; notes: string; expiresAt: string; issuingBody: string; isRequired: boolean }) => {
+        if (!token) return;
+        setUpdatingId(certification.id);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_certifications/${certification.id}/review`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+                body: JSON.stringify(review),
+            });
+            const data = await response.json();
+            if (data.status !== 'success' || !data.certification) throw new Error(data.message || t('unknownApiError'));
+            // Reviewed certifications leave the pending queue
+            if (filterStatus !== 'all' && data.certification.status !== filterStatus) {
+                setCertifications(prev => prev.filter(cert => cert.id !== certification.id));
+            } else {
+                replaceCertification(data.certification);
+            }
+        } catch (error: any) {
+            alert(`Error: ${error.message}`);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6 bg-primary p-4 sm:p-6 rounded-lg shadow-md text-textOnLight">
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-4 pb-4 border-b border-gray-300">
+                <h3 className="text-xl font-semibold text-accent flex items-center">
+                    <ShieldCheckIcon className={`w-6 h-6 ${direction === 'rtl' ? 'ml-2' : 'mr-2'}`}/>
+                    {t('certificationReviewTitle')}
+                </h3>
+                <Button variant="light" size="sm" onClick={handleMoveToPrivateStorage} disabled={isLoading}>
+                    {t('moveCertificationsToPrivateButton')}
+                </Button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+                <div className="sm:w-60">
+                    <label htmlFor="certificationStatusFilter" className="block text-sm font-medium text-gray-500 mb-1">{t('filterByStatusLabel')}</label>
+                    <select
+                        id="certificationStatusFilter"
+                        value={filterStatus}
+                        onChange={(e) => setFilterStatus(e.target.value as CertificationStatusFilter)}
+                        className="bg-primary border border-gray-300 text-textOnLight text-sm rounded-lg focus:ring-accent focus:border-accent block w-full p-2.5"
+                    >
+                        {CERTIFICATION_STATUS_FILTERS.map(status => <option key={status} value={status}>{t(`certificationStatus_${status}`)}</option>)}
+                    </select>
+                </div>
+                <label className="flex items-center text-sm text-gray-600 gap-2 pb-2.5">
+                    <input type="checkbox" checked={onlyMine} onChange={(e) => setOnlyMine(e.target.checked)} className="h-4 w-4 text-accent border-gray-300 rounded focus:ring-accent" />
+                    {t('assignedToMeFilter')}
+                </label>
+            </div>
+
+            {isLoading && certifications.length === 0 ? <p>{t('loading')}</p> :
+             certifications.length === 0 ? <p className="text-center py-4">{t('noCertificationsInQueue')}</p> :
+            (
+                <div className="overflow-x-auto shadow-md rounded-lg border border-gray-300">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-secondary/50 text-textOnLight">
+                            <tr>
+                                <th scope="col" className={`px-4 py-3 text-xs font-medium uppercase tracking-wider ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>{t('certificationColumn')}</th>
+                                <th scope="col" className={`px-4 py-3 text-xs font-medium uppercase tracking-wider ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>{t('therapistColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider hidden md:table-cell">{t('licenseExpiryDateLabel')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider">{t('reviewerColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider">{t('userStatusColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-center">{t('inquiryActionsColumn')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-primary divide-y divide-gray-200">
+                            {certifications.map(cert => {
+                                const status = cert.status || (cert.isVerified ? 'approved' : 'pending');
+                                const isUpdating = updatingId === cert.id;
+                                return (
+                                    <tr key={cert.id} className="hover:bg-secondary/30 transition-colors">
+                                        <td className="px-4 py-3 text-textOnLight">
+                                            <div className="text-sm font-medium">{cert.name}{cert.isRequired === false && <span className="text-xs text-gray-400"> ({t('licenseOptionalLabel')})</span>}</div>
+                                            <div className="text-xs text-gray-400">{[cert.country, cert.issuingBody, cert.licenseNumber && t('licenseNumberValue', { number: cert.licenseNumber })].filter(Boolean).join(' · ')}</div>
+                                            <div className="text-xs text-gray-400">{new Date(cert.uploadedAt).toLocaleDateString()}</div>
+                                            {cert.verificationNotes && <div className="text-xs text-yellow-500 mt-1 truncate max-w-xs" title={cert.verificationNotes}>{t('notePrefix')}{cert.verificationNotes}</div>}
+                                            {cert.isQuarantined && <div className="text-xs text-red-600 mt-1">{t('documentQuarantinedAdminNotice')}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 text-textOnLight">
+                                            <div className="text-sm">{cert.therapistName || '—'}</div>
+                                            <div className="text-xs text-gray-400">{cert.therapistEmail}</div>
+                                        </td>
+                                        <td className={`px-4 py-3 whitespace-nowrap text-sm hidden md:table-cell ${cert.expiryState === 'expired' ? 'text-red-600' : cert.expiryState === 'expiring' ? 'text-orange-600' : 'text-gray-500'}`}>
+                                            {cert.expiresAt || '—'}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                            <select
+                                                value={cert.reviewerId || ''}
+                                                onChange={(e) => handleAssign(cert, e.target.value)}
+                                                disabled={isUpdating}
+                                                aria-label={t('reviewerColumn')}
+                                                className="bg-primary border border-gray-300 text-textOnLight text-xs rounded-md p-1.5 disabled:opacity-60"
+                                            >
+                                                <option value="">{t('unassignedReviewer')}</option>
+                                                {reviewers.map(reviewer => (
+                                                    <option key={reviewer.id} value={reviewer.id}>
+                                                        {reviewer.id === currentUser?.id ? t('assignToMeOption') : reviewer.name || reviewer.email}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-center">
+                                            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${status === 'approved' ? 'bg-green-100 text-green-700' : status === 'rejected' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`}>
+                                                {t(`certificationStatus_${status}`)}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-center text-sm font-medium">
+                                            <div className="flex items-center justify-center space-x-1 sm:space-x-2">
+                                                <Button variant="ghost" size="sm" className="!p-1" onClick={() => setPreviewTarget(cert)} title={t('viewDocument')}><EyeIcon className="w-4 h-4"/></Button>
+                                                {status !== 'approved' && !cert.isQuarantined && <Button variant="ghost" size="sm" className="!text-green-500 hover:!bg-green-100 !p-1" onClick={() => setReviewTarget({ certification: cert, decision: 'approved' })} disabled={isUpdating} title={t('approveCertificationButton')}><CheckCircleIcon className="w-4 h-4"/></Button>}
+                                                {status !== 'rejected' && <Button variant="ghost" size="sm" className="!text-red-500 hover:!bg-red-100 !p-1" onClick={() => setReviewTarget({ certification: cert, decision: 'rejected' })} disabled={isUpdating} title={t('rejectCertificationButton')}><XCircleIcon className="w-4 h-4"/></Button>}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <CertificationDocumentModal isOpen={!!previewTarget} onClose={() => setPreviewTarget(null)} certification={previewTarget} />
+            <ReviewCertificationModal
+                isOpen={!!reviewTarget}
+                onClose={() => setReviewTarget(null)}
+                onSubmit={(review) => reviewTarget && handleReview(reviewTarget.certification, review)}
+                certification={reviewTarget?.certification || null}
+                decision={reviewTarget?.decision || 'approved'}
+            />
+        </div>
+    );
+};
+
 // --- Communication Tab ---
 const AdminCommunicationTabContent: React.FC = () => {
     usePageTitle('dashboardCommunicationTab');
@@ -519,14 +875,459 @@ const AdminCommunicationTabContent: React.FC = () => {
 };
 
 
+// --- Reviews Moderation Tab ---
+const AdminReviewsModerationTabContent: React.FC = () => {
+    usePageTitle('dashboardReviewsModerationTab');
+    const { t, direction } = useTranslation();
+    const { reviewsList, handleReviewStatusChange, isLoading } = useOutletContext<OutletContextType>();
+    const [filterStatus, setFilterStatus] = useState<'all' | Review['status']>('all');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [noteModalOpen, setNoteModalOpen] = useState(false);
+    const [selectedReview, setSelectedReview] = useState<Review | null>(null);
+
+    const filteredReviews = useMemo(() =>
+        reviewsList.filter(review =>
+            (filterStatus === 'all' || review.status === filterStatus) &&
+            (searchTerm ? (
+                review.comment.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                review.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                (review.therapistName || '').toLowerCase().includes(searchTerm.toLowerCase())
+            ) : true)
+        )
+    , [reviewsList, filterStatus, searchTerm]);
+
+    const openHideModal = (review: Review) => {
+        setSelectedReview(review);
+        setNoteModalOpen(true);
+    };
+    const handleHideWithNote = async (note: string) => {
+        if (selectedReview) {
+            await handleReviewStatusChange(selectedReview.id, 'hidden', note);
+        }
+    };
+
+    const statusOptions: {value: 'all' | Review['status'], labelKey: string}[] = [
+        { value: 'all', labelKey: 'reviewStatusAll' },
+        { value: 'visible', labelKey: 'reviewStatusVisible' },
+        { value: 'hidden', labelKey: 'reviewStatusHidden' },
+    ];
+
+    return (
+        <div className="space-y-6 bg-primary p-4 sm:p-6 rounded-lg shadow-md text-textOnLight">
+            <h3 className="text-xl font-semibold text-accent flex items-center mb-4 pb-4 border-b border-gray-300">
+                <StarIcon className={`w-6 h-6 ${direction === 'rtl' ? 'ml-2' : 'mr-2'}`}/>
+                {t('reviewsModerationTitle')}
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                    <label htmlFor="reviewStatusFilter" className="block text-sm font-medium text-gray-500 mb-1">{t('filterByStatusLabel')}</label>
+                    <select
+                        id="reviewStatusFilter"
+                        value={filterStatus}
+                        onChange={(e) => setFilterStatus(e.target.value as 'all' | Review['status'])}
+                        className="bg-primary border border-gray-300 text-textOnLight text-sm rounded-lg focus:ring-accent focus:border-accent block w-full p-2.5"
+                    >
+                        {statusOptions.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+                    </select>
+                </div>
+                <InputField
+                    label={t('searchReviewsInputLabel')}
+                    id="reviewSearch"
+                    placeholder={t('searchReviewsPlaceholder')}
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                />
+            </div>
+
+            {isLoading && reviewsList.length === 0 ? <p>{t('loadingReviews')}</p> :
+             filteredReviews.length === 0 ? <p className="text-center py-4">{t('noReviewsFoundWithFilter')}</p> :
+            (
+                <div className="overflow-x-auto shadow-md rounded-lg border border-gray-300">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-secondary/50 text-textOnLight">
+                            <tr>
+                                <th scope="col" className={`px-4 py-3 text-xs font-medium uppercase tracking-wider ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>{t('reviewCommentColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider hidden md:table-cell">{t('reviewTherapistColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider">{t('reviewRatingColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider hidden sm:table-cell">{t('inquiryDateColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-center">{t('inquiryActionsColumn')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-primary divide-y divide-gray-200">
+                            {filteredReviews.map(review => (
+                                <tr key={review.id} className={`hover:bg-secondary/30 transition-colors ${review.status === 'hidden' ? 'opacity-60' : ''}`}>
+                                    <td className="px-4 py-3 text-textOnLight">
+                                        <div className="text-sm truncate max-w-xs md:max-w-sm" title={review.comment}>{review.comment || '—'}</div>
+                                        <div className="text-xs text-gray-400">{t('reviewByLabel', { name: review.clientName })}</div>
+                                        {review.status === 'hidden' && review.moderationNote && <div className="text-xs text-yellow-500 mt-1 truncate max-w-xs" title={review.moderationNote}>{t('notePrefix')}{review.moderationNote}</div>}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 hidden md:table-cell">{review.therapistName || review.therapistId}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">
+                                        <div className="flex items-center">
+                                            {[...Array(5)].map((_, i) => (
+                                                <StarIcon key={i} filled={i < review.rating} className={`w-4 h-4 ${i < review.rating ? 'text-yellow-400' : 'text-gray-300'}`} />
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 hidden sm:table-cell">{new Date(review.createdAt).toLocaleDateString()}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-center text-sm font-medium">
+                                        <div className="flex items-center justify-center space-x-1 sm:space-x-2">
+                                            {review.status === 'visible'
+                                                ? <Button variant="ghost" size="sm" className="!text-red-500 hover:!bg-red-100 !p-1" onClick={() => openHideModal(review)} title={t('hideReviewButton')}><XCircleIcon className="w-4 h-4"/></Button>
+                                                : <Button variant="ghost" size="sm" className="!text-green-500 hover:!bg-green-100 !p-1" onClick={() => handleReviewStatusChange(review.id, 'visible')} title={t('restoreReviewButton')}><CheckCircleIcon className="w-4 h-4"/></Button>
+                                            }
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <AddNoteModal isOpen={noteModalOpen} onClose={() => setNoteModalOpen(false)} onSave={handleHideWithNote} currentNote={selectedReview?.moderationNote} targetName={selectedReview?.clientName || ''} />
+        </div>
+    );
+};
+
+
+// --- Suspend User Modal ---
+interface SuspendUserModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (reason: string) => void;
+    userName: string;
+}
+const SuspendUserModal: React.FC<SuspendUserModalProps> = ({ isOpen, onClose, onConfirm, userName }) => {
+    const { t } = useTranslation();
+    const [reason, setReason] = useState('');
+    useEffect(() => { if (isOpen) setReason(''); }, [isOpen]);
+
+    const handleSubmit = () => {
+        onConfirm(reason);
+        onClose();
+    };
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('suspendUserModalTitle', { name: userName })} size="lg">
+            <p className="text-sm text-gray-600 mb-3">{t('suspendUserModalDescription')}</p>
+            <TextareaField
+                label={t('suspensionReasonLabel')}
+                id="suspensionReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+            />
+            <div className="mt-4 flex justify-end space-x-2">
+                <Button variant="light" onClick={onClose}>{t('cancelButtonLabel')}</Button>
+                <Button variant="danger" onClick={handleSubmit}>{t('suspendUserButton')}</Button>
+            </div>
+        </Modal>
+    );
+};
+
+// --- Login History Modal ---
+interface LoginHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: UserManagementInfo | null;
+}
+const LoginHistoryModal: React.FC<LoginHistoryModalProps> = ({ isOpen, onClose, user }) => {
+    const { t } = useTranslation();
+    const { token } = useAuth();
+    const [logins, setLogins] = useState<LoginHistoryEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !user || !token) return;
+        setIsLoading(true);
+        fetch(`${FUNCTIONS_API_BASE_URL}/admin_users/${user.id}/logins`, { headers: { 'Authorization': `Bearer ${token}` } })
+            .then(response => response.json())
+            .then(data => {
+                if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+                setLogins(data.data);
+            })
+            .catch(error => {
+                console.error('Error fetching login history:', error);
+                setLogins([]);
+            })
+            .finally(() => setIsLoading(false));
+    }, [isOpen, user, token, t]);
+
+    if (!user) return null;
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('loginHistoryModalTitle', { name: user.name || user.email })} size="2xl">
+            {isLoading ? <p className="text-sm text-gray-500">{t('loading')}</p> :
+             logins.length === 0 ? <p className="text-sm text-gray-500">{t('noLoginHistory')}</p> :
+            (
+                <ul className="divide-y divide-gray-200 text-sm max-h-96 overflow-y-auto">
+                    {logins.map(login => (
+                        <li key={login.id} className="py-2">
+                            <div className="flex justify-between gap-2">
+                                <span className="font-medium text-textOnLight">{new Date(login.createdAt).toLocaleString()}</span>
+                                <span className="text-gray-500">{t(`loginMethod_${login.method}`)}</span>
+                            </div>
+                            <p className="text-xs text-gray-500 truncate" title={login.userAgent || ''}>
+                                {login.ipAddress || '—'} · {login.userAgent || '—'}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </Modal>
+    );
+};
+
+// --- Users Tab ---
+const USER_ROLE_OPTIONS = [UserRole.CLIENT, UserRole.THERAPIST, UserRole.CLINIC_OWNER, UserRole.ADMIN];
+const USERS_PAGE_SIZE = 25;
+
+const AdminUsersTabContent: React.FC = () => {
+    usePageTitle('dashboardUsersTab');
+    const { t, direction } = useTranslation();
+    const { user: currentUser, token } = useAuth();
+    const [users, setUsers] = useState<UserManagementInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [filterRole, setFilterRole] = useState<'all' | UserRole>('all');
+    const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'suspended'>('all');
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [suspendTarget, setSuspendTarget] = useState<UserManagementInfo | null>(null);
+    const [historyTarget, setHistoryTarget] = useState<UserManagementInfo | null>(null);
+
+    const fetchUsers = useCallback(async () => {
+        if (!token) return;
+        setIsLoading(true);
+        const params = new URLSearchParams({ page: String(page), limit: String(USERS_PAGE_SIZE) });
+        if (searchTerm.trim()) params.set('searchTerm', searchTerm.trim());
+        if (filterRole !== 'all') params.set('role', filterRole);
+        if (filterStatus !== 'all') params.set('status', filterStatus);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_users?${params.toString()}`, { headers: { 'Authorization': `Bearer ${token}` } });
+            const data = await response.json();
+            if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+            setUsers(data.data);
+            setTotalPages(data.pagination.totalPages);
+        } catch (error: any) {
+            console.error('Error fetching users:', error);
+            setUsers([]);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [token, page, searchTerm, filterRole, filterStatus, t]);
+
+    // Waits for a pause in typing before searching
+    useEffect(() => {
+        const timer = setTimeout(fetchUsers, 300);
+        return () => clearTimeout(timer);
+    }, [fetchUsers]);
+
+    useEffect(() => { setPage(1); }, [searchTerm, filterRole, filterStatus]);
+
+    const updateUser = async (target: UserManagementInfo, changes: { role?: UserRole; isActive?: boolean; reason?: string }) => {
+        if (!token) return;
+        setUpdatingId(target.id);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_users`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+                body: JSON.stringify({ id: target.id, ...changes }),
+            });
+            const data = await response.json();
+            if (data.status !== 'success' || !data.user) throw new Error(data.message || t('unknownApiError'));
+            setUsers(prev => prev.map(u => u.id === target.id ? data.user : u));
+        } catch (error: any) {
+            alert(`Error: ${error.message}`);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleRoleChange = (target: UserManagementInfo, role: UserRole) => {
+        if (role === target.role) return;
+        if (!confirm(t('changeUserRoleConfirm', { name: target.name || target.email, role: t(`userRole_${role}`) }))) return;
+        updateUser(target, { role });
+    };
+
+    const handleReactivate = (target: UserManagementInfo) => {
+        if (!confirm(t('reactivateUserConfirm', { name: target.name || target.email }))) return;
+        updateUser(target, { isActive: true });
+    };
+
+    const handlePasswordReset = async (target: UserManagementInfo) => {
+        if (!token || !confirm(t('forcePasswordResetConfirm', { email: target.email }))) return;
+        setUpdatingId(target.id);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_users/${target.id}/password_reset`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            const data = await response.json();
+            if (data.status !== 'success') throw new Error(data.message || t('unknownApiError'));
+            await resetPassword(data.email);
+            alert(t('forcePasswordResetSuccess', { email: data.email }));
+        } catch (error: any) {
+            alert(`Error: ${error.message}`);
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6 bg-primary p-4 sm:p-6 rounded-lg shadow-md text-textOnLight">
+            <h3 className="text-xl font-semibold text-accent flex items-center mb-4 pb-4 border-b border-gray-300">
+                <UserCircleIcon className={`w-6 h-6 ${direction === 'rtl' ? 'ml-2' : 'mr-2'}`}/>
+                {t('userManagementTitle')}
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <InputField
+                    label={t('searchUsersInputLabel')}
+                    id="userSearch"
+                    placeholder={t('searchUsersPlaceholder')}
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                <div>
+                    <label htmlFor="userRoleFilter" className="block text-sm font-medium text-gray-500 mb-1">{t('filterByRoleLabel')}</label>
+                    <select
+                        id="userRoleFilter"
+                        value={filterRole}
+                        onChange={(e) => setFilterRole(e.target.value as 'all' | UserRole)}
+                        className="bg-primary border border-gray-300 text-textOnLight text-sm rounded-lg focus:ring-accent focus:border-accent block w-full p-2.5"
+                    >
+                        <option value="all">{t('userRoleAll')}</option>
+                        {USER_ROLE_OPTIONS.map(role => <option key={role} value={role}>{t(`userRole_${role}`)}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="userStatusFilter" className="block text-sm font-medium text-gray-500 mb-1">{t('filterByStatusLabel')}</label>
+                    <select
+                        id="userStatusFilter"
+                        value={filterStatus}
+                        onChange={(e) => setFilterStatus(e.target.value as 'all' | 'active' | 'suspended')}
+                        className="bg-primary border border-gray-300 text-textOnLight text-sm rounded-lg focus:ring-accent focus:border-accent block w-full p-2.5"
+                    >
+                        <option value="all">{t('userStatusAll')}</option>
+                        <option value="active">{t('userStatusActive')}</option>
+                        <option value="suspended">{t('userStatusSuspended')}</option>
+                    </select>
+                </div>
+            </div>
+
+            {isLoading && users.length === 0 ? <p>{t('loadingUsers')}</p> :
+             users.length === 0 ? <p className="text-center py-4">{t('noUsersFoundWithFilter')}</p> :
+            (
+                <div className="overflow-x-auto shadow-md rounded-lg border border-gray-300">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-secondary/50 text-textOnLight">
+                            <tr>
+                                <th scope="col" className={`px-4 py-3 text-xs font-medium uppercase tracking-wider ${direction === 'rtl' ? 'text-right' : 'text-left'}`}>{t('userNameColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider">{t('userRoleColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider">{t('userStatusColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider hidden md:table-cell">{t('lastLoginColumn')}</th>
+                                <th scope="col" className="px-4 py-3 text-xs font-medium uppercase tracking-wider text-center">{t('inquiryActionsColumn')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-primary divide-y divide-gray-200">
+                            {users.map(managedUser => {
+                                const isSelf = managedUser.id === currentUser?.id;
+                                const isUpdating = updatingId === managedUser.id;
+                                return (
+                                    <tr key={managedUser.id} className={`hover:bg-secondary/30 transition-colors ${managedUser.isActive ? '' : 'opacity-60'}`}>
+                                        <td className="px-4 py-3 text-textOnLight">
+                                            <div className="text-sm font-medium">{managedUser.name || '—'}</div>
+                                            <div className="text-xs text-gray-400">{managedUser.email}</div>
+                                            {!managedUser.isActive && managedUser.suspensionReason && <div className="text-xs text-yellow-500 mt-1 truncate max-w-xs" title={managedUser.suspensionReason}>{t('notePrefix')}{managedUser.suspensionReason}</div>}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                            <select
+                                                value={managedUser.role}
+                                                onChange={(e) => handleRoleChange(managedUser, e.target.value as UserRole)}
+                                                disabled={isSelf || isUpdating || !managedUser.hasAuthAccount}
+                                                aria-label={t('userRoleColumn')}
+                                                className="bg-primary border border-gray-300 text-textOnLight text-xs rounded-md p-1.5 disabled:opacity-60"
+                                            >
+                                                {USER_ROLE_OPTIONS.map(role => <option key={role} value={role}>{t(`userRole_${role}`)}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-center">
+                                            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${managedUser.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                                {managedUser.isActive ? t('userStatusActive') : t('userStatusSuspended')}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 hidden md:table-cell">
+                                            {managedUser.lastLogin ? new Date(managedUser.lastLogin).toLocaleString() : t('neverLoggedIn')}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-center text-sm font-medium">
+                                            <div className="flex items-center justify-center space-x-1 sm:space-x-2">
+                                                <Button variant="ghost" size="sm" className="!p-1" onClick={() => setHistoryTarget(managedUser)} title={t('viewLoginHistoryButton')}><ClockIcon className="w-4 h-4"/></Button>
+                                                {managedUser.hasAuthAccount && !isSelf && (
+                                                    <>
+                                                        <Button variant="ghost" size="sm" className="!text-yellow-600 hover:!bg-yellow-100 !p-1" onClick={() => handlePasswordReset(managedUser)} disabled={isUpdating} title={t('forcePasswordResetButton')}><KeyIcon className="w-4 h-4"/></Button>
+                                                        {managedUser.isActive
+                                                            ? <Button variant="ghost" size="sm" className="!text-red-500 hover:!bg-red-100 !p-1" onClick={() => setSuspendTarget(managedUser)} disabled={isUpdating} title={t('suspendUserButton')}><XCircleIcon className="w-4 h-4"/></Button>
+                                                            : <Button variant="ghost" size="sm" className="!text-green-500 hover:!bg-green-100 !p-1" onClick={() => handleReactivate(managedUser)} disabled={isUpdating} title={t('reactivateUserButton')}><CheckCircleIcon className="w-4 h-4"/></Button>
+                                                        }
+                                                    </>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {totalPages > 1 && (
+                <div className="flex items-center justify-between text-sm">
+                    <Button variant="light" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || isLoading}>{t('previousPageButton')}</Button>
+                    <span className="text-gray-500">{t('pageOfTotal', { page, total: totalPages })}</span>
+                    <Button variant="light" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= totalPages || isLoading}>{t('nextPageButton')}</Button>
+                </div>
+            )}
+
+            <SuspendUserModal
+                isOpen={!!suspendTarget}
+                onClose={() => setSuspendTarget(null)}
+                onConfirm={(reason) => suspendTarget && updateUser(suspendTarget, { isActive: false, reason })}
+                userName={suspendTarget?.name || suspendTarget?.email || ''}
+            />
+            <LoginHistoryModal isOpen={!!historyTarget} onClose={() => setHistoryTarget(null)} user={historyTarget} />
+        </div>
+    );
+};
+
+
 // --- Activity Log Tab ---
+const formatLogValue = (value: any): string => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// "accountStatus: pending_approval → live; adminNotes: … → …", falling back to the free-form details
+const describeLogDetails = (log: ActivityLog): string => {
+    const changes = Object.entries(log.changes || {});
+    if (changes.length > 0) {
+        return changes.map(([field, { before, after }]) => `${field}: ${formatLogValue(before)} → ${formatLogValue(after)}`).join('; ');
+    }
+    if (!log.details) return '';
+    return typeof log.details === 'string' ? log.details : JSON.stringify(log.details);
+};
+
 const AdminActivityLogTabContent: React.FC = () => {
     usePageTitle('dashboardActivityLogTab');
     const { t, direction } = useTranslation();
-    const { activityLogsList, isLoading, addActivityLog } = useOutletContext<OutletContextType>(); // Assuming addActivityLog is for manual additions, if any
+    const { activityLogsList, isLoading, refreshActivityLogs } = useOutletContext<OutletContextType>();
     const [filterAction, setFilterAction] = useState('');
     const [filterUser, setFilterUser] = useState('');
 
+    // Actions taken on other tabs are logged server-side, so reload on every visit
+    useEffect(() => { refreshActivityLogs(); }, [refreshActivityLogs]);
+
     const filteredLogs = useMemo(() =>
         activityLogsList.filter(log =>
             (filterAction ? log.action.toLowerCase().includes(filterAction.toLowerCase()) : true) &&
@@ -584,8 +1385,8 @@ const AdminActivityLogTabContent: React.FC = () => {
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-400 hidden md:table-cell">
                                         {log.targetType?.replace('_', ' ').toUpperCase()}: {log.targetId || 'N/A'}
                                     </td>
-                                    <td className="px-4 py-3 text-xs text-gray-500 truncate max-w-xs" title={typeof log.details === 'string' ? log.details : JSON.stringify(log.details)}>
-                                        {typeof log.details === 'string' ? log.details : JSON.stringify(log.details)}
+                                    <td className="px-4 py-3 text-xs text-gray-500 truncate max-w-xs" title={describeLogDetails(log)}>
+                                        {describeLogDetails(log)}
                                     </td>
                                 </tr>
                             ))}
@@ -607,12 +1408,13 @@ const AdminDashboardPageShell: React.FC = () => {
     const [clinicsList, setClinicsList] = useState<Clinic[]>([]);
     const [userInquiriesList, setUserInquiriesList] = useState<UserInquiry[]>([]);
     const [activityLogsList, setActivityLogsList] = useState<ActivityLog[]>([]);
+    const [reviewsList, setReviewsList] = useState<Review[]>([]);
 
-    const fetchData = useCallback(async (endpoint: string, setter: Function) => {
+    const fetchData = useCallback(async (endpoint: string, setter: Function, baseUrl: string = API_BASE_URL) => {
         if (!token) return;
         // TODO: Implement actual API calls
         try {
-            const response = await fetch(`${API_BASE_URL}/${endpoint}`, { headers: { 'Authorization': `Bearer ${token}` } });
+            const response = await fetch(`${baseUrl}/${endpoint}`, { headers: { 'Authorization': `Bearer ${token}` } });
             const data = await response.json();
             if (data.status === 'success') {
                 setter(data.data || []); // Assuming data is in data.data
@@ -630,43 +1432,39 @@ const AdminDashboardPageShell: React.FC = () => {
         const loadAllData = async () => {
             setIsLoading(true);
             await Promise.all([
-                fetchData('admin_therapists.php', setTherapistsList),
-                fetchData('admin_clinics.php', setClinicsList),
+                fetchData('admin_therapists', setTherapistsList, FUNCTIONS_API_BASE_URL),
+                fetchData('admin_clinics', setClinicsList, FUNCTIONS_API_BASE_URL),
                 fetchData('admin_inquiries.php', setUserInquiriesList),
-                fetchData('admin_activitylog.php', setActivityLogsList),
+                fetchData('admin_activity_logs', setActivityLogsList, FUNCTIONS_API_BASE_URL),
+                fetchData('admin_reviews', setReviewsList, FUNCTIONS_API_BASE_URL),
             ]);
             setIsLoading(false);
         };
         loadAllData();
     }, [fetchData]);
 
+    const refreshActivityLogs = useCallback(
+        () => fetchData('admin_activity_logs', setActivityLogsList, FUNCTIONS_API_BASE_URL),
+        [fetchData]
+    );
+
+    // The server stamps the entry with the signed-in admin and the time
     const addActivityLog = async (logEntry: Omit<ActivityLog, 'id' | 'timestamp'>) => {
-        if (!token || !user) return;
-        // TODO: Implement API call to POST new activity log
-        const newLog = { 
-            ...logEntry, 
-            id: `log-${Date.now()}`, 
-            timestamp: new Date().toISOString(), 
-            userId: user.id, 
-            userName: user.name,
-            userRole: user.role
-        };
+        if (!token) return;
         try {
-            const response = await fetch(`${API_BASE_URL}/admin_activitylog.php`, {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_activity_logs`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-                body: JSON.stringify(newLog)
+                body: JSON.stringify(logEntry)
             });
             const data = await response.json();
-            if(data.status === 'success' && data.log) {
-                setActivityLogsList(prev => [data.log, ...prev]);
+            if (data.status === 'success') {
+                refreshActivityLogs();
             } else {
-                 console.error("Failed to add activity log:", data.message);
-                 setActivityLogsList(prev => [newLog, ...prev]); // Optimistic fallback
+                console.error("Failed to add activity log:", data.message);
             }
         } catch (error) {
-             console.error("API error adding activity log:", error);
-             setActivityLogsList(prev => [newLog, ...prev]); // Optimistic fallback
+            console.error("API error adding activity log:", error);
         }
     };
     
@@ -678,12 +1476,13 @@ const AdminDashboardPageShell: React.FC = () => {
     ) => {
         if (!token) return;
         setIsLoading(true);
-        const endpoint = type === 'therapist' ? 'admin_therapists.php' : 'admin_clinics.php';
+        // Functions record these changes in the activity log themselves
+        const endpoint = type === 'therapist' ? 'admin_therapists' : 'admin_clinics';
         const payload = { id, status, adminNotes: notes };
         
         // TODO: Implement actual API calls
         try {
-            const response = await fetch(`${API_BASE_URL}/${endpoint}`, {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/${endpoint}`, {
                 method: 'PUT', // Or POST depending on API design
                 headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
                 body: JSON.stringify(payload),
@@ -695,7 +1494,6 @@ const AdminDashboardPageShell: React.FC = () => {
                 } else if (type === 'clinic' && data.clinic) {
                     setClinicsList(prev => prev.map(c => c.id === id ? data.clinic : c));
                 }
-                addActivityLog({ action: `${type.charAt(0).toUpperCase() + type.slice(1)} Status Changed to ${status}`, targetId: id, targetType: type, details: { notesPresent: !!notes } });
             } else {
                 throw new Error(data.message || `Failed to update ${type} status`);
             }
@@ -733,15 +1531,39 @@ const AdminDashboardPageShell: React.FC = () => {
         setIsLoading(false);
     };
 
+    const handleReviewStatusChange = async (reviewId: string, status: Review['status'], moderationNote?: string) => {
+        if (!token) return;
+        setIsLoading(true);
+        try {
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_reviews`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+                body: JSON.stringify({ id: reviewId, status, moderationNote }),
+            });
+            const data = await response.json();
+            if (data.status === 'success' && data.review) {
+                setReviewsList(prev => prev.map(r => r.id === reviewId ? data.review : r));
+            } else {
+                throw new Error(data.message || "Failed to update review");
+            }
+        } catch (error: any) {
+             alert(`Error: ${error.message}`);
+        }
+        setIsLoading(false);
+    };
+
     const outletContextValue: OutletContextType = {
         therapistsList,
         clinicsList,
         userInquiriesList,
         activityLogsList,
+        reviewsList,
         handleTherapistStatusChange,
         handleClinicStatusChange,
         handleInquiryStatusChange,
+        handleReviewStatusChange,
         addActivityLog,
+        refreshActivityLogs,
         isLoading,
     };
 
@@ -757,7 +1579,10 @@ export const AdminDashboardRoutes = () => (
         <Route element={<AdminDashboardPageShell />}>
             <Route index element={<AdminTherapistsValidationTabContent />} />
             <Route path="clinic-approval" element={<AdminClinicApprovalTabContent />} />
+            <Route path="certifications" element={<AdminCertificationsTabContent />} />
             <Route path="communication" element={<AdminCommunicationTabContent />} />
+            <Route path="reviews" element={<AdminReviewsModerationTabContent />} />
+            <Route path="users" element={<AdminUsersTabContent />} />
             <Route path="activity-log" element={<AdminActivityLogTabContent />} />
         </Route>
     </Routes>
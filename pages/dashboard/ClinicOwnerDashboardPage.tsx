@@ -3,24 +3,31 @@ import { Outlet, Route, Routes, Navigate, useOutletContext, Link } from 'react-r
 import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from '../../hooks/useTranslation';
 import { usePageTitle } from '../../hooks/usePageTitle';
-import { Clinic, UserRole, ClinicSpaceListing, MembershipStatus, UserManagementInfo, MembershipHistoryItem } from '../../types';
+import { Clinic, UserRole, ClinicSpaceListing, MembershipStatus, UserManagementInfo, WeeklySchedule } from '../../types';
 import { 
     API_BASE_URL, 
+    FUNCTIONS_API_BASE_URL,
     CLINIC_SPACE_PHOTO_MAX_SIZE_MB, 
     PAYMENT_RECEIPT_MAX_SIZE_MB, 
     PROFILE_PICTURE_MAX_SIZE_MB, 
     CLINIC_SPACE_FEATURES_LIST,
     CLINIC_MEMBERSHIP_FEE,
-    STANDARD_MEMBERSHIP_TIER_NAME
+    STANDARD_MEMBERSHIP_TIER_NAME,
+    SPACE_SLOT_DURATION_OPTIONS
 } from '../../constants';
 import { DashboardLayout } from '../../components/dashboard/shared/DashboardLayout';
 import { Button } from '../../components/common/Button';
 import { InputField, TextareaField, FileUploadField, SelectField, CheckboxField } from '../../components/dashboard/shared/FormElements';
 import { Modal } from '../../components/common/Modal';
+import { PushNotificationSettings } from '../../components/dashboard/shared/PushNotificationSettings';
+import { BillingHistory } from '../../components/dashboard/shared/BillingHistory';
+import { SpaceReservationsList } from '../../components/dashboard/shared/SpaceReservationsList';
+import { WeeklyScheduleEditor } from '../../components/dashboard/therapist/WeeklyScheduleEditor';
+import { SpaceAvailabilityCalendar } from '../../components/dashboard/clinic/SpaceAvailabilityCalendar';
 import { 
     BuildingOfficeIcon, BriefcaseIcon, ChartBarIcon, CogIcon, TagIcon, PhotoIcon, ClockIcon, UsersIcon, XIcon, 
     PlusCircleIcon, PencilIcon, TrashIcon, InformationCircleIcon, ArrowUpOnSquareIcon, CheckCircleIcon,
-    ChevronDownIcon, ChevronUpIcon
+    ChevronDownIcon, ChevronUpIcon, BellIcon, CalendarDaysIcon
 } from '../../components/icons';
 
 
@@ -32,9 +39,9 @@ interface OutletContextType {
   handleMembershipApplication: (receiptFile: File | null) => Promise<void>; 
   handleAddOrUpdateSpaceListing: (listing: ClinicSpaceListing, photoFiles: (File | null)[]) => Promise<void>; 
   handleDeleteSpaceListing: (listingId: string) => Promise<void>; 
+  handleSpaceScheduleSave: (listingId: string, schedule: WeeklySchedule | undefined, slotDurationMinutes: number) => Promise<boolean>;
   handleOwnerUserSave: (updatedUser: Partial<UserManagementInfo>) => Promise<void>; 
   isLoading: boolean;
-  membershipHistory: MembershipHistoryItem[]; // Added for settings tab
   analyticsData: any; // Placeholder for analytics data
 }
 
@@ -261,13 +268,71 @@ const ClinicSpaceListingFormModal: React.FC<ClinicSpaceListingFormModalProps> =
     );
 };
 
+interface SpaceBookingHoursModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    listing: ClinicSpaceListing | null;
+    onSave: (listingId: string, schedule: WeeklySchedule | undefined, slotDurationMinutes: number) => Promise<boolean>;
+}
+
+const SpaceBookingHoursModal: React.FC<SpaceBookingHoursModalProps> = ({ isOpen, onClose, listing, onSave }) => {
+    const { t } = useTranslation();
+    const [schedule, setSchedule] = useState<WeeklySchedule | undefined>(undefined);
+    const [slotDurationMinutes, setSlotDurationMinutes] = useState('60');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen && listing) {
+            setSchedule(listing.schedule);
+            setSlotDurationMinutes(String(listing.slotDurationMinutes || 60));
+        }
+    }, [isOpen, listing]);
+
+    if (!listing) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        const saved = await onSave(listing.id, schedule, parseInt(slotDurationMinutes, 10));
+        setIsSaving(false);
+        if (saved) onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={t('spaceBookingHoursModalTitle', { name: listing.name })} size="2xl">
+            <form onSubmit={handleSubmit} className="space-y-5">
+                <p className="text-sm text-gray-500">{t('spaceBookingHoursDescription')}</p>
+                <WeeklyScheduleEditor idPrefix={`space-${listing.id}`} schedule={schedule} onChange={setSchedule} />
+                <SelectField
+                    label={t('spaceSlotDurationLabel')}
+                    id="slotDurationMinutes"
+                    value={slotDurationMinutes}
+                    onChange={(e) => setSlotDurationMinutes(e.target.value)}
+                    options={SPACE_SLOT_DURATION_OPTIONS.map(minutes => ({
+                        value: String(minutes),
+                        label: t('bookingDurationOption', { minutes }),
+                    }))}
+                />
+                <div className="pt-5 flex justify-end space-x-3">
+                    <Button type="button" variant="light" onClick={onClose}>{t('cancelButtonLabel')}</Button>
+                    <Button type="submit" variant="primary" disabled={isSaving} leftIcon={<ArrowUpOnSquareIcon />}>
+                        {isSaving ? t('saving') : t('saveChangesButtonLabel')}
+                    </Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
 
 const MyClinicListingsTabContent: React.FC = () => {
     const { t, direction } = useTranslation();
     usePageTitle('dashboardMyClinicsTab');
-    const { clinicData, clinicSpaceListings, handleAddOrUpdateSpaceListing, handleDeleteSpaceListing, isLoading } = useOutletContext<OutletContextType>();
+    const { clinicData, clinicSpaceListings, handleAddOrUpdateSpaceListing, handleDeleteSpaceListing, handleSpaceScheduleSave, isLoading } = useOutletContext<OutletContextType>();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingListing, setEditingListing] = useState<ClinicSpaceListing | null>(null);
+    const [hoursListing, setHoursListing] = useState<ClinicSpaceListing | null>(null);
+    const [calendarListing, setCalendarListing] = useState<ClinicSpaceListing | null>(null);
 
     const openAddModal = () => {
         setEditingListing(null);
@@ -313,8 +378,13 @@ const MyClinicListingsTabContent: React.FC = () => {
                                     <p className="text-xs text-accent mt-1">
                                         ${listing.rentalPrice} {listing.rentalDuration}
                                     </p>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        {listing.schedule ? t('spaceBookableInSlots', { minutes: listing.slotDurationMinutes || 60 }) : t('spaceNotBookableYet')}
+                                    </p>
                                 </div>
                                 <div className="flex-shrink-0 mt-3 sm:mt-0 sm:ms-4 space-x-2">
+                                    <Button variant="ghost" size="sm" onClick={() => setCalendarListing(listing)} leftIcon={<CalendarDaysIcon className="w-4 h-4"/>}>{t('spaceCalendarButtonLabel')}</Button>
+                                    <Button variant="ghost" size="sm" onClick={() => setHoursListing(listing)} leftIcon={<ClockIcon className="w-4 h-4"/>}>{t('spaceBookingHoursButtonLabel')}</Button>
                                     <Button variant="ghost" size="sm" onClick={() => openEditModal(listing)} leftIcon={<PencilIcon className="w-4 h-4"/>} className="!text-blue-400 hover:!bg-blue-50/20">{t('editButtonLabel')}</Button>
                                     <Button variant="danger" size="sm" onClick={() => handleDelete(listing.id)} leftIcon={<TrashIcon className="w-4 h-4"/>} className="!text-red-400 hover:!bg-red-50/20">{t('deleteButtonLabel')}</Button>
                                 </div>
@@ -337,6 +407,22 @@ const MyClinicListingsTabContent: React.FC = () => {
                 initialListing={editingListing}
                 isLoading={isLoading}
             />
+            <SpaceBookingHoursModal
+                isOpen={!!hoursListing}
+                onClose={() => setHoursListing(null)}
+                listing={hoursListing}
+                onSave={handleSpaceScheduleSave}
+            />
+            {calendarListing && (
+                <Modal isOpen={!!calendarListing} onClose={() => setCalendarListing(null)} title={t('spaceCalendarModalTitle', { name: calendarListing.name })} size="full">
+                    <SpaceAvailabilityCalendar listing={calendarListing} />
+                </Modal>
+            )}
+
+            <div className="mt-10 pt-6 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-accent flex items-center mb-4"><ClockIcon className={`w-5 h-5 ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>{t('spaceReservationRequestsTitle')}</h3>
+                <SpaceReservationsList viewer="owner" />
+            </div>
         </div>
     );
 };
@@ -387,7 +473,7 @@ const ClinicAnalyticsTabContent: React.FC = () => {
 const ClinicSettingsTabContent: React.FC = () => {
     const { t, direction } = useTranslation();
     usePageTitle('dashboardSettingsTab');
-    const { clinicData, clinicOwnerUser, handleOwnerUserSave, handleMembershipApplication, isLoading, membershipHistory } = useOutletContext<OutletContextType>();
+    const { clinicData, clinicOwnerUser, handleOwnerUserSave, handleMembershipApplication, isLoading } = useOutletContext<OutletContextType>();
     
     const [ownerData, setOwnerData] = useState<Partial<UserManagementInfo>>(clinicOwnerUser || {});
     const [paymentReceiptFile, setPaymentReceiptFile] = useState<File | null>(null);
@@ -517,17 +603,6 @@ const ClinicSettingsTabContent: React.FC = () => {
                         </Button>
                     </form>
                 )}
-                 { isLoading && membershipHistory.length === 0 ? <p>{t('loading')}...</p> :
-                   membershipHistory.length > 0 ? (
-                    <div className="mt-4 pt-4 border-t border-dashed">
-                        <h5 className="text-sm font-medium text-gray-500 mb-1">{t('membershipHistoryTitle')}</h5>
-                        <ul className="space-y-1 text-xs text-gray-400 max-h-24 overflow-y-auto">
-                            {membershipHistory.map(item => (
-                                <li key={item.id}><strong>{new Date(item.date).toLocaleDateString()}:</strong> {item.action}</li>
-                            ))}
-                        </ul>
-                    </div>
-                ) : <p className="text-xs text-gray-400 mt-2">{t('noMembershipHistoryAvailable')}</p>}
             </AccordionSection>
             
             <AccordionSection
@@ -544,6 +619,15 @@ const ClinicSettingsTabContent: React.FC = () => {
                 </ul>
             </AccordionSection>
 
+            <AccordionSection 
+                titleKey="pushNotificationsTitle" 
+                icon={<BellIcon />}
+                isOpen={activeSection === 'pushNotifications'}
+                onClick={() => toggleAccordion('pushNotifications')}
+            >
+                <PushNotificationSettings />
+            </AccordionSection>
+
             <AccordionSection 
                 titleKey="managePasswordButton" 
                 icon={<CogIcon />}
@@ -569,6 +653,16 @@ const ClinicSettingsTabContent: React.FC = () => {
 };
 
 
+// --- Billing Tab ---
+const ClinicBillingTabContent: React.FC = () => {
+    usePageTitle('dashboardBillingTab');
+    return (
+        <div className="bg-primary p-4 sm:p-6 rounded-lg shadow text-textOnLight">
+            <BillingHistory />
+        </div>
+    );
+};
+
 // --- Main Clinic Owner Dashboard Page Component ---
 export const ClinicOwnerDashboardPage: React.FC = () => {
   const { user, token, updateUserAuthContext } = useAuth(); 
@@ -577,7 +671,6 @@ export const ClinicOwnerDashboardPage: React.FC = () => {
   const [clinicOwnerUser, setClinicOwnerUser] = useState<UserManagementInfo | null>(null);
   const [clinicSpaceListings, setClinicSpaceListings] = useState<ClinicSpaceListing[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [membershipHistory, setMembershipHistory] = useState<MembershipHistoryItem[]>([]);
   const [analyticsData, setAnalyticsData] = useState<any>(null); // Placeholder
 
   const fetchDashboardData = useCallback(async () => {
@@ -610,19 +703,6 @@ export const ClinicOwnerDashboardPage: React.FC = () => {
             }
             setClinicOwnerUser({id: user.id, name: user.name || "Clinic Owner", email: user.email, role: UserRole.CLINIC_OWNER, isActive: true, profilePictureUrl: user.profilePictureUrl});
 
-            // Fetch Membership History (if clinicData exists)
-            if (clinicProfileData.status === 'success' && clinicProfileData.clinic) {
-                const historyResponse = await fetch(`${API_BASE_URL}/clinic_membership_history.php?clinicId=${clinicProfileData.clinic.id}`, {
-                    headers: { 'Authorization': `Bearer ${token}` }
-                });
-                const historyData = await historyResponse.json();
-                if (historyData.status === 'success' && historyData.history) {
-                    setMembershipHistory(historyData.history);
-                } else {
-                    setMembershipHistory([]);
-                }
-            }
-            
             // Fetch Analytics Data (if clinicData exists)
             if (clinicProfileData.status === 'success' && clinicProfileData.clinic) {
                 const analyticsResponse = await fetch(`${API_BASE_URL}/clinic_analytics.php?clinicId=${clinicProfileData.clinic.id}`, {
@@ -818,6 +898,30 @@ export const ClinicOwnerDashboardPage: React.FC = () => {
      setIsLoading(false);
   };
 
+  // Booking hours are saved through Functions, which validates the schedule
+  const handleSpaceScheduleSave = async (listingId: string, schedule: WeeklySchedule | undefined, slotDurationMinutes: number): Promise<boolean> => {
+    if (!user || !token) return false;
+    try {
+        const response = await fetch(`${FUNCTIONS_API_BASE_URL}/clinic_spaces/${listingId}/schedule`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+            body: JSON.stringify({ schedule: schedule || null, slotDurationMinutes }),
+        });
+        const data = await response.json();
+        if (data.status === 'success' && data.listing) {
+            setClinicSpaceListings(prev => prev.map(l => l.id === listingId
+                ? { ...l, schedule: data.listing.schedule, slotDurationMinutes: data.listing.slotDurationMinutes }
+                : l));
+            alert(t('spaceBookingHoursSavedSuccess'));
+            return true;
+        }
+        throw new Error(data.message || t('unknownApiError'));
+    } catch (error: any) {
+        alert(`Error: ${error.message}`);
+        return false;
+    }
+  };
+
   const handleOwnerUserSave = async (updatedUser: Partial<UserManagementInfo>) => {
     if (!user || !token) return;
     setIsLoading(true);
@@ -882,9 +986,9 @@ export const ClinicOwnerDashboardPage: React.FC = () => {
     handleMembershipApplication,
     handleAddOrUpdateSpaceListing,
     handleDeleteSpaceListing,
+    handleSpaceScheduleSave,
     handleOwnerUserSave,
     isLoading,
-    membershipHistory,
     analyticsData
   };
 
@@ -901,6 +1005,7 @@ export const ClinicOwnerDashboardRoutes = () => (
             <Route index element={<ClinicProfileTabContent />} />
             <Route path="my-clinics" element={<MyClinicListingsTabContent />} />
             <Route path="analytics" element={<ClinicAnalyticsTabContent />} />
+            <Route path="billing" element={<ClinicBillingTabContent />} />
             <Route path="settings" element={<ClinicSettingsTabContent />} />
         </Route>
     </Routes>
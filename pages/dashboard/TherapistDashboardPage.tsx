@@ -3,10 +3,13 @@ import { Outlet, Route, Routes, useLocation, Navigate, useOutletContext } from '
 import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from '../../hooks/useTranslation';
 import { usePageTitle } from '../../hooks/usePageTitle';
-import { Therapist, UserRole, Certification, ClinicSpaceListing, Clinic, PracticeLocation, MembershipHistoryItem, MembershipStatus } from '../../types'; 
+import { useStartConversation } from '../../hooks/useStartConversation';
+import { Therapist, UserRole, Certification, ClinicSpaceListing, Clinic, PracticeLocation, MembershipStatus, WeeklySchedule } from '../../types'; 
 import { 
     API_BASE_URL, 
+    FUNCTIONS_API_BASE_URL,
     CERTIFICATION_MAX_SIZE_MB, 
+    getIssuingBodiesForCountry,
     THERAPIST_MEMBERSHIP_FEE,
     CLINIC_SPACE_FEATURES_LIST,
     LANGUAGES_LIST,
@@ -22,13 +25,23 @@ import {
     DocumentDuplicateIcon, ChartBarIcon, CogIcon, BriefcaseIcon, BuildingOfficeIcon,
     ArrowUpOnSquareIcon, CheckCircleIcon, ExclamationTriangleIcon, XIcon, UsersIcon,
     TableCellsIcon, MapIcon, ListBulletIcon, FilterSolidIcon, InformationCircleIcon, PhotoIcon,
-    ChevronDownIcon, ChevronUpIcon, TrashIcon, UserCircleIcon, MapPinIcon, VideoCameraIcon, WhatsAppIcon
+    ChevronDownIcon, ChevronUpIcon, TrashIcon, UserCircleIcon, MapPinIcon, VideoCameraIcon, ChatBubbleLeftRightIcon, BellIcon, ClockIcon
 } from '../../components/icons';
 import { Button } from '../../components/common/Button';
 import { FileUploadField, InputField, CheckboxField, SelectField, TextareaField } from '../../components/dashboard/shared/FormElements'; 
 import { Modal } from '../../components/common/Modal';
 import { ClinicSpaceCard } from '../../components/therapist-finder/ClinicSpaceCard';
 import { ClinicSpaceDetailModal } from '../../components/therapist-finder/ClinicSpaceDetailModal';
+import { SpaceBookingModal } from '../../components/therapist-finder/SpaceBookingModal';
+import { SpaceReservationsList } from '../../components/dashboard/shared/SpaceReservationsList';
+import { WeeklyScheduleEditor } from '../../components/dashboard/therapist/WeeklyScheduleEditor';
+import { PushNotificationSettings } from '../../components/dashboard/shared/PushNotificationSettings';
+import { BillingHistory } from '../../components/dashboard/shared/BillingHistory';
+import { PrivateFileLink } from '../../components/common/PrivateFileLink';
+import { uploadCertification } from '../../src/firebase/storage';
+import { sendOrQueue, BASE_VERSION_HEADER } from '../../src/outbox';
+import { SyncIndicator } from '../../src/components/common/SyncIndicator';
+import { OfflineAwareButton } from '../../src/components/common/OfflineAwareButton';
 
 interface OutletContextType {
   therapistData: Therapist | null;
@@ -42,7 +55,6 @@ interface OutletContextType {
   availableClinicSpaces: ClinicSpaceListing[];
   spaceFeaturesList: string[];
   allClinics: Clinic[]; 
-  membershipHistory: MembershipHistoryItem[];
 }
 
 // --- Accordion Section Component ---
@@ -151,6 +163,11 @@ const TherapistProfileTabContent: React.FC = () => {
         setFormData(prev => ({ ...prev, locations: newLocations }));
     };
 
+    const handleLocationScheduleChange = (index: number, schedule: WeeklySchedule | undefined) => {
+        const newLocations = (formData.locations || []).map((loc, i) => (i === index ? { ...loc, schedule } : loc));
+        setFormData(prev => ({ ...prev, locations: newLocations }));
+    };
+
     const addLocation = () => {
         const newLocations = [...(formData.locations || []), { ...initialLocationState, isPrimary: !(formData.locations || []).some(l => l.isPrimary) }];
         setFormData(prev => ({ ...prev, locations: newLocations }));
@@ -285,6 +302,11 @@ const TherapistProfileTabContent: React.FC = () => {
                             checked={loc.isPrimary || false}
                             onChange={(e) => handleLocationChange(index, 'isPrimary', e.target.checked)}
                         />
+                        <WeeklyScheduleEditor
+                            idPrefix={`location_schedule_${index}`}
+                            schedule={loc.schedule}
+                            onChange={(schedule) => handleLocationScheduleChange(index, schedule)}
+                        />
                         <Button 
                             type="button" 
                             variant="danger" 
@@ -303,9 +325,9 @@ const TherapistProfileTabContent: React.FC = () => {
             </AccordionSection>
             
             <div className="pt-6 border-t border-gray-200 mt-4">
-                <Button type="submit" variant="primary" size="lg" disabled={isDashboardLoading} leftIcon={<ArrowUpOnSquareIcon className={`w-5 h-5 ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>}>
+                <OfflineAwareButton type="submit" variant="primary" size="lg" disabled={isDashboardLoading} offlineQueued offlineQueuedTooltip={t('profileSaveOfflineHint')} leftIcon={<ArrowUpOnSquareIcon className={`w-5 h-5 ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>}>
                 {isDashboardLoading ? t('saving') : t('saveProfile')}
-                </Button>
+                </OfflineAwareButton>
             </div>
         </form>
     );
@@ -319,6 +341,16 @@ const TherapistLicensesTabContent: React.FC = () => {
     const [newCertName, setNewCertName] = useState('');
     const [newCertFile, setNewCertFile] = useState<File | null>(null);
     const [newCertCountry, setNewCertCountry] = useState('');
+    const [newCertIssuingBody, setNewCertIssuingBody] = useState('');
+    const [newCertLicenseNumber, setNewCertLicenseNumber] = useState('');
+    const [newCertExpiresAt, setNewCertExpiryDate] = useState('');
+
+    const issuingBodySuggestions = useMemo(() => getIssuingBodiesForCountry(newCertCountry), [newCertCountry]);
+    // Required licenses that will cost, or have cost, the verified badge
+    const lapsingRequiredLicenses = useMemo(() =>
+        (therapistData?.certifications || []).filter(cert => cert.expiryState && cert.isRequired !== false && cert.status !== 'rejected')
+    , [therapistData?.certifications]);
+    const today = new Date().toISOString().split('T')[0];
 
     const handleAddCertificationSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -333,11 +365,17 @@ const TherapistLicensesTabContent: React.FC = () => {
             uploadedAt: new Date().toISOString(),
             isVerified: false,
             country: newCertCountry,
+            issuingBody: newCertIssuingBody.trim(),
+            licenseNumber: newCertLicenseNumber.trim(),
+            expiresAt: newCertExpiresAt || null,
         };
         await handleAddOrUpdateCertification(newCertification, newCertFile);
         setNewCertName('');
         setNewCertFile(null);
         setNewCertCountry('');
+        setNewCertIssuingBody('');
+        setNewCertLicenseNumber('');
+        setNewCertExpiryDate('');
         const fileInput = document.getElementById('newCertFile') as HTMLInputElement;
         if (fileInput) fileInput.value = "";
     };
@@ -374,6 +412,40 @@ const TherapistLicensesTabContent: React.FC = () => {
                     inputClassName="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-accent focus:border-accent sm:text-sm bg-primary text-textOnLight"
                     required
                 />
+                <InputField
+                    label=""
+                    id="newCertIssuingBody"
+                    name="newCertIssuingBody"
+                    list="newCertIssuingBodySuggestions"
+                    placeholder={t('licenseIssuingBodyPlaceholder')}
+                    value={newCertIssuingBody}
+                    onChange={(e) => setNewCertIssuingBody(e.target.value)}
+                    inputClassName="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-accent focus:border-accent sm:text-sm bg-primary text-textOnLight"
+                />
+                <datalist id="newCertIssuingBodySuggestions">
+                    {issuingBodySuggestions.map(body => <option key={body} value={body} />)}
+                </datalist>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <InputField
+                        label={t('licenseNumberLabel')}
+                        id="newCertLicenseNumber"
+                        name="newCertLicenseNumber"
+                        value={newCertLicenseNumber}
+                        onChange={(e) => setNewCertLicenseNumber(e.target.value)}
+                        containerClassName="mb-0"
+                    />
+                    <InputField
+                        label={t('licenseExpiryDateLabel')}
+                        id="newCertExpiresAt"
+                        name="newCertExpiresAt"
+                        type="date"
+                        min={today}
+                        value={newCertExpiresAt}
+                        onChange={(e) => setNewCertExpiryDate(e.target.value)}
+                        description={t('licenseExpiryDateDescription')}
+                        containerClassName="mb-0"
+                    />
+                </div>
                 <FileUploadField 
                     label="" 
                     id="newCertFile" 
@@ -386,26 +458,50 @@ const TherapistLicensesTabContent: React.FC = () => {
                 <Button type="submit" size="sm" leftIcon={<ArrowUpOnSquareIcon/>} disabled={isLoading}>{isLoading ? t('saving') : t('addLicenseButton')}</Button>
             </form>
 
+            {lapsingRequiredLicenses.length > 0 && (
+                <div className="mb-4 p-3 rounded-md bg-orange-50 border border-orange-200 text-sm text-orange-800 flex items-start">
+                    <ExclamationTriangleIcon className="w-5 h-5 me-2 flex-shrink-0"/>
+                    <p>{t(lapsingRequiredLicenses.some(cert => cert.expiryState === 'expired') ? 'licenseExpiredBanner' : 'licenseExpiringBanner', { names: lapsingRequiredLicenses.map(cert => cert.name).join(', ') })}</p>
+                </div>
+            )}
+
             {therapistData?.certifications?.length ? (
                 <ul className="space-y-3">
-                    {therapistData.certifications.map(cert => (
+                    {therapistData.certifications.map(cert => {
+                        const status = cert.status || (cert.isVerified ? 'approved' : 'pending');
+                        return (
                         <li key={cert.id} className="p-3 border border-gray-200 rounded-md flex flex-col sm:flex-row justify-between sm:items-center hover:bg-gray-50/30 transition-colors">
                             <div className="flex-grow mb-2 sm:mb-0">
                                 <p className="font-medium text-textOnLight">{cert.name} <span className="text-xs text-gray-400">({cert.country || t('countryNotSpecified', {default: 'Country not specified'})})</span></p>
-                                <a href={cert.fileUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-accent hover:underline">{t('viewDocument')}</a>
+                                {(cert.issuingBody || cert.licenseNumber) && (
+                                    <p className="text-xs text-gray-500">{[cert.issuingBody, cert.licenseNumber && t('licenseNumberValue', { number: cert.licenseNumber })].filter(Boolean).join(' · ')}</p>
+                                )}
+                                {cert.expiresAt && (
+                                    <p className={`text-xs ${cert.expiryState === 'expired' ? 'text-red-600' : cert.expiryState === 'expiring' ? 'text-orange-600' : 'text-gray-500'}`}>
+                                        {cert.expiryState && <ExclamationTriangleIcon className="w-3 h-3 inline me-1"/>}
+                                        {t(cert.expiryState === 'expired' ? 'licenseExpiredOn' : 'licenseExpiresOn', { date: cert.expiresAt })}
+                                    </p>
+                                )}
+                                {cert.isRequired === false && <p className="text-xs text-gray-400">{t('licenseOptionalLabel')}</p>}
+                                {cert.isQuarantined ? (
+                                    <p className="text-xs text-red-600"><ExclamationTriangleIcon className="w-3 h-3 inline me-1"/>{t('documentQuarantinedNotice')}</p>
+                                ) : (
+                                    <PrivateFileLink pathOrUrl={cert.filePath || cert.fileUrl} className="text-xs text-accent hover:underline">{t('viewDocument')}</PrivateFileLink>
+                                )}
                                 {cert.verificationNotes && <p className="text-xs text-yellow-600 mt-0.5">{t('notes', {default: 'Notes:'})} {cert.verificationNotes}</p>}
                             </div>
                             <div className="flex items-center space-x-2 flex-shrink-0">
-                                <span className={`text-xs px-2 py-0.5 rounded-full ${cert.isVerified ? 'bg-green-100 text-green-700' : cert.verificationNotes ? 'bg-orange-100 text-orange-700' : 'bg-yellow-100 text-yellow-700'}`}>
-                                    {cert.isVerified ? <CheckCircleIcon className="w-3 h-3 inline me-1"/> : <ExclamationTriangleIcon className="w-3 h-3 inline me-1"/> }
-                                    {cert.isVerified ? t('verified') : cert.verificationNotes ? t('needsReview') : t('pending')}
+                                <span className={`text-xs px-2 py-0.5 rounded-full ${status === 'approved' ? 'bg-green-100 text-green-700' : status === 'rejected' ? 'bg-orange-100 text-orange-700' : 'bg-yellow-100 text-yellow-700'}`}>
+                                    {status === 'approved' ? <CheckCircleIcon className="w-3 h-3 inline me-1"/> : <ExclamationTriangleIcon className="w-3 h-3 inline me-1"/> }
+                                    {t(`certificationStatus_${status}`)}
                                 </span>
                                 <Button variant="danger" size="sm" onClick={() => handleDeleteCert(cert.id)} className="!p-1" disabled={isLoading}>
                                     <TrashIcon className="w-4 h-4"/>
                                 </Button>
                             </div>
                         </li>
-                    ))}
+                        );
+                    })}
                 </ul>
             ) : <p className="text-gray-500">{t('noLicensesUploaded')}</p>}
         </div>
@@ -508,6 +604,8 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
     const [filters, setFilters] = useState<SpaceFilters>({ location: '', minPrice: '', maxPrice: '', features: [] });
     const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
     const [selectedSpace, setSelectedSpace] = useState<ClinicSpaceListing | null>(null);
+    const [bookingSpace, setBookingSpace] = useState<ClinicSpaceListing | null>(null);
+    const [rentalsRefreshKey, setRentalsRefreshKey] = useState(0);
 
     const liveClinicsMap = useMemo(() => {
         const map = new Map<string, Clinic>();
@@ -515,15 +613,15 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
         return map;
     }, [allClinics]);
 
-    const clinicWhatsAppMap = useMemo(() => {
-        const map = new Map<string, string>();
-        allClinics.forEach(clinic => {
-            if (clinic.id && clinic.whatsappNumber) {
-                map.set(clinic.id, clinic.whatsappNumber);
-            }
+    const { startConversation } = useStartConversation();
+
+    const handleMessageSpaceOwner = (space: ClinicSpaceListing) => {
+        startConversation({
+            clinicId: space.clinicId,
+            recipientName: space.clinicName || t('yourClinic', {default: 'your clinic'}),
+            context: { type: 'clinic_space', id: space.id, label: space.name }
         });
-        return map;
-    }, [allClinics]);
+    };
 
     const filteredSpaces = useMemo(() => {
         return availableClinicSpaces.filter(space => {
@@ -609,22 +707,18 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
                 </div>
             ) : viewMode === 'grid' ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {filteredSpaces.map(space => {
-                        const clinicOwnerWhatsApp = space.clinicId ? clinicWhatsAppMap.get(space.clinicId) : undefined;
-                        return (
-                            <ClinicSpaceCard 
-                                key={space.id} 
-                                space={space} 
-                                onViewDetails={() => setSelectedSpace(space)}
-                                clinicOwnerWhatsApp={clinicOwnerWhatsApp}
-                            />
-                        );
-                    })}
+                    {filteredSpaces.map(space => (
+                        <ClinicSpaceCard 
+                            key={space.id} 
+                            space={space} 
+                            onViewDetails={() => setSelectedSpace(space)}
+                            onMessageOwner={handleMessageSpaceOwner}
+                        />
+                    ))}
                 </div>
             ) : ( 
                  <div className="divide-y divide-gray-700 border border-gray-700 rounded-md">
                     {filteredSpaces.map(space => {
-                        const clinicOwnerWhatsApp = space.clinicId ? clinicWhatsAppMap.get(space.clinicId) : undefined;
                         return (
                             <div key={space.id} className="p-3 hover:bg-gray-700/50 transition-colors">
                                 <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-2">
@@ -637,16 +731,16 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
                                     </div>
                                     <div className="flex-shrink-0 flex sm:flex-col items-end sm:items-stretch gap-2 mt-2 sm:mt-0">
                                         <Button size="sm" variant="secondary" onClick={() => setSelectedSpace(space)}>{t('viewDetailsButtonLabel')}</Button>
-                                        {clinicOwnerWhatsApp && (
+                                        {space.clinicId && (
                                             <Button 
                                                 size="sm" 
                                                 variant="primary" 
                                                 onClick={(e) => { 
                                                     e.stopPropagation();
-                                                    window.open(`https://wa.me/${clinicOwnerWhatsApp.replace(/\D/g, '')}?text=${encodeURIComponent(t('whatsappGreetingClinicSpace', { spaceName: space.name, clinicName: space.clinicName || t('yourClinic', {default: 'your clinic'}), appName: t('appName')}))}`, '_blank');
+                                                    handleMessageSpaceOwner(space);
                                                 }} 
-                                                leftIcon={<WhatsAppIcon className="w-3.5 h-3.5" />} 
-                                                className="!bg-green-500 hover:!bg-green-600 whitespace-nowrap">
+                                                leftIcon={<ChatBubbleLeftRightIcon className="w-3.5 h-3.5" />} 
+                                                className="whitespace-nowrap">
                                                 {t('connectWithClinicOwnerButtonLabel', {default: 'Chat with Owner'})}
                                             </Button>
                                         )}
@@ -663,9 +757,16 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
                     space={selectedSpace} 
                     isOpen={!!selectedSpace} 
                     onClose={() => setSelectedSpace(null)}
-                    clinicOwnerWhatsApp={selectedSpace.clinicId ? clinicWhatsAppMap.get(selectedSpace.clinicId) : undefined}
+                    onMessageOwner={handleMessageSpaceOwner}
+                    onBook={(space) => { setSelectedSpace(null); setBookingSpace(space); }}
                 />
             )}
+            <SpaceBookingModal
+                space={bookingSpace}
+                isOpen={!!bookingSpace}
+                onClose={() => setBookingSpace(null)}
+                onBooked={() => setRentalsRefreshKey(key => key + 1)}
+            />
             <SpaceFilterModal 
                 isOpen={isFilterModalOpen}
                 onClose={() => setIsFilterModalOpen(false)}
@@ -673,6 +774,11 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
                 onApplyFilters={setFilters}
                 featuresList={spaceFeaturesList}
             />
+
+            <div className="mt-10 pt-6 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-accent flex items-center mb-4"><ClockIcon className={`w-5 h-5 ${direction === 'rtl' ? 'ms-2' : 'me-2'}`}/>{t('myRentalsTitle')}</h3>
+                <SpaceReservationsList viewer="therapist" refreshKey={rentalsRefreshKey} />
+            </div>
         </div>
     );
 };
@@ -681,7 +787,7 @@ const TherapistSpaceRentalTabContent: React.FC = () => {
 const TherapistSettingsTabContent: React.FC = () => {
     usePageTitle('dashboardSettingsTab');
     const { t } = useTranslation();
-    const { therapistData, userAccountData, handleAccountSave, handleMembershipApplication, isLoading, membershipHistory } = useOutletContext<OutletContextType>();
+    const { therapistData, userAccountData, handleAccountSave, handleMembershipApplication, isLoading } = useOutletContext<OutletContextType>();
 
     const [accountData, setAccountData] = useState(userAccountData || { name: '', email: '' });
     const [paymentReceiptFile, setPaymentReceiptFile] = useState<File | null>(null);
@@ -802,29 +908,27 @@ const TherapistSettingsTabContent: React.FC = () => {
             </AccordionSection>
 
             <AccordionSection 
-                titleKey="membershipHistoryTitle" 
-                icon={<DocumentDuplicateIcon />}
-                isOpen={activeSettingsAccordionSection === 'history'}
-                onClick={() => toggleSettingsAccordion('history')}
+                titleKey="pushNotificationsTitle" 
+                icon={<BellIcon />}
+                isOpen={activeSettingsAccordionSection === 'pushNotifications'}
+                onClick={() => toggleSettingsAccordion('pushNotifications')}
             >
-                 {isLoading && membershipHistory.length === 0 ? <p>{t('loading')}...</p> :
-                  membershipHistory.length > 0 ? (
-                    <ul className="space-y-2 mt-3">
-                        {membershipHistory.map(item => (
-                            <li key={item.id} className="text-xs p-2 border-b border-gray-100">
-                                <strong>{new Date(item.date).toLocaleDateString()}:</strong> {item.action}
-                                {item.details && <span className="text-gray-500"> - {item.details}</span>}
-                            </li>
-                        ))}
-                    </ul>
-                ) : (
-                    <p className="text-sm text-gray-500 mt-2">{t('noMembershipHistoryAvailable', { default: 'No membership history available.'})}</p>
-                )}
+                <PushNotificationSettings />
             </AccordionSection>
         </div>
     );
 };
 
+// --- Billing Tab ---
+const TherapistBillingTabContent: React.FC = () => {
+    usePageTitle('dashboardBillingTab');
+    return (
+        <div className="bg-primary p-4 sm:p-6 rounded-lg shadow text-textOnLight">
+            <BillingHistory />
+        </div>
+    );
+};
+
 // --- Main Therapist Dashboard Page Shell ---
 const TherapistDashboardPageShell: React.FC = () => {
     const { user, token, updateUserAuthContext } = useAuth(); 
@@ -834,7 +938,6 @@ const TherapistDashboardPageShell: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [availableClinicSpaces, setAvailableClinicSpaces] = useState<ClinicSpaceListing[]>([]);
     const [allClinics, setAllClinics] = useState<Clinic[]>([]);
-    const [membershipHistory, setMembershipHistory] = useState<MembershipHistoryItem[]>([]);
 
 
     const fetchDashboardData = useCallback(async () => {
@@ -862,6 +965,17 @@ const TherapistDashboardPageShell: React.FC = () => {
                 }
                 setUserAccountData({ name: user.name || '', email: user.email });
 
+                // Certifications and their review state come from Functions
+                const certificationsResponse = await fetch(`${FUNCTIONS_API_BASE_URL}/therapist_certifications?therapistId=${user.id}`, {
+                    headers: { 'Authorization': `Bearer ${token}` }
+                });
+                const certificationsData = await certificationsResponse.json();
+                if (certificationsData.status === 'success' && certificationsData.data) {
+                    setTherapistData(prev => prev ? { ...prev, certifications: certificationsData.data } : prev);
+                } else {
+                    console.error("Failed to fetch certifications:", certificationsData.message);
+                }
+
                 // Fetch available clinic spaces
                 const spacesResponse = await fetch(`${API_BASE_URL}/clinic_spaces.php`, { // Assuming a general endpoint for all spaces
                     headers: { 'Authorization': `Bearer ${token}` }
@@ -884,18 +998,6 @@ const TherapistDashboardPageShell: React.FC = () => {
                     console.error("Failed to fetch all clinics:", clinicsData.message);
                 }
 
-                 // Fetch membership history
-                const historyResponse = await fetch(`${API_BASE_URL}/therapist_membership_history.php?userId=${user.id}`, {
-                    headers: { 'Authorization': `Bearer ${token}` }
-                });
-                const historyData = await historyResponse.json();
-                if (historyData.status === 'success' && historyData.history) {
-                    setMembershipHistory(historyData.history);
-                } else {
-                    console.error("Failed to fetch membership history:", historyData.message);
-                    setMembershipHistory([]); // Set to empty if fetch fails
-                }
-
 
             } catch (error) {
                 console.error("API error fetching dashboard data:", error);
@@ -952,13 +1054,28 @@ const TherapistDashboardPageShell: React.FC = () => {
         }
         
         try {
-            const response = await fetch(`${API_BASE_URL}/therapist_profile.php`, {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` };
+            // Lets the server refuse the save if the profile was changed elsewhere since it was loaded
+            if (therapistData.updatedAt) headers[BASE_VERSION_HEADER] = therapistData.updatedAt;
+            const sent = await sendOrQueue('profile_update', `${API_BASE_URL}/therapist_profile.php`, {
                 method: 'PUT',
-                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+                headers,
                 body: JSON.stringify(dataToSave),
-            });
+            }, `profile:${dataToSave.id}`);
+            if (sent.queued) {
+                // Offline: show the edits now, the outbox sends them once the connection is back
+                setTherapistData(dataToSave);
+                alert(t('profileSavedOffline'));
+                setIsLoading(false);
+                return;
+            }
+            const response = sent.response;
             const result = await response.json();
-            if (result.status === 'success' && result.therapist) {
+            if (response.status === 409 && result.current) {
+                // Saving again overwrites the other changes, as the user was warned
+                setTherapistData(prev => prev ? { ...prev, updatedAt: result.current.updatedAt } : prev);
+                alert(t('profileChangedElsewhere'));
+            } else if (result.status === 'success' && result.therapist) {
                 setTherapistData(result.therapist);
                 alert(t('profileSavedSuccess'));
             } else {
@@ -1046,30 +1163,34 @@ const TherapistDashboardPageShell: React.FC = () => {
     const handleAddOrUpdateCertification = async (certification: Certification, certFile?: File | null) => {
         if (!user || !token || !therapistData) return;
         setIsLoading(true);
-        let fileUrl: string | null | undefined = certification.fileUrl;
+        let filePath: string | null | undefined = certification.filePath;
 
+        // License documents go to private storage, not the public upload endpoint
         if (certFile) {
-            fileUrl = await handleFileUpload(certFile, `certification_${certification.id || Date.now()}`);
-            if (!fileUrl) {
+            try {
+                filePath = await uploadCertification(certFile, user.id);
+            } catch (error) {
+                console.error("Certification upload error:", error);
                 setIsLoading(false);
                 alert("Certification file upload failed.");
                 return;
             }
         }
-        if (!fileUrl) { 
+        if (!filePath && !certification.fileUrl) { 
              alert(t('certNameFileRequired')); setIsLoading(false); return;
         }
 
-        const certPayload = { ...certification, fileUrl, therapistId: user.id };
+        const certPayload = { ...certification, filePath, therapistId: user.id, therapistUserId: user.id };
         try {
-            const response = await fetch(`${API_BASE_URL}/therapist_certifications.php`, { 
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/therapist_certifications`, { 
                 method: certification.id.startsWith('new-cert-') ? 'POST' : 'PUT', 
                 headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
                 body: JSON.stringify(certPayload),
             });
             const data = await response.json();
             if (data.status === 'success' && data.therapist) { 
-                setTherapistData(data.therapist);
+                // Only the certifications change; the rest of the profile keeps any unsaved edits
+                setTherapistData(prev => prev ? { ...prev, certifications: data.therapist.certifications } : prev);
                 alert(t('profileSavedSuccess')); 
             } else {
                 throw new Error(data.message || "Failed to save certification");
@@ -1085,14 +1206,14 @@ const TherapistDashboardPageShell: React.FC = () => {
         if (!user || !token || !therapistData) return;
         setIsLoading(true);
         try {
-            const response = await fetch(`${API_BASE_URL}/therapist_certifications.php`, { 
+            const response = await fetch(`${FUNCTIONS_API_BASE_URL}/therapist_certifications`, { 
                 method: 'DELETE',
                 headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
                 body: JSON.stringify({ certId, therapistId: user.id }),
             });
             const data = await response.json();
             if (data.status === 'success' && data.therapist) {
-                 setTherapistData(data.therapist); 
+                 setTherapistData(prev => prev ? { ...prev, certifications: data.therapist.certifications } : prev); 
                 alert("Certification deleted.");
             } else {
                 throw new Error(data.message || "Failed to delete certification");
@@ -1116,12 +1237,15 @@ const TherapistDashboardPageShell: React.FC = () => {
         isLoading,
         availableClinicSpaces,
         spaceFeaturesList: CLINIC_SPACE_FEATURES_LIST,
-        allClinics,
-        membershipHistory
+        allClinics
     };
 
     return (
         <DashboardLayout role={UserRole.THERAPIST}>
+            {/* Only shows while profile edits made offline are waiting or were refused */}
+            <div className="flex justify-end">
+                <SyncIndicator isSyncing={false} />
+            </div>
             <Outlet context={outletContextValue} />
         </DashboardLayout>
     );
@@ -1133,6 +1257,7 @@ export const TherapistDashboardRoutes = () => (
             <Route index element={<TherapistProfileTabContent />} />
             <Route path="licenses" element={<TherapistLicensesTabContent />} />
             <Route path="space-rental" element={<TherapistSpaceRentalTabContent />} />
+            <Route path="billing" element={<TherapistBillingTabContent />} />
             <Route path="settings" element={<TherapistSettingsTabContent />} />
         </Route>
     </Routes>
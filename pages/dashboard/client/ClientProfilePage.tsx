@@ -5,6 +5,7 @@ import { useTranslation } from '../../../hooks/useTranslation';
 import { usePageTitle } from '../../../hooks/usePageTitle';
 import { Button } from '../../../components/common/Button';
 import { InputField, FileUploadField } from '../../../components/dashboard/shared/FormElements';
+import { PushNotificationSettings } from '../../../components/dashboard/shared/PushNotificationSettings';
 import { ArrowUpOnSquareIcon, UserCircleIcon } from '../../../components/icons';
 import { PROFILE_PICTURE_MAX_SIZE_MB, API_BASE_URL } from '../../../constants';
 
@@ -171,6 +172,10 @@ export const ClientProfilePage: React.FC = () => {
             </Button>
           </div>
         </form>
+        <div className="mt-6 pt-4 border-t border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-semibold text-textOnLight mb-3">{t('pushNotificationsTitle')}</h2>
+          <PushNotificationSettings />
+        </div>
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import React from 'react';
-import { useTranslation } from '../hooks/useTranslation.ts';
-import { useOfflineStatus } from '../hooks/useOfflineStatus.ts';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { useOfflineStatus } from '../../hooks/useOfflineStatus';
+import { useOutbox } from '../../hooks/useOutbox';
 
 interface DataSyncStatusProps {
   lastSyncTime?: Date | null;
@@ -15,52 +16,88 @@ export const DataSyncStatus: React.FC<DataSyncStatusProps> = ({
 }) => {
   const { t } = useTranslation();
   const isOffline = useOfflineStatus();
-  
+  const { pending, failed, conflicts, isReplaying, retry, discard } = useOutbox();
+
+  // Unlike SyncIndicator this lists what the server refused, so each change can be retried or dropped
+  const outboxDetails = failed.length > 0 && (
+    <ul className="mt-1 space-y-1">
+      {failed.map(entry => (
+        <li key={entry.id} className="flex items-center text-xs text-red-600">
+          <span className="truncate">{t(`outboxKind_${entry.kind}`)}: {entry.lastError}</span>
+          <button type="button" onClick={() => retry([entry])} className="ml-2 underline hover:text-red-800">
+            {t('outboxRetry')}
+          </button>
+          <button type="button" onClick={() => discard(entry)} className="ml-2 underline hover:text-red-800">
+            {t('outboxDiscard')}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (failed.length > 0 || conflicts.length > 0) {
+    return (
+      <div>
+        <div className="flex items-center text-xs text-red-600">
+          <span className="w-2 h-2 bg-red-600 rounded-full mr-1"></span>
+          <span>{t('outboxFailed', { count: failed.length + conflicts.length })}</span>
+        </div>
+        {outboxDetails}
+      </div>
+    );
+  }
+
   if (syncError) {
     return (
       <div className="flex items-center text-xs text-red-600">
         <span className="w-2 h-2 bg-red-600 rounded-full mr-1"></span>
-        <span>{t('syncError', { default: 'Sync error' })}</span>
+        <span>{t('syncError')}</span>
       </div>
     );
   }
-  
-  if (isSyncing) {
+
+  if (isSyncing || isReplaying) {
     return (
       <div className="flex items-center text-xs text-blue-600">
         <span className="w-2 h-2 bg-blue-600 rounded-full mr-1 animate-pulse"></span>
-        <span>{t('syncing', { default: 'Syncing...' })}</span>
+        <span>{t('syncing')}</span>
       </div>
     );
   }
-  
+
+  if (pending.length > 0) {
+    return (
+      <div className="flex items-center text-xs text-yellow-600">
+        <span className="w-2 h-2 bg-yellow-600 rounded-full mr-1"></span>
+        <span>{t('outboxPending', { count: pending.length })}</span>
+      </div>
+    );
+  }
+
   if (isOffline) {
     return (
       <div className="flex items-center text-xs text-yellow-600">
         <span className="w-2 h-2 bg-yellow-600 rounded-full mr-1"></span>
-        <span>{t('offline', { default: 'Offline' })}</span>
+        <span>{t('offline')}</span>
       </div>
     );
   }
-  
+
   if (lastSyncTime) {
     return (
       <div className="flex items-center text-xs text-green-600">
         <span className="w-2 h-2 bg-green-600 rounded-full mr-1"></span>
         <span>
-          {t('lastSynced', { 
-            time: lastSyncTime.toLocaleTimeString(), 
-            default: `Last synced: ${lastSyncTime.toLocaleTimeString()}` 
-          })}
+          {t('lastSynced', { time: lastSyncTime.toLocaleTimeString() })}
         </span>
       </div>
     );
   }
-  
+
   return (
     <div className="flex items-center text-xs text-gray-500">
       <span className="w-2 h-2 bg-gray-500 rounded-full mr-1"></span>
-      <span>{t('notSynced', { default: 'Not synced' })}</span>
+      <span>{t('notSynced')}</span>
     </div>
   );
-};
\ No newline at end of file
+};
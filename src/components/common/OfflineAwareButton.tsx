@@ -1,5 +1,5 @@
 import React from 'react';
-import { Button } from './Button';
+import { Button } from '../../../components/common/Button';
 import { useOfflineStatus } from '../../../hooks/useOfflineStatus';
 
 interface OfflineAwareButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
@@ -10,6 +10,8 @@ interface OfflineAwareButtonProps extends React.ButtonHTMLAttributes<HTMLButtonE
   isFullWidth?: boolean;
   offlineDisabled?: boolean;
   offlineTooltip?: string;
+  offlineQueued?: boolean; // The action goes through the outbox (src/outbox.ts), so it stays available offline
+  offlineQueuedTooltip?: string;
 }
 
 export const OfflineAwareButton: React.FC<OfflineAwareButtonProps> = ({
@@ -22,13 +24,17 @@ export const OfflineAwareButton: React.FC<OfflineAwareButtonProps> = ({
   isFullWidth = false,
   offlineDisabled = true,
   offlineTooltip = 'This action is not available while offline',
+  offlineQueued = false,
+  offlineQueuedTooltip = 'Saved on this device and sent when you are back online',
   ...props
 }) => {
   const isOffline = useOfflineStatus();
-  const isDisabled = props.disabled || (isOffline && offlineDisabled);
+  const isBlocked = isOffline && offlineDisabled && !offlineQueued;
+  const isDisabled = props.disabled || isBlocked;
+  const tooltip = isOffline && offlineQueued ? offlineQueuedTooltip : isBlocked ? offlineTooltip : null;
   
   return (
-    <div className="relative inline-block">
+    <div className="relative inline-block group">
       <Button
         variant={variant}
         size={size}
@@ -41,9 +47,9 @@ export const OfflineAwareButton: React.FC<OfflineAwareButtonProps> = ({
       >
         {children}
       </Button>
-      {isOffline && offlineDisabled && (
+      {tooltip && (
         <div className="absolute -top-10 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white text-xs rounded py-1 px-2 whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-          {offlineTooltip}
+          {tooltip}
         </div>
       )}
     </div>
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Modal } from '../../../components/common/Modal';
+import { Button } from '../../../components/common/Button';
+import { useTranslation } from '../../../hooks/useTranslation';
+import { useOutbox } from '../../hooks/useOutbox';
+import { OutboxEntry } from '../../hooks/useIndexedDB';
+
+// Bookkeeping fields that differ between any two versions
+const IGNORED_FIELDS = ['id', 'updatedAt', 'certifications'];
+
+// The fields the queued change sets to something other than the server's current version
+const getChangedFields = (entry: OutboxEntry): string[] => {
+  const current = entry.conflict?.current;
+  if (!current || !entry.body) return [];
+  try {
+    const mine = JSON.parse(entry.body);
+    return Object.keys(mine).filter(field =>
+      !IGNORED_FIELDS.includes(field) && field in current && JSON.stringify(mine[field]) !== JSON.stringify(current[field])
+    );
+  } catch (error) {
+    return [];
+  }
+};
+
+// Asks the user what to do with a change made offline that the server refused
+// because the same record was changed elsewhere in the meantime
+export const OutboxConflictPrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const { conflicts, resolveConflict } = useOutbox();
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const entry = conflicts.find(conflict => !dismissedIds.includes(conflict.id));
+  if (!entry) return null;
+
+  const changedFields = getChangedFields(entry);
+
+  const handleChoice = async (choice: 'keep_mine' | 'discard') => {
+    setIsResolving(true);
+    try {
+      await resolveConflict(entry, choice);
+    } catch (error) {
+      console.error('Error resolving outbox conflict:', error);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      // Asked again on the next visit; SyncIndicator keeps counting it meanwhile
+      onClose={() => setDismissedIds(prev => [...prev, entry.id])}
+      title={t('outboxConflictTitle')}
+    >
+      <p className="text-sm text-textOnLight mb-2">{t(`outboxConflict_${entry.kind}`)}</p>
+      {changedFields.length > 0 && (
+        <p className="text-sm text-gray-600 mb-2">{t('outboxConflictFields', { fields: changedFields.join(', ') })}</p>
+      )}
+      <p className="text-xs text-gray-500 mb-4">{t('outboxQueuedAt', { time: new Date(entry.createdAt).toLocaleString() })}</p>
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={() => handleChoice('discard')} disabled={isResolving}>
+          {t('outboxDiscardMine')}
+        </Button>
+        <Button variant="primary" onClick={() => handleChoice('keep_mine')} disabled={isResolving}>
+          {t('outboxKeepMine')}
+        </Button>
+      </div>
+    </Modal>
+  );
+};
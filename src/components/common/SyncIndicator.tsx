@@ -1,5 +1,6 @@
 import React from 'react';
 import { useTranslation } from '../../../hooks/useTranslation';
+import { useOutbox } from '../../hooks/useOutbox';
 
 interface SyncIndicatorProps {
   isSyncing: boolean;
@@ -7,44 +8,66 @@ interface SyncIndicatorProps {
   syncError?: string | null;
 }
 
-export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ 
-  isSyncing, 
-  lastSynced, 
-  syncError 
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
+  isSyncing,
+  lastSynced,
+  syncError
 }) => {
   const { t } = useTranslation();
-  
+  const { pending, failed, conflicts, isReplaying, retry } = useOutbox();
+
+  // Changes the server refused need the user, so they come before everything else
+  if (failed.length > 0 || conflicts.length > 0) {
+    return (
+      <div className="flex items-center text-xs text-red-600">
+        <span className="w-2 h-2 bg-red-600 rounded-full mr-1"></span>
+        <span>{t('outboxFailed', { count: failed.length + conflicts.length })}</span>
+        {failed.length > 0 && (
+          <button type="button" onClick={() => retry(failed)} className="ml-2 underline hover:text-red-800">
+            {t('outboxRetry')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
   if (syncError) {
     return (
       <div className="flex items-center text-xs text-red-600">
         <span className="w-2 h-2 bg-red-600 rounded-full mr-1"></span>
-        <span>{t('syncError', { default: 'Sync error' })}</span>
+        <span>{t('syncError')}</span>
       </div>
     );
   }
-  
-  if (isSyncing) {
+
+  if (isSyncing || isReplaying) {
     return (
       <div className="flex items-center text-xs text-blue-600">
         <span className="w-2 h-2 bg-blue-600 rounded-full mr-1 animate-pulse"></span>
-        <span>{t('syncing', { default: 'Syncing...' })}</span>
+        <span>{t('syncing')}</span>
+      </div>
+    );
+  }
+
+  if (pending.length > 0) {
+    return (
+      <div className="flex items-center text-xs text-yellow-600">
+        <span className="w-2 h-2 bg-yellow-600 rounded-full mr-1"></span>
+        <span>{t('outboxPending', { count: pending.length })}</span>
       </div>
     );
   }
-  
+
   if (lastSynced) {
     return (
       <div className="flex items-center text-xs text-green-600">
         <span className="w-2 h-2 bg-green-600 rounded-full mr-1"></span>
         <span>
-          {t('lastSynced', { 
-            time: lastSynced.toLocaleTimeString(), 
-            default: `Last synced: ${lastSynced.toLocaleTimeString()}` 
-          })}
+          {t('lastSynced', { time: lastSynced.toLocaleTimeString() })}
         </span>
       </div>
     );
   }
-  
+
   return null;
-};
\ No newline at end of file
+};
@@ -16,8 +16,27 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, getDoc } from 'firebase/firestore';
 import { auth, firestore } from './config';
+import { therapistSchema, clinicSchema, userSchema, validateWrite, formatWriteErrors, parseDocument } from './schemas';
 import { User, UserRole } from '../types';
 
+// Creates the therapist or clinic document a new account starts with. Apart from
+// the name, everything comes from the schema defaults: a draft, unverified profile.
+const createRoleProfile = async (uid: string, role: UserRole, name: string): Promise<void> => {
+  const now = new Date().toISOString();
+  const profile = role === UserRole.THERAPIST
+    ? { schema: therapistSchema, id: uid, data: { name } }
+    : role === UserRole.CLINIC_OWNER
+      ? { schema: clinicSchema, id: `clinic_${uid}`, data: { ownerId: uid, name: `${name}'s Clinic` } }
+      : null;
+  if (!profile) return;
+
+  const { value, errors } = validateWrite(profile.schema, { ...profile.data, createdAt: now, updatedAt: now }, { includeManaged: true });
+  if (errors.length > 0) {
+    throw new Error(formatWriteErrors(profile.schema, errors));
+  }
+  await setDoc(doc(firestore, profile.schema.collection, profile.id), { id: profile.id, ...value });
+};
+
 // Sign up a new user with email/password
 export const signUp = async (
   name: string, 
@@ -47,43 +66,7 @@ export const signUp = async (
     await setDoc(doc(firestore, 'users', firebaseUser.uid), userDoc);
     
     // Create role-specific data
-    if (role === UserRole.THERAPIST) {
-      await setDoc(doc(firestore, 'therapists_data', firebaseUser.uid), {
-        user_id: firebaseUser.uid,
-        account_status: 'draft',
-        bio: '',
-        specializations: [],
-        languages: [],
-        qualifications: [],
-        locations: [],
-        rating: 0,
-        review_count: 0,
-        profile_views: 0,
-        likes_count: 0,
-        whatsapp_number: '',
-        is_overall_verified: false,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-    } else if (role === UserRole.CLINIC_OWNER) {
-      const clinicId = `clinic_${firebaseUser.uid}`;
-      await setDoc(doc(firestore, 'clinics_data', clinicId), {
-        user_id: firebaseUser.uid,
-        clinic_id: clinicId,
-        clinic_name: `${name}'s Clinic`,
-        account_status: 'draft',
-        description: '',
-        address: '',
-        whatsapp_number: '',
-        amenities: [],
-        operating_hours: {},
-        services: [],
-        clinic_photos: [],
-        is_verified_by_admin: false,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-    }
+    await createRoleProfile(firebaseUser.uid, role, name);
     
     return userDoc;
   } catch (error: any) {
@@ -134,43 +117,7 @@ export const signInWithGoogle = async (defaultRole: UserRole = UserRole.CLIENT):
       });
       
       // Create role-specific data
-      if (defaultRole === UserRole.THERAPIST) {
-        await setDoc(doc(firestore, 'therapists_data', firebaseUser.uid), {
-          user_id: firebaseUser.uid,
-          account_status: 'draft',
-          bio: '',
-          specializations: [],
-          languages: [],
-          qualifications: [],
-          locations: [],
-          rating: 0,
-          review_count: 0,
-          profile_views: 0,
-          likes_count: 0,
-          whatsapp_number: '',
-          is_overall_verified: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      } else if (defaultRole === UserRole.CLINIC_OWNER) {
-        const clinicId = `clinic_${firebaseUser.uid}`;
-        await setDoc(doc(firestore, 'clinics_data', clinicId), {
-          user_id: firebaseUser.uid,
-          clinic_id: clinicId,
-          clinic_name: `${firebaseUser.displayName || 'New'}'s Clinic`,
-          account_status: 'draft',
-          description: '',
-          address: '',
-          whatsapp_number: '',
-          amenities: [],
-          operating_hours: {},
-          services: [],
-          clinic_photos: [],
-          is_verified_by_admin: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      }
+      await createRoleProfile(firebaseUser.uid, defaultRole, newUser.name || 'User');
       
       return newUser;
     }
@@ -211,43 +158,7 @@ export const signInWithFacebook = async (defaultRole: UserRole = UserRole.CLIENT
       });
       
       // Create role-specific data
-      if (defaultRole === UserRole.THERAPIST) {
-        await setDoc(doc(firestore, 'therapists_data', firebaseUser.uid), {
-          user_id: firebaseUser.uid,
-          account_status: 'draft',
-          bio: '',
-          specializations: [],
-          languages: [],
-          qualifications: [],
-          locations: [],
-          rating: 0,
-          review_count: 0,
-          profile_views: 0,
-          likes_count: 0,
-          whatsapp_number: '',
-          is_overall_verified: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      } else if (defaultRole === UserRole.CLINIC_OWNER) {
-        const clinicId = `clinic_${firebaseUser.uid}`;
-        await setDoc(doc(firestore, 'clinics_data', clinicId), {
-          user_id: firebaseUser.uid,
-          clinic_id: clinicId,
-          clinic_name: `${firebaseUser.displayName || 'New'}'s Clinic`,
-          account_status: 'draft',
-          description: '',
-          address: '',
-          whatsapp_number: '',
-          amenities: [],
-          operating_hours: {},
-          services: [],
-          clinic_photos: [],
-          is_verified_by_admin: false,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      }
+      await createRoleProfile(firebaseUser.uid, defaultRole, newUser.name || 'User');
       
       return newUser;
     }
@@ -294,7 +205,7 @@ export const getCurrentUser = async (firebaseUser: FirebaseUser): Promise<User>
       return newUser;
     }
     
-    return userDoc.data() as User;
+    return parseDocument<User>(userSchema, userDoc.id, userDoc.data());
   } catch (error: any) {
     console.error('Error getting current user:', error);
     throw new Error(error.message || 'Failed to get user data');
@@ -13,14 +13,27 @@ import {
   startAfter,
   DocumentData,
   QueryDocumentSnapshot,
-  writeBatch,
   Timestamp
 } from 'firebase/firestore';
 import { firestore } from './config';
+import {
+  DocumentSchema, userSchema, therapistSchema, clinicSchema, clinicSpaceSchema, certificationSchema, userInquirySchema,
+  validateWrite, formatWriteErrors, parseDocument
+} from './schemas';
 import { Therapist, Clinic, ClinicSpaceListing, UserInquiry, User, UserRole, Certification, ActivityLog, MembershipHistoryItem } from '../../types';
 
+// Checks a write against the collection's schema and throws with its messages. Firestore
+// rules decide who may set managed fields, so they are kept here.
+const checkWrite = (schema: DocumentSchema, data: Record<string, any>, partial: boolean = false): Record<string, any> => {
+  const { value, errors } = validateWrite(schema, data, { partial, includeManaged: true });
+  if (errors.length > 0) {
+    throw new Error(formatWriteErrors(schema, errors));
+  }
+  return value;
+};
+
 // Generic function to get a document by ID
-export const getDocumentById = async <T>(collectionName: string, id: string): Promise<T | null> => {
+export const getDocumentById = async <T>(collectionName: string, id: string, schema?: DocumentSchema): Promise<T | null> => {
   try {
     const docRef = doc(firestore, collectionName, id);
     const docSnap = await getDoc(docRef);
@@ -29,7 +42,7 @@ export const getDocumentById = async <T>(collectionName: string, id: string): Pr
       return null;
     }
     
-    return { id: docSnap.id, ...docSnap.data() } as T;
+    return schema ? parseDocument<T>(schema, docSnap.id, docSnap.data()) : { id: docSnap.id, ...docSnap.data() } as T;
   } catch (error: any) {
     console.error(`Error getting ${collectionName} document:`, error);
     throw new Error(error.message || `Failed to get ${collectionName} document`);
@@ -37,11 +50,11 @@ export const getDocumentById = async <T>(collectionName: string, id: string): Pr
 };
 
 // Generic function to update a document
-export const updateDocument = async <T>(collectionName: string, id: string, data: Partial<T>): Promise<void> => {
+export const updateDocument = async <T>(collectionName: string, id: string, data: Partial<T>, schema?: DocumentSchema): Promise<void> => {
   try {
     const docRef = doc(firestore, collectionName, id);
     await updateDoc(docRef, {
-      ...data,
+      ...(schema ? checkWrite(schema, data, true) : data),
       updatedAt: Timestamp.now()
     });
   } catch (error: any) {
@@ -51,11 +64,11 @@ export const updateDocument = async <T>(collectionName: string, id: string, data
 };
 
 // Generic function to create a document with a specific ID
-export const createDocumentWithId = async <T>(collectionName: string, id: string, data: T): Promise<void> => {
+export const createDocumentWithId = async <T>(collectionName: string, id: string, data: T, schema?: DocumentSchema): Promise<void> => {
   try {
     const docRef = doc(firestore, collectionName, id);
     await setDoc(docRef, {
-      ...data,
+      ...(schema ? { id, ...checkWrite(schema, data as Record<string, any>) } : data),
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now()
     });
@@ -83,7 +96,8 @@ export const getPaginatedDocuments = async <T>(
   orderByField: string = 'createdAt',
   orderDirection: 'asc' | 'desc' = 'desc',
   pageSize: number = 10,
-  lastDoc?: QueryDocumentSnapshot<DocumentData>
+  lastDoc?: QueryDocumentSnapshot<DocumentData>,
+  schema?: DocumentSchema
 ): Promise<{ items: T[], lastDoc: QueryDocumentSnapshot<DocumentData> | null }> => {
   try {
     let q = collection(firestore, collectionName);
@@ -112,7 +126,7 @@ export const getPaginatedDocuments = async <T>(
     let newLastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
     
     querySnapshot.forEach((doc) => {
-      items.push({ id: doc.id, ...doc.data() } as T);
+      items.push(schema ? parseDocument<T>(schema, doc.id, doc.data()) : { id: doc.id, ...doc.data() } as T);
       newLastDoc = doc;
     });
     
@@ -125,7 +139,7 @@ export const getPaginatedDocuments = async <T>(
 
 // User-specific functions
 export const getUserById = async (id: string): Promise<User | null> => {
-  return getDocumentById<User>('users', id);
+  return getDocumentById<User>('users', id, userSchema);
 };
 
 export const getUserByEmail = async (email: string): Promise<User | null> => {
@@ -139,7 +153,7 @@ export const getUserByEmail = async (email: string): Promise<User | null> => {
     }
     
     const doc = querySnapshot.docs[0];
-    return { id: doc.id, ...doc.data() } as User;
+    return parseDocument<User>(userSchema, doc.id, doc.data());
   } catch (error: any) {
     console.error('Error getting user by email:', error);
     throw new Error(error.message || 'Failed to get user by email');
@@ -147,16 +161,16 @@ export const getUserByEmail = async (email: string): Promise<User | null> => {
 };
 
 export const updateUser = async (id: string, data: Partial<User>): Promise<void> => {
-  return updateDocument<User>('users', id, data);
+  return updateDocument<User>('users', id, data, userSchema);
 };
 
 // Therapist-specific functions
 export const getTherapistById = async (id: string): Promise<Therapist | null> => {
-  return getDocumentById<Therapist>('therapists_data', id);
+  return getDocumentById<Therapist>('therapists_data', id, therapistSchema);
 };
 
 export const updateTherapistProfile = async (id: string, data: Partial<Therapist>): Promise<void> => {
-  return updateDocument<Therapist>('therapists_data', id, data);
+  return updateDocument<Therapist>('therapists_data', id, data, therapistSchema);
 };
 
 export const getAllTherapists = async (status?: string): Promise<Therapist[]> => {
@@ -174,7 +188,7 @@ export const getAllTherapists = async (status?: string): Promise<Therapist[]> =>
     const therapists: Therapist[] = [];
     
     querySnapshot.forEach((doc) => {
-      therapists.push({ id: doc.id, ...doc.data() } as Therapist);
+      therapists.push(parseDocument<Therapist>(therapistSchema, doc.id, doc.data()));
     });
     
     return therapists;
@@ -195,7 +209,7 @@ export const addCertification = async (certification: Omit<Certification, 'id'>)
       uploadedAt: new Date().toISOString()
     };
     
-    await createDocumentWithId<Certification>('certifications', certId, certData as Certification);
+    await createDocumentWithId<Certification>('certifications', certId, certData as Certification, certificationSchema);
     return certId;
   } catch (error: any) {
     console.error('Error adding certification:', error);
@@ -204,7 +218,7 @@ export const addCertification = async (certification: Omit<Certification, 'id'>)
 };
 
 export const updateCertification = async (id: string, data: Partial<Certification>): Promise<void> => {
-  return updateDocument<Certification>('certifications', id, data);
+  return updateDocument<Certification>('certifications', id, data, certificationSchema);
 };
 
 export const deleteCertification = async (id: string): Promise<void> => {
@@ -219,7 +233,7 @@ export const getTherapistCertifications = async (therapistId: string): Promise<C
     
     const certifications: Certification[] = [];
     querySnapshot.forEach((doc) => {
-      certifications.push({ id: doc.id, ...doc.data() } as Certification);
+      certifications.push(parseDocument<Certification>(certificationSchema, doc.id, doc.data()));
     });
     
     return certifications;
@@ -231,7 +245,7 @@ export const getTherapistCertifications = async (therapistId: string): Promise<C
 
 // Clinic-specific functions
 export const getClinicById = async (id: string): Promise<Clinic | null> => {
-  return getDocumentById<Clinic>('clinics_data', id);
+  return getDocumentById<Clinic>('clinics_data', id, clinicSchema);
 };
 
 export const getClinicByOwnerId = async (ownerId: string): Promise<Clinic | null> => {
@@ -245,7 +259,7 @@ export const getClinicByOwnerId = async (ownerId: string): Promise<Clinic | null
     }
     
     const doc = querySnapshot.docs[0];
-    return { id: doc.id, ...doc.data() } as Clinic;
+    return parseDocument<Clinic>(clinicSchema, doc.id, doc.data());
   } catch (error: any) {
     console.error('Error getting clinic by owner ID:', error);
     throw new Error(error.message || 'Failed to get clinic by owner ID');
@@ -253,7 +267,7 @@ export const getClinicByOwnerId = async (ownerId: string): Promise<Clinic | null
 };
 
 export const updateClinicProfile = async (id: string, data: Partial<Clinic>): Promise<void> => {
-  return updateDocument<Clinic>('clinics_data', id, data);
+  return updateDocument<Clinic>('clinics_data', id, data, clinicSchema);
 };
 
 export const getAllClinics = async (status?: string): Promise<Clinic[]> => {
@@ -271,7 +285,7 @@ export const getAllClinics = async (status?: string): Promise<Clinic[]> => {
     const clinics: Clinic[] = [];
     
     querySnapshot.forEach((doc) => {
-      clinics.push({ id: doc.id, ...doc.data() } as Clinic);
+      clinics.push(parseDocument<Clinic>(clinicSchema, doc.id, doc.data()));
     });
     
     return clinics;
@@ -283,13 +297,13 @@ export const getAllClinics = async (status?: string): Promise<Clinic[]> => {
 
 // Clinic Space functions
 export const getClinicSpaceById = async (id: string): Promise<ClinicSpaceListing | null> => {
-  return getDocumentById<ClinicSpaceListing>('clinic_spaces', id);
+  return getDocumentById<ClinicSpaceListing>('clinic_spaces', id, clinicSpaceSchema);
 };
 
 export const createClinicSpace = async (data: Omit<ClinicSpaceListing, 'id'>): Promise<string> => {
   try {
     const spaceId = `space_${Date.now()}`;
-    await createDocumentWithId<ClinicSpaceListing>('clinic_spaces', spaceId, { ...data, id: spaceId } as ClinicSpaceListing);
+    await createDocumentWithId<ClinicSpaceListing>('clinic_spaces', spaceId, { ...data, id: spaceId } as ClinicSpaceListing, clinicSpaceSchema);
     return spaceId;
   } catch (error: any) {
     console.error('Error creating clinic space:', error);
@@ -298,7 +312,7 @@ export const createClinicSpace = async (data: Omit<ClinicSpaceListing, 'id'>): P
 };
 
 export const updateClinicSpace = async (id: string, data: Partial<ClinicSpaceListing>): Promise<void> => {
-  return updateDocument<ClinicSpaceListing>('clinic_spaces', id, data);
+  return updateDocument<ClinicSpaceListing>('clinic_spaces', id, data, clinicSpaceSchema);
 };
 
 export const deleteClinicSpace = async (id: string): Promise<void> => {
@@ -313,7 +327,7 @@ export const getClinicSpacesByClinicId = async (clinicId: string): Promise<Clini
     
     const spaces: ClinicSpaceListing[] = [];
     querySnapshot.forEach((doc) => {
-      spaces.push({ id: doc.id, ...doc.data() } as ClinicSpaceListing);
+      spaces.push(parseDocument<ClinicSpaceListing>(clinicSpaceSchema, doc.id, doc.data()));
     });
     
     return spaces;
@@ -334,7 +348,7 @@ export const createUserInquiry = async (data: Omit<UserInquiry, 'id' | 'date'>):
       status: 'open'
     };
     
-    await createDocumentWithId<UserInquiry>('user_inquiries', inquiryId, inquiryData as UserInquiry);
+    await createDocumentWithId<UserInquiry>('user_inquiries', inquiryId, inquiryData as UserInquiry, userInquirySchema);
     return inquiryId;
   } catch (error: any) {
     console.error('Error creating user inquiry:', error);
@@ -353,7 +367,8 @@ export const getUserInquiriesByUserId = async (
     'date',
     'desc',
     pageSize,
-    lastDoc
+    lastDoc,
+    userInquirySchema
   );
 };
 
@@ -373,32 +388,17 @@ export const getAllUserInquiries = async (
     'date',
     'desc',
     pageSize,
-    lastDoc
+    lastDoc,
+    userInquirySchema
   );
 };
 
 export const updateUserInquiry = async (id: string, data: Partial<UserInquiry>): Promise<void> => {
-  return updateDocument<UserInquiry>('user_inquiries', id, data);
+  return updateDocument<UserInquiry>('user_inquiries', id, data, userInquirySchema);
 };
 
 // Activity Log functions
-export const createActivityLog = async (data: Omit<ActivityLog, 'id' | 'timestamp'>): Promise<string> => {
-  try {
-    const logId = `log_${Date.now()}`;
-    const logData = {
-      ...data,
-      id: logId,
-      timestamp: new Date().toISOString()
-    };
-    
-    await createDocumentWithId<ActivityLog>('activity_logs', logId, logData as ActivityLog);
-    return logId;
-  } catch (error: any) {
-    console.error('Error creating activity log:', error);
-    throw new Error(error.message || 'Failed to create activity log');
-  }
-};
-
+// Entries are written server-side by Functions; the collection is read-only to clients
 export const getActivityLogs = async (
   action?: string,
   userId?: string,
@@ -531,40 +531,3 @@ export const getClientFavorites = async (clientId: string): Promise<string[]> =>
     throw new Error(error.message || 'Failed to get client favorites');
   }
 };
-
-// Migration utilities
-export const migrateDataFromMySQLToFirestore = async (
-  mysqlData: any[],
-  collectionName: string,
-  transformFunction: (item: any) => any
-): Promise<void> => {
-  try {
-    const batch = writeBatch(firestore);
-    let batchCount = 0;
-    const BATCH_LIMIT = 500; // Firestore batch limit is 500
-    
-    for (const item of mysqlData) {
-      const transformedData = transformFunction(item);
-      const docRef = doc(firestore, collectionName, transformedData.id);
-      batch.set(docRef, transformedData);
-      
-      batchCount++;
-      
-      // If we reach the batch limit, commit and start a new batch
-      if (batchCount >= BATCH_LIMIT) {
-        await batch.commit();
-        batchCount = 0;
-      }
-    }
-    
-    // Commit any remaining items
-    if (batchCount > 0) {
-      await batch.commit();
-    }
-    
-    console.log(`Successfully migrated ${mysqlData.length} items to ${collectionName}`);
-  } catch (error: any) {
-    console.error(`Error migrating data to ${collectionName}:`, error);
-    throw new Error(error.message || `Failed to migrate data to ${collectionName}`);
-  }
-};
\ No newline at end of file
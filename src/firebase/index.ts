@@ -2,4 +2,5 @@
 export * from './config';
 export * from './auth';
 export * from './firestore';
-export * from './storage';
\ No newline at end of file
+export * from './storage';
+export * from './schemas';
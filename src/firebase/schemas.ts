@@ -0,0 +1,3 @@
+// The document schemas are shared with Functions and live with its source, which
+// is deployed on its own; the web app uses them from here.
+export * from '../../functions/src/schemas';
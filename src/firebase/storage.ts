@@ -1,5 +1,11 @@
 import { ref, uploadBytes, getDownloadURL, deleteObject, listAll } from 'firebase/storage';
-import { storage } from './config';
+import { auth, storage } from './config';
+import { MessageAttachment } from '../../types';
+import { FUNCTIONS_API_BASE_URL } from '../../constants';
+
+// License documents and payment receipts are stored here and never get a public
+// download URL; they are opened through signed URLs from getPrivateFileUrl
+const PRIVATE_FOLDER = 'private';
 
 // Upload a file to Firebase Storage
 export const uploadFile = async (file: File, path: string): Promise<string> => {
@@ -14,12 +20,44 @@ export const uploadFile = async (file: File, path: string): Promise<string> => {
   }
 };
 
-// Delete a file from Firebase Storage
-export const deleteFile = async (url: string): Promise<void> => {
+// Upload a file to a private folder; resolves with its storage path
+export const uploadPrivateFile = async (file: File, path: string): Promise<string> => {
   try {
-    // Extract the path from the URL
-    const decodedUrl = decodeURIComponent(url);
-    const path = decodedUrl.split('?')[0].split('/o/')[1];
+    const storageRef = ref(storage, path);
+    await uploadBytes(storageRef, file, { contentType: file.type || 'application/octet-stream' });
+    return path;
+  } catch (error: any) {
+    console.error('Error uploading private file:', error);
+    throw new Error(error.message || 'Failed to upload file');
+  }
+};
+
+export const isPrivateFilePath = (value?: string | null): value is string =>
+  !!value && value.startsWith(`${PRIVATE_FOLDER}/`);
+
+// A short-lived download URL for one of the user's private files (or any, for admins)
+export const getPrivateFileUrl = async (path: string): Promise<string> => {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) {
+    throw new Error('You need to be signed in to open this file');
+  }
+  const response = await fetch(`${FUNCTIONS_API_BASE_URL}/files/signed_url?path=${encodeURIComponent(path)}`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  const data = await response.json();
+  if (data.status !== 'success' || !data.url) {
+    throw new Error(data.message || 'Failed to open file');
+  }
+  return data.url;
+};
+
+// Delete a file from Firebase Storage, given its storage path or (for older uploads) its download URL
+export const deleteFile = async (pathOrUrl: string): Promise<void> => {
+  try {
+    // Extract the path from a download URL
+    const path = pathOrUrl.startsWith('http')
+      ? decodeURIComponent(pathOrUrl).split('?')[0].split('/o/')[1]
+      : pathOrUrl;
     
     if (!path) {
       throw new Error('Invalid file URL');
@@ -57,10 +95,10 @@ export const uploadIntroVideo = async (file: File, userId: string): Promise<stri
   return uploadFile(file, path);
 };
 
-// Upload certification file
+// Upload certification file; resolves with its private storage path
 export const uploadCertification = async (file: File, userId: string): Promise<string> => {
-  const path = generateFilePath(userId, 'certifications', file.name);
-  return uploadFile(file, path);
+  const path = generateFilePath(userId, `${PRIVATE_FOLDER}/certifications`, file.name);
+  return uploadPrivateFile(file, path);
 };
 
 // Upload clinic photo
@@ -75,10 +113,23 @@ export const uploadClinicSpacePhoto = async (file: File, spaceId: string): Promi
   return uploadFile(file, path);
 };
 
-// Upload payment receipt
+// Upload payment receipt; resolves with its private storage path
 export const uploadPaymentReceipt = async (file: File, userId: string): Promise<string> => {
-  const path = generateFilePath(userId, 'payment_receipts', file.name);
-  return uploadFile(file, path);
+  const path = generateFilePath(userId, `${PRIVATE_FOLDER}/payment_receipts`, file.name);
+  return uploadPrivateFile(file, path);
+};
+
+// Upload a message attachment; only the conversation's participants can read it back
+export const uploadMessageAttachment = async (file: File, conversationId: string): Promise<MessageAttachment> => {
+  const path = generateFilePath(conversationId, 'message_attachments', file.name);
+  const url = await uploadFile(file, path);
+  return {
+    url,
+    path,
+    name: file.name,
+    contentType: file.type || 'application/octet-stream',
+    size: file.size
+  };
 };
 
 // List all files in a directory
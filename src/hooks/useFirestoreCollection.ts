@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { collection, query, where, orderBy, limit, getDocs, QueryConstraint } from 'firebase/firestore';
+import { collection, query, where, orderBy, limit, getDocs, onSnapshot, QueryConstraint, QuerySnapshot } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 
 interface UseFirestoreCollectionOptions {
@@ -7,6 +7,8 @@ interface UseFirestoreCollectionOptions {
   orderByField?: string;
   orderDirection?: 'asc' | 'desc';
   limitCount?: number;
+  realtime?: boolean; // Subscribe with onSnapshot instead of reading once
+  enabled?: boolean; // Skip the query (e.g. until the user is known)
 }
 
 export function useFirestoreCollection<T>(
@@ -18,49 +20,75 @@ export function useFirestoreCollection<T>(
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (options.enabled === false) {
+      setData([]);
+      setLoading(false);
+      return;
+    }
+
+    const constraints: QueryConstraint[] = [];
+
+    // Add where conditions
+    if (options.whereConditions) {
+      options.whereConditions.forEach(([field, operator, value]) => {
+        constraints.push(where(field, operator, value));
+      });
+    }
+
+    // Add orderBy
+    if (options.orderByField) {
+      constraints.push(orderBy(options.orderByField, options.orderDirection || 'asc'));
+    }
+
+    // Add limit
+    if (options.limitCount) {
+      constraints.push(limit(options.limitCount));
+    }
+
+    const q = query(collection(firestore, collectionName), ...constraints);
+
+    const toItems = (querySnapshot: QuerySnapshot) => {
+      const items: T[] = [];
+      querySnapshot.forEach((doc) => {
+        items.push({ id: doc.id, ...doc.data() } as T);
+      });
+      return items;
+    };
+
+    const handleError = (err: any) => {
+      console.error(`Error fetching ${collectionName}:`, err);
+      setError(err.message || `Failed to fetch ${collectionName}`);
+    };
+
+    setLoading(true);
+    setError(null);
+
+    if (options.realtime) {
+      const unsubscribe = onSnapshot(q, (querySnapshot) => {
+        setData(toItems(querySnapshot));
+        setError(null);
+        setLoading(false);
+      }, (err) => {
+        handleError(err);
+        setLoading(false);
+      });
+
+      return unsubscribe;
+    }
+
     const fetchData = async () => {
-      setLoading(true);
-      setError(null);
-      
       try {
-        const constraints: QueryConstraint[] = [];
-        
-        // Add where conditions
-        if (options.whereConditions) {
-          options.whereConditions.forEach(([field, operator, value]) => {
-            constraints.push(where(field, operator, value));
-          });
-        }
-        
-        // Add orderBy
-        if (options.orderByField) {
-          constraints.push(orderBy(options.orderByField, options.orderDirection || 'asc'));
-        }
-        
-        // Add limit
-        if (options.limitCount) {
-          constraints.push(limit(options.limitCount));
-        }
-        
-        const q = query(collection(firestore, collectionName), ...constraints);
         const querySnapshot = await getDocs(q);
-        
-        const items: T[] = [];
-        querySnapshot.forEach((doc) => {
-          items.push({ id: doc.id, ...doc.data() } as T);
-        });
-        
-        setData(items);
+        setData(toItems(querySnapshot));
       } catch (err: any) {
-        console.error(`Error fetching ${collectionName}:`, err);
-        setError(err.message || `Failed to fetch ${collectionName}`);
+        handleError(err);
       } finally {
         setLoading(false);
       }
     };
-    
+
     fetchData();
   }, [collectionName, JSON.stringify(options)]);
 
   return { data, loading, error };
-}
\ No newline at end of file
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 
 // Define the database name and version
 const DB_NAME = 'theraWayOfflineDB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 // Define the stores (tables) in our database
 const STORES = {
@@ -10,7 +10,9 @@ const STORES = {
   CLINICS: 'clinics',
   CLINIC_SPACES: 'clinicSpaces',
   FAVORITES: 'favorites',
-  USER_DATA: 'userData'
+  USER_DATA: 'userData',
+  SYNC_STATE: 'syncState', // Delta sync watermarks, one per synced store
+  OUTBOX: 'outbox' // Writes made offline, waiting to be replayed (see src/outbox.ts)
 };
 
 // Initialize the database
@@ -54,6 +56,14 @@ const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORES.USER_DATA)) {
         db.createObjectStore(STORES.USER_DATA, { keyPath: 'id' });
       }
+      
+      if (!db.objectStoreNames.contains(STORES.SYNC_STATE)) {
+        db.createObjectStore(STORES.SYNC_STATE, { keyPath: 'id' });
+      }
+      
+      if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+        db.createObjectStore(STORES.OUTBOX, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -153,6 +163,114 @@ export const clearStore = async (storeName: string): Promise<void> => {
   });
 };
 
+// An item kept in step with the server by delta sync
+export interface SyncedItem {
+  id: string;
+  syncVersion: number; // Server version of the item's last change
+}
+
+export interface SyncChanges<T extends SyncedItem> {
+  items: T[];
+  tombstones: { id: string; version: number }[];
+  watermark: number;
+  replace?: boolean; // The items are the full set; drop everything else
+}
+
+// Generic function to read the delta sync watermark of a store
+export const getSyncWatermark = async (storeName: string): Promise<number | null> => {
+  const state = await getItemById<{ id: string; watermark: number }>(STORES.SYNC_STATE, storeName);
+  return state ? state.watermark : null;
+};
+
+/**
+ * Applies a sync delta to a store and saves its watermark in one transaction,
+ * so an interrupted sync leaves neither half a delta nor a watermark past it.
+ * Conflicts go to the server version: an item or tombstone older than what
+ * is stored is ignored.
+ */
+export const applySyncChanges = async <T extends SyncedItem>(storeName: string, changes: SyncChanges<T>): Promise<void> => {
+  const db = await initDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName, STORES.SYNC_STATE], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    
+    if (changes.replace) {
+      store.clear();
+    }
+    
+    changes.items.forEach(item => {
+      const request = store.get(item.id);
+      request.onsuccess = () => {
+        const stored = request.result as T | undefined;
+        if (!stored || (stored.syncVersion || 0) <= item.syncVersion) {
+          store.put(item);
+        }
+      };
+    });
+    
+    changes.tombstones.forEach(tombstone => {
+      const request = store.get(tombstone.id);
+      request.onsuccess = () => {
+        const stored = request.result as T | undefined;
+        if (stored && (stored.syncVersion || 0) <= tombstone.version) {
+          store.delete(tombstone.id);
+        }
+      };
+    });
+    
+    transaction.objectStore(STORES.SYNC_STATE).put({ id: storeName, watermark: changes.watermark });
+    
+    transaction.oncomplete = () => {
+      resolve();
+    };
+    
+    transaction.onerror = () => {
+      reject(`Error applying sync changes to ${storeName}`);
+    };
+    
+    transaction.onabort = () => {
+      reject(`Sync of ${storeName} was aborted`);
+    };
+  });
+};
+
+// Inquiries are not queued: nothing in the app submits one (createUserInquiry has
+// no caller and writes through the Firestore SDK, not a request the outbox can
+// replay). Add an 'inquiry' kind with the inquiry form.
+export type OutboxKind = 'profile_update' | 'favorite_toggle';
+
+// pending: waiting to be sent; failed: the server refused it; conflict: the server
+// has a newer version and the user has to choose which one to keep
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxConflict {
+  message: string;
+  current: any; // The server's version, as sent with the 409
+}
+
+// A mutating request queued while offline, replayed in the order it was made
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  key: string; // Entries with the same key change the same thing, e.g. `favorite:<therapistId>`
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  createdAt: string; // ISO date string
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  conflict: OutboxConflict | null;
+}
+
+// Reads the outbox, oldest entry first
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await getAllItems<OutboxEntry>(STORES.OUTBOX);
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
 // Hook to use IndexedDB with React
 export function useIndexedDB<T extends { id: string }>(storeName: string, id?: string) {
   const [data, setData] = useState<T | T[] | null>(null);
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useOfflineStatus } from './useOfflineStatus';
+import { getOutboxEntries, OutboxEntry } from './useIndexedDB';
+import { OUTBOX_CHANNEL, replayOutbox, resolveConflict as resolveOutboxConflict, retryEntry, discardEntry } from '../outbox';
+
+// The outbox of writes made offline, kept current across tabs and the service
+// worker, and replayed whenever the app is online with a fresh token
+export function useOutbox() {
+  const { token } = useAuth();
+  const isOffline = useOfflineStatus();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries());
+    } catch (err) {
+      console.error('Error reading the outbox:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(OUTBOX_CHANNEL);
+    channel.onmessage = () => {
+      refresh();
+    };
+    return () => channel.close();
+  }, [refresh]);
+
+  const replay = useCallback(async () => {
+    if (isOffline) return;
+
+    setIsReplaying(true);
+    try {
+      await replayOutbox(token || undefined);
+    } catch (err) {
+      console.error('Error replaying the outbox:', err);
+    } finally {
+      setIsReplaying(false);
+      refresh();
+    }
+  }, [isOffline, token, refresh]);
+
+  // On mount, when the connection comes back and when the user signs in again
+  useEffect(() => {
+    replay();
+  }, [replay]);
+
+  const retry = useCallback(async (toRetry: OutboxEntry[]) => {
+    for (const entry of toRetry) {
+      await retryEntry(entry);
+    }
+    await replay();
+  }, [replay]);
+
+  const discard = useCallback(async (entry: OutboxEntry) => {
+    await discardEntry(entry);
+    await refresh();
+  }, [refresh]);
+
+  const resolveConflict = useCallback(async (entry: OutboxEntry, choice: 'keep_mine' | 'discard') => {
+    await resolveOutboxConflict(entry, choice);
+    await replay();
+  }, [replay]);
+
+  const pending = useMemo(() => entries.filter(entry => entry.status === 'pending'), [entries]);
+  const failed = useMemo(() => entries.filter(entry => entry.status === 'failed'), [entries]);
+  const conflicts = useMemo(() => entries.filter(entry => entry.status === 'conflict'), [entries]);
+
+  return { entries, pending, failed, conflicts, isReplaying, replay, retry, discard, resolveConflict };
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useOfflineStatus } from './useOfflineStatus';
 import { useLocalStorage } from './useLocalStorage';
-import { putItem, getAllItems, clearStore } from './useIndexedDB';
+import { getAllItems, getSyncWatermark, applySyncChanges, SyncedItem } from './useIndexedDB';
 
 interface UseSyncDataOptions {
   syncInterval?: number; // in milliseconds
@@ -9,8 +9,17 @@ interface UseSyncDataOptions {
   syncKey?: string;
 }
 
-export function useSyncData<T extends { id: string }>(
-  fetchFn: () => Promise<T[]>,
+// One page of changes from a delta sync endpoint
+export interface SyncDelta<T extends SyncedItem> {
+  items: T[]; // Changed since the watermark that was sent
+  tombstones: { id: string; version: number }[]; // Removed since then
+  watermark: number; // Send as `since` next time
+  full: boolean; // No watermark was sent, so the items are everything
+  hasMore: boolean; // More changes follow; ask again with the new watermark
+}
+
+export function useSyncData<T extends SyncedItem>(
+  fetchChanges: (since: number | null) => Promise<SyncDelta<T>>,
   storeName: string,
   options: UseSyncDataOptions = {}
 ) {
@@ -32,17 +41,24 @@ export function useSyncData<T extends { id: string }>(
     setError(null);
     
     try {
-      // Fetch data from API
-      const apiData = await fetchFn();
-      
-      // Save to IndexedDB
-      await clearStore(storeName);
-      for (const item of apiData) {
-        await putItem(storeName, item);
+      // Fetch the changes since the last applied watermark (everything on the first sync)
+      // and apply each page in one IndexedDB transaction
+      let since = await getSyncWatermark(storeName);
+      let hasMore = true;
+      while (hasMore) {
+        const delta = await fetchChanges(since);
+        await applySyncChanges<T>(storeName, {
+          items: delta.items,
+          tombstones: delta.tombstones,
+          watermark: delta.watermark,
+          replace: delta.full
+        });
+        since = delta.watermark;
+        hasMore = delta.hasMore;
       }
       
       // Update state
-      setData(apiData);
+      setData(await getAllItems<T>(storeName));
       setLastSynced(new Date().toISOString());
     } catch (err: any) {
       console.error(`Error syncing data for ${storeName}:`, err);
@@ -59,7 +75,7 @@ export function useSyncData<T extends { id: string }>(
       setIsSyncing(false);
       setLoading(false);
     }
-  }, [fetchFn, storeName, isOffline, forceSync, setLastSynced]);
+  }, [fetchChanges, storeName, isOffline, forceSync, setLastSynced]);
   
   // Load data on component mount
   useEffect(() => {
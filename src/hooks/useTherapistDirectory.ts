@@ -0,0 +1,24 @@
+import { Therapist } from '../../types';
+import { FUNCTIONS_API_BASE_URL } from '../../constants';
+import { IndexedDBStores, SyncedItem } from './useIndexedDB';
+import { useSyncData, SyncDelta } from './useSyncData';
+
+export type DirectoryTherapist = Therapist & SyncedItem;
+
+// Module level so useSyncData's callbacks stay stable between renders
+const fetchDirectoryChanges = async (since: number | null): Promise<SyncDelta<DirectoryTherapist>> => {
+  const query = since !== null ? `?since=${since}` : '';
+  const response = await fetch(`${FUNCTIONS_API_BASE_URL}/therapists/sync${query}`);
+  const data = await response.json();
+
+  if (!response.ok || data.status !== 'success') {
+    throw new Error(data.message || 'Failed to sync therapist directory');
+  }
+
+  return data;
+};
+
+// The live therapist directory, kept in IndexedDB for offline use and updated by delta sync
+export function useTherapistDirectory() {
+  return useSyncData<DirectoryTherapist>(fetchDirectoryChanges, IndexedDBStores.THERAPISTS);
+}
@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '../../components/common/Button';
+import { FUNCTIONS_API_BASE_URL } from '../../constants';
+import { useFirestoreDocument } from '../hooks/useFirestoreDocument';
+
+interface IndexBackfillRun {
+  id: string;
+  status: 'running' | 'failed' | 'completed';
+  scanned: number;
+  updated: Record<string, number>;
+  startedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+interface IndexBackfillPanelProps {
+  token: string;
+}
+
+// Starts and resumes the job that builds the derived therapist indexes for
+// therapists saved before their triggers existed, and follows its run live
+export const IndexBackfillPanel: React.FC<IndexBackfillPanelProps> = ({ token }) => {
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: run } = useFirestoreDocument<IndexBackfillRun>('migration_runs', runId, { listen: true });
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_migrations/indexes${path}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    const data = await response.json();
+    if (!response.ok || data.status !== 'success') {
+      throw new Error(data.message || 'Index backfill request failed');
+    }
+    return data;
+  }, [token]);
+
+  // Pick up the latest run, e.g. one still running or one that failed and can be resumed
+  useEffect(() => {
+    request('')
+      .then(data => {
+        if (data.data.length > 0) setRunId(data.data[0].id);
+      })
+      .catch(fetchError => console.error('Error fetching index backfill runs:', fetchError));
+  }, [request]);
+
+  const handleAction = async (path: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const data = await request(path, { method: 'POST' });
+      setRunId(data.run.id);
+    } catch (actionError: any) {
+      setError(actionError.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isRunning = run?.status === 'running';
+
+  return (
+    <div className="mb-8 border-t pt-6">
+      <h2 className="text-xl font-semibold mb-2">Rebuild Therapist Indexes</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Builds the location index, the search fields (<code>searchKeys</code>, a default <code>rating</code>) and the full-text
+        search index for therapists saved before they existed, so they show up in radius, map, filtered, rating-ordered and
+        text searches. Therapists that are already current are left alone, so the job is safe to run again.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <Button variant="primary" onClick={() => handleAction('')} disabled={isSubmitting || isRunning}>
+          {isRunning ? 'Rebuilding...' : 'Rebuild Indexes'}
+        </Button>
+        {run?.status === 'failed' && (
+          <Button variant="secondary" onClick={() => handleAction(`/${run.id}/resume`)} disabled={isSubmitting}>
+            Resume
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 rounded-md bg-red-100 text-red-700 text-sm">{error}</div>
+      )}
+
+      {run && (
+        <div className="text-sm">
+          <p className="font-semibold mb-1">
+            Run {run.id}: {run.status} · {run.scanned} therapists scanned{run.error ? ` (${run.error})` : ''}
+          </p>
+          <table>
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pe-4">Index</th>
+                <th>Therapists updated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(run.updated).map(([index, count]) => (
+                <tr key={index}>
+                  <td className="pe-4 font-mono">{index}</td>
+                  <td>{count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
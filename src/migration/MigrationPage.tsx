@@ -1,87 +1,144 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from '../../hooks/useTranslation';
 import { usePageTitle } from '../../hooks/usePageTitle';
 import { Button } from '../../components/common/Button';
-import { migrateDataToFirestore } from './migrateData';
+import { useFirestoreDocument } from '../hooks/useFirestoreDocument';
+import { ConflictPolicy, MySQLMigrationRun, fetchMigrationRuns, startMigration, resumeMigration } from './migrateData';
+import { NormalizationPanel } from './NormalizationPanel';
+import { IndexBackfillPanel } from './IndexBackfillPanel';
+
+const POLICY_DESCRIPTIONS: Record<ConflictPolicy, string> = {
+  skip: 'Skip rows whose document already exists in Firestore',
+  merge: 'Merge rows into existing documents, keeping fields MySQL does not have',
+  overwrite: 'Replace existing documents with the MySQL rows'
+};
 
 export const MigrationPage: React.FC = () => {
   const { t } = useTranslation();
   const { token, user } = useAuth();
-  const [isLoading, setIsLoading] = useState(false);
+  const [policy, setPolicy] = useState<ConflictPolicy>('skip');
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
-  const [logs, setLogs] = useState<string[]>([]);
-  
+
   usePageTitle('Data Migration');
-  
+
+  // The job updates its run document after every page, so this follows it live
+  const { data: run } = useFirestoreDocument<MySQLMigrationRun>('migration_runs', runId, { listen: true });
+
+  const isAdmin = !!token && user?.role === 'ADMIN';
+
+  // Pick up the latest run, e.g. one still running or one that failed and can be resumed
+  useEffect(() => {
+    if (!isAdmin || !token) return;
+    fetchMigrationRuns(token)
+      .then(runs => {
+        if (runs.length > 0) setRunId(runs[0].id);
+      })
+      .catch(error => console.error('Error fetching migration runs:', error));
+  }, [isAdmin, token]);
+
+  useEffect(() => {
+    if (run?.status === 'completed') {
+      setResult({ success: true, message: 'Data migration completed. Compare the row and document counts below.' });
+    } else if (run?.status === 'failed') {
+      setResult({ success: false, message: `Migration stopped: ${run.error}. Resume it to continue from the last checkpoint.` });
+    } else {
+      setResult(null);
+    }
+  }, [run?.status, run?.error]);
+
   const handleMigration = async () => {
     if (!token || !user) {
       setResult({ success: false, message: 'You must be logged in as an admin to perform migration.' });
       return;
     }
-    
+
     if (user.role !== 'ADMIN') {
       setResult({ success: false, message: 'Only admins can perform data migration.' });
       return;
     }
-    
-    setIsLoading(true);
-    setLogs([]);
-    addLog('Starting migration process...');
-    
+
+    if (policy === 'overwrite' && !window.confirm('Overwrite replaces existing Firestore documents with the MySQL rows. Continue?')) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setResult(null);
     try {
-      const migrationResult = await migrateDataToFirestore(token);
-      setResult(migrationResult);
-      
-      if (migrationResult.success) {
-        addLog('Migration completed successfully!');
-      } else {
-        addLog(`Migration failed: ${migrationResult.message}`);
-      }
+      const newRun = await startMigration(token, policy);
+      setRunId(newRun.id);
     } catch (error: any) {
       console.error('Migration error:', error);
       setResult({ success: false, message: error.message || 'An unexpected error occurred during migration.' });
-      addLog(`Error: ${error.message}`);
     } finally {
-      setIsLoading(false);
+      setIsSubmitting(false);
     }
   };
-  
-  const addLog = (message: string) => {
-    setLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
+
+  const handleResume = async () => {
+    if (!token || !run) return;
+    setIsSubmitting(true);
+    try {
+      await resumeMigration(token, run.id);
+    } catch (error: any) {
+      console.error('Migration resume error:', error);
+      setResult({ success: false, message: error.message || 'Failed to resume the migration.' });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
-  
+
+  const isRunning = run?.status === 'running';
+
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-2xl font-bold mb-4">MySQL to Firestore Migration Tool</h1>
-      
+
       <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
         <p className="text-yellow-700">
-          <strong>Warning:</strong> This tool will migrate data from MySQL to Firestore. This process is irreversible and should only be performed once.
-          Make sure you have a backup of your MySQL database before proceeding.
+          <strong>Warning:</strong> This tool copies data from MySQL into Firestore. Depending on the conflict policy it can replace documents
+          that already exist in Firestore. Make sure you have a backup of your MySQL database and a Firestore export before proceeding.
         </p>
       </div>
-      
+
       <div className="mb-6">
         <h2 className="text-xl font-semibold mb-2">Migration Steps:</h2>
         <ol className="list-decimal list-inside space-y-1">
-          <li>Fetch data from MySQL API endpoints</li>
-          <li>Transform data to Firestore format</li>
-          <li>Upload data to Firestore collections</li>
-          <li>Verify migration success</li>
+          <li>Read each MySQL table in pages through the legacy export endpoint</li>
+          <li>Transform rows to the Firestore document shape and check them against the schemas</li>
+          <li>Write each page in one batch together with its checkpoint, retrying with backoff</li>
+          <li>Compare MySQL row counts with Firestore document counts</li>
         </ol>
       </div>
-      
+
       <div className="mb-6">
-        <Button
-          variant="primary"
-          onClick={handleMigration}
-          disabled={isLoading}
-          className="mb-4"
-        >
-          {isLoading ? 'Migrating...' : 'Start Migration'}
-        </Button>
-        
+        <fieldset className="mb-4" disabled={isRunning || isSubmitting}>
+          <legend className="font-semibold mb-1">When a document already exists:</legend>
+          {(Object.keys(POLICY_DESCRIPTIONS) as ConflictPolicy[]).map(option => (
+            <label key={option} className="flex items-center text-sm mb-1">
+              <input type="radio" name="policy" value={option} checked={policy === option} onChange={() => setPolicy(option)} className="me-2" />
+              <span className="font-mono me-2">{option}</span> {POLICY_DESCRIPTIONS[option]}
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="flex gap-2 mb-4">
+          <Button
+            variant="primary"
+            onClick={handleMigration}
+            disabled={isSubmitting || isRunning}
+          >
+            {isRunning ? 'Migrating...' : 'Start Migration'}
+          </Button>
+          {run?.status === 'failed' && (
+            <Button variant="secondary" onClick={handleResume} disabled={isSubmitting}>
+              Resume Migration
+            </Button>
+          )}
+        </div>
+
         {result && (
           <div className={`p-4 rounded-md ${result.success ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
             <p className="font-semibold">{result.success ? 'Success!' : 'Error:'}</p>
@@ -89,17 +146,82 @@ export const MigrationPage: React.FC = () => {
           </div>
         )}
       </div>
-      
-      {logs.length > 0 && (
+
+      {run && (
         <div className="mb-6">
-          <h2 className="text-xl font-semibold mb-2">Migration Logs:</h2>
-          <div className="bg-gray-100 p-4 rounded-md h-64 overflow-y-auto">
-            {logs.map((log, index) => (
-              <div key={index} className="text-sm font-mono mb-1">{log}</div>
+          <h2 className="text-xl font-semibold mb-2">Migration Progress:</h2>
+          <p className="text-sm text-gray-600 mb-2">
+            Run {run.id} · policy <span className="font-mono">{run.policy}</span> · {run.status} · started {new Date(run.startedAt).toLocaleString()}
+          </p>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pe-4">Collection</th>
+                <th className="pe-4">Read</th>
+                <th className="pe-4">Written</th>
+                <th className="pe-4">Skipped</th>
+                <th className="pe-4">Failed</th>
+                <th>State</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(run.progress).map(([collection, checkpoint]) => (
+                <tr key={collection}>
+                  <td className="pe-4 font-mono">{collection}</td>
+                  <td className="pe-4">{checkpoint.read}</td>
+                  <td className="pe-4">{checkpoint.written}</td>
+                  <td className="pe-4">{checkpoint.skipped}</td>
+                  <td className="pe-4">{checkpoint.failed}</td>
+                  <td>{checkpoint.done ? 'done' : checkpoint.read > 0 ? 'in progress' : 'waiting'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {run?.report && (
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Reconciliation Report:</h2>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pe-4">MySQL table</th>
+                <th className="pe-4">Rows</th>
+                <th className="pe-4">Firestore documents</th>
+                <th>Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {run.report.map(entry => (
+                <tr key={entry.table} className={entry.difference < 0 ? 'text-red-700' : ''}>
+                  <td className="pe-4 font-mono">{entry.table}</td>
+                  <td className="pe-4">{entry.sourceRows}</td>
+                  <td className="pe-4">{entry.documents}</td>
+                  <td>{entry.difference > 0 ? `+${entry.difference}` : entry.difference}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-1">
+            Fewer documents than rows means rows were not imported (see failures below). More documents than rows is expected for data created in Firestore directly.
+          </p>
+        </div>
+      )}
+
+      {run && run.failures.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Rows That Could Not Be Imported:</h2>
+          <div className="bg-gray-100 p-4 rounded-md max-h-64 overflow-y-auto">
+            {run.failures.map((failure, index) => (
+              <div key={index} className="text-sm font-mono mb-1">{failure.collection}/{failure.id}: {failure.message}</div>
             ))}
           </div>
         </div>
       )}
+
+      {token && isAdmin && <NormalizationPanel token={token} />}
+      {token && isAdmin && <IndexBackfillPanel token={token} />}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '../../components/common/Button';
+import { FUNCTIONS_API_BASE_URL } from '../../constants';
+
+interface CollectionProgress {
+  scanned: number;
+  changed: number;
+  invalid: number;
+}
+
+interface NormalizationRun {
+  id: string;
+  dryRun: boolean;
+  status: 'running' | 'failed' | 'completed';
+  progress: Record<string, CollectionProgress>;
+  startedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+interface DocumentDiff {
+  collection: string;
+  id: string;
+  changes: { field: string; from?: any; to?: any }[];
+  invalid: string[];
+}
+
+interface NormalizationPanelProps {
+  token: string;
+}
+
+const formatValue = (value: any): string => JSON.stringify(value);
+
+// Drives the legacy field normalization job: starts a run (dry run by default),
+// then advances it page by page until it completes, collecting the diffs.
+export const NormalizationPanel: React.FC<NormalizationPanelProps> = ({ token }) => {
+  const [runs, setRuns] = useState<NormalizationRun[]>([]);
+  const [activeRun, setActiveRun] = useState<NormalizationRun | null>(null);
+  const [diffs, setDiffs] = useState<DocumentDiff[]>([]);
+  const [dryRun, setDryRun] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_migrations/normalize`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (data.status === 'success') {
+        setRuns(data.data);
+      }
+    } catch (fetchError) {
+      console.error('Error fetching normalization runs:', fetchError);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  // Advances the run until it completes; stops on the first failed page so it can be resumed
+  const driveRun = async (run: NormalizationRun) => {
+    setIsRunning(true);
+    setError(null);
+    setActiveRun(run);
+    let current = run;
+    try {
+      while (current.status !== 'completed') {
+        const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_migrations/normalize/${current.id}/advance`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+        if (!response.ok || data.status !== 'success') {
+          throw new Error(data.message || 'Failed to advance the normalization run');
+        }
+        current = data.run;
+        setActiveRun(current);
+        if (data.diffs.length > 0) {
+          setDiffs(prev => [...prev, ...data.diffs]);
+        }
+      }
+    } catch (runError: any) {
+      setError(runError.message);
+    } finally {
+      setIsRunning(false);
+      fetchRuns();
+    }
+  };
+
+  const handleStart = async () => {
+    if (!dryRun && !window.confirm('This rewrites therapist and clinic documents in place. Run a dry run first if you have not. Continue?')) {
+      return;
+    }
+    setDiffs([]);
+    setError(null);
+    try {
+      const response = await fetch(`${FUNCTIONS_API_BASE_URL}/admin_migrations/normalize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ dryRun })
+      });
+      const data = await response.json();
+      if (!response.ok || data.status !== 'success') {
+        throw new Error(data.message || 'Failed to start the normalization run');
+      }
+      await driveRun(data.run);
+    } catch (startError: any) {
+      setError(startError.message);
+    }
+  };
+
+  const handleResume = (run: NormalizationRun) => {
+    // Diffs from before the interruption are not kept; the resumed pages report their own
+    setDiffs([]);
+    driveRun(run);
+  };
+
+  const resumableRuns = runs.filter(run => run.status !== 'completed' && run.id !== activeRun?.id);
+
+  return (
+    <div className="mb-8 border-t pt-6">
+      <h2 className="text-xl font-semibold mb-2">Normalize Legacy Fields</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Rewrites therapist and clinic documents created with snake_case fields (e.g. <code>account_status</code>) to the
+        camelCase shape the app queries. Documents already in shape are left alone, so the job is safe to run again.
+      </p>
+
+      <div className="flex items-center gap-4 mb-4">
+        <label className="flex items-center text-sm">
+          <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} disabled={isRunning} className="me-2" />
+          Dry run (report changes without writing)
+        </label>
+        <Button variant="primary" onClick={handleStart} disabled={isRunning}>
+          {isRunning ? 'Running...' : dryRun ? 'Start Dry Run' : 'Start Normalization'}
+        </Button>
+      </div>
+
+      {resumableRuns.length > 0 && (
+        <div className="mb-4">
+          <h3 className="font-semibold text-sm mb-1">Unfinished runs</h3>
+          <ul className="text-sm space-y-1">
+            {resumableRuns.map(run => (
+              <li key={run.id} className="flex items-center gap-2">
+                <span>{new Date(run.startedAt).toLocaleString()} · {run.dryRun ? 'dry run' : 'live'} · {run.status}{run.error ? ` (${run.error})` : ''}</span>
+                <Button variant="secondary" size="sm" onClick={() => handleResume(run)} disabled={isRunning}>Resume</Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 mb-4 rounded-md bg-red-100 text-red-700 text-sm">{error}</div>
+      )}
+
+      {activeRun && (
+        <div className="mb-4">
+          <p className="text-sm font-semibold mb-1">
+            {activeRun.dryRun ? 'Dry run' : 'Run'} {activeRun.id}: {activeRun.status}
+          </p>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pe-4">Collection</th>
+                <th className="pe-4">Scanned</th>
+                <th className="pe-4">{activeRun.dryRun ? 'Would change' : 'Changed'}</th>
+                <th>Invalid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(activeRun.progress).map(([collection, progress]) => (
+                <tr key={collection}>
+                  <td className="pe-4 font-mono">{collection}</td>
+                  <td className="pe-4">{progress.scanned}</td>
+                  <td className="pe-4">{progress.changed}</td>
+                  <td>{progress.invalid}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diffs.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-sm mb-1">Document changes ({diffs.length})</h3>
+          <div className="bg-gray-100 p-4 rounded-md max-h-96 overflow-y-auto text-xs font-mono space-y-2">
+            {diffs.map(diff => (
+              <div key={`${diff.collection}/${diff.id}`}>
+                <div className="font-semibold">{diff.collection}/{diff.id}</div>
+                {diff.changes.map(change => (
+                  <div key={change.field} className={'to' in change ? 'text-green-700' : 'text-red-700'}>
+                    {'to' in change
+                      ? `+ ${change.field}: ${formatValue(change.to)}`
+                      : `- ${change.field}: ${formatValue(change.from)}`}
+                  </div>
+                ))}
+                {diff.invalid.map(message => (
+                  <div key={message} className="text-orange-700">! {message}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
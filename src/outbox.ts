@@ -0,0 +1,220 @@
+import { IndexedDBStores, OutboxEntry, OutboxKind, getOutboxEntries, putItem, deleteItem } from './hooks/useIndexedDB';
+
+// Writes made while offline are kept in the outbox store in IndexedDB and
+// replayed in the order they were made once the connection is back: by the
+// service worker's Background Sync where the browser supports it (src/sw.ts),
+// and by useOutbox whenever the app is open and online. This module is shared
+// with the service worker, so it must not use React or window-only APIs.
+
+export const OUTBOX_SYNC_TAG = 'outbox-replay';
+
+// Every tab and the service worker post here when they change the outbox
+export const OUTBOX_CHANNEL = 'theraway-outbox';
+
+// The version of the record an update was made against. The server answers 409
+// with its current version when the record has changed since.
+export const BASE_VERSION_HEADER = 'X-Base-Version';
+
+export interface OutboxRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export type SendResult = { queued: true } | { queued: false; response: Response };
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(OUTBOX_CHANNEL) : null;
+
+const notifyChanged = () => {
+  channel?.postMessage({ type: 'changed' });
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Adds a request to the outbox. A request with a key replaces what is still
+ * pending for that key: a newer profile update supersedes the older one (keeping
+ * the version the first edit was made against), and a favorite toggled twice
+ * cancels out.
+ */
+export const queueRequest = async (kind: OutboxKind, url: string, request: OutboxRequest, key?: string): Promise<void> => {
+  const existing = key
+    ? (await getOutboxEntries()).find(entry => entry.key === key && entry.status === 'pending')
+    : undefined;
+
+  if (existing && kind === 'favorite_toggle') {
+    await deleteItem(IndexedDBStores.OUTBOX, existing.id);
+  } else if (existing) {
+    const baseVersion = existing.headers[BASE_VERSION_HEADER];
+    await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+      ...existing,
+      headers: baseVersion ? { ...request.headers, [BASE_VERSION_HEADER]: baseVersion } : request.headers,
+      body: request.body ?? null
+    });
+  } else {
+    const id = `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+      id,
+      kind,
+      key: key || id,
+      url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body ?? null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      conflict: null
+    });
+  }
+
+  notifyChanged();
+  await requestReplay();
+};
+
+// Asks the service worker to replay the outbox when the connection is back,
+// even if the app has been closed by then
+export const requestReplay = async (): Promise<boolean> => {
+  if (typeof window === 'undefined' || !('SyncManager' in window) || !navigator.serviceWorker?.controller) {
+    return false;
+  }
+  try {
+    const registration: any = await navigator.serviceWorker.ready;
+    await registration.sync.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.error('Error registering outbox background sync:', error);
+    return false;
+  }
+};
+
+/**
+ * Sends a mutating request, or queues it when offline. It is also queued when
+ * something for the same key is still in the outbox, so the two reach the
+ * server in the order they were made.
+ */
+export const sendOrQueue = async (kind: OutboxKind, url: string, request: OutboxRequest, key?: string): Promise<SendResult> => {
+  const waiting = key
+    ? (await getOutboxEntries()).some(entry => entry.key === key && entry.status !== 'failed')
+    : false;
+
+  if (!isOnline() || waiting) {
+    await queueRequest(kind, url, request, key);
+    return { queued: true };
+  }
+
+  try {
+    return { queued: false, response: await fetch(url, request) };
+  } catch (error) {
+    // fetch only rejects when the request did not reach the server
+    await queueRequest(kind, url, request, key);
+    return { queued: true };
+  }
+};
+
+const isRetryable = (status: number) => status >= 500 || status === 408 || status === 429;
+
+const replayPending = async (token?: string): Promise<void> => {
+  const entries = await getOutboxEntries();
+  // A key whose earlier entry is unresolved waits, so its changes are not applied out of order
+  const blockedKeys = new Set(entries.filter(entry => entry.status !== 'pending').map(entry => entry.key));
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending' || blockedKeys.has(entry.key)) continue;
+
+    const headers = token ? { ...entry.headers, Authorization: `Bearer ${token}` } : entry.headers;
+    let response: Response;
+    try {
+      response = await fetch(entry.url, { method: entry.method, headers, body: entry.body ?? undefined });
+    } catch (error) {
+      throw new Error('Network unavailable; the outbox will be replayed later');
+    }
+
+    const data = await response.json().catch(() => null);
+
+    if (response.status === 401) {
+      // The saved session has expired; the app replays with a fresh token when it is next opened
+      return;
+    }
+
+    if (response.ok && data?.status !== 'error') {
+      await deleteItem(IndexedDBStores.OUTBOX, entry.id);
+    } else if (response.status === 409) {
+      await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+        ...entry,
+        status: 'conflict',
+        conflict: { message: data?.message || 'This was changed on the server', current: data?.current ?? null }
+      });
+      blockedKeys.add(entry.key);
+    } else if (isRetryable(response.status)) {
+      await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastError: data?.message || `Server responded with status: ${response.status}`
+      });
+      notifyChanged();
+      throw new Error(`Outbox replay stopped: server responded with status ${response.status}`);
+    } else {
+      await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+        ...entry,
+        status: 'failed',
+        attempts: entry.attempts + 1,
+        lastError: data?.message || `Server responded with status: ${response.status}`
+      });
+      blockedKeys.add(entry.key);
+    }
+    notifyChanged();
+  }
+};
+
+let replaying: Promise<void> | null = null;
+
+/**
+ * Sends the pending outbox entries in order. Rejects when the network or the
+ * server is unavailable, so a Background Sync event is retried later. A token
+ * replaces the one saved with each request, which may have expired.
+ */
+export const replayOutbox = (token?: string): Promise<void> => {
+  if (!replaying) {
+    // Web Locks keep the service worker and open tabs from sending the same entry twice
+    const locks = typeof navigator !== 'undefined' ? (navigator as any).locks : undefined;
+    const run = locks
+      ? locks.request('theraway-outbox-replay', () => replayPending(token))
+      : replayPending(token);
+    replaying = run.finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying as Promise<void>;
+};
+
+// Resolves a conflict: keep_mine sends the change again over the server's
+// current version, discard drops it and keeps what the server has
+export const resolveConflict = async (entry: OutboxEntry, choice: 'keep_mine' | 'discard'): Promise<void> => {
+  if (choice === 'discard') {
+    await discardEntry(entry);
+    return;
+  }
+
+  const { [BASE_VERSION_HEADER]: _previousVersion, ...headers } = entry.headers;
+  const currentVersion = entry.conflict?.current?.updatedAt;
+  await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, {
+    ...entry,
+    headers: currentVersion ? { ...headers, [BASE_VERSION_HEADER]: String(currentVersion) } : headers,
+    status: 'pending',
+    conflict: null
+  });
+  notifyChanged();
+};
+
+// Puts a failed entry back in the queue, e.g. after the user fixed what the server refused
+export const retryEntry = async (entry: OutboxEntry): Promise<void> => {
+  await putItem<OutboxEntry>(IndexedDBStores.OUTBOX, { ...entry, status: 'pending', lastError: null, conflict: null });
+  notifyChanged();
+};
+
+export const discardEntry = async (entry: OutboxEntry): Promise<void> => {
+  await deleteItem(IndexedDBStores.OUTBOX, entry.id);
+  notifyChanged();
+};
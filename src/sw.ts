@@ -1,6 +1,7 @@
 import { precacheAndRoute } from 'workbox-precaching';
 import { registerRoute } from 'workbox-routing';
 import { NetworkFirst, CacheFirst, StaleWhileRevalidate } from 'workbox-strategies';
+import { OUTBOX_SYNC_TAG, replayOutbox } from './outbox';
 
 declare let self: ServiceWorkerGlobalScope;
 
@@ -76,4 +77,54 @@ self.addEventListener('message', (event) => {
 
 self.addEventListener('activate', (event) => {
   event.waitUntil(self.clients.claim());
-});
\ No newline at end of file
+});
+
+// Show Web Push messages sent by Functions (see functions/src/push.ts)
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload: { title?: string; body?: string; tag?: string; data?: { url?: string } };
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'TheraWay', {
+      body: payload.body,
+      tag: payload.tag,
+      // The app icons that ship in public/
+      icon: '/logo.png',
+      badge: '/favicon.png',
+      data: payload.data || {}
+    })
+  );
+});
+
+// Focus an open window on the notification's route, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (clientList) => {
+      for (const client of clientList) {
+        if (new URL(client.url).origin === self.location.origin) {
+          await client.focus();
+          return client.navigate(targetUrl);
+        }
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
+
+// Replay writes queued while offline (see src/outbox.ts). A rejected replay is
+// retried by the browser with backoff.
+self.addEventListener('sync', (event: any) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
@@ -14,21 +14,61 @@ export interface User {
   profilePictureUrl?: string | null; // Added for profile picture
 }
 
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface TimeRange {
+  start: string; // "HH:mm", local to the schedule's time zone
+  end: string; // "HH:mm", must be after start
+}
+
+export interface ScheduleException {
+  date: string; // "YYYY-MM-DD", local to the schedule's time zone
+  ranges: TimeRange[]; // Replaces the weekly hours for that day; empty means closed
+  note?: string; // e.g. "Public holiday"
+}
+
+export interface WeeklySchedule {
+  timeZone: string; // IANA zone, e.g. "Asia/Beirut"
+  weekly: Partial<Record<Weekday, TimeRange[]>>;
+  exceptions?: ScheduleException[];
+}
+
 export interface PracticeLocation {
   address: string;
   lat?: number; // Optional for now, for map integration
   lng?: number; // Optional for now, for map integration
   isPrimary?: boolean;
+  schedule?: WeeklySchedule; // Recurring opening hours at this location
 }
 
+export type CertificationStatus = 'pending' | 'approved' | 'rejected';
+export type LicenseExpiryState = 'expiring' | 'expired';
+
 export interface Certification {
   id: string;
   name: string;
-  fileUrl: string; // URL to the uploaded document
+  fileUrl: string; // URL to the uploaded document; empty for documents in private storage
+  filePath?: string | null; // Private storage path, opened through a signed URL
   uploadedAt: string; // ISO date string
   isVerified: boolean;
   verificationNotes?: string;
   country?: string; 
+  status?: CertificationStatus; // Review state; older certifications only carry isVerified
+  issuingBody?: string; // Licensing authority, e.g. SCFHS or DHA
+  licenseNumber?: string;
+  expiresAt?: string | null; // YYYY-MM-DD, valid through the end of that day
+  expiryState?: LicenseExpiryState | null; // Set by the API; 'expiring' within 30 days of expiresAt
+  isRequired?: boolean; // Set by the reviewer; optional credentials never hold back Therapist.isVerified
+  isQuarantined?: boolean; // Set by the API when the uploaded document failed the upload checks and was removed
+  therapistUserId?: string;
+  reviewerId?: string | null; // Admin assigned to review the certification
+  reviewerName?: string | null;
+  assignedAt?: string | null; // ISO date string
+  reviewedBy?: string | null;
+  reviewedAt?: string | null; // ISO date string
+  // Added by the admin review queue
+  therapistName?: string;
+  therapistEmail?: string;
 }
 
 export interface Therapist {
@@ -50,7 +90,8 @@ export interface Therapist {
   likes?: number; 
   certifications?: Certification[];
   isVerified?: boolean; 
-  availability?: string[]; 
+  availability?: string[]; // Legacy coarse tags, superseded by PracticeLocation.schedule
+  distanceKm?: number; // Only set on radius search results, distance to the closest location
   
   // New fields for account status and membership
   accountStatus: 'draft' | 'pending_approval' | 'live' | 'rejected';
@@ -61,6 +102,18 @@ export interface Therapist {
     statusMessage?: string; // e.g. "Awaiting admin review"
   };
   membershipRenewalDate?: string; // ISO date string, if membership is active
+  membershipStatus?: MembershipStatus['status']; // Set by billing; 'expired' once membershipRenewalDate passes
+  licenseWarnings?: LicenseWarning[]; // Added by the admin therapists list
+  updatedAt?: string; // Version of the saved profile; offline edits send it back as X-Base-Version
+}
+
+// A license that is expired or expiring soon, as flagged in the admin therapists list
+export interface LicenseWarning {
+  certificationId: string;
+  name: string;
+  expiresAt: string; // YYYY-MM-DD
+  expiryState: LicenseExpiryState;
+  isRequired: boolean;
 }
 
 export interface ClinicService { 
@@ -82,6 +135,16 @@ export interface ClinicSpaceListing {
   clinicId?: string; 
   clinicName?: string; 
   clinicAddress?: string;
+  schedule?: WeeklySchedule; // Bookable hours; spaces without one cannot be reserved
+  slotDurationMinutes?: number; // Length of one bookable slot, 60 if unset
+  blockedPeriods?: BlockedPeriod[]; // Periods the owner took off the booking calendar
+}
+
+export interface BlockedPeriod {
+  id: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  reason?: string;
 }
 
 export interface MembershipStatus {
@@ -90,6 +153,7 @@ export interface MembershipStatus {
   renewalDate?: string; 
   applicationDate?: string; 
   paymentReceiptUrl?: string; 
+  paymentId?: string; // Membership payment recorded when the clinic was approved
 }
 
 export interface MembershipHistoryItem {
@@ -99,6 +163,51 @@ export interface MembershipHistoryItem {
   details?: string; 
 }
 
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number; // Months
+  unitPrice: number; // Monthly fee
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  number: string; // e.g. "INV-2026-000042"
+  accountType: 'THERAPIST' | 'CLINIC';
+  accountId: string; // Therapist.id or Clinic.id
+  billedUserId: string;
+  billedName: string;
+  lineItems: InvoiceLineItem[];
+  currency: string;
+  subtotal: number;
+  total: number;
+  status: 'open' | 'paid' | 'void';
+  periodStart: string; // ISO date string
+  periodEnd: string; // ISO date string, the renewal date once paid
+  issuedAt: string; // ISO date string
+  dueAt: string; // ISO date string
+  paidAt?: string | null; // ISO date string
+  paymentId?: string | null;
+}
+
+// An entry in the payments ledger
+export interface MembershipPayment {
+  id: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  accountType: 'THERAPIST' | 'CLINIC';
+  accountId: string;
+  billedUserId: string;
+  amount: number;
+  currency: string;
+  method: 'bank_transfer' | 'manual';
+  receiptUrl?: string | null;
+  status: 'confirmed';
+  notes?: string | null;
+  recordedBy: string; // Admin User.id
+  createdAt: string; // ISO date string
+}
+
 export interface Clinic {
   id: string; // Unique ID for the clinic itself
   ownerId: string; // User.id of the clinic owner
@@ -127,9 +236,150 @@ export interface Review {
   therapistId: string;
   clientId: string;
   clientName: string;
+  therapistName?: string;
   rating: number; // 1-5
   comment: string;
   createdAt: string; // ISO date string
+  updatedAt?: string; // ISO date string
+  appointmentId?: string; // The completed appointment that made the client eligible to review
+  status: 'visible' | 'hidden'; // Hidden reviews are excluded from the therapist's rating
+  moderationNote?: string; // Admin's reason for hiding
+  moderatedBy?: string; // Admin User.id
+  moderatedAt?: string; // ISO date string
+}
+
+export type AppointmentStatus = 'requested' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+
+export interface Appointment {
+  id: string;
+  clientId: string;
+  clientName?: string;
+  therapistId: string;
+  therapistName?: string;
+  startTime: string; // ISO date string
+  durationMinutes: number;
+  location: PracticeLocation; // One of the therapist's practice locations
+  status: AppointmentStatus;
+  notes?: string; // Client's note to the therapist
+  cancellationReason?: string;
+  cancelledBy?: UserRole;
+  createdAt: string; // ISO date string
+  updatedAt?: string; // ISO date string
+}
+
+export type SpaceReservationStatus = 'requested' | 'accepted' | 'declined' | 'cancelled';
+
+export interface SpaceReservation {
+  id: string;
+  spaceId: string;
+  spaceName: string;
+  clinicId: string;
+  clinicName: string;
+  ownerId: string; // Clinic owner who accepts or declines the request
+  therapistId: string;
+  therapistName: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  rentalPrice: number; // Listing price when the reservation was made
+  rentalDuration: string;
+  status: SpaceReservationStatus;
+  notes?: string; // Therapist's note to the clinic owner
+  statusReason?: string; // Why it was declined or cancelled
+  statusChangedBy?: 'OWNER' | 'THERAPIST' | 'ADMIN';
+  createdAt: string; // ISO date string
+  updatedAt?: string; // ISO date string
+}
+
+// What GET /clinic_spaces/:id/calendar returns for the requested window
+export interface SpaceCalendarData {
+  timeZone: string;
+  reservations: SpaceReservation[];
+  blockedPeriods: BlockedPeriod[];
+  closures: { startTime: string; endTime: string }[]; // From the clinic's operating hours
+}
+
+export interface SpaceSlot {
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+  isAvailable: boolean;
+}
+
+export interface ConversationParticipant {
+  userId: string;
+  name: string;
+  role: UserRole;
+  profilePictureUrl?: string | null;
+}
+
+export interface ConversationContext {
+  type: 'therapist' | 'clinic_space';
+  id: string; // Therapist.id or ClinicSpaceListing.id the thread was started from
+  label?: string; // e.g. the space's name, shown in the thread header
+}
+
+export interface Conversation {
+  id: string; // Derived from the two participant IDs, so each pair has one thread
+  participantIds: string[];
+  participants: ConversationParticipant[];
+  context?: ConversationContext | null;
+  lastMessage?: {
+    text: string;
+    senderId: string;
+    sentAt: string; // ISO date string
+  } | null;
+  lastReadAt: Record<string, string>; // User.id -> ISO date string of their last read
+  unreadCounts: Record<string, number>; // User.id -> messages they haven't read yet
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+export interface MessageAttachment {
+  url: string;
+  path: string; // Storage path under message_attachments/{conversationId}/
+  name: string;
+  contentType: string;
+  size: number; // Bytes
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  text: string;
+  attachments?: MessageAttachment[];
+  createdAt: string; // ISO date string
+}
+
+export type NotificationType =
+  | 'account_approved'
+  | 'account_rejected'
+  | 'inquiry_answered'
+  | 'certification_verified'
+  | 'certification_rejected'
+  | 'certification_expiring'
+  | 'certification_expired'
+  | 'appointment_requested'
+  | 'appointment_confirmed'
+  | 'appointment_cancelled'
+  | 'review_received'
+  | 'membership_expiring'
+  | 'membership_expired'
+  | 'space_reservation_requested'
+  | 'space_reservation_accepted'
+  | 'space_reservation_declined'
+  | 'space_reservation_cancelled'
+  | 'clinic_approved'
+  | 'clinic_rejected';
+
+export interface Notification {
+  id: string;
+  userId: string; // Recipient
+  type: NotificationType;
+  params: Record<string, string | number>; // Placeholders for the `notification_{type}` translation
+  link?: string | null; // In-app route opened when the notification is clicked
+  isRead: boolean;
+  readAt?: string; // ISO date string
+  createdAt: string; // ISO date string
 }
 
 // For Admin Dashboard
@@ -147,13 +397,29 @@ export interface ActivityLog {
     userRole?: UserRole; // Role of user, if applicable
     action: string; // e.g., "Therapist Approved", "Clinic Rejected", "User Login"
     targetId?: string; // ID of the entity being acted upon (e.g., therapistId, clinicId)
-    targetType?: 'therapist' | 'clinic' | 'user_inquiry' | 'system' | 'user'; // Added 'user'
-    details?: Record<string, any> | string; // Additional context
+    targetType?: 'therapist' | 'clinic' | 'clinic_space' | 'user_inquiry' | 'system' | 'user' | 'review' | string; // Other API resources are logged by their path, e.g. 'appointments'
+    details?: Record<string, any> | string | null; // Additional context
+    changes?: Record<string, { before: any; after: any }> | null; // Fields changed by the action, recorded server-side
 }
 
 export interface UserManagementInfo extends User { // User already has profilePictureUrl
     lastLogin?: string;
-    isActive: boolean;
+    isActive: boolean; // False while the account is suspended (disabled in Firebase Auth)
+    createdAt?: string;
+    hasAuthAccount?: boolean; // False for users documents without a matching Firebase Auth account
+    suspendedAt?: string | null;
+    suspensionReason?: string | null;
+}
+
+export type LoginMethod = 'password' | 'google' | 'facebook';
+
+export interface LoginHistoryEntry {
+    id: string;
+    userId: string;
+    method: LoginMethod;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    createdAt: string; // ISO Date string
 }
 
 export interface UserInquiry {